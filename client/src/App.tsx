@@ -1,10 +1,11 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useParams, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useState, useEffect } from "react";
 import { useAuth } from "@/lib/auth";
+import { getPatientSession, ensurePatientSession } from "@/lib/patient-session";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
 import InjurySelection from "@/pages/injury-selection";
@@ -22,9 +23,11 @@ import DailyAssessments from "@/pages/daily-assessments";
 import ProgressCharts from "@/pages/progress-charts";
 import Header from "@/components/header";
 import Footer from "@/components/footer";
+import { ConsentGate } from "@/components/consent-gate";
 
 // Clinical Dashboard Components
 import ClinicalLogin from "@/pages/clinical-login";
+import ResetPassword from "@/pages/reset-password";
 import ClinicalDashboard from "@/pages/clinical-dashboard";
 import ClinicalPatients from "@/pages/clinical-patients";
 import PatientDashboard from "@/pages/patient-dashboard";
@@ -40,6 +43,7 @@ import PredictiveModeling from "@/pages/predictive-modeling";
 import ResearchDashboard from "@/pages/research-dashboard";
 import StudyProtocolCompliance from "@/pages/study-protocol-compliance";
 import ClinicalSettings from "@/pages/clinical-settings";
+import ClinicalAuditLog from "@/pages/clinical-audit-log";
 import ClinicalReports from "@/pages/clinical-reports";
 import PatientDailyDashboard from "@/pages/patient-daily-dashboard";
 import PatientAccess from "@/pages/patient-access";
@@ -63,28 +67,72 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+// Patient pages need a session scoped to the access code in the URL (or the
+// code verified on the landing page). Signed-in clinicians pass straight through.
+function storedPatientCode(): string | undefined {
+  const savedUser = sessionStorage.getItem('currentUser');
+  return getPatientSession()?.code ||
+    (savedUser ? JSON.parse(savedUser).code : undefined) ||
+    localStorage.getItem('currentUserCode') ||
+    undefined;
+}
+
+function PatientSessionRoute({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const params = useParams<{ code?: string; userCode?: string }>();
+  const [, setLocation] = useLocation();
+  const code = params.code || params.userCode || storedPatientCode();
+  const [ready, setReady] = useState(() => isAuthenticated || (!!code && getPatientSession()?.code === code));
+
+  useEffect(() => {
+    if (ready) return;
+    if (!code) {
+      setLocation('/');
+      return;
+    }
+
+    let cancelled = false;
+    ensurePatientSession(code)
+      .then(() => !cancelled && setReady(true))
+      .catch(() => !cancelled && setLocation('/'));
+    return () => {
+      cancelled = true;
+    };
+  }, [code, ready]);
+
+  if (!ready) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
+
 function LegacyRoutes() {
   return (
     <Switch>
       <Route path="/" component={Landing} />
-      <Route path="/overview" component={Overview} />
-      <Route path="/assessments" component={DailyAssessments} />
-      <Route path="/daily-assessments" component={DailyAssessments} />
-      <Route path="/progress" component={ProgressCharts} />
-      <Route path="/progress-charts" component={ProgressCharts} />
-      <Route path="/injury-selection" component={InjurySelection} />
-      <Route path="/assessment-list/:code" component={() => <AssessmentList />} />
+      <Route path="/overview" component={() => <PatientSessionRoute><Overview /></PatientSessionRoute>} />
+      <Route path="/assessments" component={() => <PatientSessionRoute><DailyAssessments /></PatientSessionRoute>} />
+      <Route path="/daily-assessments" component={() => <PatientSessionRoute><DailyAssessments /></PatientSessionRoute>} />
+      <Route path="/progress" component={() => <PatientSessionRoute><ProgressCharts /></PatientSessionRoute>} />
+      <Route path="/progress-charts" component={() => <PatientSessionRoute><ProgressCharts /></PatientSessionRoute>} />
+      <Route path="/injury-selection" component={() => <PatientSessionRoute><InjurySelection /></PatientSessionRoute>} />
+      <Route path="/assessment-list/:code" component={() => <PatientSessionRoute><AssessmentList /></PatientSessionRoute>} />
       <Route path="/demo" component={DemoAccess} />
-      <Route path="/assessment/:id/video" component={VideoInstruction} />
-      <Route path="/assessment/:id/video/:code" component={VideoInstruction} />
-      <Route path="/assessment/:id/record" component={Recording} />
-      <Route path="/assessment/:id/record/:code" component={Recording} />
-      <Route path="/assessment-results/:code/:userAssessmentId" component={AssessmentResults} />
-      <Route path="/wrist-results/:userCode/:userAssessmentId" component={WristResults} />
-      <Route path="/wrist-deviation-results/:userCode/:userAssessmentId" component={WristDeviationResults} />
+      <Route path="/assessment/:id/video" component={() => <PatientSessionRoute><VideoInstruction /></PatientSessionRoute>} />
+      <Route path="/assessment/:id/video/:code" component={() => <PatientSessionRoute><VideoInstruction /></PatientSessionRoute>} />
+      <Route path="/assessment/:id/record" component={() => <PatientSessionRoute><ConsentGate><Recording /></ConsentGate></PatientSessionRoute>} />
+      <Route path="/assessment/:id/record/:code" component={() => <PatientSessionRoute><ConsentGate><Recording /></ConsentGate></PatientSessionRoute>} />
+      <Route path="/assessment-results/:code/:userAssessmentId" component={() => <PatientSessionRoute><AssessmentResults /></PatientSessionRoute>} />
+      <Route path="/wrist-results/:userCode/:userAssessmentId" component={() => <PatientSessionRoute><WristResults /></PatientSessionRoute>} />
+      <Route path="/wrist-deviation-results/:userCode/:userAssessmentId" component={() => <PatientSessionRoute><WristDeviationResults /></PatientSessionRoute>} />
       <Route path="/joint-test" component={JointTest} />
       <Route path="/shared/:token" component={SharedAssessment} />
-      <Route path="/thank-you" component={ThankYou} />
+      <Route path="/thank-you" component={() => <PatientSessionRoute><ThankYou /></PatientSessionRoute>} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -97,9 +145,11 @@ function Router() {
       <Route path="/admin" component={AdminPortal} />
       <Route path="/admin/dashboard" component={AdminPortal} />
       <Route path="/admin/login" component={AdminPortal} />
+      <Route path="/admin/reset-password" component={() => <ResetPassword accountType="admin" />} />
       
       {/* Clinical Dashboard Routes */}
       <Route path="/clinical/login" component={ClinicalLogin} />
+      <Route path="/clinical/reset-password" component={() => <ResetPassword accountType="clinical" />} />
       <Route path="/clinical/dashboard" component={() => <ProtectedRoute><ClinicalLayout><ClinicalDashboard /></ClinicalLayout></ProtectedRoute>} />
       <Route path="/clinical/patient-dashboard" component={() => <ProtectedRoute><ClinicalLayout><PatientDashboard /></ClinicalLayout></ProtectedRoute>} />
       <Route path="/clinical/patient-enrollment" component={() => <ProtectedRoute><ClinicalLayout><PatientEnrollment /></ClinicalLayout></ProtectedRoute>} />
@@ -111,21 +161,22 @@ function Router() {
       <Route path="/clinical/analytics" component={() => <ProtectedRoute><ClinicalLayout><ClinicalAnalytics /></ClinicalLayout></ProtectedRoute>} />
       <Route path="/clinical/research" component={() => <ProtectedRoute><ClinicalLayout><ResearchDashboard /></ClinicalLayout></ProtectedRoute>} />
       <Route path="/clinical/reports" component={() => <ProtectedRoute><ClinicalLayout><ClinicalReports /></ClinicalLayout></ProtectedRoute>} />
+      <Route path="/clinical/settings/audit-log" component={() => <ProtectedRoute><ClinicalLayout><ClinicalAuditLog /></ClinicalLayout></ProtectedRoute>} />
       <Route path="/clinical/settings" component={() => <ProtectedRoute><ClinicalLayout><ClinicalSettings /></ClinicalLayout></ProtectedRoute>} />
       <Route path="/clinical/alerts" component={() => <ProtectedRoute><ClinicalLayout><ClinicalAlerts /></ClinicalLayout></ProtectedRoute>} />
       <Route path="/clinical/patients/:id" component={() => <ProtectedRoute><ClinicalLayout><PatientDetail /></ClinicalLayout></ProtectedRoute>} />
       <Route path="/clinical/patients" component={() => <ProtectedRoute><ClinicalLayout><ClinicalPatients /></ClinicalLayout></ProtectedRoute>} />
       <Route path="/clinical" component={() => <ProtectedRoute><ClinicalLayout><ClinicalDashboard /></ClinicalLayout></ProtectedRoute>} />
-      <Route path="/patient/:code/dashboard" component={() => <PatientDailyDashboard />} />
-      <Route path="/patient/:code/progress" component={() => <ProgressCharts />} />
-      <Route path="/patient/:code/dash-assessment" component={() => <DashAssessmentPage />} />
-      <Route path="/patient/:userCode/dash-results/:assessmentId" component={() => <DashResults />} />
-      <Route path="/patient/:code" component={() => <PatientDailyDashboard />} />
-      <Route path="/assessment-list/:userCode" component={() => <PatientDailyDashboard />} />
-      <Route path="/assessment-history/:userCode" component={() => <AssessmentHistory />} />
-      <Route path="/patient/:userCode/history" component={() => <AssessmentHistory />} />
-      <Route path="/patient/:userCode/motion-replay/:assessmentId" component={() => <PatientMotionReplay />} />
-      <Route path="/patient/:userCode/dash-answers/:assessmentId" component={() => <PatientDashAnswers />} />
+      <Route path="/patient/:code/dashboard" component={() => <PatientSessionRoute><PatientDailyDashboard /></PatientSessionRoute>} />
+      <Route path="/patient/:code/progress" component={() => <PatientSessionRoute><ProgressCharts /></PatientSessionRoute>} />
+      <Route path="/patient/:code/dash-assessment" component={() => <PatientSessionRoute><ConsentGate><DashAssessmentPage /></ConsentGate></PatientSessionRoute>} />
+      <Route path="/patient/:userCode/dash-results/:assessmentId" component={() => <PatientSessionRoute><DashResults /></PatientSessionRoute>} />
+      <Route path="/patient/:code" component={() => <PatientSessionRoute><PatientDailyDashboard /></PatientSessionRoute>} />
+      <Route path="/assessment-list/:userCode" component={() => <PatientSessionRoute><PatientDailyDashboard /></PatientSessionRoute>} />
+      <Route path="/assessment-history/:userCode" component={() => <PatientSessionRoute><AssessmentHistory /></PatientSessionRoute>} />
+      <Route path="/patient/:userCode/history" component={() => <PatientSessionRoute><AssessmentHistory /></PatientSessionRoute>} />
+      <Route path="/patient/:userCode/motion-replay/:assessmentId" component={() => <PatientSessionRoute><PatientMotionReplay /></PatientSessionRoute>} />
+      <Route path="/patient/:userCode/dash-answers/:assessmentId" component={() => <PatientSessionRoute><PatientDashAnswers /></PatientSessionRoute>} />
       <Route path="/patient" component={() => <PatientAccess />} />
       <Route>
         <div className="min-h-screen bg-white">
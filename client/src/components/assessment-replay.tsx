@@ -1,13 +1,14 @@
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Play, Pause, RotateCcw, Download } from "lucide-react";
-import { calculateFingerROM, type JointAngles } from "@shared/rom-calculator";
-import { calculateKapandjiScore, calculateMaxKapandjiScore, type KapandjiScore } from "@shared/kapandji-calculator";
+import { calculateAllFingersMaxROM, calculateFingerROM, calculateThumbROM, calculateThumbMaxROM, inferPalmSide, type FingerMotionRange, type JointAngles, type JointMotionRange, type PalmSide, type ThumbAngles } from "@shared/rom-calculator";
+import { calculateKapandjiScore, calculateMaxKapandjiScore, DEFAULT_KAPANDJI_OPTIONS, KAPANDJI_BORDERLINE_CONFIDENCE, type KapandjiOptions, type KapandjiScore } from "@shared/kapandji-calculator";
 import { calculateWristAngleByHandType, calculateElbowReferencedWristAngleWithForce, getRecordingSessionElbowSelection, setReplayMode, type ElbowWristAngles } from "@shared/elbow-wrist-calculator";
 import { calculateWristDeviation } from "@shared/rom-calculator";
 import { calculateWristResults } from "@shared/wrist-results-calculator";
+import { calculateForearmRotation, calculateForearmRotationResults, type ForearmRotationFrame, type ForearmRotationResultsData } from "@shared/forearm-rotation-calculator";
 // Remove the import since we'll load the image directly
 
 interface ReplayData {
@@ -51,6 +52,8 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
                                             assessmentName?.toLowerCase().includes("wrist")) &&
                                            !isWristDeviationAssessment;
   const isWristAssessment = isWristFlexionExtensionAssessment || isWristDeviationAssessment;
+  const isForearmRotationAssessment = assessmentName?.toLowerCase().includes("pronation") ||
+                                     assessmentName?.toLowerCase().includes("supination");
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -61,7 +64,11 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
   const [maxROM, setMaxROM] = useState<JointAngles | null>(null);
   const [selectedDigit, setSelectedDigit] = useState<'INDEX' | 'MIDDLE' | 'RING' | 'PINKY'>('INDEX');
   const [allDigitsROM, setAllDigitsROM] = useState<{[key: string]: JointAngles} | null>(null);
+  const [motionRanges, setMotionRanges] = useState<{[key: string]: FingerMotionRange} | null>(null);
+  const [currentThumbROM, setCurrentThumbROM] = useState<ThumbAngles | null>(null);
+  const [maxThumbROM, setMaxThumbROM] = useState<ThumbAngles | null>(null);
   const [kapandjiScore, setKapandjiScore] = useState<KapandjiScore | null>(null);
+  const [kapandjiSession, setKapandjiSession] = useState<KapandjiScore | null>(null);
   const [sessionHandType, setSessionHandType] = useState<'LEFT' | 'RIGHT' | 'UNKNOWN'>('UNKNOWN');
 
   // Get assessment data for hand type information
@@ -82,6 +89,10 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
   const [maxWristAngles, setMaxWristAngles] = useState<ElbowWristAngles | null>(null);
   const [authoritativeWristResults, setAuthoritativeWristResults] = useState<any>(null);
   
+  // Forearm rotation state variables
+  const [currentForearmRotation, setCurrentForearmRotation] = useState<ForearmRotationFrame | null>(null);
+  const [forearmRotationResults, setForearmRotationResults] = useState<ForearmRotationResultsData | null>(null);
+  
   // Fetch real motion data if userAssessmentId is provided
   const { data: motionData, isLoading } = useQuery({
     queryKey: [`/api/user-assessments/${userAssessmentId}/motion-data`],
@@ -91,6 +102,11 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
   // Use actual recorded motion data or provided recording data
   const actualMotionData = (motionData as any)?.motionData || recordingData;
   const replayData: ReplayData[] = actualMotionData.length > 0 ? actualMotionData : [];
+  // The server's Kapandji settings come with the motion data, so the replay scores as the recording was scored
+  const kapandjiOptions: KapandjiOptions = (motionData as any)?.kapandjiOptions || DEFAULT_KAPANDJI_OPTIONS;
+
+  // Inferred once per recording so every frame signs flexion and hyperextension the same way
+  const palmSide: PalmSide = useMemo(() => inferPalmSide(replayData), [replayData]);
 
   // Load Exer logo image
   useEffect(() => {
@@ -107,15 +123,34 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
       if (isKapandjiAssessment) {
         // Calculate Kapandji scores for all frames
         const kapandjiFrames = replayData.map(frame => ({
-          landmarks: frame.landmarks
+          landmarks: frame.landmarks,
+          timestamp: frame.timestamp
         }));
         
         // Calculate maximum Kapandji score across all frames
-        const maxKapandji = calculateMaxKapandjiScore(kapandjiFrames);
+        const maxKapandji = calculateMaxKapandjiScore(kapandjiFrames, kapandjiOptions);
         setKapandjiScore(maxKapandji);
+        setKapandjiSession(maxKapandji);
         
         // Set frame to the one with the best score
         setCurrentFrame(0); // Start from beginning for Kapandji
+      } else if (isForearmRotationAssessment) {
+        // Session hand type picks the elbow and the rotation sign
+        const recordedHandType = replayData.find(f => f.sessionHandType && f.sessionHandType !== 'UNKNOWN')?.sessionHandType ||
+                                 (userAssessment?.handType && userAssessment.handType !== 'UNKNOWN' ? userAssessment.handType : null) ||
+                                 (replayData.find(f => f.handedness && f.handedness !== 'UNKNOWN')?.handedness.toUpperCase() as 'LEFT' | 'RIGHT' | undefined) ||
+                                 'RIGHT';
+        setSessionHandType(recordedHandType);
+        
+        // Same calculation the complete endpoint stores
+        const results = calculateForearmRotationResults({
+          handType: recordedHandType,
+          repetitionData: [{ motionData: replayData }]
+        });
+        setForearmRotationResults(results);
+        console.log(`REPLAY: ${recordedHandType} forearm - Max Pronation: ${results.maxPronation.toFixed(1)}°, Max Supination: ${results.maxSupination.toFixed(1)}°`);
+        
+        setCurrentFrame(0);
       } else if (isWristAssessment) {
         // Use recorded session data instead of recalculating to preserve hand type
         
@@ -249,10 +284,10 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
       } else {
         // Calculate ROM for all digits and frames (existing TAM logic)
         const allFramesAllDigits = replayData.map(frame => ({
-          INDEX: calculateFingerROM(frame.landmarks, 'INDEX'),
-          MIDDLE: calculateFingerROM(frame.landmarks, 'MIDDLE'),
-          RING: calculateFingerROM(frame.landmarks, 'RING'),
-          PINKY: calculateFingerROM(frame.landmarks, 'PINKY')
+          INDEX: calculateFingerROM(frame.landmarks, 'INDEX', palmSide),
+          MIDDLE: calculateFingerROM(frame.landmarks, 'MIDDLE', palmSide),
+          RING: calculateFingerROM(frame.landmarks, 'RING', palmSide),
+          PINKY: calculateFingerROM(frame.landmarks, 'PINKY', palmSide)
         }));
         
         // Find maximum ROM for each digit across all frames
@@ -275,8 +310,17 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
         )
       };
       
-      setAllDigitsROM(maxROMByDigit);
+      // Digit TAMs as reported: flexion minus extension lag, same as the results page
+      const sessionROM = calculateAllFingersMaxROM(replayData, palmSide);
+      setAllDigitsROM({
+        INDEX: sessionROM.index,
+        MIDDLE: sessionROM.middle,
+        RING: sessionROM.ring,
+        PINKY: sessionROM.pinky
+      });
+      setMotionRanges(sessionROM.motionRange);
       setMaxROM(maxROMByDigit[selectedDigit]);
+      setMaxThumbROM(calculateThumbMaxROM(replayData).thumb);
       
       // Find the frame indices with maximum and minimum TAM for selected digit
       const selectedDigitFrames = allFramesAllDigits.map(frame => frame[selectedDigit]);
@@ -300,7 +344,7 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
         setCurrentFrame(maxTamFrameIndex >= 0 ? maxTamFrameIndex : 0);
       }
     }
-  }, [replayData, selectedDigit, isKapandjiAssessment]);
+  }, [replayData, selectedDigit, isKapandjiAssessment, palmSide, kapandjiOptions]);
 
   // Cleanup replay mode when component unmounts
   useEffect(() => {
@@ -333,8 +377,12 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
       if (frame.landmarks && frame.landmarks.length >= 21) {
         if (isKapandjiAssessment) {
           // Calculate current Kapandji score for this frame
-          const currentKapandji = calculateKapandjiScore(frame.landmarks);
+          const currentKapandji = calculateKapandjiScore(frame.landmarks, kapandjiOptions);
           setKapandjiScore(currentKapandji);
+        } else if (isForearmRotationAssessment) {
+          setCurrentForearmRotation(frame.poseLandmarks
+            ? calculateForearmRotation(frame.poseLandmarks, frame.landmarks, sessionHandType === 'LEFT')
+            : null);
         } else if (isWristAssessment) {
           // Use recorded session hand type consistently
           let currentWrist = {
@@ -424,12 +472,13 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
           setCurrentWristAngles(currentWrist);
         } else {
           // Calculate ROM for standard assessments
-          const rom = calculateFingerROM(frame.landmarks, selectedDigit);
+          const rom = calculateFingerROM(frame.landmarks, selectedDigit, palmSide);
           setCurrentROM(rom);
+          setCurrentThumbROM(calculateThumbROM(frame.landmarks));
         }
       }
     }
-  }, [currentFrame, replayData, selectedDigit, isKapandjiAssessment]);
+  }, [currentFrame, replayData, selectedDigit, isKapandjiAssessment, sessionHandType, palmSide, kapandjiOptions]);
 
   // Draw hand landmarks and connections on canvas
   const drawHandLandmarks = (ctx: CanvasRenderingContext2D, landmarks: Array<{x: number, y: number, z: number}>, canvasWidth: number, canvasHeight: number) => {
@@ -732,7 +781,7 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
 
     // Calculate and update current ROM for this frame using selected digit
     if (frame.landmarks && frame.landmarks.length >= 21) {
-      const romData = calculateFingerROM(frame.landmarks, selectedDigit);
+      const romData = calculateFingerROM(frame.landmarks, selectedDigit, palmSide);
       setCurrentROM(romData);
     }
 
@@ -1002,7 +1051,7 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
 
     // Draw Kapandji scoring overlay for Kapandji assessments
     if (isKapandjiAssessment && frame.landmarks && frame.landmarks.length >= 21) {
-      const currentKapandji = calculateKapandjiScore(frame.landmarks);
+      const currentKapandji = calculateKapandjiScore(frame.landmarks, kapandjiOptions);
       
 
       
@@ -1543,6 +1592,155 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
       }
     }
 
+    // Draw forearm rotation information for pronation/supination assessments
+    if (isForearmRotationAssessment) {
+      const rotationBoxX = 20;
+      const rotationBoxY = canvas.height - 200;
+      const rotationBoxWidth = 260;
+      const rotationBoxHeight = 165;
+      
+      // Semi-transparent background
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+      ctx.fillRect(rotationBoxX, rotationBoxY, rotationBoxWidth, rotationBoxHeight);
+      
+      // Border
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(rotationBoxX, rotationBoxY, rotationBoxWidth, rotationBoxHeight);
+      
+      ctx.fillStyle = '#ffffff';
+      ctx.font = 'bold 14px Arial';
+      ctx.fillText('Forearm Rotation Analysis', rotationBoxX + 10, rotationBoxY + 20);
+      
+      if (currentForearmRotation) {
+        // Current rotation from neutral (thumb up)
+        ctx.fillStyle = '#10b981';
+        ctx.font = 'bold 16px Arial';
+        ctx.fillText(`Rotation: ${currentForearmRotation.rotationAngle.toFixed(1)}°`, rotationBoxX + 10, rotationBoxY + 45);
+        
+        // Pronation
+        ctx.fillStyle = currentForearmRotation.pronationAngle > 0 ? '#f97316' : '#6b7280';
+        ctx.font = '12px Arial';
+        ctx.fillText(`Pronation: ${currentForearmRotation.pronationAngle.toFixed(1)}°`, rotationBoxX + 10, rotationBoxY + 70);
+        
+        // Supination
+        ctx.fillStyle = currentForearmRotation.supinationAngle > 0 ? '#8b5cf6' : '#6b7280';
+        ctx.fillText(`Supination: ${currentForearmRotation.supinationAngle.toFixed(1)}°`, rotationBoxX + 130, rotationBoxY + 70);
+        
+        ctx.fillStyle = '#9ca3af';
+        ctx.font = '11px Arial';
+        ctx.fillText(`Hand: ${sessionHandType}`, rotationBoxX + 10, rotationBoxY + 95);
+        ctx.fillText(`Confidence: ${(currentForearmRotation.confidence * 100).toFixed(1)}%`, rotationBoxX + 130, rotationBoxY + 95);
+      } else {
+        ctx.fillStyle = '#9ca3af';
+        ctx.font = '12px Arial';
+        ctx.fillText('Forearm not measurable in this frame', rotationBoxX + 10, rotationBoxY + 45);
+      }
+      
+      // Session maximums from the motion replay
+      if (forearmRotationResults) {
+        ctx.fillStyle = '#ffffff';
+        ctx.font = 'bold 11px Arial';
+        ctx.fillText('Session Maximum (Motion Replay):', rotationBoxX + 10, rotationBoxY + 120);
+        
+        ctx.fillStyle = '#f97316';
+        ctx.font = '10px Arial';
+        ctx.fillText(`Max Pronation: ${forearmRotationResults.maxPronation.toFixed(1)}°`, rotationBoxX + 10, rotationBoxY + 135);
+        
+        ctx.fillStyle = '#8b5cf6';
+        ctx.fillText(`Max Supination: ${forearmRotationResults.maxSupination.toFixed(1)}°`, rotationBoxX + 130, rotationBoxY + 135);
+        
+        ctx.fillStyle = '#10b981';
+        ctx.fillText(`Total Rotation ROM: ${forearmRotationResults.totalRotationROM.toFixed(1)}°`, rotationBoxX + 10, rotationBoxY + 150);
+      }
+      
+      // Forearm axis and rotation dial at the wrist
+      const elbowIndex = sessionHandType === 'LEFT' ? 13 : 14;
+      const wristIndex = sessionHandType === 'LEFT' ? 15 : 16;
+      const poseElbow = frame.poseLandmarks?.[elbowIndex];
+      const poseWrist = frame.poseLandmarks?.[wristIndex];
+      const dialCenter = frame.landmarks && frame.landmarks.length >= 21 ? frame.landmarks[0] : poseWrist;
+      
+      if (poseElbow && dialCenter && (poseElbow.visibility || 1) > 0.5) {
+        const elbowX = poseElbow.x * canvas.width;
+        const elbowY = poseElbow.y * canvas.height;
+        const wristX = dialCenter.x * canvas.width;
+        const wristY = dialCenter.y * canvas.height;
+        
+        // Forearm axis (elbow to wrist)
+        ctx.strokeStyle = '#3b82f6';
+        ctx.lineWidth = 4;
+        ctx.setLineDash([]);
+        ctx.beginPath();
+        ctx.moveTo(elbowX, elbowY);
+        ctx.lineTo(wristX, wristY);
+        ctx.stroke();
+        
+        ctx.fillStyle = '#3b82f6';
+        ctx.beginPath();
+        ctx.arc(elbowX, elbowY, 10, 0, 2 * Math.PI);
+        ctx.fill();
+        
+        ctx.fillStyle = '#ffffff';
+        ctx.font = 'bold 12px Arial';
+        ctx.fillText('ELBOW', elbowX - 25, elbowY - 15);
+        
+        // Dial seen down the forearm: neutral (thumb up) points up, supination turns
+        // clockwise on screen and pronation counter-clockwise
+        const dialRadius = 45;
+        const neutralAngle = -Math.PI / 2;
+        
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(wristX, wristY, dialRadius, 0, 2 * Math.PI);
+        ctx.stroke();
+        
+        // Neutral reference
+        ctx.strokeStyle = '#fbbf24';
+        ctx.setLineDash([6, 4]);
+        ctx.beginPath();
+        ctx.moveTo(wristX, wristY);
+        ctx.lineTo(wristX, wristY - dialRadius - 10);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        
+        if (currentForearmRotation) {
+          const rotation = currentForearmRotation.rotationAngle * Math.PI / 180;
+          const isSupinated = currentForearmRotation.rotationAngle > 0;
+          
+          // Arc from neutral to the current palm normal
+          ctx.strokeStyle = isSupinated ? '#8b5cf6' : '#f97316';
+          ctx.lineWidth = 4;
+          ctx.beginPath();
+          ctx.arc(wristX, wristY, dialRadius, Math.min(neutralAngle, neutralAngle + rotation), Math.max(neutralAngle, neutralAngle + rotation));
+          ctx.stroke();
+          
+          // Palm normal needle
+          const needleX = wristX + Math.cos(neutralAngle + rotation) * dialRadius;
+          const needleY = wristY + Math.sin(neutralAngle + rotation) * dialRadius;
+          ctx.lineWidth = 3;
+          ctx.beginPath();
+          ctx.moveTo(wristX, wristY);
+          ctx.lineTo(needleX, needleY);
+          ctx.stroke();
+          
+          ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+          ctx.fillRect(wristX + dialRadius + 8, wristY - 12, 130, 20);
+          ctx.fillStyle = isSupinated ? '#8b5cf6' : (currentForearmRotation.rotationAngle < 0 ? '#f97316' : '#10b981');
+          ctx.font = 'bold 12px Arial';
+          const rotationLabel = currentForearmRotation.rotationAngle > 0 ? 'SUPINATION' :
+                                currentForearmRotation.rotationAngle < 0 ? 'PRONATION' : 'NEUTRAL';
+          ctx.fillText(`${Math.abs(currentForearmRotation.rotationAngle).toFixed(1)}° ${rotationLabel}`, wristX + dialRadius + 12, wristY + 3);
+        }
+        
+        ctx.fillStyle = '#ef4444';
+        ctx.beginPath();
+        ctx.arc(wristX, wristY, 8, 0, 2 * Math.PI);
+        ctx.fill();
+      }
+    }
+
     // Draw timeline scrubber overlay at bottom of canvas
     const timelineHeight = 30;
     const timelineY = canvas.height - timelineHeight;
@@ -1816,7 +2014,7 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
 
                 {/* Settings Controls */}
                 <div className="flex flex-wrap items-center gap-4">
-                  {!isWristAssessment && (
+                  {!isWristAssessment && !isForearmRotationAssessment && (
                     <>
                       <div className="flex items-center gap-2">
                         <label className="text-sm font-semibold text-gray-900">Digit:</label>
@@ -1847,11 +2045,11 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
                     </>
                   )}
                   
-                  {isWristAssessment && (
+                  {(isWristAssessment || isForearmRotationAssessment) && (
                     <div className="flex items-center gap-2">
                       <label className="text-sm font-semibold text-gray-900">View Mode:</label>
                       <span className="px-3 py-2 bg-blue-100 text-blue-800 rounded-md font-medium text-sm">
-                        Wrist Analysis
+                        {isForearmRotationAssessment ? 'Forearm Rotation Analysis' : 'Wrist Analysis'}
                       </span>
                     </div>
                   )}
@@ -1913,6 +2111,38 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
               </div>
             </div>
 
+            {/* Kapandji contact detail - closest approach to each target, to review borderline scores */}
+            {isKapandjiAssessment && kapandjiSession?.targets && kapandjiSession.targets.length > 0 && (
+              <div className="bg-gray-100 border border-gray-200 p-4 rounded-lg">
+                <div className="flex justify-between items-center mb-3">
+                  <h4 className="font-medium text-gray-900">Kapandji Contact Detail - Session Score {kapandjiSession.maxScore}/10</h4>
+                  <span className="text-xs text-gray-600">
+                    Contact within {kapandjiOptions.contactRatio} palm lengths for {kapandjiOptions.dwellMs}+ ms
+                  </span>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                  {kapandjiSession.targets.map(target => {
+                    const isBorderline = target.confidence < KAPANDJI_BORDERLINE_CONFIDENCE;
+                    return (
+                      <div key={target.key} className={`bg-white p-2 rounded border flex justify-between items-center ${
+                        isBorderline ? 'border-yellow-400 bg-yellow-50' : ''
+                      }`}>
+                        <span className="text-gray-900">
+                          <span className={`font-bold mr-2 ${target.reached ? 'text-green-600' : 'text-gray-400'}`}>{target.score}</span>
+                          {target.name}
+                        </span>
+                        <span className="text-xs text-gray-700 text-right">
+                          {target.minDistance !== null ? `${target.minDistance.toFixed(2)} palm` : 'N/A'}
+                          {' • '}{target.longestContactMs} ms
+                          {' • '}{Math.round(target.confidence * 100)}% {isBorderline ? '(borderline)' : ''}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Live ROM Data Display - only show for TAM assessments, not Kapandji */}
             {currentROM && !assessmentName.toLowerCase().includes('kapandji') && (
               <div className="bg-blue-50 border border-blue-200 p-4 rounded-lg">
@@ -1953,6 +2183,99 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
               </div>
             )}
 
+            {/* Extension lag per joint for the selected digit - TAM assessments */}
+            {motionRanges?.[selectedDigit.toLowerCase()] && !assessmentName.toLowerCase().includes('kapandji') && (() => {
+              const range = motionRanges[selectedDigit.toLowerCase()];
+              const jumpTo = (frame: number) => {
+                if (frame >= 0) {
+                  setCurrentFrame(frame);
+                  setIsPlaying(false);
+                }
+              };
+              return (
+                <div className="bg-orange-50 border border-orange-200 p-4 rounded-lg">
+                  <h4 className="font-medium mb-3 text-gray-900">
+                    Extension Lag - {selectedDigit.charAt(0) + selectedDigit.slice(1).toLowerCase()} Finger
+                  </h4>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                    {([['MCP', range.mcp], ['PIP', range.pip], ['DIP', range.dip]] as Array<[string, JointMotionRange]>).map(([joint, jointRange]) => (
+                      <div key={joint} className="bg-white p-3 rounded border space-y-2">
+                        <span className="text-gray-800 block">{joint} Joint:</span>
+                        <div className="flex justify-between items-center">
+                          <span className="text-xs text-gray-700">Max flexion: {Math.round(jointRange.maxFlexion)}°</span>
+                          <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => jumpTo(jointRange.maxFlexionFrame)} title={`Jump to frame ${jointRange.maxFlexionFrame + 1}`}>
+                            View
+                          </Button>
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span className={`text-xs ${jointRange.extensionLag > 0 ? 'text-orange-600 font-medium' : 'text-gray-700'}`}>
+                            {jointRange.extensionLag > 0
+                              ? `Extension lag: ${Math.round(jointRange.extensionLag)}°`
+                              : jointRange.hyperextension > 0
+                                ? `Hyperextension: ${Math.round(jointRange.hyperextension)}°`
+                                : 'Full extension'}
+                          </span>
+                          <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => jumpTo(jointRange.maxExtensionFrame)} title={`Jump to frame ${jointRange.maxExtensionFrame + 1}`}>
+                            View
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-700 mt-3">
+                    TAM = flexion {Math.round(range.totalFlexion)}° − extension lag {Math.round(range.totalExtensionLag)}° = {Math.round(range.totalActiveMotion)}°
+                  </div>
+                </div>
+              );
+            })()}
+
+            {/* Live Thumb Data - TAM assessments */}
+            {currentThumbROM && !assessmentName.toLowerCase().includes('kapandji') && (
+              <div className="bg-blue-50 border border-blue-200 p-4 rounded-lg">
+                <h4 className="font-medium mb-3 flex items-center text-gray-900">
+                  <span className="w-2 h-2 bg-green-500 rounded-full mr-2 animate-pulse"></span>
+                  Live Joint Angles - Thumb
+                </h4>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                  <div className="bg-white p-3 rounded border">
+                    <span className="text-gray-800 block">MP Joint:</span>
+                    <div className="font-bold text-lg text-blue-600">{Math.round(currentThumbROM.mpAngle)}°</div>
+                    {maxThumbROM && (
+                      <div className="text-xs text-gray-700">Max: {Math.round(maxThumbROM.mpAngle)}°</div>
+                    )}
+                  </div>
+                  <div className="bg-white p-3 rounded border">
+                    <span className="text-gray-800 block">IP Joint:</span>
+                    <div className="font-bold text-lg text-green-600">{Math.round(currentThumbROM.ipAngle)}°</div>
+                    {maxThumbROM && (
+                      <div className="text-xs text-gray-700">Max: {Math.round(maxThumbROM.ipAngle)}°</div>
+                    )}
+                  </div>
+                  <div className="bg-white p-3 rounded border">
+                    <span className="text-gray-800 block">Radial Abd.:</span>
+                    <div className="font-bold text-lg text-purple-600">{Math.round(currentThumbROM.cmcRadialAbduction)}°</div>
+                    {maxThumbROM && (
+                      <div className="text-xs text-gray-700">Max: {Math.round(maxThumbROM.cmcRadialAbduction)}°</div>
+                    )}
+                  </div>
+                  <div className="bg-white p-3 rounded border">
+                    <span className="text-gray-800 block">Palmar Abd.:</span>
+                    <div className="font-bold text-lg text-purple-600">{Math.round(currentThumbROM.cmcPalmarAbduction)}°</div>
+                    {maxThumbROM && (
+                      <div className="text-xs text-gray-700">Max: {Math.round(maxThumbROM.cmcPalmarAbduction)}°</div>
+                    )}
+                  </div>
+                  <div className="bg-white p-3 rounded border">
+                    <span className="text-gray-800 block">Thumb TAM:</span>
+                    <div className="font-bold text-lg text-gray-900">{Math.round(currentThumbROM.totalActiveRom)}°</div>
+                    {maxThumbROM && (
+                      <div className="text-xs text-gray-700">Max: {Math.round(maxThumbROM.totalActiveRom)}°</div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Wrist Assessment Data */}
             {isWristAssessment && currentWristAngles && (
               <div className="bg-gray-100 border border-gray-200 p-4 rounded-lg">
@@ -2041,6 +2364,74 @@ export default function AssessmentReplay({ assessmentName, userAssessmentId, rec
               </div>
             )}
 
+            {/* Forearm Rotation Data */}
+            {isForearmRotationAssessment && (
+              <div className="bg-gray-100 border border-gray-200 p-4 rounded-lg">
+                <h4 className="font-medium mb-3 text-gray-900">Forearm Rotation Analysis</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="bg-white p-4 rounded border">
+                    <div className="flex justify-between items-center mb-3">
+                      <span className="font-medium text-gray-900">Current Frame</span>
+                      <span className="text-sm text-gray-600">Frame {currentFrame + 1}</span>
+                    </div>
+                    
+                    {currentForearmRotation ? (
+                      <div className="space-y-3">
+                        <div className="flex justify-between">
+                          <span className="text-gray-700">Rotation:</span>
+                          <span className="font-bold text-green-600">{currentForearmRotation.rotationAngle.toFixed(1)}°</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-700">Pronation:</span>
+                          <span className={`font-bold ${currentForearmRotation.pronationAngle > 0 ? 'text-orange-600' : 'text-gray-400'}`}>
+                            {currentForearmRotation.pronationAngle.toFixed(1)}°
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-700">Supination:</span>
+                          <span className={`font-bold ${currentForearmRotation.supinationAngle > 0 ? 'text-purple-600' : 'text-gray-400'}`}>
+                            {currentForearmRotation.supinationAngle.toFixed(1)}°
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-700">Confidence:</span>
+                          <span className="font-medium text-gray-900">{(currentForearmRotation.confidence * 100).toFixed(1)}%</span>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="text-sm text-gray-500">Elbow or hand not tracked in this frame</div>
+                    )}
+                  </div>
+                  
+                  <div className="bg-white p-4 rounded border">
+                    <div className="flex justify-between items-center mb-3">
+                      <span className="font-medium text-gray-900">Session Maximum</span>
+                      <span className="text-sm text-gray-600">{forearmRotationResults?.frameCount || 0} frames</span>
+                    </div>
+                    
+                    <div className="space-y-3">
+                      <div className="flex justify-between">
+                        <span className="text-gray-700">Max Pronation:</span>
+                        <span className="font-bold text-orange-600">{forearmRotationResults?.maxPronation.toFixed(1) || '0.0'}°</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-700">Max Supination:</span>
+                        <span className="font-bold text-purple-600">{forearmRotationResults?.maxSupination.toFixed(1) || '0.0'}°</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-700">Total ROM:</span>
+                        <span className="font-bold text-green-600">{forearmRotationResults?.totalRotationROM.toFixed(1) || '0.0'}°</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-700">Hand Type:</span>
+                        <span className="font-medium text-gray-900">{sessionHandType}</span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Comprehensive Multi-Digit ROM Analysis */}
             {allDigitsROM && (
               <div className="bg-gray-100 border border-gray-200 p-4 rounded-lg">
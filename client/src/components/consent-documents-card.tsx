@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { FileSignature, Loader2 } from "lucide-react";
+
+interface ConsentDocument {
+  id: number;
+  version: string;
+  title: string;
+  body: string;
+  publishedAt: string | null;
+  createdAt: string;
+}
+
+const emptyDraft = { version: '', title: '', body: '' };
+
+function adminHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${sessionStorage.getItem('adminToken')}`,
+    'Content-Type': 'application/json'
+  };
+}
+
+// Admin management of consent document versions. Publishing a draft makes it the
+// current version, after which every patient must sign it before recording again.
+export function ConsentDocumentsCard() {
+  const [documents, setDocuments] = useState<ConsentDocument[]>([]);
+  const [currentId, setCurrentId] = useState<number | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchDocuments = async () => {
+    try {
+      const response = await fetch('/api/admin/consent-documents', { headers: adminHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setDocuments(data.documents);
+        setCurrentId(data.currentId);
+      }
+    } catch (error) {
+      console.error('Failed to fetch consent documents:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchDocuments();
+  }, []);
+
+  const startDraft = (document?: ConsentDocument) => {
+    setEditingId(document?.id ?? null);
+    setDraft(document ? { version: document.version, title: document.title, body: document.body } : emptyDraft);
+    setShowForm(true);
+  };
+
+  const saveDraft = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(
+        editingId ? `/api/admin/consent-documents/${editingId}` : '/api/admin/consent-documents',
+        { method: editingId ? 'PUT' : 'POST', headers: adminHeaders(), body: JSON.stringify(draft) }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save consent document');
+      }
+      setShowForm(false);
+      setEditingId(null);
+      setDraft(emptyDraft);
+      fetchDocuments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save consent document",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const publish = async (document: ConsentDocument) => {
+    if (!confirm(`Publish version ${document.version}? All patients will be asked to consent again before their next recording.`)) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/admin/consent-documents/${document.id}/publish`, {
+        method: 'POST',
+        headers: adminHeaders()
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to publish consent document');
+      }
+      toast({
+        title: "Consent version published",
+        description: `Version ${document.version} is now required before recording`
+      });
+      fetchDocuments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to publish consent document",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card style={{ backgroundColor: '#FFFFFF' }}>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileSignature className="h-5 w-5" />
+              Consent Documents
+            </CardTitle>
+            <CardDescription>
+              Patients must sign the current published version before recording.
+            </CardDescription>
+          </div>
+          {!showForm && (
+            <Button onClick={() => startDraft()} variant="outline" size="sm">
+              New Version
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {showForm && (
+          <div className="space-y-4 border rounded-lg p-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="consentVersion">Version</Label>
+                <Input
+                  id="consentVersion"
+                  placeholder="e.g. 2.0"
+                  value={draft.version}
+                  onChange={(e) => setDraft(prev => ({ ...prev, version: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="consentTitle">Title</Label>
+                <Input
+                  id="consentTitle"
+                  value={draft.title}
+                  onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="consentBody">Consent text</Label>
+              <Textarea
+                id="consentBody"
+                rows={12}
+                value={draft.body}
+                onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+              <Button onClick={saveDraft} disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Draft
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {documents.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No consent documents yet. Recording is not blocked until a version is published.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Version</th>
+                  <th className="text-left p-2">Title</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {documents.map((document) => (
+                  <tr key={document.id} className="border-b">
+                    <td className="p-2 font-mono">{document.version}</td>
+                    <td className="p-2">{document.title}</td>
+                    <td className="p-2">
+                      {document.id === currentId ? (
+                        <Badge>Current</Badge>
+                      ) : document.publishedAt ? (
+                        <Badge variant="secondary">Superseded</Badge>
+                      ) : (
+                        <Badge variant="outline">Draft</Badge>
+                      )}
+                      {document.publishedAt && (
+                        <span className="ml-2 text-sm text-gray-500">
+                          {new Date(document.publishedAt).toLocaleDateString()}
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-2 space-x-2">
+                      {!document.publishedAt && (
+                        <>
+                          <Button onClick={() => startDraft(document)} variant="outline" size="sm">
+                            Edit
+                          </Button>
+                          <Button onClick={() => publish(document)} size="sm">
+                            Publish
+                          </Button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
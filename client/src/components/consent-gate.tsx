@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { FileSignature } from "lucide-react";
+import { makeRequest } from "@/lib/queryClient";
+import { getPatientSession } from "@/lib/patient-session";
+
+interface ConsentDocument {
+  id: number;
+  version: string;
+  title: string;
+  body: string;
+  publishedAt: string;
+}
+
+interface ConsentStatus {
+  required: boolean;
+  document: ConsentDocument | null;
+  record: { version: string; signedAt: string } | null;
+}
+
+// Blocks recording pages until the patient has signed the current consent version.
+// Clinicians recording without a patient session pass through; the server still
+// refuses to save a recording for a patient who has not consented.
+export function ConsentGate({ children }: { children: React.ReactNode }) {
+  const userId = getPatientSession()?.userId;
+  const queryClient = useQueryClient();
+  const [agreed, setAgreed] = useState(false);
+  const [signedName, setSignedName] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const consentKey = `/api/users/${userId}/consent`;
+  const { data, isLoading, isError } = useQuery<ConsentStatus>({
+    queryKey: [consentKey],
+    enabled: !!userId,
+    staleTime: 0,
+  });
+
+  if (!userId) {
+    return <>{children}</>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="max-w-2xl mx-auto py-12 text-center text-red-600">
+        Unable to load the consent form. Please refresh the page to try again.
+      </div>
+    );
+  }
+
+  if (!data.required || !data.document) {
+    return <>{children}</>;
+  }
+
+  const document = data.document;
+
+  const signConsent = async () => {
+    setSubmitting(true);
+    setError('');
+    try {
+      const response = await makeRequest(consentKey, {
+        method: 'POST',
+        body: JSON.stringify({ consentDocumentId: document.id, signedName, agreed }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        // A newer version was published while the form was open; show it instead
+        if (response.status === 409) {
+          queryClient.invalidateQueries({ queryKey: [consentKey] });
+          setAgreed(false);
+        }
+        throw new Error(result.message || 'Failed to record consent');
+      }
+      queryClient.setQueryData([consentKey], result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record consent');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+            <FileSignature className="w-5 h-5" />
+            {document.title}
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Version {document.version}
+            {data.record && ` · The consent form has changed since you signed version ${data.record.version}. Please review and sign again.`}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ScrollArea className="h-80 rounded-md border border-gray-200 p-4">
+            <div className="whitespace-pre-wrap text-sm text-gray-800">{document.body}</div>
+          </ScrollArea>
+
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="consentAgreed"
+              checked={agreed}
+              onCheckedChange={(checked) => setAgreed(checked === true)}
+            />
+            <Label htmlFor="consentAgreed" className="text-sm leading-snug">
+              I have read and understood this consent form, and I agree to take part and to have my hand movements recorded.
+            </Label>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="signedName">Type your full name to sign</Label>
+            <Input
+              id="signedName"
+              value={signedName}
+              onChange={(e) => setSignedName(e.target.value)}
+              autoComplete="name"
+            />
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <Button
+            className="w-full"
+            onClick={signConsent}
+            disabled={!agreed || signedName.trim().length < 2 || submitting}
+          >
+            {submitting ? 'Signing...' : 'Sign and Continue'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { makeRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { Clock, Loader2, Lock } from 'lucide-react';
+
+interface LegalHold {
+  id: number;
+  patientId: number | null;
+  userId: number | null;
+  reason: string;
+  createdAt: string;
+}
+
+interface RetentionAction {
+  dataClass: 'motionFrames' | 'assessmentRecords' | 'withdrawnPatients';
+  action: 'archive' | 'purge' | 'delete';
+  target: string;
+  dueSince: string;
+  frames?: number;
+}
+
+interface RetentionReport {
+  dryRun: boolean;
+  ranAt: string;
+  actions: RetentionAction[];
+  held: Array<{ dataClass: string; target: string; holdIds: number[] }>;
+  archiveFile: string | null;
+}
+
+const LEGAL_HOLDS_KEY = '/api/retention/legal-holds';
+const DATA_CLASS_LABELS: Record<RetentionAction['dataClass'], string> = {
+  motionFrames: 'Raw motion frames',
+  assessmentRecords: 'Assessment records',
+  withdrawnPatients: 'Withdrawn patients',
+};
+const emptyHold = { patientId: '', userId: '', reason: '' };
+
+function holdScope(hold: LegalHold): string {
+  if (hold.patientId) return `Patient #${hold.patientId}`;
+  if (hold.userId) return `App user #${hold.userId}`;
+  return 'All data';
+}
+
+// Previews and runs the saved retention policy, and manages the legal holds that block it
+export function DataRetentionCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [report, setReport] = useState<RetentionReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [hold, setHold] = useState(emptyHold);
+  const { data: holds = [] } = useQuery<LegalHold[]>({ queryKey: [LEGAL_HOLDS_KEY] });
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!dryRun && !confirm('Apply the saved retention policy now? Purged data cannot be recovered.')) {
+      return;
+    }
+    setRunning(true);
+    try {
+      const response = await makeRequest(`/api/retention/run${dryRun ? '?dryRun=true' : ''}`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Retention run failed');
+      }
+      setReport(result);
+    } catch (error) {
+      showError(error, "Retention run failed");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const createHold = async () => {
+    try {
+      const response = await makeRequest(LEGAL_HOLDS_KEY, {
+        method: 'POST',
+        body: JSON.stringify({
+          reason: hold.reason,
+          patientId: hold.patientId ? parseInt(hold.patientId, 10) : null,
+          userId: hold.userId ? parseInt(hold.userId, 10) : null
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to create legal hold');
+      }
+      setHold(emptyHold);
+      queryClient.invalidateQueries({ queryKey: [LEGAL_HOLDS_KEY] });
+    } catch (error) {
+      showError(error, "Failed to create legal hold");
+    }
+  };
+
+  const releaseHold = async (id: number) => {
+    if (!confirm('Release this legal hold? The covered data becomes subject to the retention policy again.')) {
+      return;
+    }
+    try {
+      const response = await makeRequest(`${LEGAL_HOLDS_KEY}/${id}/release`, { method: 'POST' });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.message || 'Failed to release legal hold');
+      }
+      queryClient.invalidateQueries({ queryKey: [LEGAL_HOLDS_KEY] });
+    } catch (error) {
+      showError(error, "Failed to release legal hold");
+    }
+  };
+
+  const summary = report
+    ? (Object.keys(DATA_CLASS_LABELS) as RetentionAction['dataClass'][]).map(dataClass => ({
+        dataClass,
+        actions: report.actions.filter(action => action.dataClass === dataClass),
+        held: report.held.filter(item => item.dataClass === dataClass).length,
+      }))
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Clock className="h-5 w-5" />
+          <span>Retention Job</span>
+        </CardTitle>
+        <CardDescription>
+          Preview or apply the saved retention policy. Every purge is recorded in the audit log.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => run(true)} disabled={running}>
+            {running && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Preview (Dry Run)
+          </Button>
+          <Button variant="destructive" onClick={() => run(false)} disabled={running}>
+            Run Now
+          </Button>
+        </div>
+
+        {report && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant={report.dryRun ? 'outline' : 'default'}>{report.dryRun ? 'Dry run' : 'Applied'}</Badge>
+              <span className="text-muted-foreground">{new Date(report.ranAt).toLocaleString()}</span>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Data class</th>
+                  <th className="text-left p-2">{report.dryRun ? 'Would purge' : 'Purged'}</th>
+                  <th className="text-left p-2">Frames</th>
+                  <th className="text-left p-2">Held</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.map(row => (
+                  <tr key={row.dataClass} className="border-b">
+                    <td className="p-2">{DATA_CLASS_LABELS[row.dataClass]}</td>
+                    <td className="p-2">{row.actions.length}</td>
+                    <td className="p-2">
+                      {row.dataClass === 'motionFrames' ? row.actions.reduce((total, action) => total + (action.frames || 0), 0) : '—'}
+                    </td>
+                    <td className="p-2">{row.held}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.archiveFile && (
+              <p className="text-sm text-muted-foreground">
+                Frames {report.dryRun ? 'would be' : 'were'} archived to <span className="font-mono">{report.archiveFile}</span>
+              </p>
+            )}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-4">
+          <div className="space-y-0.5">
+            <Label className="flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              Legal Holds
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Held data is skipped by every retention action until the hold is released.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="holdPatientId">Patient # (optional)</Label>
+              <Input
+                id="holdPatientId"
+                type="number"
+                value={hold.patientId}
+                onChange={(e) => setHold(prev => ({ ...prev, patientId: e.target.value, userId: '' }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holdUserId">App User # (optional)</Label>
+              <Input
+                id="holdUserId"
+                type="number"
+                value={hold.userId}
+                onChange={(e) => setHold(prev => ({ ...prev, userId: e.target.value, patientId: '' }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holdReason">Reason</Label>
+              <Input
+                id="holdReason"
+                value={hold.reason}
+                onChange={(e) => setHold(prev => ({ ...prev, reason: e.target.value }))}
+              />
+            </div>
+            <Button onClick={createHold} disabled={!hold.reason.trim()}>
+              Place Hold
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">Leave both numbers empty to hold all data.</p>
+
+          {holds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active legal holds.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Scope</th>
+                  <th className="text-left p-2">Reason</th>
+                  <th className="text-left p-2">Placed</th>
+                  <th className="text-left p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {holds.map(item => (
+                  <tr key={item.id} className="border-b">
+                    <td className="p-2">{holdScope(item)}</td>
+                    <td className="p-2">{item.reason}</td>
+                    <td className="p-2">{new Date(item.createdAt).toLocaleDateString()}</td>
+                    <td className="p-2 text-right">
+                      <Button variant="outline" size="sm" onClick={() => releaseHold(item.id)}>
+                        Release
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,281 @@
+import { useCallback, useRef, useState, type MouseEvent } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, Ruler, RotateCcw } from "lucide-react";
+import HolisticTracker from "@/components/holistic-tracker";
+import { makeRequest } from "@/lib/queryClient";
+import { DEFAULT_IMAGE_ASPECT } from "@shared/tip-to-palm-calculator";
+
+interface CalibratedUser {
+  id: number;
+  code: string;
+  handLengthCm?: string | null;
+  palmLengthCm?: string | null;
+  handCalibrationMethod?: string | null;
+  handCalibratedAt?: string | null;
+}
+
+interface HandCalibrationCardProps {
+  user: CalibratedUser;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Known reference objects; a custom length can be entered instead
+const REFERENCE_OBJECTS: Record<string, { label: string; lengthCm: number }> = {
+  bank_card: { label: 'Bank or ID card (long edge)', lengthCm: 8.56 },
+  a4_paper: { label: 'A4 paper (short edge)', lengthCm: 21 },
+  letter_paper: { label: 'US Letter paper (short edge)', lengthCm: 21.59 },
+};
+
+// One-time scale calibration so hand measurements can be reported in centimeters
+export function HandCalibrationCard({ user }: HandCalibrationCardProps) {
+  const queryClient = useQueryClient();
+  const [method, setMethod] = useState<'hand_length' | 'reference_object'>('hand_length');
+  const [handLength, setHandLength] = useState(user.handLengthCm || '');
+  const [referenceObject, setReferenceObject] = useState('bank_card');
+  const [customLength, setCustomLength] = useState('');
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [handVisible, setHandVisible] = useState(false);
+  const [snapshot, setSnapshot] = useState<{ image: string; landmarks: any[] } | null>(null);
+  const [referencePoints, setReferencePoints] = useState<Point[]>([]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const trackerRef = useRef<HTMLDivElement>(null);
+  const latestLandmarksRef = useRef<any[]>([]);
+
+  const isCalibrated = !!user.palmLengthCm;
+
+  // Stable callback, since the tracker restarts processing when onUpdate changes
+  const handleTrackerUpdate = useCallback((data: any) => {
+    latestLandmarksRef.current = data.landmarks || [];
+    setHandVisible(data.landmarks?.length === 21);
+  }, []);
+
+  const captureSnapshot = () => {
+    const canvas = trackerRef.current?.querySelector('canvas');
+    if (!canvas || latestLandmarksRef.current.length !== 21) {
+      setError('Hold your hand flat in view of the camera, next to the reference object');
+      return;
+    }
+    setSnapshot({ image: canvas.toDataURL('image/png'), landmarks: latestLandmarksRef.current });
+    setReferencePoints([]);
+    setCameraOpen(false);
+    setError('');
+  };
+
+  const markReferencePoint = (event: MouseEvent<HTMLImageElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const point = {
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    };
+    setReferencePoints(points => (points.length >= 2 ? [point] : [...points, point]));
+  };
+
+  const referenceLengthCm = referenceObject === 'custom'
+    ? parseFloat(customLength)
+    : REFERENCE_OBJECTS[referenceObject].lengthCm;
+
+  const canSave = method === 'hand_length'
+    ? parseFloat(handLength) > 0
+    : !!snapshot && referencePoints.length === 2 && referenceLengthCm > 0;
+
+  const saveCalibration = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const body = method === 'hand_length'
+        ? { method, handLengthCm: parseFloat(handLength) }
+        : {
+            method,
+            referenceLengthCm,
+            referenceStart: referencePoints[0],
+            referenceEnd: referencePoints[1],
+            landmarks: snapshot!.landmarks,
+            imageAspect: DEFAULT_IMAGE_ASPECT,
+          };
+      const response = await makeRequest(`/api/users/${user.id}/hand-calibration`, {
+        method: 'POST',
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save calibration');
+      }
+      setSnapshot(null);
+      setReferencePoints([]);
+      queryClient.invalidateQueries({ queryKey: [`/api/users/by-code/${user.code}`] });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save calibration');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Ruler className="h-5 w-5" />
+              Hand Size Calibration
+            </CardTitle>
+            <CardDescription>
+              Needed once so fingertip-to-palm distances can be measured in centimeters
+            </CardDescription>
+          </div>
+          {isCalibrated ? (
+            <Badge variant="default">
+              Palm {parseFloat(user.palmLengthCm!).toFixed(1)} cm
+              {user.handCalibrationMethod === 'reference_object' ? ' (reference object)' : ' (hand length)'}
+            </Badge>
+          ) : (
+            <Badge variant="secondary">Not calibrated</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button
+            variant={method === 'hand_length' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setMethod('hand_length')}
+          >
+            Enter hand length
+          </Button>
+          <Button
+            variant={method === 'reference_object' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setMethod('reference_object')}
+          >
+            Use a reference object
+          </Button>
+        </div>
+
+        {method === 'hand_length' ? (
+          <div className="space-y-2 max-w-sm">
+            <Label htmlFor="hand-length">Hand length (cm)</Label>
+            <Input
+              id="hand-length"
+              type="number"
+              step="0.1"
+              min="12"
+              max="25"
+              value={handLength}
+              onChange={(e) => setHandLength(e.target.value)}
+              placeholder="e.g. 18.5"
+            />
+            <p className="text-xs text-muted-foreground">
+              Measure from the crease at the base of your palm to the tip of your middle finger.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+              <div className="space-y-2">
+                <Label>Reference object</Label>
+                <Select value={referenceObject} onValueChange={setReferenceObject}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(REFERENCE_OBJECTS).map(key => (
+                      <SelectItem key={key} value={key}>
+                        {REFERENCE_OBJECTS[key].label} - {REFERENCE_OBJECTS[key].lengthCm} cm
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="custom">Other object</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {referenceObject === 'custom' && (
+                <div className="space-y-2">
+                  <Label htmlFor="reference-length">Object length (cm)</Label>
+                  <Input
+                    id="reference-length"
+                    type="number"
+                    step="0.1"
+                    value={customLength}
+                    onChange={(e) => setCustomLength(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Lay the object flat on a table, rest your hand flat beside it with fingers together, and capture a photo.
+              Then click both ends of the object on the photo.
+            </p>
+
+            {cameraOpen ? (
+              <div className="space-y-2">
+                <div ref={trackerRef}>
+                  <HolisticTracker
+                    onUpdate={handleTrackerUpdate}
+                    isRecording={false}
+                    assessmentType="Hand Calibration"
+                    showSkeletonOverlay={false}
+                  />
+                </div>
+                <div className="flex gap-2 justify-center">
+                  <Button onClick={captureSnapshot} disabled={!handVisible}>
+                    <Camera className="h-4 w-4 mr-2" />
+                    Capture
+                  </Button>
+                  <Button variant="outline" onClick={() => setCameraOpen(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : snapshot ? (
+              <div className="space-y-2">
+                <div className="relative max-w-[600px] mx-auto">
+                  <img
+                    src={snapshot.image}
+                    alt="Hand and reference object"
+                    className="w-full rounded-lg cursor-crosshair"
+                    onClick={markReferencePoint}
+                  />
+                  {referencePoints.map((point, i) => (
+                    <div
+                      key={i}
+                      className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-yellow-400 border-2 border-white pointer-events-none"
+                      style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+                    />
+                  ))}
+                </div>
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>{referencePoints.length}/2 object ends marked</span>
+                  <Button variant="outline" size="sm" onClick={() => setCameraOpen(true)}>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Retake
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="outline" onClick={() => setCameraOpen(true)}>
+                <Camera className="h-4 w-4 mr-2" />
+                Open camera
+              </Button>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <Button onClick={saveCalibration} disabled={!canSave || saving}>
+          {saving ? 'Saving...' : isCalibrated ? 'Recalibrate' : 'Save calibration'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -71,6 +71,13 @@ export function PatientDetailModal({ patient, isOpen, onClose }: PatientDetailMo
   // Fetch patient assessment history
   const { data: assessmentHistory, isLoading: loadingAssessments } = useQuery({
     queryKey: [`/api/users/by-code/${patient?.code}/history`],
+    queryFn: async () => {
+      const response = await fetch(`/api/users/by-code/${patient?.code}/history`, {
+        headers: { 'Authorization': `Bearer ${sessionStorage.getItem('adminToken')}` }
+      });
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+      return response.json();
+    },
     enabled: !!patient?.code && isOpen,
   });
 
@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Download, FileUp, Loader2, Printer } from "lucide-react";
+
+interface OnboardingRow {
+  line: number;
+  injuryType: string;
+  surgeryDate: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  errors: string[];
+}
+
+interface OnboardingReport {
+  rows: OnboardingRow[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number;
+}
+
+interface CreatedPatient {
+  id: number;
+  patientId: string;
+  code: string;
+  line: number;
+  injuryType: string;
+  surgeryDate: string | null;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+const TEMPLATE_CSV = 'injuryType,surgeryDate,firstName,lastName,email\nTrigger Finger,2025-01-15,Jane,Doe,jane.doe@example.com\n';
+
+function adminHeaders(contentType?: string): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${sessionStorage.getItem('adminToken')}`,
+    ...(contentType && { 'Content-Type': contentType })
+  };
+}
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Bulk patient onboarding: validate a CSV as a dry run, then create every patient in
+// one go and hand out the generated access codes as a download or printed sheet.
+export function PatientImportCard({ onImported }: { onImported?: () => void }) {
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [report, setReport] = useState<OnboardingReport | null>(null);
+  const [created, setCreated] = useState<CreatedPatient[]>([]);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const selectFile = async (file: File | undefined) => {
+    setReport(null);
+    setCreated([]);
+    setCsvText(file ? await file.text() : null);
+    setFileName(file?.name || '');
+  };
+
+  const upload = async (dryRun: boolean) => {
+    if (!csvText) return;
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/admin/patients/import${dryRun ? '?dryRun=true' : ''}`, {
+        method: 'POST',
+        headers: adminHeaders('text/csv'),
+        body: csvText
+      });
+      const data = await response.json();
+      if (data.report) {
+        setReport(data.report);
+      }
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to import patients');
+      }
+      if (!dryRun) {
+        setCreated(data.patients);
+        setCsvText(null);
+        toast({
+          title: "Patients Created",
+          description: `${data.patients.length} patients were created with new access codes`
+        });
+        onImported?.();
+      }
+    } catch (error) {
+      showError(error, "Failed to import patients");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const fetchSheet = async (format: 'csv' | 'html') => {
+    const ids = created.map(patient => patient.id).join(',');
+    const response = await fetch(`/api/admin/patients/access-codes?format=${format}&ids=${ids}`, {
+      headers: adminHeaders()
+    });
+    if (!response.ok) {
+      throw new Error('Failed to generate access code sheet');
+    }
+    return response;
+  };
+
+  const downloadSheet = async () => {
+    try {
+      const response = await fetchSheet('csv');
+      saveBlob(await response.blob(), `patient_access_codes_${new Date().toISOString().split('T')[0]}.csv`);
+    } catch (error) {
+      showError(error, "Failed to download access codes");
+    }
+  };
+
+  const printSheet = async () => {
+    try {
+      const response = await fetchSheet('html');
+      const sheet = window.open('', '_blank');
+      if (!sheet) {
+        throw new Error('Allow pop-ups to print the access code sheet');
+      }
+      sheet.document.write(await response.text());
+      sheet.document.close();
+      sheet.focus();
+      sheet.print();
+    } catch (error) {
+      showError(error, "Failed to print access codes");
+    }
+  };
+
+  return (
+    <Card style={{ backgroundColor: '#FFFFFF' }}>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileUp className="h-5 w-5" />
+              Bulk Patient Onboarding
+            </CardTitle>
+            <CardDescription>
+              Upload a CSV with injuryType and optional surgeryDate (YYYY-MM-DD), firstName, lastName and email columns.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => saveBlob(new Blob([TEMPLATE_CSV], { type: 'text/csv' }), 'patient_onboarding_template.csv')}
+            variant="outline"
+            size="sm"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="onboardingFile">Patient list</Label>
+            <Input
+              id="onboardingFile"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => selectFile(e.target.files?.[0])}
+            />
+          </div>
+          <div className="flex space-x-2">
+            <Button onClick={() => upload(true)} variant="outline" disabled={!csvText || busy}>
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Validate
+            </Button>
+            <Button
+              onClick={() => upload(false)}
+              disabled={!csvText || busy || !report || report.invalidRows > 0}
+            >
+              Create {report && report.invalidRows === 0 ? report.validRows : ''} Patients
+            </Button>
+          </div>
+        </div>
+
+        {report && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {fileName && <span className="text-gray-500">{fileName}:</span>}
+              <Badge variant="outline">{report.totalRows} rows</Badge>
+              <Badge variant="secondary">{report.validRows} valid</Badge>
+              {report.invalidRows > 0 && <Badge variant="destructive">{report.invalidRows} with errors</Badge>}
+              {report.duplicateRows > 0 && <Badge variant="destructive">{report.duplicateRows} duplicates</Badge>}
+            </div>
+            {report.invalidRows > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">Line</th>
+                      <th className="text-left p-2">Patient</th>
+                      <th className="text-left p-2">Errors</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.rows.filter(row => row.errors.length > 0).map(row => (
+                      <tr key={row.line} className="border-b">
+                        <td className="p-2 font-mono">{row.line}</td>
+                        <td className="p-2">
+                          {[row.firstName, row.lastName].filter(Boolean).join(' ') || row.email || row.injuryType || '—'}
+                        </td>
+                        <td className="p-2 text-sm text-red-600">{row.errors.join('; ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {created.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <p className="text-sm font-medium">{created.length} patients created</p>
+              <div className="flex space-x-2">
+                <Button onClick={downloadSheet} variant="outline" size="sm">
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Codes
+                </Button>
+                <Button onClick={printSheet} variant="outline" size="sm">
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print Sheet
+                </Button>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2">Patient ID</th>
+                    <th className="text-left p-2">Access Code</th>
+                    <th className="text-left p-2">Name</th>
+                    <th className="text-left p-2">Injury Type</th>
+                    <th className="text-left p-2">Surgery Date</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {created.map(patient => (
+                    <tr key={patient.id} className="border-b">
+                      <td className="p-2">{patient.patientId}</td>
+                      <td className="p-2 font-mono">{patient.code}</td>
+                      <td className="p-2">{[patient.firstName, patient.lastName].filter(Boolean).join(' ') || '—'}</td>
+                      <td className="p-2">{patient.injuryType}</td>
+                      <td className="p-2">{patient.surgeryDate || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
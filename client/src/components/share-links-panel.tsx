@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Link2, Copy, Ban, History } from "lucide-react";
+import { makeRequest } from "@/lib/queryClient";
+
+interface ShareLinkSummary {
+  id: number;
+  userAssessmentId: number;
+  scope: 'summary' | 'replay';
+  label: string | null;
+  expiresAt: string;
+  maxViews: number | null;
+  viewCount: number;
+  revokedAt: string | null;
+  lastViewedAt: string | null;
+  createdAt: string;
+  status: 'active' | 'expired' | 'revoked' | 'view_limit_reached';
+}
+
+interface ShareLinkAccess {
+  id: number;
+  outcome: string;
+  ipAddress: string | null;
+  accessedAt: string;
+}
+
+interface ShareLinksPanelProps {
+  userId: number;
+  userAssessmentId: number;
+}
+
+const statusLabels: Record<ShareLinkSummary['status'], string> = {
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked',
+  view_limit_reached: 'View limit reached',
+};
+
+// Create share links for one assessment and manage the links already issued for it
+export function ShareLinksPanel({ userId, userAssessmentId }: ShareLinksPanelProps) {
+  const queryClient = useQueryClient();
+  const [scope, setScope] = useState<'summary' | 'replay'>('summary');
+  const [expiresInHours, setExpiresInHours] = useState('72');
+  const [maxViews, setMaxViews] = useState('');
+  const [shareUrl, setShareUrl] = useState('');
+  const [error, setError] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [expandedLinkId, setExpandedLinkId] = useState<number | null>(null);
+  const [accessLog, setAccessLog] = useState<ShareLinkAccess[]>([]);
+
+  const linksKey = `/api/users/${userId}/share-links?userAssessmentId=${userAssessmentId}`;
+  const { data } = useQuery<{ links: ShareLinkSummary[] }>({
+    queryKey: [linksKey],
+  });
+
+  const createLink = async () => {
+    setCreating(true);
+    setError('');
+    try {
+      const response = await makeRequest(`/api/user-assessments/${userAssessmentId}/share`, {
+        method: 'POST',
+        body: JSON.stringify({
+          scope,
+          expiresInHours: parseInt(expiresInHours),
+          ...(maxViews && { maxViews: parseInt(maxViews) }),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create share link');
+      }
+
+      const url = `${window.location.origin}${result.shareUrl}`;
+      setShareUrl(url);
+      navigator.clipboard?.writeText(url);
+      queryClient.invalidateQueries({ queryKey: [linksKey] });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create share link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeLink = async (id: number) => {
+    const response = await makeRequest(`/api/share-links/${id}`, { method: 'DELETE' });
+    if (response.ok) {
+      queryClient.invalidateQueries({ queryKey: [linksKey] });
+    }
+  };
+
+  const toggleAccessLog = async (id: number) => {
+    if (expandedLinkId === id) {
+      setExpandedLinkId(null);
+      return;
+    }
+    const response = await makeRequest(`/api/share-links/${id}/access-log`);
+    if (response.ok) {
+      const result = await response.json();
+      setAccessLog(result.accessLog);
+      setExpandedLinkId(id);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Link2 className="w-5 h-5" />
+          Share Results
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Includes</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as 'summary' | 'replay')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="summary">Summary only</SelectItem>
+                <SelectItem value="replay">Summary and motion replay</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Expires after</Label>
+            <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 hour</SelectItem>
+                <SelectItem value="24">1 day</SelectItem>
+                <SelectItem value="72">3 days</SelectItem>
+                <SelectItem value="168">1 week</SelectItem>
+                <SelectItem value="720">30 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maxViews">View limit</Label>
+            <Input
+              id="maxViews"
+              type="number"
+              min={1}
+              placeholder="Unlimited"
+              value={maxViews}
+              onChange={(e) => setMaxViews(e.target.value)}
+            />
+          </div>
+          <Button onClick={createLink} disabled={creating}>
+            Create Link
+          </Button>
+        </div>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {shareUrl && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+            <div className="flex items-center justify-between text-sm text-green-800">
+              <strong>Share link created and copied to clipboard. It will not be shown again.</strong>
+              <Button variant="ghost" size="sm" onClick={() => navigator.clipboard?.writeText(shareUrl)}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="text-xs text-green-700 mt-1 break-all">{shareUrl}</div>
+          </div>
+        )}
+
+        <div>
+          <h4 className="font-medium mb-3 text-gray-900">My Shared Links</h4>
+          {!data?.links.length ? (
+            <p className="text-sm text-gray-600">You have not shared this assessment yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {data.links.map((link) => (
+                <div key={link.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={link.status === 'active' ? 'default' : 'secondary'}>
+                          {statusLabels[link.status]}
+                        </Badge>
+                        <span className="text-gray-900">
+                          {link.scope === 'replay' ? 'Summary and motion replay' : 'Summary only'}
+                        </span>
+                      </div>
+                      <div className="text-gray-600">
+                        Created {new Date(link.createdAt).toLocaleString()} · Expires {new Date(link.expiresAt).toLocaleString()}
+                      </div>
+                      <div className="text-gray-600">
+                        Views: {link.viewCount}{link.maxViews !== null && ` / ${link.maxViews}`}
+                        {link.lastViewedAt && ` · Last viewed ${new Date(link.lastViewedAt).toLocaleString()}`}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => toggleAccessLog(link.id)}>
+                        <History className="w-4 h-4" />
+                      </Button>
+                      {link.status === 'active' && (
+                        <Button variant="outline" size="sm" onClick={() => revokeLink(link.id)} className="text-red-600">
+                          <Ban className="w-4 h-4 mr-1" />
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {expandedLinkId === link.id && (
+                    <div className="mt-3 border-t pt-3">
+                      {accessLog.length === 0 ? (
+                        <p className="text-gray-600">This link has not been opened.</p>
+                      ) : (
+                        <ul className="space-y-1 text-gray-700">
+                          {accessLog.map((access) => (
+                            <li key={access.id} className="flex justify-between">
+                              <span>{new Date(access.accessedAt).toLocaleString()}</span>
+                              <span>{access.outcome.replace(/_/g, ' ')}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,382 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, ShieldCheck, Copy, KeyRound } from "lucide-react";
+
+export type TwoFactorAccountType = 'clinical' | 'admin';
+
+// Returned by the login endpoints instead of a session when a second factor is needed
+export interface TwoFactorChallenge {
+  twoFactorRequired?: boolean;
+  twoFactorEnrollmentRequired?: boolean;
+  challengeToken: string;
+  expiresAt: string;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  enforced: boolean;
+  recoveryCodesRemaining: number;
+}
+
+const apiBase = (accountType: TwoFactorAccountType) =>
+  accountType === 'admin' ? '/api/admin' : '/api/auth';
+
+// The admin portal keeps its session in sessionStorage; the clinical dashboard in localStorage
+function sessionHeaders(accountType: TwoFactorAccountType): Record<string, string> {
+  const token = accountType === 'admin' ? sessionStorage.getItem('adminToken') : localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token && { Authorization: `Bearer ${token}` }),
+  };
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string>) {
+  const response = await fetch(url, { method: 'POST', headers, body: JSON.stringify(body) });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+}
+
+function RecoveryCodesList({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Save these recovery codes somewhere safe. Each can be used once if you lose access to your authenticator app. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded border p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={() => navigator.clipboard?.writeText(codes.join('\n'))}>
+        <Copy className="h-4 w-4 mr-2" />
+        Copy codes
+      </Button>
+    </div>
+  );
+}
+
+interface TwoFactorEnrollmentProps {
+  accountType: TwoFactorAccountType;
+  challengeToken?: string;          // Set when enrollment is enforced during login
+  onEnabled: (result: { recoveryCodes: string[]; session?: any }) => void;
+}
+
+// Generate a secret, show it for the authenticator app, then confirm with a code
+export function TwoFactorEnrollment({ accountType, challengeToken, onEnabled }: TwoFactorEnrollmentProps) {
+  const [setup, setSetup] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const headers = challengeToken ? { 'Content-Type': 'application/json' } : sessionHeaders(accountType);
+
+  const startSetup = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setSetup(await postJson(`${apiBase(accountType)}/2fa/setup`, { challengeToken }, headers));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start setup');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      onEnabled(await postJson(`${apiBase(accountType)}/2fa/enable`, { code, challengeToken }, headers));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to enable two-factor authentication');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!setup ? (
+        <Button type="button" className="w-full" onClick={startSetup} disabled={loading}>
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Set up authenticator app
+        </Button>
+      ) : (
+        <form onSubmit={confirm} className="space-y-4">
+          <div className="space-y-2 text-sm">
+            <p>
+              Open this link on the device with your authenticator app, or enter the key manually:
+            </p>
+            <a href={setup.otpauthUri} className="block break-all text-primary hover:underline">
+              {setup.otpauthUri}
+            </a>
+            <div className="rounded border p-2 font-mono text-center tracking-wider break-all">
+              {setup.secret.match(/.{1,4}/g)?.join(' ')}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="enrollCode">6-digit code from the app</Label>
+            <Input
+              id="enrollCode"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              disabled={loading}
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verify and enable
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+interface TwoFactorLoginStepProps {
+  accountType: TwoFactorAccountType;
+  challenge: TwoFactorChallenge;
+  onComplete: (session: any) => void;
+  onCancel: () => void;
+}
+
+// Second login step: verify a code, or enroll first when the deployment requires 2FA
+export function TwoFactorLoginStep({ accountType, challenge, onComplete, onCancel }: TwoFactorLoginStepProps) {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [enrolled, setEnrolled] = useState<{ recoveryCodes: string[]; session?: any } | null>(null);
+
+  const verify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      const session = await postJson(`${apiBase(accountType)}/login/2fa`, {
+        challengeToken: challenge.challengeToken,
+        ...(useRecoveryCode ? { recoveryCode: code } : { code }),
+      }, { 'Content-Type': 'application/json' });
+      onComplete(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (challenge.twoFactorEnrollmentRequired) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <ShieldCheck className="h-4 w-4" />
+          Two-factor authentication is required for this account
+        </div>
+        {enrolled ? (
+          <>
+            <RecoveryCodesList codes={enrolled.recoveryCodes} />
+            <Button className="w-full" onClick={() => onComplete(enrolled.session)}>
+              Continue
+            </Button>
+          </>
+        ) : (
+          <TwoFactorEnrollment
+            accountType={accountType}
+            challengeToken={challenge.challengeToken}
+            onEnabled={setEnrolled}
+          />
+        )}
+        <Button variant="ghost" className="w-full" onClick={onCancel}>
+          Back to sign in
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={verify} className="space-y-4">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <KeyRound className="h-4 w-4" />
+        {useRecoveryCode ? 'Enter one of your recovery codes' : 'Enter the code from your authenticator app'}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="twoFactorCode">{useRecoveryCode ? 'Recovery code' : 'Authentication code'}</Label>
+        <Input
+          id="twoFactorCode"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={loading}
+          autoFocus
+          required
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verify
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button type="button" className="text-primary hover:underline" onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); }}>
+          {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+        </button>
+        <button type="button" className="text-gray-600 hover:underline" onClick={onCancel}>
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Account settings: enroll, regenerate recovery codes or turn 2FA off
+export function TwoFactorSettingsCard({ accountType }: { accountType: TwoFactorAccountType }) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadStatus = async () => {
+    const response = await fetch(`${apiBase(accountType)}/2fa/status`, { headers: sessionHeaders(accountType) });
+    if (response.ok) {
+      setStatus(await response.json());
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, [accountType]);
+
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true);
+    setError('');
+    try {
+      await action();
+      setCode('');
+      setPassword('');
+      await loadStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const regenerate = () => run(async () => {
+    const data = await postJson(`${apiBase(accountType)}/2fa/recovery-codes`, { code }, sessionHeaders(accountType));
+    setRecoveryCodes(data.recoveryCodes);
+  });
+
+  const disable = () => run(async () => {
+    await postJson(`${apiBase(accountType)}/2fa/disable`, { code, password }, sessionHeaders(accountType));
+    setRecoveryCodes(null);
+  });
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span>Two-Factor Authentication</span>
+          <Badge variant={status.enabled ? 'default' : 'secondary'}>{status.enabled ? 'On' : 'Off'}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when signing in.
+          {status.enforced && ' Required for all admin accounts on this deployment.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+
+        {!status.enabled ? (
+          <TwoFactorEnrollment
+            accountType={accountType}
+            onEnabled={(result) => {
+              setRecoveryCodes(result.recoveryCodes);
+              loadStatus();
+            }}
+          />
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Enabled {status.enabledAt && new Date(status.enabledAt).toLocaleDateString()} · {status.recoveryCodesRemaining} recovery codes remaining
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="manageCode">Authentication code</Label>
+                <Input
+                  id="manageCode"
+                  inputMode="numeric"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              {!status.enforced && (
+                <div className="space-y-2">
+                  <Label htmlFor="managePassword">Password (to turn off)</Label>
+                  <Input
+                    id="managePassword"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={loading}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={regenerate} disabled={loading || !code}>
+                New recovery codes
+              </Button>
+              {!status.enforced && (
+                <Button variant="destructive" onClick={disable} disabled={loading || !code || !password}>
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
 import { apiRequest } from './queryClient';
+import type { TwoFactorChallenge } from '@/components/two-factor';
 
 export interface AuthUser {
   id: number;
@@ -14,18 +15,34 @@ export interface LoginRequest {
   password: string;
 }
 
-export interface AuthResponse {
+export interface SessionTokens {
   token: string;
+  refreshToken: string;
+  expiresAt: string;
+  refreshExpiresAt: string;
+}
+
+export interface AuthResponse extends SessionTokens {
   user: AuthUser;
 }
 
+// Refresh the access token this long before it expires
+const REFRESH_LEAD_TIME_MS = 60 * 1000;
+
 class AuthService {
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  private expiresAt: number | null = null;
   private user: AuthUser | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
 
   constructor() {
     // Load from localStorage on initialization
     this.token = localStorage.getItem('auth_token');
+    this.refreshToken = localStorage.getItem('auth_refresh_token');
+    const savedExpiry = localStorage.getItem('auth_expires_at');
+    this.expiresAt = savedExpiry ? new Date(savedExpiry).getTime() : null;
     const savedUser = localStorage.getItem('auth_user');
     if (savedUser) {
       try {
@@ -34,23 +51,79 @@ class AuthService {
         this.clearAuth();
       }
     }
+
+    if (this.token && this.refreshToken) {
+      this.scheduleRefresh();
+    }
   }
 
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
+  // Resolves to a challenge instead of a session when the account needs a second factor
+  async login(credentials: LoginRequest): Promise<AuthResponse | TwoFactorChallenge> {
     console.log('Attempting login with credentials:', { username: credentials.username });
     
-    const data: AuthResponse = await apiRequest('POST', '/api/auth/login', credentials);
+    const data: AuthResponse | TwoFactorChallenge = await apiRequest('POST', '/api/auth/login', credentials);
+    if ('challengeToken' in data) {
+      return data;
+    }
     
-    console.log('Login successful:', data);
-    this.setAuth(data.token, data.user);
+    this.completeLogin(data);
     return data;
   }
 
-  logout() {
+  completeLogin(data: AuthResponse) {
+    console.log('Login successful:', { username: data.user.username });
+    this.setAuth(data, data.user);
+  }
+
+  async logout() {
+    try {
+      if (this.token) {
+        await apiRequest('POST', '/api/auth/logout');
+      }
+    } catch (error) {
+      // The session is discarded locally either way
+      console.warn('Server logout failed:', error);
+    }
     this.clearAuth();
     window.location.href = '/clinical/login';
   }
 
+  // Exchange the refresh token for a new pair without user interaction.
+  // Concurrent callers share a single in-flight request.
+  refreshSession(): Promise<boolean> {
+    if (!this.refreshToken) {
+      return Promise.resolve(false);
+    }
+    if (!this.refreshPromise) {
+      this.refreshPromise = fetch(`${import.meta.env.VITE_API_URL || ''}/api/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken: this.refreshToken }),
+      })
+        .then(async (response) => {
+          if (!response.ok) {
+            this.clearAuth();
+            return false;
+          }
+          const tokens: SessionTokens = await response.json();
+          if (this.user) {
+            this.setAuth(tokens, this.user);
+          }
+          return true;
+        })
+        .catch((error) => {
+          // Network failure: keep the session and retry on the next schedule
+          console.warn('Session refresh failed:', error);
+          this.scheduleRefresh(REFRESH_LEAD_TIME_MS);
+          return false;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
   getToken(): string | null {
     return this.token;
   }
@@ -67,20 +140,43 @@ class AuthService {
     return this.user ? roles.includes(this.user.role) : false;
   }
 
-  private setAuth(token: string, user: AuthUser) {
-    this.token = token;
+  private setAuth(tokens: SessionTokens, user: AuthUser) {
+    this.token = tokens.token;
+    this.refreshToken = tokens.refreshToken;
+    this.expiresAt = new Date(tokens.expiresAt).getTime();
     this.user = user;
-    localStorage.setItem('auth_token', token);
+    localStorage.setItem('auth_token', tokens.token);
+    localStorage.setItem('auth_refresh_token', tokens.refreshToken);
+    localStorage.setItem('auth_expires_at', tokens.expiresAt);
     localStorage.setItem('auth_user', JSON.stringify(user));
+    this.scheduleRefresh();
   }
 
   private clearAuth() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
     this.token = null;
+    this.refreshToken = null;
+    this.expiresAt = null;
     this.user = null;
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('auth_refresh_token');
+    localStorage.removeItem('auth_expires_at');
     localStorage.removeItem('auth_user');
   }
 
+  private scheduleRefresh(delayMs?: number) {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    const delay = delayMs ?? Math.max(0, (this.expiresAt ?? 0) - Date.now() - REFRESH_LEAD_TIME_MS);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshSession();
+    }, delay);
+  }
+
   // Add token to requests automatically
   getAuthHeaders(): Record<string, string> {
     const headers: Record<string, string> = {};
@@ -100,6 +196,8 @@ export function useAuth() {
     isAuthenticated: authService.isAuthenticated(),
     hasRole: (roles: string[]) => authService.hasRole(roles),
     login: (credentials: LoginRequest) => authService.login(credentials),
+    completeLogin: (data: AuthResponse) => authService.completeLogin(data),
     logout: () => authService.logout(),
+    refreshSession: () => authService.refreshSession(),
   };
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+// Patient sessions are issued when an access code is verified and are scoped to
+// that patient's own data. They are sent in a separate header so a clinician's
+// bearer token in the same browser is unaffected.
+
+export interface PatientSession {
+  token: string;
+  expiresAt: string;
+  userId: number;
+  code: string;
+}
+
+const PATIENT_SESSION_KEY = 'patient_session';
+export const PATIENT_SESSION_HEADER = 'X-Patient-Session';
+
+export function getPatientSession(): PatientSession | null {
+  const stored = localStorage.getItem(PATIENT_SESSION_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    const session: PatientSession = JSON.parse(stored);
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      localStorage.removeItem(PATIENT_SESSION_KEY);
+      return null;
+    }
+    return session;
+  } catch (error) {
+    localStorage.removeItem(PATIENT_SESSION_KEY);
+    return null;
+  }
+}
+
+export function setPatientSession(session: PatientSession) {
+  localStorage.setItem(PATIENT_SESSION_KEY, JSON.stringify(session));
+}
+
+export function clearPatientSession() {
+  localStorage.removeItem(PATIENT_SESSION_KEY);
+}
+
+export function patientSessionHeaders(): Record<string, string> {
+  const session = getPatientSession();
+  return session ? { [PATIENT_SESSION_HEADER]: session.token } : {};
+}
+
+// Exchange an access code for a session unless one for that code is already held
+export async function ensurePatientSession(code: string): Promise<PatientSession> {
+  const existing = getPatientSession();
+  if (existing && existing.code === code) {
+    return existing;
+  }
+
+  const response = await fetch('/api/patients/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || 'Invalid access code');
+  }
+
+  setPatientSession(data.session);
+  return data.session;
+}
@@ -1,6 +1,7 @@
 import { QueryClient } from "@tanstack/react-query";
+import { patientSessionHeaders, clearPatientSession, PATIENT_SESSION_HEADER } from "./patient-session";
 
-const makeRequest = async (url: string, options: RequestInit = {}) => {
+const makeRequest = async (url: string, options: RequestInit = {}, allowRefresh = true): Promise<Response> => {
   const baseUrl = import.meta.env.VITE_API_URL || '';
   
   // Get auth token from localStorage
@@ -11,15 +12,30 @@ const makeRequest = async (url: string, options: RequestInit = {}) => {
     headers: {
       'Content-Type': 'application/json',
       ...(token && { 'Authorization': `Bearer ${token}` }),
+      ...patientSessionHeaders(),
       ...options.headers,
     },
   };
   
   const response = await fetch(`${baseUrl}${url}`, config);
   
-  // Handle 401 responses by clearing auth and redirecting
+  // An expired patient session is dropped; the patient session gate re-establishes it
+  if (response.status === 401 && !token && (config.headers as Record<string, string>)[PATIENT_SESSION_HEADER]) {
+    clearPatientSession();
+    return response;
+  }
+  
+  // Handle 401 responses by silently refreshing the session once, then clearing auth and redirecting
   if (response.status === 401) {
+    if (token && allowRefresh) {
+      const { authService } = await import('./auth');
+      if (await authService.refreshSession()) {
+        return makeRequest(url, options, false);
+      }
+    }
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('auth_refresh_token');
+    localStorage.removeItem('auth_expires_at');
     localStorage.removeItem('auth_user');
     if (window.location.pathname.startsWith('/clinical')) {
       window.location.href = '/clinical/login';
@@ -66,6 +82,7 @@ export async function apiRequest(method: string, endpoint: string, data?: any) {
     headers: {
       'Content-Type': 'application/json',
       ...(token && { 'Authorization': `Bearer ${token}` }),
+      ...patientSessionHeaders(),
     },
   };
 
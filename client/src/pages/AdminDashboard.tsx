@@ -21,6 +21,9 @@ import {
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { PatientDetailModal } from "@/components/patient-detail-modal";
+import { TwoFactorSettingsCard } from "@/components/two-factor";
+import { ConsentDocumentsCard } from "@/components/consent-documents-card";
+import { PatientImportCard } from "@/components/patient-import-card";
 import exerLogoPath from "@assets/ExerLogoColor_1750399504621.png";
 import {
   Users,
@@ -40,7 +43,8 @@ import {
   Database,
   Trash2,
   Edit,
-  Home
+  Home,
+  ShieldAlert
 } from "lucide-react";
 
 interface AdminDashboardProps {
@@ -71,6 +75,16 @@ interface Patient {
   complianceRate: number;
 }
 
+interface AccessLockout {
+  key: string;
+  kind: 'ip' | 'code';
+  value: string;
+  failures: number;
+  lockoutCount: number;
+  lockedUntil: string;
+  lastFailureAt: string;
+}
+
 export default function AdminDashboard({ user, onLogout }: AdminDashboardProps) {
   const [complianceData, setComplianceData] = useState<ComplianceData | null>(null);
   const [patients, setPatients] = useState<Patient[]>([]);
@@ -94,6 +108,7 @@ export default function AdminDashboard({ user, onLogout }: AdminDashboardProps)
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [showPatientDetail, setShowPatientDetail] = useState(false);
   const [exportingCsv, setExportingCsv] = useState(false);
+  const [lockouts, setLockouts] = useState<AccessLockout[]>([]);
   const { toast } = useToast();
 
   const getAuthHeaders = () => {
@@ -137,8 +152,44 @@ export default function AdminDashboard({ user, onLogout }: AdminDashboardProps)
     }
   };
 
+  const fetchLockouts = async () => {
+    try {
+      const response = await fetch('/api/admin/access-lockouts', { headers: getAuthHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setLockouts(data.lockouts);
+      }
+    } catch (error) {
+      console.error('Failed to fetch access lockouts:', error);
+    }
+  };
+
+  const clearLockout = async (lockout: AccessLockout) => {
+    try {
+      const response = await fetch(`/api/admin/access-lockouts/${encodeURIComponent(lockout.key)}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders()
+      });
+      if (!response.ok) {
+        throw new Error('Failed to clear lockout');
+      }
+      toast({
+        title: "Lockout cleared",
+        description: `${lockout.kind === 'ip' ? 'IP address' : 'Access code'} ${lockout.value} can try again`
+      });
+      fetchLockouts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to clear lockout",
+        variant: "destructive"
+      });
+    }
+  };
+
   useEffect(() => {
     fetchData();
+    fetchLockouts();
   }, []);
 
   useEffect(() => {
@@ -609,6 +660,58 @@ export default function AdminDashboard({ user, onLogout }: AdminDashboardProps)
           </div>
         )}
 
+        {/* Access Code Lockouts */}
+        {lockouts.length > 0 && (
+          <Card className="mb-8" style={{ backgroundColor: '#FFFFFF' }}>
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5 text-red-600" />
+                  Access Code Lockouts
+                </CardTitle>
+                <Button onClick={fetchLockouts} variant="outline" size="sm">
+                  Refresh
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">Source</th>
+                      <th className="text-left p-2">Failed Attempts</th>
+                      <th className="text-left p-2">Lockouts</th>
+                      <th className="text-left p-2">Locked Until</th>
+                      <th className="text-left p-2">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lockouts.map((lockout) => (
+                      <tr key={lockout.key} className="border-b">
+                        <td className="p-2">
+                          <Badge variant="outline" className="mr-2">
+                            {lockout.kind === 'ip' ? 'IP' : 'Code'}
+                          </Badge>
+                          <span className="font-mono">{lockout.value}</span>
+                        </td>
+                        <td className="p-2">{lockout.failures}</td>
+                        <td className="p-2">{lockout.lockoutCount}</td>
+                        <td className="p-2">{new Date(lockout.lockedUntil).toLocaleString()}</td>
+                        <td className="p-2">
+                          <Button onClick={() => clearLockout(lockout)} variant="outline" size="sm">
+                            Unlock
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Patient Management */}
         <Card style={{ backgroundColor: '#FFFFFF' }}>
           <CardHeader>
@@ -855,6 +958,21 @@ export default function AdminDashboard({ user, onLogout }: AdminDashboardProps)
             </div>
           </CardContent>
         </Card>
+
+        {/* Bulk Patient Onboarding */}
+        <div className="mt-8">
+          <PatientImportCard onImported={fetchData} />
+        </div>
+
+        {/* Consent Documents */}
+        <div className="mt-8">
+          <ConsentDocumentsCard />
+        </div>
+
+        {/* Account Security */}
+        <div className="mt-8">
+          <TwoFactorSettingsCard accountType="admin" />
+        </div>
       </main>
 
       {/* Patient Detail Modal */}
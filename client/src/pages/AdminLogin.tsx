@@ -5,6 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { AlertCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { TwoFactorLoginStep, type TwoFactorChallenge } from "@/components/two-factor";
 import exerLogoPath from "@assets/ExerLogoColor_1750399504621.png";
 
 interface AdminLoginProps {
@@ -16,8 +17,26 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
   const { toast } = useToast();
 
+  const completeLogin = (data: any) => {
+    console.log("Admin login successful:", { username: data.user.username });
+    
+    // Store admin session
+    sessionStorage.setItem('adminToken', data.token);
+    sessionStorage.setItem('adminRefreshToken', data.refreshToken);
+    sessionStorage.setItem('adminTokenExpiresAt', data.expiresAt);
+    sessionStorage.setItem('adminUser', JSON.stringify(data.user));
+    
+    onLogin(data.token, data.user);
+    
+    toast({
+      title: "Login Successful",
+      description: `Welcome ${data.user.firstName}!`,
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -36,18 +55,13 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
 
       if (response.ok) {
         const data = await response.json();
-        console.log("Admin login successful:", data);
-        
-        // Store admin session
-        sessionStorage.setItem('adminToken', data.token);
-        sessionStorage.setItem('adminUser', JSON.stringify(data.user));
-        
-        onLogin(data.token, data.user);
-        
-        toast({
-          title: "Login Successful",
-          description: `Welcome ${data.user.firstName}!`,
-        });
+        if (data.challengeToken) {
+          // Password accepted; a second factor is still needed
+          setChallenge(data);
+          setPassword("");
+        } else {
+          completeLogin(data);
+        }
       } else {
         const errorData = await response.json();
         setError(errorData.message || "Login failed");
@@ -75,48 +89,65 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
           <p className="text-gray-600 dark:text-gray-400">Admin Access</p>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input
-                id="username"
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                placeholder="Enter username"
-                required
-                disabled={loading}
-              />
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Enter password"
-                required
-                disabled={loading}
-              />
-            </div>
+          {challenge ? (
+            <TwoFactorLoginStep
+              accountType="admin"
+              challenge={challenge}
+              onComplete={completeLogin}
+              onCancel={() => setChallenge(null)}
+            />
+          ) : (
+            <>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="username">Username</Label>
+                  <Input
+                    id="username"
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="Enter username"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+              
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Enter password"
+                    required
+                    disabled={loading}
+                  />
+                </div>
 
-            {error && (
-              <div className="flex items-center space-x-2 text-red-600 dark:text-red-400">
-                <AlertCircle className="h-4 w-4" />
-                <span className="text-sm">{error}</span>
-              </div>
-            )}
+                {error && (
+                  <div className="flex items-center space-x-2 text-red-600 dark:text-red-400">
+                    <AlertCircle className="h-4 w-4" />
+                    <span className="text-sm">{error}</span>
+                  </div>
+                )}
+
+                <Button 
+                  type="submit" 
+                  className="w-full" 
+                  disabled={loading}
+                >
+                  {loading ? "Signing In..." : "Sign In"}
+                </Button>
+              </form>
 
-            <Button 
-              type="submit" 
-              className="w-full" 
-              disabled={loading}
-            >
-              {loading ? "Signing In..." : "Sign In"}
-            </Button>
-          </form>
+              <div className="mt-4 text-center">
+                <a href="/admin/reset-password" className="text-sm text-primary hover:underline">
+                  Forgot password?
+                </a>
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -2,10 +2,17 @@ import { useState, useEffect } from "react";
 import AdminLogin from "./AdminLogin";
 import AdminDashboard from "./AdminDashboard";
 
+const ADMIN_SESSION_KEYS = ['adminToken', 'adminRefreshToken', 'adminTokenExpiresAt', 'adminUser'];
+
+function clearAdminSession() {
+  ADMIN_SESSION_KEYS.forEach(key => sessionStorage.removeItem(key));
+}
+
 export default function AdminPortal() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionVersion, setSessionVersion] = useState(0);
 
   useEffect(() => {
     // Check for existing admin session
@@ -19,22 +26,61 @@ export default function AdminPortal() {
         setIsAuthenticated(true);
       } catch (error) {
         // Invalid session data, clear it
-        sessionStorage.removeItem('adminToken');
-        sessionStorage.removeItem('adminUser');
+        clearAdminSession();
       }
     }
     
     setLoading(false);
   }, []);
 
+  // Silently refresh the admin access token shortly before it expires
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const expiresAt = sessionStorage.getItem('adminTokenExpiresAt');
+    const delay = expiresAt ? Math.max(0, new Date(expiresAt).getTime() - Date.now() - 60 * 1000) : 0;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/admin/refresh', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken: sessionStorage.getItem('adminRefreshToken') }),
+        });
+        if (!response.ok) {
+          throw new Error(`Refresh failed with status ${response.status}`);
+        }
+        const tokens = await response.json();
+        sessionStorage.setItem('adminToken', tokens.token);
+        sessionStorage.setItem('adminRefreshToken', tokens.refreshToken);
+        sessionStorage.setItem('adminTokenExpiresAt', tokens.expiresAt);
+        setSessionVersion(version => version + 1);
+      } catch (error) {
+        console.error('Admin session refresh failed:', error);
+        clearAdminSession();
+        setUser(null);
+        setIsAuthenticated(false);
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, sessionVersion]);
+
   const handleLogin = (token: string, userData: any) => {
     setUser(userData);
     setIsAuthenticated(true);
   };
 
-  const handleLogout = () => {
-    sessionStorage.removeItem('adminToken');
-    sessionStorage.removeItem('adminUser');
+  const handleLogout = async () => {
+    const token = sessionStorage.getItem('adminToken');
+    if (token) {
+      // Revoke the session server-side; local state is cleared regardless
+      await fetch('/api/admin/logout', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      }).catch(error => console.warn('Admin logout request failed:', error));
+    }
+    clearAdminSession();
     setUser(null);
     setIsAuthenticated(false);
   };
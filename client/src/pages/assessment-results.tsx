@@ -7,12 +7,15 @@ import { Link } from "wouter";
 import { useState } from "react";
 import AssessmentReplay from "@/components/assessment-replay";
 import { calculateWristResults, getWristClinicalInterpretation, getWristPercentages } from "@shared/wrist-results-calculator";
+import { getTipToPalmClinicalInterpretation, TIP_TO_PALM_TARGET_CM } from "@shared/tip-to-palm-calculator";
+import type { FingerMotionRange, JointMotionRange } from "@shared/rom-calculator";
 import { PatientHeader } from "@/components/patient-header";
+import { ShareLinksPanel } from "@/components/share-links-panel";
 
 export default function AssessmentResults() {
   const [, params] = useRoute("/assessment-results/:code/:userAssessmentId");
   const [showReplay, setShowReplay] = useState(false);
-  const [shareUrl, setShareUrl] = useState("");
+  const [showSharePanel, setShowSharePanel] = useState(false);
 
   // Fetch user assessment data
   const { data: assessmentData, isLoading } = useQuery({
@@ -30,22 +33,6 @@ export default function AssessmentResults() {
 
   const user = (userData as any)?.user || (assessmentData as any)?.user;
 
-  const generateShareLink = async () => {
-    try {
-      const response = await fetch(`/api/user-assessments/${params?.userAssessmentId}/share`, {
-        method: 'POST'
-      });
-      const data = await response.json();
-      if (data.shareToken) {
-        const url = `${window.location.origin}/shared-assessment/${data.shareToken}`;
-        setShareUrl(url);
-        navigator.clipboard.writeText(url);
-      }
-    } catch (error) {
-      console.error('Error generating share link:', error);
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -116,7 +103,7 @@ export default function AssessmentResults() {
                 
                 <Button 
                   variant="outline" 
-                  onClick={generateShareLink}
+                  onClick={() => setShowSharePanel(!showSharePanel)}
                   className="flex items-center gap-2"
                 >
                   <Share className="w-4 h-4" />
@@ -138,14 +125,12 @@ export default function AssessmentResults() {
             </div>
           </div>
 
-          {/* Share URL Display */}
-          {shareUrl && (
-            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
-              <div className="text-sm text-green-800">
-                <strong>Share link generated and copied to clipboard:</strong>
-              </div>
-              <div className="text-xs text-green-700 mt-1 break-all">{shareUrl}</div>
-            </div>
+          {/* Share Links */}
+          {showSharePanel && (
+            <ShareLinksPanel
+              userId={userAssessment.userId}
+              userAssessmentId={userAssessment.id}
+            />
           )}
 
           {/* Results Content */}
@@ -416,6 +401,7 @@ export default function AssessmentResults() {
                           const mcpAngle = finger.mcpAngle ? parseFloat(finger.mcpAngle) : 0;
                           const pipAngle = finger.pipAngle ? parseFloat(finger.pipAngle) : 0;
                           const dipAngle = finger.dipAngle ? parseFloat(finger.dipAngle) : 0;
+                          const motionRange: FingerMotionRange | undefined = userAssessment.fingerMotionRanges?.[finger.key];
 
                           return (
                             <div key={finger.key} className={`bg-white p-4 rounded border ${
@@ -463,10 +449,142 @@ export default function AssessmentResults() {
                                   <div className="text-xs text-gray-500">Normal: 70-90°</div>
                                 </div>
                               </div>
+
+                              {motionRange && (
+                                <div className="mt-3">
+                                  <div className="grid grid-cols-3 gap-3 text-sm">
+                                    {([['MCP', motionRange.mcp], ['PIP', motionRange.pip], ['DIP', motionRange.dip]] as Array<[string, JointMotionRange]>).map(([joint, range]) => (
+                                      <div key={joint} className={`p-2 rounded ${
+                                        range.extensionLag > 0 ? 'bg-orange-50 border border-orange-200' : 'bg-gray-100'
+                                      }`}>
+                                        <div className="text-xs text-gray-800">{joint} Extension</div>
+                                        <div className={`font-medium ${range.extensionLag > 0 ? 'text-orange-600' : 'text-gray-900'}`}>
+                                          {range.extensionLag > 0
+                                            ? `${Math.round(range.extensionLag)}° lag`
+                                            : range.hyperextension > 0
+                                              ? `${Math.round(range.hyperextension)}° hyperext.`
+                                              : 'Full'}
+                                        </div>
+                                      </div>
+                                    ))}
+                                  </div>
+                                  <div className="text-xs text-gray-600 mt-2">
+                                    Flexion {Math.round(motionRange.totalFlexion)}° − extension lag {Math.round(motionRange.totalExtensionLag)}° = {Math.round(motionRange.totalActiveMotion)}° TAM
+                                  </div>
+                                </div>
+                              )}
                             </div>
                           );
                         });
                       })()}
+
+                      {userAssessment.thumbTotalActiveRom && (() => {
+                        const mpAngle = parseFloat(userAssessment.thumbMpFlexion || '0');
+                        const ipAngle = parseFloat(userAssessment.thumbIpFlexion || '0');
+                        const radialAbduction = parseFloat(userAssessment.thumbCmcRadialAbduction || '0');
+                        const palmarAbduction = parseFloat(userAssessment.thumbCmcPalmarAbduction || '0');
+
+                        return (
+                          <div className="bg-white p-4 rounded border">
+                            <div className="flex justify-between items-center mb-3">
+                              <span className="font-medium text-gray-900">Thumb</span>
+                              <span className="font-bold text-lg text-gray-900">
+                                {Math.round(parseFloat(userAssessment.thumbTotalActiveRom))}° TAM
+                              </span>
+                            </div>
+
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                              <div className={`p-2 rounded ${
+                                mpAngle < 50 ? 'bg-red-50 border border-red-200' : 'bg-gray-100'
+                              }`}>
+                                <div className="text-xs text-gray-800">MP Joint</div>
+                                <div className={`font-medium ${
+                                  mpAngle < 50 ? 'text-red-600' : 'text-blue-600'
+                                }`}>
+                                  {Math.round(mpAngle)}°
+                                </div>
+                                <div className="text-xs text-gray-500">Normal: 50-60°</div>
+                              </div>
+                              <div className={`p-2 rounded ${
+                                ipAngle < 80 ? 'bg-red-50 border border-red-200' : 'bg-gray-100'
+                              }`}>
+                                <div className="text-xs text-gray-800">IP Joint</div>
+                                <div className={`font-medium ${
+                                  ipAngle < 80 ? 'text-red-600' : 'text-green-600'
+                                }`}>
+                                  {Math.round(ipAngle)}°
+                                </div>
+                                <div className="text-xs text-gray-500">Normal: 80-90°</div>
+                              </div>
+                              <div className={`p-2 rounded ${
+                                radialAbduction < 50 ? 'bg-red-50 border border-red-200' : 'bg-gray-100'
+                              }`}>
+                                <div className="text-xs text-gray-800">CMC Radial Abduction</div>
+                                <div className={`font-medium ${
+                                  radialAbduction < 50 ? 'text-red-600' : 'text-purple-600'
+                                }`}>
+                                  {Math.round(radialAbduction)}°
+                                </div>
+                                <div className="text-xs text-gray-500">Normal: 50-70°</div>
+                              </div>
+                              <div className={`p-2 rounded ${
+                                palmarAbduction < 45 ? 'bg-red-50 border border-red-200' : 'bg-gray-100'
+                              }`}>
+                                <div className="text-xs text-gray-800">CMC Palmar Abduction</div>
+                                <div className={`font-medium ${
+                                  palmarAbduction < 45 ? 'text-red-600' : 'text-purple-600'
+                                }`}>
+                                  {Math.round(palmarAbduction)}°
+                                </div>
+                                <div className="text-xs text-gray-500">Normal: 45-70°</div>
+                              </div>
+                            </div>
+                          </div>
+                        );
+                      })()}
+
+                      {userAssessment.compositeFistCm && (() => {
+                        const compositeFist = parseFloat(userAssessment.compositeFistCm);
+                        const interpretation = getTipToPalmClinicalInterpretation(compositeFist);
+                        const fingerDistances = [
+                          { name: 'Index', value: userAssessment.indexTipToPalmCm },
+                          { name: 'Middle', value: userAssessment.middleTipToPalmCm },
+                          { name: 'Ring', value: userAssessment.ringTipToPalmCm },
+                          { name: 'Pinky', value: userAssessment.pinkyTipToPalmCm }
+                        ];
+
+                        return (
+                          <div className="bg-white p-4 rounded border">
+                            <div className="flex justify-between items-center mb-3">
+                              <span className="font-medium text-gray-900">Fingertip-to-Palm Distance</span>
+                              <span className={`font-bold text-lg ${interpretation.color}`}>
+                                {compositeFist.toFixed(1)} cm - {interpretation.status}
+                              </span>
+                            </div>
+
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                              {fingerDistances.map(finger => {
+                                const distance = finger.value ? parseFloat(finger.value) : null;
+                                const beyondTarget = distance !== null && distance > TIP_TO_PALM_TARGET_CM;
+                                return (
+                                  <div key={finger.name} className={`p-2 rounded ${
+                                    beyondTarget ? 'bg-red-50 border border-red-200' : 'bg-gray-100'
+                                  }`}>
+                                    <div className="text-xs text-gray-800">{finger.name} Tip to DPC</div>
+                                    <div className={`font-medium ${
+                                      beyondTarget ? 'text-red-600' : 'text-green-600'
+                                    }`}>
+                                      {distance !== null ? `${distance.toFixed(1)} cm` : 'N/A'}
+                                    </div>
+                                    <div className="text-xs text-gray-500">Normal: 0-{TIP_TO_PALM_TARGET_CM} cm</div>
+                                  </div>
+                                );
+                              })}
+                            </div>
+                            <div className="text-xs text-gray-500 mt-2">{interpretation.description}</div>
+                          </div>
+                        );
+                      })()}
                     </div>
                   </div>
                 )}
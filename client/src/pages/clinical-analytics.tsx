@@ -22,6 +22,8 @@ import {
   Download,
 } from 'lucide-react';
 import { useAuth } from '@/lib/auth';
+import { makeRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 
 interface CohortAnalytics {
   cohortId: number;
@@ -52,6 +54,9 @@ interface PatientAssessment {
 export default function ClinicalAnalytics() {
   const { hasRole } = useAuth();
   const [selectedCohort, setSelectedCohort] = useState<string>('all');
+  const [exportFormat, setExportFormat] = useState<'csv' | 'xlsx' | 'json' | 'redcap'>('csv');
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
 
   const { data: cohorts } = useQuery({
     queryKey: ['/api/cohorts'],
@@ -137,25 +142,45 @@ export default function ClinicalAnalytics() {
   });
 
   const handleExportData = async () => {
+    setExporting(true);
     try {
-      const response = await fetch('/api/export', {
+      const response = await makeRequest('/api/export', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
-        },
         body: JSON.stringify({
           exportType: 'cohort_data',
+          format: exportFormat,
           filters: { cohortId: selectedCohort !== 'all' ? selectedCohort : null },
         }),
       });
+      if (!response.ok) {
+        throw new Error('Export request failed');
+      }
 
-      if (response.ok) {
-        const { downloadUrl } = await response.json();
-        window.open(downloadUrl, '_blank');
+      // The download URL needs the session token, so fetch it rather than opening it
+      const { downloadUrl } = await response.json();
+      const download = await makeRequest(downloadUrl);
+      if (!download.ok) {
+        throw new Error('Export download failed');
       }
+      const fileName = download.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `cohort_data.${exportFormat === 'redcap' ? 'zip' : exportFormat}`;
+      const blob = await download.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
     } catch (error) {
       console.error('Export failed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export data",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
     }
   };
 
@@ -170,7 +195,18 @@ export default function ClinicalAnalytics() {
           </p>
         </div>
         <div className="flex items-center space-x-2">
-          <Button onClick={handleExportData} variant="outline">
+          <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as 'csv' | 'xlsx' | 'json' | 'redcap')}>
+            <SelectTrigger className="w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="xlsx">Excel</SelectItem>
+              <SelectItem value="json">JSON</SelectItem>
+              <SelectItem value="redcap">REDCap</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={handleExportData} variant="outline" disabled={exporting}>
             <Download className="mr-2 h-4 w-4" />
             Export Data
           </Button>
@@ -0,0 +1,358 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { makeRequest } from '@/lib/queryClient';
+import { useAuth } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import {
+  ArrowLeft,
+  Download,
+  FileText,
+  Loader2,
+  Shield,
+  ShieldAlert,
+  ShieldCheck,
+} from 'lucide-react';
+
+interface AuditLogEntry {
+  id: number;
+  userId: number | null;
+  action: string;
+  targetEntity: string | null;
+  details: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  timestamp: string;
+  previousHash: string | null;
+  entryHash: string | null;
+}
+
+interface AuditLogPage {
+  logs: AuditLogEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+interface AuditChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  unchainedEntries: number;
+  headHash: string;
+  firstInvalidId: number | null;
+  reason: string | null;
+  verifiedAt: string;
+}
+
+const PAGE_SIZE = 50;
+
+const emptyFilters = { userId: '', action: '', targetEntity: '', from: '', to: '' };
+
+// Build the query string shared by the listing and the CSV export
+function buildQuery(filters: typeof emptyFilters, offset?: number): string {
+  const params = new URLSearchParams();
+  if (filters.userId) params.set('userId', filters.userId);
+  if (filters.action) params.set('action', filters.action);
+  if (filters.targetEntity) params.set('targetEntity', filters.targetEntity);
+  if (filters.from) params.set('from', new Date(filters.from).toISOString());
+  if (filters.to) params.set('to', new Date(filters.to).toISOString());
+  if (offset !== undefined) {
+    params.set('limit', String(PAGE_SIZE));
+    params.set('offset', String(offset));
+  }
+  return params.toString();
+}
+
+export default function ClinicalAuditLog() {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const [draftFilters, setDraftFilters] = useState(emptyFilters);
+  const [filters, setFilters] = useState(emptyFilters);
+  const [offset, setOffset] = useState(0);
+  const [exporting, setExporting] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+
+  const { data, isLoading, error } = useQuery<AuditLogPage>({
+    queryKey: [`/api/audit-logs?${buildQuery(filters, offset)}`],
+    enabled: hasRole(['admin']),
+  });
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOffset(0);
+    setFilters(draftFilters);
+  };
+
+  const resetFilters = () => {
+    setOffset(0);
+    setDraftFilters(emptyFilters);
+    setFilters(emptyFilters);
+  };
+
+  const exportCsv = async () => {
+    setExporting(true);
+    try {
+      const response = await makeRequest(`/api/audit-logs/export?${buildQuery(filters)}`);
+      if (!response.ok) {
+        throw new Error('Export failed');
+      }
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit_log_${format(new Date(), 'yyyy-MM-dd')}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to export audit log",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const verifyChain = async () => {
+    setVerifying(true);
+    try {
+      const response = await makeRequest('/api/audit-logs/verify');
+      if (!response.ok) {
+        throw new Error('Verification failed');
+      }
+      setVerification(await response.json());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to verify audit log integrity",
+        variant: "destructive"
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (!hasRole(['admin'])) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <Shield className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h3 className="mt-4 text-lg font-medium">Access Restricted</h3>
+          <p className="text-muted-foreground">
+            Administrator privileges required to view the audit log.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const total = data?.total ?? 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/clinical/settings">
+            <Button variant="ghost" size="sm" className="mb-2 -ml-2">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Settings
+            </Button>
+          </Link>
+          <h2 className="text-2xl font-bold tracking-tight">Audit Log</h2>
+          <p className="text-muted-foreground">
+            Review access and change history. Entries are hash-chained so any alteration can be detected.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={verifyChain} disabled={verifying}>
+            {verifying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+            Verify Integrity
+          </Button>
+          <Button onClick={exportCsv} disabled={exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {verification && (
+        <Alert variant={verification.valid ? 'default' : 'destructive'}>
+          {verification.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+          <AlertDescription>
+            {verification.valid
+              ? `Chain intact: ${verification.checkedEntries} entries verified`
+              : `Chain broken at entry #${verification.firstInvalidId} (${verification.reason?.replace(/_/g, ' ')}) after ${verification.checkedEntries} valid entries`}
+            {verification.unchainedEntries > 0 && ` (${verification.unchainedEntries} entries predate chaining)`}
+            {' · '}checked {format(new Date(verification.verifiedAt), 'MMM d, yyyy HH:mm:ss')}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <FileText className="h-5 w-5" />
+            <span>Filters</span>
+          </CardTitle>
+          <CardDescription>Narrow entries by user, action, target and date range.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="userId">User ID</Label>
+              <Input
+                id="userId"
+                type="number"
+                value={draftFilters.userId}
+                onChange={(e) => setDraftFilters(prev => ({ ...prev, userId: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="action">Action</Label>
+              <Input
+                id="action"
+                placeholder="e.g. patient_access"
+                value={draftFilters.action}
+                onChange={(e) => setDraftFilters(prev => ({ ...prev, action: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="targetEntity">Target</Label>
+              <Input
+                id="targetEntity"
+                placeholder="e.g. patient_id:12"
+                value={draftFilters.targetEntity}
+                onChange={(e) => setDraftFilters(prev => ({ ...prev, targetEntity: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="from">From</Label>
+              <Input
+                id="from"
+                type="datetime-local"
+                value={draftFilters.from}
+                onChange={(e) => setDraftFilters(prev => ({ ...prev, from: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to">To</Label>
+              <Input
+                id="to"
+                type="datetime-local"
+                value={draftFilters.to}
+                onChange={(e) => setDraftFilters(prev => ({ ...prev, to: e.target.value }))}
+              />
+            </div>
+            <div className="md:col-span-5 flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={resetFilters}>Reset</Button>
+              <Button type="submit">Apply Filters</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+          <CardDescription>
+            {total > 0 ? `Showing ${offset + 1}-${Math.min(offset + PAGE_SIZE, total)} of ${total}` : 'No matching entries'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <Alert variant="destructive">
+              <AlertDescription>Failed to load audit log entries.</AlertDescription>
+            </Alert>
+          ) : isLoading ? (
+            <div className="space-y-2">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="py-2 pr-4 font-medium">#</th>
+                    <th className="py-2 pr-4 font-medium">Time</th>
+                    <th className="py-2 pr-4 font-medium">User</th>
+                    <th className="py-2 pr-4 font-medium">Action</th>
+                    <th className="py-2 pr-4 font-medium">Target</th>
+                    <th className="py-2 pr-4 font-medium">Details</th>
+                    <th className="py-2 pr-4 font-medium">IP</th>
+                    <th className="py-2 font-medium">Hash</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data?.logs.map((entry) => (
+                    <tr key={entry.id} className="border-b align-top">
+                      <td className="py-2 pr-4 text-muted-foreground">{entry.id}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {entry.timestamp ? format(new Date(entry.timestamp), 'MMM d, yyyy HH:mm:ss') : '—'}
+                      </td>
+                      <td className="py-2 pr-4">{entry.userId ?? 'anonymous'}</td>
+                      <td className="py-2 pr-4">
+                        <Badge variant={entry.action === 'access_denied' ? 'destructive' : 'secondary'}>
+                          {entry.action}
+                        </Badge>
+                      </td>
+                      <td className="py-2 pr-4">{entry.targetEntity || '—'}</td>
+                      <td className="py-2 pr-4 max-w-xs">
+                        {entry.details ? (
+                          <code className="text-xs break-all">{JSON.stringify(entry.details)}</code>
+                        ) : '—'}
+                      </td>
+                      <td className="py-2 pr-4">{entry.ipAddress || '—'}</td>
+                      <td className="py-2">
+                        <code className="text-xs text-muted-foreground" title={entry.entryHash || undefined}>
+                          {entry.entryHash ? entry.entryHash.slice(0, 12) : 'unchained'}
+                        </code>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex justify-end space-x-2 mt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={offset === 0}
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={offset + PAGE_SIZE >= total}
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useAuth } from '@/lib/auth';
+import { TwoFactorLoginStep, type TwoFactorChallenge } from '@/components/two-factor';
 import { Loader2, Stethoscope, ArrowLeft } from 'lucide-react';
 
 const loginSchema = z.object({
@@ -20,9 +21,10 @@ type LoginForm = z.infer<typeof loginSchema>;
 
 export default function ClinicalLogin() {
   const [, setLocation] = useLocation();
-  const { login } = useAuth();
+  const { login, completeLogin } = useAuth();
   const [error, setError] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
 
   const form = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
@@ -37,7 +39,12 @@ export default function ClinicalLogin() {
     setError('');
     
     try {
-      await login(data);
+      const result = await login(data);
+      if ('challengeToken' in result) {
+        setChallenge(result);
+        form.reset({ username: data.username, password: '' });
+        return;
+      }
       setLocation('/clinical/dashboard');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
@@ -72,59 +79,79 @@ export default function ClinicalLogin() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {error && (
-            <Alert variant="destructive" className="mb-4">
-              <AlertDescription>{error}</AlertDescription>
-            </Alert>
-          )}
-          
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input
-                id="username"
-                type="text"
-                placeholder="Enter your username"
-                {...form.register('username')}
-                disabled={isLoading}
-              />
-              {form.formState.errors.username && (
-                <p className="text-sm text-destructive">
-                  {form.formState.errors.username.message}
-                </p>
+          {challenge ? (
+            <TwoFactorLoginStep
+              accountType="clinical"
+              challenge={challenge}
+              onComplete={(session) => {
+                completeLogin(session);
+                setLocation('/clinical/dashboard');
+              }}
+              onCancel={() => setChallenge(null)}
+            />
+          ) : (
+            <>
+              {error && (
+                <Alert variant="destructive" className="mb-4">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
               )}
-            </div>
+          
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="username">Username</Label>
+                  <Input
+                    id="username"
+                    type="text"
+                    placeholder="Enter your username"
+                    {...form.register('username')}
+                    disabled={isLoading}
+                  />
+                  {form.formState.errors.username && (
+                    <p className="text-sm text-destructive">
+                      {form.formState.errors.username.message}
+                    </p>
+                  )}
+                </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Enter your password"
-                {...form.register('password')}
-                disabled={isLoading}
-              />
-              {form.formState.errors.password && (
-                <p className="text-sm text-destructive">
-                  {form.formState.errors.password.message}
-                </p>
-              )}
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    {...form.register('password')}
+                    disabled={isLoading}
+                  />
+                  {form.formState.errors.password && (
+                    <p className="text-sm text-destructive">
+                      {form.formState.errors.password.message}
+                    </p>
+                  )}
+                </div>
             
-            <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Sign In
-            </Button>
-          </form>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Sign In
+                </Button>
+              </form>
           
-          <div className="mt-6 text-sm text-gray-600 dark:text-gray-400">
-            <h4 className="font-medium mb-2">Demo Accounts:</h4>
-            <div className="space-y-1 text-xs">
-              <p><strong>Admin:</strong> admin / admin123</p>
-              <p><strong>Clinician:</strong> dr.smith / password123</p>
-              <p><strong>Researcher:</strong> researcher1 / research123</p>
-            </div>
-          </div>
+              <div className="mt-4 text-center">
+                <Link href="/clinical/reset-password" className="text-sm text-primary hover:underline">
+                  Forgot password?
+                </Link>
+              </div>
+          
+              <div className="mt-6 text-sm text-gray-600 dark:text-gray-400">
+                <h4 className="font-medium mb-2">Demo Accounts:</h4>
+                <div className="space-y-1 text-xs">
+                  <p><strong>Admin:</strong> admin / admin123</p>
+                  <p><strong>Clinician:</strong> dr.smith / password123</p>
+                  <p><strong>Researcher:</strong> researcher1 / research123</p>
+                </div>
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
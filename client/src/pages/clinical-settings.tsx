@@ -1,5 +1,8 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/lib/auth';
+import { makeRequest } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -23,18 +26,86 @@ import {
   AlertTriangle
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { TwoFactorSettingsCard } from '@/components/two-factor';
+import { DataRetentionCard } from '@/components/data-retention-card';
+
+interface DeidentificationSettings {
+  enabled: boolean;
+  kAnonymity: number;
+  dateShiftMaxDays: number;
+}
+
+const DEIDENTIFICATION_SETTINGS_KEY = '/api/settings/deidentification';
+
+interface RetentionPolicy {
+  enabled: boolean;
+  motionFrames: { action: 'archive' | 'purge' | 'keep'; afterDays: number };
+  assessmentRecords: { action: 'delete' | 'keep'; afterYears: number };
+  withdrawnPatients: { action: 'delete' | 'keep'; graceDays: number };
+}
+
+const RETENTION_SETTINGS_KEY = '/api/settings/retention';
+
+interface KapandjiSettings {
+  contactRatio: number;
+  dwellMs: number;
+}
+
+const KAPANDJI_SETTINGS_KEY = '/api/settings/kapandji';
 
 export default function ClinicalSettings() {
   const { user, hasRole } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [saving, setSaving] = useState(false);
 
+  // De-identification is enforced server-side on every export, so it is loaded from and saved to the server
+  const { data: savedDeidentification } = useQuery<DeidentificationSettings>({
+    queryKey: [DEIDENTIFICATION_SETTINGS_KEY],
+    enabled: hasRole(['admin']),
+  });
+  const [deidentification, setDeidentification] = useState<DeidentificationSettings | null>(null);
+
+  useEffect(() => {
+    if (savedDeidentification) {
+      setDeidentification(savedDeidentification);
+    }
+  }, [savedDeidentification]);
+
+  // The retention policy is enforced by a server-side job
+  const { data: savedRetention } = useQuery<RetentionPolicy>({
+    queryKey: [RETENTION_SETTINGS_KEY],
+    enabled: hasRole(['admin']),
+  });
+  const [retention, setRetention] = useState<RetentionPolicy | null>(null);
+
+  useEffect(() => {
+    if (savedRetention) {
+      setRetention(savedRetention);
+    }
+  }, [savedRetention]);
+
+  // Kapandji contact scoring is applied server-side when a recording completes
+  const { data: savedKapandji } = useQuery<KapandjiSettings>({
+    queryKey: [KAPANDJI_SETTINGS_KEY],
+    enabled: hasRole(['admin']),
+  });
+  const [kapandji, setKapandji] = useState<KapandjiSettings | null>(null);
+
+  useEffect(() => {
+    if (savedKapandji) {
+      setKapandji(savedKapandji);
+    }
+  }, [savedKapandji]);
+
+  const updateRetention = <K extends keyof Omit<RetentionPolicy, 'enabled'>>(dataClass: K, changes: Partial<RetentionPolicy[K]>) =>
+    setRetention(prev => prev && { ...prev, [dataClass]: { ...prev[dataClass], ...changes } });
+
   // Settings state
   const [settings, setSettings] = useState({
     // System Settings
     sessionTimeout: '120',
     autoLogout: true,
-    dataRetention: '7',
     backupFrequency: 'daily',
     
     // Study Settings
@@ -46,7 +117,6 @@ export default function ClinicalSettings() {
     // Export Settings
     exportFormat: 'csv',
     includeRawData: false,
-    deidentifyExports: true,
     
     // Notification Settings
     emailNotifications: true,
@@ -57,8 +127,39 @@ export default function ClinicalSettings() {
   const handleSaveSettings = async () => {
     setSaving(true);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (deidentification) {
+        const response = await makeRequest(DEIDENTIFICATION_SETTINGS_KEY, {
+          method: 'PUT',
+          body: JSON.stringify(deidentification)
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to save de-identification settings');
+        }
+        queryClient.setQueryData([DEIDENTIFICATION_SETTINGS_KEY], result);
+      }
+      if (retention) {
+        const response = await makeRequest(RETENTION_SETTINGS_KEY, {
+          method: 'PUT',
+          body: JSON.stringify(retention)
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to save retention settings');
+        }
+        queryClient.setQueryData([RETENTION_SETTINGS_KEY], result);
+      }
+      if (kapandji) {
+        const response = await makeRequest(KAPANDJI_SETTINGS_KEY, {
+          method: 'PUT',
+          body: JSON.stringify(kapandji)
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to save Kapandji settings');
+        }
+        queryClient.setQueryData([KAPANDJI_SETTINGS_KEY], result);
+      }
       toast({
         title: "Settings saved",
         description: "Your configuration has been updated successfully."
@@ -66,7 +167,7 @@ export default function ClinicalSettings() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to save settings. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to save settings. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -135,9 +236,15 @@ export default function ClinicalSettings() {
                   <Input
                     id="dataRetention"
                     type="number"
-                    value={settings.dataRetention}
-                    onChange={(e) => setSettings(prev => ({ ...prev, dataRetention: e.target.value }))}
+                    min={1}
+                    max={50}
+                    value={retention?.assessmentRecords.afterYears ?? ''}
+                    disabled={!retention}
+                    onChange={(e) => updateRetention('assessmentRecords', { afterYears: parseInt(e.target.value, 10) || 0 })}
                   />
+                  <p className="text-sm text-muted-foreground">
+                    Assessments older than this are deleted when the retention job is enabled
+                  </p>
                 </div>
               </div>
               
@@ -171,6 +278,28 @@ export default function ClinicalSettings() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Shield className="h-5 w-5" />
+                <span>Audit Log</span>
+              </CardTitle>
+              <CardDescription>
+                Review, export and verify the tamper-evident record of access and changes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/clinical/settings/audit-log">
+                <Button variant="outline">
+                  <FileText className="h-4 w-4 mr-2" />
+                  Open Audit Log
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <TwoFactorSettingsCard accountType="clinical" />
         </TabsContent>
 
         {/* Study Settings */}
@@ -239,6 +368,40 @@ export default function ClinicalSettings() {
                   Scores below this percentage will trigger critical alerts
                 </p>
               </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <Label htmlFor="kapandjiContactRatio">Kapandji Contact Distance (palm lengths)</Label>
+                  <Input
+                    id="kapandjiContactRatio"
+                    type="number"
+                    min={0.05}
+                    max={1}
+                    step={0.01}
+                    value={kapandji?.contactRatio ?? ''}
+                    disabled={!kapandji}
+                    onChange={(e) => setKapandji(prev => prev && { ...prev, contactRatio: parseFloat(e.target.value) || 0 })}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Thumb tip closer than this to a target counts as contact
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="kapandjiDwellMs">Kapandji Dwell Time (ms)</Label>
+                  <Input
+                    id="kapandjiDwellMs"
+                    type="number"
+                    min={0}
+                    max={2000}
+                    value={kapandji?.dwellMs ?? ''}
+                    disabled={!kapandji}
+                    onChange={(e) => setKapandji(prev => prev && { ...prev, dwellMs: parseInt(e.target.value, 10) || 0 })}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    How long contact must last before a target counts, at any frame rate
+                  </p>
+                </div>
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
@@ -336,16 +499,135 @@ export default function ClinicalSettings() {
                   <div className="space-y-0.5">
                     <Label>De-identify Exports</Label>
                     <p className="text-sm text-muted-foreground">
-                      Automatically remove identifying information from exports
+                      Pseudonymize IDs, shift dates, drop notes and generalize demographics in every export.
+                      Researcher exports are always de-identified.
                     </p>
                   </div>
                   <Switch
-                    checked={settings.deidentifyExports}
-                    onCheckedChange={(checked) => setSettings(prev => ({ ...prev, deidentifyExports: checked }))}
+                    checked={deidentification?.enabled ?? false}
+                    disabled={!deidentification}
+                    onCheckedChange={(checked) => setDeidentification(prev => prev && { ...prev, enabled: checked })}
                   />
                 </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="kAnonymity">k-Anonymity Threshold</Label>
+                    <Input
+                      id="kAnonymity"
+                      type="number"
+                      min={2}
+                      max={100}
+                      value={deidentification?.kAnonymity ?? ''}
+                      disabled={!deidentification}
+                      onChange={(e) => setDeidentification(prev => prev && { ...prev, kAnonymity: parseInt(e.target.value, 10) || 0 })}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Age group and occupation are generalized until each demographic group has at least this many patients
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dateShiftMaxDays">Maximum Date Shift (days)</Label>
+                    <Input
+                      id="dateShiftMaxDays"
+                      type="number"
+                      min={1}
+                      max={730}
+                      value={deidentification?.dateShiftMaxDays ?? ''}
+                      disabled={!deidentification}
+                      onChange={(e) => setDeidentification(prev => prev && { ...prev, dateShiftMaxDays: parseInt(e.target.value, 10) || 0 })}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Each patient's dates move by the same offset, so post-op days are unchanged
+                    </p>
+                  </div>
+                </div>
               </div>
               
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Enforce Retention Policy</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Run the retention job daily. Data under a legal hold is never purged.
+                    </p>
+                  </div>
+                  <Switch
+                    checked={retention?.enabled ?? false}
+                    disabled={!retention}
+                    onCheckedChange={(checked) => setRetention(prev => prev && { ...prev, enabled: checked })}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Raw Motion Frames</Label>
+                    <Select
+                      value={retention?.motionFrames.action}
+                      disabled={!retention}
+                      onValueChange={(value) => updateRetention('motionFrames', { action: value as RetentionPolicy['motionFrames']['action'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="archive">Archive, then remove</SelectItem>
+                        <SelectItem value="purge">Remove</SelectItem>
+                        <SelectItem value="keep">Keep</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="motionFramesAfterDays">Frames Kept For (days)</Label>
+                    <Input
+                      id="motionFramesAfterDays"
+                      type="number"
+                      min={1}
+                      max={3650}
+                      value={retention?.motionFrames.afterDays ?? ''}
+                      disabled={!retention || retention.motionFrames.action === 'keep'}
+                      onChange={(e) => updateRetention('motionFrames', { afterDays: parseInt(e.target.value, 10) || 0 })}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      ROM and other derived metrics are kept after the frames are removed
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Withdrawn Patients</Label>
+                    <Select
+                      value={retention?.withdrawnPatients.action}
+                      disabled={!retention}
+                      onValueChange={(value) => updateRetention('withdrawnPatients', { action: value as RetentionPolicy['withdrawnPatients']['action'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="delete">Delete after grace period</SelectItem>
+                        <SelectItem value="keep">Keep</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="withdrawnGraceDays">Grace Period (days)</Label>
+                    <Input
+                      id="withdrawnGraceDays"
+                      type="number"
+                      min={0}
+                      max={3650}
+                      value={retention?.withdrawnPatients.graceDays ?? ''}
+                      disabled={!retention || retention.withdrawnPatients.action === 'keep'}
+                      onChange={(e) => updateRetention('withdrawnPatients', { graceDays: parseInt(e.target.value, 10) || 0 })}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Counted from the date the patient was marked withdrawn
+                    </p>
+                  </div>
+                </div>
+              </div>
+
               <Separator />
               
               <div className="space-y-4">
@@ -360,6 +642,8 @@ export default function ClinicalSettings() {
               </div>
             </CardContent>
           </Card>
+
+          <DataRetentionCard />
         </TabsContent>
 
         {/* Notifications */}
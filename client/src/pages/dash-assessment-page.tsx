@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { CheckCircle2, ArrowLeft, FileText } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import { patientSessionHeaders } from '@/lib/patient-session';
 import { useToast } from '@/hooks/use-toast';
 import { PatientHeader } from '@/components/patient-header';
 
@@ -25,7 +26,7 @@ export default function DashAssessmentPage() {
     mutationFn: async (data: { responses: Record<number, number>; dashScore: number }) => {
       return fetch(`/api/users/${userId}/assessments/6/complete`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...patientSessionHeaders() },
         body: JSON.stringify({
           responses: data.responses,
           dashScore: data.dashScore,
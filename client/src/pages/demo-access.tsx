@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Play, User, RotateCcw, Trash2 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { setPatientSession } from "@/lib/patient-session";
 import { useToast } from "@/hooks/use-toast";
 
 export default function DemoAccess() {
@@ -26,6 +27,7 @@ export default function DemoAccess() {
     try {
       // Verify demo user exists and log them in
       const response = await apiRequest('POST', '/api/users/verify-code', { code: 'DEMO01' });
+      setPatientSession(response.session);
 
       if (response.user) {
         // Set injury type if needed
@@ -51,6 +53,7 @@ export default function DemoAccess() {
     try {
       // Verify demo user exists
       const response = await apiRequest('POST', '/api/users/verify-code', { code: 'DEMO01' });
+      setPatientSession(response.session);
 
       if (response.user && !response.user.injuryType) {
         await apiRequest('PATCH', `/api/users/${response.user.id}`, { 
@@ -11,6 +11,7 @@ import { getInjuryIcon } from "@/components/medical-icons";
 import distalRadiusFractureImg from "@assets/distal-radius-fracture-18.jpg";
 import triggerFingerImg from "@assets/trigger-finger-5.jpg";
 import type { InjuryType } from "@/types/assessment";
+import { patientSessionHeaders } from "@/lib/patient-session";
 
 export default function InjurySelection() {
   const [selectedInjury, setSelectedInjury] = useState<string>("");
@@ -39,6 +40,7 @@ export default function InjurySelection() {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
+          ...patientSessionHeaders(),
         },
         body: JSON.stringify({ 
           injuryType,
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { setPatientSession } from "@/lib/patient-session";
 import { Shield, ShieldX, Lock, Info, ArrowRight } from "lucide-react";
 import VideoDemo from "@/components/video-demo";
 
@@ -39,6 +40,7 @@ export default function Landing() {
       console.log('Verification successful:', data);
       // Store user data in sessionStorage
       sessionStorage.setItem('currentUser', JSON.stringify(data.user));
+      setPatientSession(data.session);
       // Store user code in localStorage for redirect logic
       localStorage.setItem('currentUserCode', data.user.code);
       
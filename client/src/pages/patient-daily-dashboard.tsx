@@ -29,6 +29,7 @@ import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { Link } from 'wouter';
 import { PatientHeader } from '@/components/patient-header';
+import { patientSessionHeaders } from '@/lib/patient-session';
 
 interface DailyAssessment {
   id: number;
@@ -144,7 +145,7 @@ export default function PatientDailyDashboard() {
     mutationFn: async (assessmentId: number) => {
       return fetch(`/api/patients/${userCode}/complete-assessment`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...patientSessionHeaders() },
         body: JSON.stringify({ assessmentId, completedAt: new Date().toISOString() }),
       }).then(res => res.json());
     },
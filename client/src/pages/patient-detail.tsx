@@ -24,16 +24,35 @@ import { useAuth } from '@/lib/auth';
 interface PatientAssessment {
   id: number;
   assessmentDate: string;
-  tamScore: number;
-  kapandjiScore: number;
-  wristFlexionAngle: number;
-  wristExtensionAngle: number;
-  percentOfNormalRom: number;
-  changeFromBaseline: number;
-  deviceConfidenceScore: number;
+  tamScore: number | null;
+  kapandjiScore: number | null;
+  wristFlexionAngle: number | null;
+  wristExtensionAngle: number | null;
+  percentOfNormalRom: number | null;
+  changeFromBaseline: number | null;
+  deviceConfidenceScore: number | null;
   isCompleted: boolean;
 }
 
+const METRIC_FIELDS = [
+  'tamScore',
+  'kapandjiScore',
+  'wristFlexionAngle',
+  'wristExtensionAngle',
+  'percentOfNormalRom',
+  'changeFromBaseline',
+  'deviceConfidenceScore',
+] as const;
+
+// Numeric columns arrive as strings (or null); the charts and labels need numbers
+function parseAssessment(raw: any): PatientAssessment {
+  const assessment = { ...raw };
+  METRIC_FIELDS.forEach(field => {
+    assessment[field] = raw[field] === null || raw[field] === undefined ? null : Number(raw[field]);
+  });
+  return assessment;
+}
+
 interface PatientDetails {
   id: number;
   patientId: string;
@@ -72,9 +91,10 @@ export default function PatientDetail() {
     queryKey: [`/api/patients/${id}`],
   });
 
-  const { data: assessments, isLoading: assessmentsLoading } = useQuery<PatientAssessment[]>({
+  const { data: assessments, isLoading: assessmentsLoading } = useQuery<{ assessments: any[] }, Error, PatientAssessment[]>({
     queryKey: [`/api/patients/${id}/assessments`],
     enabled: !!id,
+    select: (data) => data.assessments.map(parseAssessment),
   });
 
   if (!hasRole(['clinician', 'admin'])) {
@@ -7,6 +7,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { TrendingUp, Calendar, Target, ArrowLeft, Activity } from "lucide-react";
 import { Link } from "wouter";
+import { HandCalibrationCard } from "@/components/hand-calibration-card";
 // Import deviation calculation utility - will implement inline for now
 
 // Target ROM values by injury type and assessment
@@ -24,6 +25,7 @@ const targetROM = {
   },
   'Trigger Finger': {
     'TAM (Total Active Motion)': 260,
+    'Fingertip-to-Palm Distance': 1,
     'DASH Score': 10
   },
   'Distal Radius Fracture': {
@@ -52,11 +54,18 @@ const targetROM = {
     'Middle Finger TAM': 270,
     'Ring Finger TAM': 270,
     'Pinky Finger TAM': 270,
+    'Fingertip-to-Palm Distance': 1,
     'DASH Score': 15
   },
   'Phalanx Fracture': {
     'TAM (Total Active Motion)': 260,
+    'Fingertip-to-Palm Distance': 1,
     'DASH Score': 18
+  },
+  'Flexor Tendon Injury': {
+    'TAM (Total Active Motion)': 240,
+    'Fingertip-to-Palm Distance': 1,
+    'DASH Score': 15
   }
 };
 
@@ -132,6 +141,9 @@ export default function ProgressCharts() {
         return item.assessmentName === 'TAM (Total Active Motion)';
       } else if (assessmentName.includes('Kapandji')) {
         return item.assessmentName === 'Kapandji Score';
+      } else if (assessmentName === 'Fingertip-to-Palm Distance') {
+        // Only recordings made after the patient calibrated their hand size have distances
+        return item.assessmentName === 'TAM (Total Active Motion)' && item.compositeFistCm !== null && item.compositeFistCm !== undefined;
       } else if (assessmentName === 'DASH Score') {
         console.log('Filtering for DASH Score');
         console.log('DASH items found:', userHistory.filter(h => h.assessmentId === 6 || h.assessmentName?.includes('DASH')));
@@ -181,6 +193,9 @@ export default function ProgressCharts() {
         value = parseFloat(item.pinkyFingerRom) || 0;
       } else if (assessmentName.includes('Kapandji')) {
         value = parseFloat(item.kapandjiScore || item.totalActiveRom) || 0;
+      } else if (assessmentName === 'Fingertip-to-Palm Distance') {
+        // Composite fist: the finger that stays furthest from the distal palmar crease
+        value = parseFloat(item.compositeFistCm) || 0;
       } else if (assessmentName === 'DASH Score') {
         // DASH scores come from DASH Survey assessments with dashScore field
         value = parseFloat(item.dashScore) || 0;
@@ -228,6 +243,9 @@ export default function ProgressCharts() {
         // DASH Score: lower is better, so invert the percentage
         // 0 = 100% (perfect), target = 0% (poor)
         percentage = Math.max(0, Math.round(((target - value) / target) * 100));
+      } else if (assessmentName === 'Fingertip-to-Palm Distance') {
+        // Distance: lower is better, anything within the target is full progress
+        percentage = value <= target ? 100 : Math.round((target / value) * 100);
       } else {
         // Other assessments: higher is better
         percentage = Math.round((value / target) * 100);
@@ -242,7 +260,8 @@ export default function ProgressCharts() {
     }).sort((a, b) => a.day - b.day);
     
     // Ensure chart always starts at day 0 by adding a day 0 point if needed
-    if (chartData.length > 0 && chartData[0].day > 0) {
+    // (distances have no meaningful baseline, since 0 cm would read as a full fist)
+    if (chartData.length > 0 && chartData[0].day > 0 && assessmentName !== 'Fingertip-to-Palm Distance') {
       // Add day 0 with baseline value
       const baselineValue = assessmentName === 'DASH Score' ? 100 : 0; // DASH starts high, others start low
       chartData.unshift({
@@ -273,6 +292,10 @@ export default function ProgressCharts() {
         unit = ' pts';
         scoringDescription = 'Lower is better (0-100 scale)';
         deltaLabel = 'Δ from target (lower is better)';
+      } else if (assessmentName === 'Fingertip-to-Palm Distance') {
+        unit = ' cm';
+        scoringDescription = 'Lower is better (0 cm is a full fist)';
+        deltaLabel = 'Δ from target (lower is better)';
       }
       
       return (
@@ -287,7 +310,7 @@ export default function ProgressCharts() {
           </p>
           <p className="text-xs text-muted-foreground">{scoringDescription}</p>
           <p className="text-sm text-muted-foreground">
-            {deltaLabel}: {data.value - target > 0 ? '+' : ''}{data.value - target}{unit}
+            {deltaLabel}: {data.value - target > 0 ? '+' : ''}{Math.round((data.value - target) * 100) / 100}{unit}
           </p>
         </div>
       );
@@ -321,6 +344,8 @@ export default function ProgressCharts() {
       console.log(`DASH Score assessment check: found ${dashHistory.length} DASH assessments`);
       console.log('DASH items details:', dashHistory.map(h => ({ id: h.id, name: h.assessmentName, assessmentId: h.assessmentId })));
       return dashHistory.length > 0;
+    } else if (assessmentName === 'Fingertip-to-Palm Distance') {
+      return userHistory.some((h: any) => h.compositeFistCm !== null && h.compositeFistCm !== undefined);
     } else if (assessmentName === 'Wrist Radial Deviation' || assessmentName === 'Wrist Ulnar Deviation') {
       const deviationHistory = userHistory.filter(h => h.assessmentName === 'Wrist Radial/Ulnar Deviation');
       console.log(`Found ${deviationHistory.length} deviation assessments for ${assessmentName}`);
@@ -346,7 +371,8 @@ export default function ProgressCharts() {
   };
   
   const baseAssessments = showDigitBreakdown ? 
-    ['TAM (Total Active Motion)', 'Index Finger TAM', 'Middle Finger TAM', 'Ring Finger TAM', 'Pinky Finger TAM'] :
+    ['TAM (Total Active Motion)', 'Index Finger TAM', 'Middle Finger TAM', 'Ring Finger TAM', 'Pinky Finger TAM']
+      .concat(assessmentTypesWithData.includes('Fingertip-to-Palm Distance') ? ['Fingertip-to-Palm Distance'] : []) :
     assessmentTypesWithData;
     
   const displayAssessments = splitDeviationAssessments(baseAssessments);
@@ -406,6 +432,11 @@ export default function ProgressCharts() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Scale calibration for the centimeter fingertip-to-palm measurement */}
+        {assessmentTypes.includes('Fingertip-to-Palm Distance') && (user as any)?.user && (
+          <HandCalibrationCard user={(user as any).user} />
+        )}
       </div>
 
       {/* Progress Charts */}
@@ -415,6 +446,7 @@ export default function ProgressCharts() {
             <TabsTrigger key={assessmentName} value={assessmentName} className="text-xs">
               {assessmentName
                 .replace(' (Total Active Motion)', '')
+                .replace('Fingertip-to-Palm Distance', 'Tip-to-Palm')
                 .replace('Wrist ', '')
                 .replace('Forearm ', '')
                 .replace(' Finger TAM', '')
@@ -428,9 +460,12 @@ export default function ProgressCharts() {
         {displayAssessments.map((assessmentName) => {
           const chartData = getChartData(assessmentName);
           const target = assessmentName.includes('Kapandji') ? 10 : (targetROM[injuryType]?.[assessmentName] || 100);
-          const unit = (assessmentName.includes('Kapandji') || assessmentName === 'DASH Score') ? '' : '°';
+          const isDistance = assessmentName === 'Fingertip-to-Palm Distance';
+          const unit = isDistance ? ' cm' : (assessmentName.includes('Kapandji') || assessmentName === 'DASH Score') ? '' : '°';
           const latestValue = chartData[chartData.length - 1]?.value || 0;
-          const percentageOfTarget = Math.round((latestValue / target) * 100);
+          const percentageOfTarget = isDistance
+            ? (chartData[chartData.length - 1]?.percentage || 0)
+            : Math.round((latestValue / target) * 100);
           
 
 
@@ -474,13 +509,14 @@ export default function ProgressCharts() {
                             />
                             <YAxis 
                               label={{ 
-                                value: assessmentName.includes('Kapandji') ? 'Score' : assessmentName === 'DASH Score' ? 'Disability Score' : `ROM (${unit})`, 
+                                value: assessmentName.includes('Kapandji') ? 'Score' : assessmentName === 'DASH Score' ? 'Disability Score' : isDistance ? 'Distance (cm)' : `ROM (${unit})`, 
                                 angle: -90, 
                                 position: 'insideLeft' 
                               }}
                               domain={
                                 assessmentName.includes('Kapandji') ? [0, 12] : 
                                 assessmentName === 'DASH Score' ? [0, 100] :
+                                isDistance ? [0, Math.max(8, Math.ceil(Math.max(...chartData.map(point => point.value))) + 1)] :
                                 assessmentName.includes('Radial Deviation') ? [0, Math.max(25, target + 10)] :
                                 assessmentName.includes('Ulnar Deviation') ? [0, Math.max(50, target + 15)] :
                                 [0, Math.max(300, target + 50)]
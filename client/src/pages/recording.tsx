@@ -11,6 +11,7 @@ import { useToast } from "@/hooks/use-toast";
 import { calculateCurrentROM, calculateMaxROM, calculateFingerROM, type JointAngles } from "@/lib/rom-calculator";
 import { calculateWristAngles } from "@shared/wrist-calculator";
 import { calculateElbowReferencedWristAngle, calculateMaxElbowWristAngles, resetRecordingSession } from "@shared/elbow-wrist-calculator";
+import { patientSessionHeaders } from "@/lib/patient-session";
 
 export default function Recording() {
   const { id, code } = useParams();
@@ -63,7 +64,7 @@ export default function Recording() {
       setCurrentUser(user);
     } else if (code) {
       // If we have a code parameter, try to verify and set the user
-      fetch(`/api/users/by-code/${code}`)
+      fetch(`/api/users/by-code/${code}`, { headers: patientSessionHeaders() })
         .then(res => res.json())
         .then(data => {
           if (data.user) {
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, KeyRound, ArrowLeft } from 'lucide-react';
+
+interface ResetPasswordProps {
+  accountType?: 'clinical' | 'admin';
+}
+
+// Handles both halves of the reset flow: without a token the user requests a
+// reset link by username; with ?token=... they choose the new password.
+export default function ResetPassword({ accountType = 'clinical' }: ResetPasswordProps) {
+  const token = new URLSearchParams(window.location.search).get('token');
+  const apiBase = accountType === 'admin' ? '/api/admin' : '/api/auth';
+  const loginPath = accountType === 'admin' ? '/admin' : '/clinical/login';
+
+  const [username, setUsername] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [violations, setViolations] = useState<string[]>([]);
+  const [message, setMessage] = useState('');
+  const [completed, setCompleted] = useState(false);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`${apiBase}/password-reset/request`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to request password reset');
+      }
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request password reset');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setViolations([]);
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`${apiBase}/password-reset/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, newPassword }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setViolations(data.violations || []);
+        throw new Error(data.message || 'Failed to reset password');
+      }
+      setCompleted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <Link href={loginPath}>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="fixed top-4 left-4 flex items-center gap-2 z-10"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Sign In
+        </Button>
+      </Link>
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex items-center justify-center mb-4">
+            <div className="bg-primary/10 p-3 rounded-full">
+              <KeyRound className="h-6 w-6 text-primary" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl text-center">
+            {token ? 'Choose a New Password' : 'Reset Password'}
+          </CardTitle>
+          <CardDescription className="text-center">
+            {token
+              ? 'Enter a new password for your account'
+              : 'Enter your username and we will send you a reset link'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertDescription>
+                {error}
+                {violations.length > 1 && (
+                  <ul className="mt-2 list-disc pl-4">
+                    {violations.slice(1).map((violation) => (
+                      <li key={violation}>{violation}</li>
+                    ))}
+                  </ul>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {completed ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Your password has been changed. Please sign in with your new password.
+              </p>
+              <Link href={loginPath}>
+                <Button className="w-full">Go to Sign In</Button>
+              </Link>
+            </div>
+          ) : token ? (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">New Password</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  disabled={isLoading}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm New Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  disabled={isLoading}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Reset Password
+              </Button>
+            </form>
+          ) : message ? (
+            <p className="text-sm text-center text-gray-600 dark:text-gray-400">{message}</p>
+          ) : (
+            <form onSubmit={handleRequest} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  type="text"
+                  placeholder="Enter your username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  disabled={isLoading}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send Reset Link
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,9 +7,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 export default function SharedAssessment() {
   const { token } = useParams<{ token: string }>();
 
-  const { data, isLoading, error } = useQuery({
+  const { data, isLoading, error } = useQuery<any>({
     queryKey: [`/api/shared/${token}`],
-    enabled: !!token
+    enabled: !!token,
+    retry: false
   });
 
   if (isLoading) {
@@ -28,9 +29,13 @@ export default function SharedAssessment() {
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
         <Card className="w-full max-w-md">
           <CardHeader>
-            <CardTitle className="text-red-600">Assessment Not Found</CardTitle>
+            <CardTitle className="text-red-600">
+              {error?.message.includes('410') ? 'Link No Longer Available' : 'Assessment Not Found'}
+            </CardTitle>
             <CardDescription>
-              This shared assessment link is invalid or has expired.
+              {error?.message.includes('410')
+                ? 'This share link has expired, been revoked or reached its view limit. Ask the sender for a new link.'
+                : 'This shared assessment link is invalid or has expired.'}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -46,7 +51,7 @@ export default function SharedAssessment() {
     );
   }
 
-  const { userAssessment, assessment } = data;
+  const { userAssessment, assessment, scope, expiresAt } = data;
   const motionData: any[] = [];
   
   // Extract motion data from repetition data
@@ -58,8 +63,8 @@ export default function SharedAssessment() {
     });
   }
 
-  // Go directly to motion replay if motion data exists
-  if (motionData.length > 0) {
+  // Go directly to motion replay if the link includes it and motion data exists
+  if (scope === 'replay' && motionData.length > 0) {
     return (
       <AssessmentReplay
         assessmentName={assessment?.name || 'Shared Assessment'}
@@ -69,17 +74,40 @@ export default function SharedAssessment() {
     );
   }
 
-  // Fallback if no motion data
+  // Summary view for summary-scoped links, or when there is no motion data
+  const summaryRows = [
+    ['Completed', userAssessment.completedAt ? new Date(userAssessment.completedAt).toLocaleDateString() : null],
+    ['Hand', userAssessment.handType],
+    ['Quality Score', userAssessment.qualityScore != null ? `${userAssessment.qualityScore}%` : null],
+    ['Total Active ROM', userAssessment.totalActiveRom != null ? `${userAssessment.totalActiveRom}°` : null],
+    ['Max Wrist Flexion', userAssessment.maxWristFlexion != null ? `${userAssessment.maxWristFlexion}°` : null],
+    ['Max Wrist Extension', userAssessment.maxWristExtension != null ? `${userAssessment.maxWristExtension}°` : null],
+    ['DASH Score', userAssessment.dashScore],
+  ].filter(([, value]) => value !== null && value !== undefined);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
       <Card className="w-full max-w-md">
         <CardHeader>
-          <CardTitle>No Motion Data</CardTitle>
+          <CardTitle>{assessment?.name || 'Shared Assessment'}</CardTitle>
           <CardDescription>
-            This shared assessment does not contain motion replay data.
+            {scope === 'replay'
+              ? 'This shared assessment does not contain motion replay data.'
+              : 'Results summary shared with you.'}
+            {expiresAt && ` Link expires ${new Date(expiresAt).toLocaleString()}.`}
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {summaryRows.length > 0 && (
+            <div className="space-y-2 text-sm">
+              {summaryRows.map(([label, value]) => (
+                <div key={label} className="flex justify-between">
+                  <span className="text-gray-600">{label}</span>
+                  <span className="font-medium text-gray-900">{value}</span>
+                </div>
+              ))}
+            </div>
+          )}
           <Button 
             onClick={() => window.location.href = '/'} 
             className="w-full"
@@ -6,6 +6,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { ArrowLeft, ArrowRight, Play, Info, AlertTriangle, CheckCircle } from "lucide-react";
 import ProgressBar from "@/components/progress-bar";
 import { apiRequest } from "@/lib/queryClient";
+import { patientSessionHeaders } from "@/lib/patient-session";
 
 export default function VideoInstruction() {
   const { id, code } = useParams();
@@ -19,7 +20,7 @@ export default function VideoInstruction() {
       setCurrentUser(JSON.parse(savedUser));
     } else if (code) {
       // If we have a code parameter, try to verify and set the user
-      fetch(`/api/users/by-code/${code}`)
+      fetch(`/api/users/by-code/${code}`, { headers: patientSessionHeaders() })
         .then(res => res.json())
         .then(data => {
           if (data.user) {
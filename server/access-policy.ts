@@ -0,0 +1,89 @@
+// Caseload access policy for clinical patient routes.
+// Admins see every patient, clinicians see their assigned patients plus any
+// explicitly delegated to them, and researchers get read-only de-identified
+// projections. Routes ask for a decision and apply the projection it names.
+
+export type PatientAccessMode = 'read' | 'write';
+
+export type PatientAccessReason =
+  | 'admin'
+  | 'assigned'
+  | 'delegated'
+  | 'research_read'
+  | 'not_in_caseload'
+  | 'read_only_role'
+  | 'unknown_role';
+
+export interface PatientAccessDecision {
+  allowed: boolean;
+  deidentify: boolean;       // Respond with the de-identified projection
+  reason: PatientAccessReason;
+}
+
+export interface AccessSubject {
+  id: number;
+  role: string;
+}
+
+export interface CaseloadPatient {
+  id: number;
+  assignedClinicianId: number | null;
+}
+
+export function decidePatientAccess(
+  subject: AccessSubject,
+  patient: CaseloadPatient,
+  mode: PatientAccessMode,
+  delegatedPatientIds: number[] = [],
+): PatientAccessDecision {
+  switch (subject.role) {
+    case 'admin':
+      return { allowed: true, deidentify: false, reason: 'admin' };
+    case 'clinician':
+      if (patient.assignedClinicianId === subject.id) {
+        return { allowed: true, deidentify: false, reason: 'assigned' };
+      }
+      if (delegatedPatientIds.includes(patient.id)) {
+        return { allowed: true, deidentify: false, reason: 'delegated' };
+      }
+      return { allowed: false, deidentify: false, reason: 'not_in_caseload' };
+    case 'researcher':
+      return mode === 'read'
+        ? { allowed: true, deidentify: true, reason: 'research_read' }
+        : { allowed: false, deidentify: true, reason: 'read_only_role' };
+    default:
+      return { allowed: false, deidentify: false, reason: 'unknown_role' };
+  }
+}
+
+// True when the subject may see the patient in a list (researchers see all, de-identified)
+export function isInCaseload(subject: AccessSubject, patient: CaseloadPatient, delegatedPatientIds: number[] = []): boolean {
+  return decidePatientAccess(subject, patient, 'read', delegatedPatientIds).allowed;
+}
+
+// Direct identifiers, contact details, free text and exact dates are removed;
+// the internal numeric id is kept so records can still be linked within a study.
+const PATIENT_IDENTIFYING_FIELDS = [
+  'patientId', 'accessCode', 'phone', 'dateOfBirth', 'injuryDate', 'surgeryDate',
+  'enrolledDate', 'studyEnrollmentDate', 'withdrawnAt', 'eligibilityNotes', 'assignedClinicianId', 'assignedClinician',
+];
+
+const ASSESSMENT_IDENTIFYING_FIELDS = ['patientId', 'clinicianId', 'notes', 'rawData'];
+
+function withoutFields<T extends Record<string, any>>(record: T, fields: string[]): T {
+  const projected: Record<string, any> = { ...record };
+  for (const field of fields) {
+    if (field in projected) {
+      projected[field] = null;
+    }
+  }
+  return projected as T;
+}
+
+export function deidentifyPatient<T extends Record<string, any>>(patient: T): T {
+  return withoutFields(patient, PATIENT_IDENTIFYING_FIELDS);
+}
+
+export function deidentifyAssessment<T extends Record<string, any>>(assessment: T): T {
+  return withoutFields(assessment, ASSESSMENT_IDENTIFYING_FIELDS);
+}
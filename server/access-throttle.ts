@@ -0,0 +1,149 @@
+// Attempt throttling for patient access codes.
+// Failed lookups are counted per key ("ip:<address>" and "code:<code>") inside a
+// sliding window; crossing the limit locks the key, and each repeat lockout
+// doubles in length up to a ceiling. State is in memory, like session revocation.
+
+export interface ThrottleOptions {
+  maxFailures: number;       // Failures allowed within the window before locking
+  windowMs: number;
+  baseLockoutMs: number;     // First lockout length; doubles on each repeat
+  maxLockoutMs: number;
+  resetAfterMs: number;      // Quiet period after which the backoff level is forgotten
+}
+
+export interface AccessLockout {
+  key: string;
+  kind: 'ip' | 'code';
+  value: string;
+  failures: number;          // Total failures recorded since the backoff level was last reset
+  lockoutCount: number;
+  lockedUntil: string;
+  lastFailureAt: string;
+}
+
+export type ThrottleCheck =
+  | { allowed: true }
+  | { allowed: false; key: string; retryAfterSeconds: number };
+
+interface ThrottleEntry {
+  failures: number[];        // Failure timestamps within the window
+  totalFailures: number;
+  lockoutCount: number;
+  lockedUntil: number;
+  lastFailureAt: number;
+}
+
+export class AttemptThrottle {
+  private entries = new Map<string, ThrottleEntry>();
+
+  constructor(private options: ThrottleOptions) {}
+
+  // Returns the first locked key, if any, so callers can reject before doing a lookup
+  check(keys: string[], now: number = Date.now()): ThrottleCheck {
+    for (const key of keys) {
+      const entry = this.entries.get(key);
+      if (entry && entry.lockedUntil > now) {
+        return { allowed: false, key, retryAfterSeconds: Math.ceil((entry.lockedUntil - now) / 1000) };
+      }
+    }
+    return { allowed: true };
+  }
+
+  // Record a failed attempt. Returns the lockout when this failure triggered one.
+  recordFailure(key: string, now: number = Date.now()): AccessLockout | null {
+    const entry = this.entries.get(key) || { failures: [], totalFailures: 0, lockoutCount: 0, lockedUntil: 0, lastFailureAt: 0 };
+
+    if (entry.lastFailureAt && now - entry.lastFailureAt > this.options.resetAfterMs) {
+      entry.lockoutCount = 0;
+      entry.totalFailures = 0;
+    }
+
+    entry.failures = entry.failures.filter(at => now - at < this.options.windowMs);
+    entry.failures.push(now);
+    entry.totalFailures += 1;
+    entry.lastFailureAt = now;
+    this.entries.set(key, entry);
+
+    if (entry.failures.length < this.options.maxFailures) {
+      return null;
+    }
+
+    const duration = Math.min(
+      this.options.baseLockoutMs * Math.pow(2, entry.lockoutCount),
+      this.options.maxLockoutMs,
+    );
+    entry.lockoutCount += 1;
+    entry.lockedUntil = now + duration;
+    entry.failures = [];
+    return this.toLockout(key, entry);
+  }
+
+  // A successful lookup clears the failure count but keeps the backoff level
+  recordSuccess(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.failures = [];
+    }
+  }
+
+  getLockouts(now: number = Date.now()): AccessLockout[] {
+    this.prune(now);
+    const lockouts: AccessLockout[] = [];
+    this.entries.forEach((entry, key) => {
+      if (entry.lockedUntil > now) {
+        lockouts.push(this.toLockout(key, entry));
+      }
+    });
+    return lockouts.sort((a, b) => b.lockedUntil.localeCompare(a.lockedUntil));
+  }
+
+  clear(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  private prune(now: number) {
+    this.entries.forEach((entry, key) => {
+      if (entry.lockedUntil <= now && now - entry.lastFailureAt > this.options.resetAfterMs) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  private toLockout(key: string, entry: ThrottleEntry): AccessLockout {
+    const [kind, ...rest] = key.split(':');
+    return {
+      key,
+      kind: kind === 'code' ? 'code' : 'ip',
+      value: rest.join(':'),
+      failures: entry.totalFailures,
+      lockoutCount: entry.lockoutCount,
+      lockedUntil: new Date(entry.lockedUntil).toISOString(),
+      lastFailureAt: new Date(entry.lastFailureAt).toISOString(),
+    };
+  }
+}
+
+const minutes = (value: string | undefined, fallback: number) =>
+  (parseFloat(value || '') || fallback) * 60 * 1000;
+
+export const accessCodeThrottle = new AttemptThrottle({
+  maxFailures: parseInt(process.env.ACCESS_CODE_MAX_FAILURES || '', 10) || 5,
+  windowMs: minutes(process.env.ACCESS_CODE_WINDOW_MINUTES, 15),
+  baseLockoutMs: minutes(process.env.ACCESS_CODE_LOCKOUT_MINUTES, 1),
+  maxLockoutMs: minutes(process.env.ACCESS_CODE_MAX_LOCKOUT_MINUTES, 24 * 60),
+  resetAfterMs: 24 * 60 * 60 * 1000,
+});
+
+// Second-factor codes are keyed per account ("mfa:<audience>:<id>"); six digits
+// need a much tighter limit than access codes
+export const twoFactorThrottle = new AttemptThrottle({
+  maxFailures: 5,
+  windowMs: 5 * 60 * 1000,
+  baseLockoutMs: 5 * 60 * 1000,
+  maxLockoutMs: 24 * 60 * 60 * 1000,
+  resetAfterMs: 24 * 60 * 60 * 1000,
+});
+
+export function accessThrottleKeys(ip: string | undefined, code: string): string[] {
+  return [`ip:${ip || 'unknown'}`, `code:${code}`];
+}
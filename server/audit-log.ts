@@ -0,0 +1,140 @@
+// Tamper-evident audit log chaining and export helpers.
+// Every entry stores the previous entry's hash and a SHA-256 over its own content
+// plus that hash, so editing, deleting or reordering a stored row breaks the chain
+// from that point on. Storage backends compute hashes on insert; verification
+// replays the whole chain in id order.
+import crypto from 'crypto';
+
+export const AUDIT_CHAIN_GENESIS_HASH = '0'.repeat(64);
+
+export interface ChainedAuditEntry {
+  id: number;
+  userId: number | null;
+  action: string;
+  targetEntity: string | null;
+  details: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  timestamp: Date | string | null;
+  previousHash: string | null;
+  entryHash: string | null;
+}
+
+export type AuditChainContent = Omit<ChainedAuditEntry, 'id' | 'previousHash' | 'entryHash'>;
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  unchainedEntries: number;      // Entries written before chaining was introduced
+  headHash: string;
+  firstInvalidId: number | null;
+  reason: 'hash_mismatch' | 'broken_link' | 'missing_hash' | null;
+  verifiedAt: string;
+}
+
+// JSONB does not preserve key order, so objects are hashed with sorted keys
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    Object.keys(value as Record<string, unknown>).sort().forEach(key => {
+      const field = (value as Record<string, unknown>)[key];
+      if (field !== undefined) {
+        sorted[key] = canonicalize(field);
+      }
+    });
+    return sorted;
+  }
+  return value ?? null;
+}
+
+export function computeAuditEntryHash(entry: AuditChainContent, previousHash: string): string {
+  const content = canonicalize({
+    userId: entry.userId ?? null,
+    action: entry.action,
+    targetEntity: entry.targetEntity ?? null,
+    details: entry.details ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    timestamp: entry.timestamp ? new Date(entry.timestamp).toISOString() : null,
+  });
+  return crypto.createHash('sha256').update(previousHash).update(JSON.stringify(content)).digest('hex');
+}
+
+// Fill in timestamp and chain hashes for a new entry following `previous`
+export function chainAuditEntry<T extends Partial<AuditChainContent> & { action: string }>(
+  entry: T,
+  previous: Pick<ChainedAuditEntry, 'entryHash'> | undefined,
+): T & { timestamp: Date; previousHash: string; entryHash: string } {
+  const timestamp = new Date();
+  const previousHash = previous?.entryHash || AUDIT_CHAIN_GENESIS_HASH;
+  const content: AuditChainContent = {
+    userId: entry.userId ?? null,
+    action: entry.action,
+    targetEntity: entry.targetEntity ?? null,
+    details: entry.details ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    timestamp,
+  };
+  return { ...entry, timestamp, previousHash, entryHash: computeAuditEntryHash(content, previousHash) };
+}
+
+// Entries must be supplied in ascending id order
+export function verifyAuditChain(entries: ChainedAuditEntry[]): AuditChainVerification {
+  let expectedPrevious = AUDIT_CHAIN_GENESIS_HASH;
+  let unchainedEntries = 0;
+  let chainStarted = false;
+
+  const result = (firstInvalidId: number | null, reason: AuditChainVerification['reason'], checkedEntries: number): AuditChainVerification => ({
+    valid: firstInvalidId === null,
+    checkedEntries,
+    unchainedEntries,
+    headHash: expectedPrevious,
+    firstInvalidId,
+    reason,
+    verifiedAt: new Date().toISOString(),
+  });
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    if (!entry.entryHash) {
+      if (chainStarted) {
+        return result(entry.id, 'missing_hash', index);
+      }
+      unchainedEntries += 1;
+      continue;
+    }
+
+    chainStarted = true;
+    if ((entry.previousHash || AUDIT_CHAIN_GENESIS_HASH) !== expectedPrevious) {
+      return result(entry.id, 'broken_link', index);
+    }
+    if (computeAuditEntryHash(entry, expectedPrevious) !== entry.entryHash) {
+      return result(entry.id, 'hash_mismatch', index);
+    }
+    expectedPrevious = entry.entryHash;
+  }
+
+  return result(null, null, entries.length);
+}
+
+const AUDIT_CSV_COLUMNS = ['id', 'timestamp', 'userId', 'action', 'targetEntity', 'details', 'ipAddress', 'userAgent', 'previousHash', 'entryHash'] as const;
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export function auditLogsToCsv(entries: Partial<ChainedAuditEntry>[]): string {
+  const rows = entries.map(entry => AUDIT_CSV_COLUMNS.map(column => csvField(entry[column])).join(','));
+  return [AUDIT_CSV_COLUMNS.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,58 @@
+// Command-line backup and restore for whichever backend the environment selects.
+//   npm run backup -- [archive.zip]   writes a backup (default: backups/<generated name>)
+//   npm run restore -- <archive.zip>  replaces all stored data with the backup's contents
+import fs from 'fs/promises';
+import path from 'path';
+import { BackupError, backupFileName, createBackupArchive, readBackupArchive } from './backup';
+import { PersistentMemoryStorage } from './persistent-storage';
+import { createStorage, storageBackupSource } from './storage-backend';
+
+const BACKUP_DIR = 'backups';
+
+async function openStorage() {
+  const storage = await createStorage();
+  if (storage instanceof PersistentMemoryStorage) {
+    await storage.ready;
+  }
+  return storage;
+}
+
+async function backup(outFile?: string) {
+  const storage = await openStorage();
+  const createdAt = new Date();
+  const source = storageBackupSource();
+  const archive = await createBackupArchive(await storage.getBackupSnapshot(), source, createdAt);
+  const file = outFile || path.join(BACKUP_DIR, backupFileName(source, createdAt));
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, archive);
+  console.log(`Backup of the ${source} store written to ${file} (${archive.length} bytes)`);
+}
+
+async function restore(file: string) {
+  const { manifest, snapshot } = await readBackupArchive(await fs.readFile(file));
+  const storage = await openStorage();
+  const result = await storage.restoreBackupSnapshot(snapshot);
+  console.log(`Restored ${manifest.source} backup from ${manifest.createdAt} into the ${storageBackupSource()} store`);
+  console.log(`  restored: ${result.restored.join(', ') || 'none'}`);
+  console.log(`  emptied:  ${result.emptied.join(', ') || 'none'}`);
+  console.log(`  skipped:  ${result.skipped.join(', ') || 'none'}`);
+}
+
+async function main() {
+  const [command, file] = process.argv.slice(2);
+  if (command === 'backup') {
+    await backup(file);
+  } else if (command === 'restore' && file) {
+    await restore(file);
+  } else {
+    console.error('Usage: backup-cli backup [archive.zip] | restore <archive.zip>');
+    process.exit(2);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error instanceof BackupError ? `Backup error: ${error.message}` : error);
+    process.exit(1);
+  });
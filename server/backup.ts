@@ -0,0 +1,198 @@
+// Point-in-time backups that restore into either storage backend.
+// A backup is a ZIP holding manifest.json and one tables/<table>.json per table, with
+// rows keyed by the Drizzle property names that both backends already use. The
+// manifest records the archive format version, a fingerprint of the schema the rows
+// were taken under, the source backend and a SHA-256 of every table file; restores
+// check all of them before replacing any data. A restore replaces the whole store;
+// tables a backend does not keep (the file store derives streaks and schedules, for
+// example) are reported as skipped.
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import { getTableColumns, getTableName, type Column } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import {
+  clinicalUsers,
+  adminUsers,
+  passwordResetTokens,
+  cohorts,
+  patients,
+  assessmentTypes,
+  patientAssessments,
+  outlierAlerts,
+  auditLogs,
+  patientDelegations,
+  dataExports,
+  systemSettings,
+  legalHolds,
+  users,
+  assessments,
+  userAssessments,
+  shareLinks,
+  shareLinkAccessLogs,
+  consentDocuments,
+  consentRecords,
+  injuryTypes,
+  dailyCompletions,
+  assessmentSchedules,
+  userStreaks,
+  quickDashResponses,
+  studyVisits,
+} from '@shared/schema';
+
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_CONTENT_TYPE = 'application/zip';
+
+// Every table, parents before children, so a restore can insert in this order
+export const BACKUP_TABLES: PgTable[] = [
+  clinicalUsers, adminUsers, passwordResetTokens, cohorts, patients, assessmentTypes,
+  patientAssessments, outlierAlerts, auditLogs, patientDelegations, dataExports,
+  systemSettings, legalHolds, users, assessments, userAssessments, shareLinks,
+  shareLinkAccessLogs, consentDocuments, consentRecords, injuryTypes, dailyCompletions,
+  assessmentSchedules, userStreaks, quickDashResponses, studyVisits,
+];
+
+export type BackupSource = 'database' | 'file';
+export type BackupRow = Record<string, unknown>;
+
+// Rows per table, keyed by SQL table name
+export type BackupSnapshot = Record<string, BackupRow[]>;
+
+export interface BackupManifest {
+  formatVersion: number;
+  schemaVersion: string;
+  source: BackupSource;
+  createdAt: string;
+  tables: Record<string, { rows: number; sha256: string }>;
+}
+
+export interface RestoreResult {
+  restored: string[];   // Replaced with the rows from the backup
+  emptied: string[];    // Kept by this backend but absent from the backup, so now empty
+  skipped: string[];    // In the backup but not kept by this backend
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+function tableFile(name: string): string {
+  return `tables/${name}.json`;
+}
+
+function sha256(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+const tablesByName = new Map<string, PgTable>(BACKUP_TABLES.map(table => [getTableName(table), table]));
+
+export function getBackupTable(name: string): PgTable | undefined {
+  return tablesByName.get(name);
+}
+
+// Changes whenever a table or column is added, removed, renamed or retyped
+export function schemaFingerprint(): string {
+  const description = BACKUP_TABLES.map(table => {
+    const columns = Object.values(getTableColumns(table) as Record<string, Column>)
+      .map(column => `${column.name}:${column.columnType}`)
+      .sort();
+    return `${getTableName(table)}(${columns.join(',')})`;
+  }).sort().join(';');
+  return sha256(description).slice(0, 16);
+}
+
+// JSON carries timestamps as strings; timestamp columns need Date values to be written back
+export function reviveBackupRows(name: string, rows: BackupRow[]): BackupRow[] {
+  const table = getBackupTable(name);
+  if (!table) {
+    return rows;
+  }
+  const columns = getTableColumns(table) as Record<string, Column>;
+  const timestampKeys = Object.keys(columns).filter(key => columns[key].columnType === 'PgTimestamp');
+  return rows.map(row => {
+    const revived: BackupRow = { ...row };
+    timestampKeys.forEach(key => {
+      if (typeof revived[key] === 'string') {
+        revived[key] = new Date(revived[key] as string);
+      }
+    });
+    return revived;
+  });
+}
+
+export async function createBackupArchive(snapshot: BackupSnapshot, source: BackupSource, createdAt = new Date()): Promise<Buffer> {
+  const zip = new JSZip();
+  const manifest: BackupManifest = {
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: schemaFingerprint(),
+    source,
+    createdAt: createdAt.toISOString(),
+    tables: {},
+  };
+  Object.keys(snapshot).sort().forEach(name => {
+    const content = JSON.stringify(snapshot[name]);
+    manifest.tables[name] = { rows: snapshot[name].length, sha256: sha256(content) };
+    zip.file(tableFile(name), content);
+  });
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// Validates the archive in full and returns its rows; nothing is restored here
+export async function readBackupArchive(archive: Buffer): Promise<{ manifest: BackupManifest; snapshot: BackupSnapshot }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch (error) {
+    throw new BackupError('The file is not a backup archive');
+  }
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new BackupError('The archive has no manifest');
+  }
+
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch (error) {
+    throw new BackupError('The backup manifest is not valid JSON');
+  }
+  if (manifest.formatVersion !== BACKUP_FORMAT_VERSION) {
+    throw new BackupError(`Backup format version ${manifest.formatVersion} is not supported (expected ${BACKUP_FORMAT_VERSION})`);
+  }
+  const schemaVersion = schemaFingerprint();
+  if (manifest.schemaVersion !== schemaVersion) {
+    throw new BackupError(`The backup was taken under schema ${manifest.schemaVersion}, but this server runs schema ${schemaVersion}`);
+  }
+
+  const snapshot: BackupSnapshot = {};
+  const names = Object.keys(manifest.tables || {});
+  for (let i = 0; i < names.length; i++) {
+    const name = names[i];
+    if (!getBackupTable(name)) {
+      throw new BackupError(`Unknown table in backup: ${name}`);
+    }
+    const file = zip.file(tableFile(name));
+    if (!file) {
+      throw new BackupError(`The archive is missing ${tableFile(name)}`);
+    }
+    const content = await file.async('string');
+    if (sha256(content) !== manifest.tables[name].sha256) {
+      throw new BackupError(`Checksum mismatch for table ${name}`);
+    }
+    const rows = JSON.parse(content);
+    if (!Array.isArray(rows) || rows.length !== manifest.tables[name].rows) {
+      throw new BackupError(`Row count mismatch for table ${name}`);
+    }
+    snapshot[name] = rows;
+  }
+  return { manifest, snapshot };
+}
+
+export function backupFileName(source: BackupSource, createdAt = new Date()): string {
+  return `backup_${source}_${createdAt.toISOString().replace(/[:.]/g, '-')}.zip`;
+}
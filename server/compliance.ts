@@ -0,0 +1,20 @@
+// Admin portal compliance: how many assessments each injury type is assigned, and the
+// share of them a patient has completed. Both storage backends report from these.
+const ASSIGNED_ASSESSMENTS: Record<string, number> = {
+  'Carpal Tunnel': 6,     // assessments 1,2,3,4,5 + DASH survey
+  'Tennis Elbow': 3,      // assessments 1,3 + DASH survey
+  'Golfer\'s Elbow': 3,   // assessments 1,3 + DASH survey
+  'Trigger Finger': 3,    // assessments 1,2 + DASH survey
+  'Wrist Fracture': 6,    // assessments 1,2,3,4,5 + DASH survey
+  'Tendon Injury': 6,     // assessments 1,2,3,4,5 + DASH survey
+  'Distal Radius Fracture': 6, // assessments 1,2,3,4,5 + DASH survey
+};
+
+export function assignedAssessmentCount(injuryType: string): number {
+  return ASSIGNED_ASSESSMENTS[injuryType] || 3; // Default includes DASH survey
+}
+
+// Percentage, unrounded; 0 when nothing is assigned
+export function complianceRate(completed: number, assigned: number): number {
+  return assigned > 0 ? (completed / assigned) * 100 : 0;
+}
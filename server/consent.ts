@@ -0,0 +1,27 @@
+// Electronic consent for patients.
+// Admins publish numbered versions of the consent document; the latest published
+// version is current. A patient must have signed the current version before any
+// recording is started or saved, so publishing a new version asks everyone to
+// consent again. Until a first version is published no consent is required.
+import type { ConsentDocument, ConsentRecord } from '@shared/schema';
+
+export interface ConsentStatus {
+  required: boolean;
+  document: ConsentDocument | null;
+  record: ConsentRecord | null;
+}
+
+// records are newest first, as returned by storage.getConsentRecords(userId)
+export function getConsentStatus(current: ConsentDocument | undefined, records: ConsentRecord[]): ConsentStatus {
+  const record = records[0] || null;
+  if (!current) {
+    return { required: false, document: null, record };
+  }
+
+  const signedCurrent = records.find(r => r.consentDocumentId === current.id) || null;
+  return {
+    required: !signedCurrent,
+    document: current,
+    record: signedCurrent || record,
+  };
+}
@@ -0,0 +1,165 @@
+// File generation for clinical data exports.
+// An export request stores only its type, format and filters; the file is built
+// from patientAssessments when the download URL is opened, so it always reflects
+// the caller's current caseload. Rows arrive already de-identified, with the
+// patient's demographics and the week of the study visit they fulfil joined on.
+// CSV and XLSX hold one row per assessment without the raw motion data; JSON keeps
+// every field; REDCap is a ZIP of import files (see redcap.ts).
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import { getTableColumns } from 'drizzle-orm';
+import { patientAssessments } from '@shared/schema';
+import type { ExportRecord } from './deidentification';
+import { buildRedcapExport } from './redcap';
+
+export type DataExportFormat = 'csv' | 'xlsx' | 'json' | 'redcap';
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+// Download links stay valid for this long after the export is requested
+export const DATA_EXPORT_TTL_MINUTES = 15;
+
+// Patient quasi-identifiers joined onto every assessment row
+export const PATIENT_EXPORT_COLUMNS = ['ageGroup', 'sex', 'occupationCategory'];
+
+// Tabular exports leave out rawData (per-frame landmarks), which can run to megabytes per row
+const TABULAR_COLUMNS = [
+  ...Object.keys(getTableColumns(patientAssessments)).filter(column => column !== 'rawData'),
+  'scheduledWeek',
+  ...PATIENT_EXPORT_COLUMNS,
+];
+
+export function generateExportDownloadUrl(): string {
+  return `/api/export/download/${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toCsv(rows: ExportRecord[]): string {
+  const lines = rows.map(row =>
+    TABULAR_COLUMNS.map(column => `"${cellText(row[column]).replace(/"/g, '""')}"`).join(','));
+  return [TABULAR_COLUMNS.join(','), ...lines].join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// A1-style column letters: 0 -> A, 25 -> Z, 26 -> AA
+function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function xlsxCell(value: unknown, ref: string): string {
+  // Numeric columns come back from Postgres as strings; write them as numbers
+  if (typeof value === 'number' || (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value))) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const text = cellText(value);
+  if (!text) {
+    return '';
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+// Minimal single-sheet Office Open XML workbook using inline strings
+async function toXlsx(rows: ExportRecord[], sheetName: string): Promise<Buffer> {
+  const sheetRows = [TABULAR_COLUMNS as unknown[], ...rows.map(row => TABULAR_COLUMNS.map(column => row[column]))]
+    .map((values, rowIndex) => {
+      const cells = values.map((value, columnIndex) => xlsxCell(value, `${columnLetter(columnIndex)}${rowIndex + 1}`)).join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '</Types>');
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>');
+  zip.file('xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>');
+  zip.file('xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>');
+  zip.file('xl/worksheets/sheet1.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${sheetRows}</sheetData>` +
+    '</worksheet>');
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+export async function buildExportFile(
+  rows: ExportRecord[],
+  exportType: string,
+  format: DataExportFormat,
+  generatedAt: Date = new Date(),
+): Promise<ExportFile> {
+  const baseName = `${exportType}_${generatedAt.toISOString().slice(0, 10)}`;
+
+  switch (format) {
+    case 'xlsx':
+      return {
+        fileName: `${baseName}.xlsx`,
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        body: await toXlsx(rows, exportType),
+      };
+    case 'redcap':
+      return {
+        fileName: `${baseName}_redcap.zip`,
+        contentType: 'application/zip',
+        body: await buildRedcapExport(rows),
+      };
+    case 'json':
+      return {
+        fileName: `${baseName}.json`,
+        contentType: 'application/json',
+        body: JSON.stringify({ exportType, generatedAt: generatedAt.toISOString(), rowCount: rows.length, rows }, null, 2),
+      };
+    default:
+      return {
+        fileName: `${baseName}.csv`,
+        contentType: 'text/csv',
+        body: toCsv(rows),
+      };
+  }
+}
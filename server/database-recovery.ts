@@ -1,5 +1,4 @@
 // Database recovery system with fallback to memory storage
-import { MemoryStorage } from './memory-storage';
 import { storage } from './storage';
 import { db } from './db';
 import { sql } from 'drizzle-orm';
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeidentificationPipeline, DEFAULT_DEIDENTIFICATION_SETTINGS } from './deidentification';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECORDED_AT = Date.parse('2024-03-02T10:00:00.000Z');
+
+function pipeline() {
+  return new DeidentificationPipeline({ ...DEFAULT_DEIDENTIFICATION_SETTINGS, secret: 'test-secret' });
+}
+
+// An assessment as downloadPatientMotionData returns it, with the recording page's frames
+function motionAssessment() {
+  return {
+    id: 11,
+    assessmentId: 1,
+    completedAt: new Date(RECORDED_AT + 60000),
+    repetitionData: [{
+      repetition: 1,
+      timestamp: new Date(RECORDED_AT).toISOString(),
+      motionData: [
+        { timestamp: RECORDED_AT, landmarks: [{ x: 0.5, y: 0.5, z: 0 }] },
+        { timestamp: RECORDED_AT + 33, landmarks: [{ x: 0.51, y: 0.5, z: 0 }] },
+      ],
+    }],
+    tamScore: '212.5',
+  };
+}
+
+test('shifts dates nested in recording data by the subject offset', () => {
+  const deidentification = pipeline();
+  const shift = deidentification.dateOffsetDays('user', 7) * DAY_MS;
+  const exported = deidentification.userRecord(7, motionAssessment());
+  const repetition = exported.repetitionData[0];
+
+  assert.equal(exported.completedAt, new Date(RECORDED_AT + 60000 + shift).toISOString());
+  assert.equal(repetition.timestamp, new Date(RECORDED_AT + shift).toISOString());
+  assert.deepEqual(repetition.motionData.map((frame: any) => frame.timestamp), [RECORDED_AT + shift, RECORDED_AT + 33 + shift]);
+  assert.deepEqual(repetition.motionData[1].landmarks, [{ x: 0.51, y: 0.5, z: 0 }]);
+  assert.equal(exported.tamScore, '212.5');
+});
+
+test('exported payload holds no original recording time', () => {
+  const deidentification = pipeline();
+  const payload = JSON.stringify({
+    patient: deidentification.user({ id: 7, code: '123456', createdAt: new Date(RECORDED_AT) }),
+    assessments: [deidentification.userRecord(7, motionAssessment())],
+  });
+
+  assert.ok(!payload.includes('2024-03-02'));
+  assert.ok(!payload.includes(String(RECORDED_AT)));
+  assert.ok(!payload.includes('123456'));
+});
+
+test('keeps frame offsets that are not wall-clock times', () => {
+  const exported = pipeline().userRecord(7, { repetitionData: [{ motionData: [{ timestamp: 0 }, { timestamp: 33 }] }] });
+  assert.deepEqual(exported.repetitionData[0].motionData, [{ timestamp: 0 }, { timestamp: 33 }]);
+});
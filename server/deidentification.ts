@@ -0,0 +1,250 @@
+// De-identification stage shared by every export.
+// - Patient and app-user ids, codes and aliases become keyed-hash pseudonyms, so
+//   the same person links across exports without revealing who they are.
+// - All dates for one person, including those nested in recording data, move by
+//   the same secret offset, which keeps intervals such as post-op day intact.
+// - Free text and direct identifiers (notes, contact details, names) are dropped.
+// - ageGroup and occupationCategory are generalized just enough that every
+//   combination of (ageGroup, sex, occupationCategory) in the export is shared by
+//   at least k patients; anyone still in a smaller group also loses sex.
+import crypto from 'crypto';
+import type { DeidentificationSettings } from '@shared/schema';
+
+export type ExportRecord = Record<string, any>;
+type SubjectKind = 'patient' | 'user';
+
+export interface DeidentificationConfig extends DeidentificationSettings {
+  secret: string;   // Keys the pseudonyms and date offsets; never leaves the server
+}
+
+export const DEFAULT_DEIDENTIFICATION_SETTINGS: DeidentificationSettings = {
+  enabled: true,
+  kAnonymity: 5,
+  dateShiftMaxDays: 180,
+};
+
+export function generateDeidentificationSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+const SUPPRESSED_FIELDS = [
+  'notes', 'eligibilityNotes', 'phone', 'email', 'firstName', 'lastName', 'dateOfBirth',
+  'clinicianId', 'assignedClinicianId', 'assignedClinician', 'shareToken',
+];
+// Identifiers replaced by the pseudonym of the record's subject
+const SUBJECT_ID_FIELDS = ['patientId', 'userId', 'code', 'accessCode', 'alias', 'patientCode'];
+
+const SUPPRESSED_VALUE = '*';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 1973-03-03: numeric timestamps below this are relative offsets, not wall-clock times
+const MIN_EPOCH_MS = 1e11;
+
+// Generalization hierarchies: level 0 is the original value, the last level suppresses it
+const AGE_GROUP_LEVELS: Array<(value: string) => string> = [
+  value => value,
+  value => {
+    const lower = parseInt(value, 10);
+    if (isNaN(lower)) return value;
+    if (lower < 36) return '18-35';
+    if (lower < 56) return '36-55';
+    return '56+';
+  },
+  () => SUPPRESSED_VALUE,
+];
+
+const OCCUPATION_LEVELS: Array<(value: string) => string> = [
+  value => value,
+  value => value === 'Manual Labor' ? 'Manual' : value === 'Other' ? 'Other' : 'Non-manual',
+  () => SUPPRESSED_VALUE,
+];
+
+// Candidate (age level, occupation level) pairs, least information lost first
+const GENERALIZATION_STEPS: Array<[number, number]> = [
+  [0, 0], [1, 0], [0, 1], [1, 1], [2, 0], [0, 2], [2, 1], [1, 2], [2, 2],
+];
+
+interface QuasiIdentifiers {
+  ageGroup: string | null;
+  sex: string | null;
+  occupationCategory: string | null;
+}
+
+function generalize(value: string | null | undefined, levels: Array<(value: string) => string>, level: number): string | null {
+  return value ? levels[level](value) : null;
+}
+
+function classKey(qi: QuasiIdentifiers): string {
+  return `${qi.ageGroup}|${qi.sex}|${qi.occupationCategory}`;
+}
+
+function countClasses(rows: QuasiIdentifiers[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  rows.forEach(row => counts.set(classKey(row), (counts.get(classKey(row)) || 0) + 1));
+  return counts;
+}
+
+export interface KAnonymityResult {
+  ageLevel: number;
+  occupationLevel: number;
+  generalized: Map<number, QuasiIdentifiers>;
+}
+
+// Picks the least generalization at which every equivalence class has at least k members
+export function computeKAnonymity(patients: Array<{ id: number } & Partial<QuasiIdentifiers>>, k: number): KAnonymityResult {
+  for (let i = 0; i < GENERALIZATION_STEPS.length; i++) {
+    const [ageLevel, occupationLevel] = GENERALIZATION_STEPS[i];
+    const rows = patients.map(patient => ({
+      ageGroup: generalize(patient.ageGroup, AGE_GROUP_LEVELS, ageLevel),
+      sex: patient.sex ?? null,
+      occupationCategory: generalize(patient.occupationCategory, OCCUPATION_LEVELS, occupationLevel),
+    }));
+    const counts = countClasses(rows);
+    const isLast = i === GENERALIZATION_STEPS.length - 1;
+    let smallest = Infinity;
+    counts.forEach(count => { smallest = Math.min(smallest, count); });
+
+    if (smallest >= k || isLast) {
+      const generalized = new Map<number, QuasiIdentifiers>();
+      patients.forEach((patient, index) => {
+        const row = rows[index];
+        const undersized = (counts.get(classKey(row)) || 0) < k;
+        generalized.set(patient.id, undersized ? { ...row, sex: row.sex === null ? null : SUPPRESSED_VALUE } : row);
+      });
+      return { ageLevel, occupationLevel, generalized };
+    }
+  }
+  // GENERALIZATION_STEPS is never empty
+  throw new Error('No generalization step available');
+}
+
+export class DeidentificationPipeline {
+  readonly active: boolean;
+  private kAnonymity: KAnonymityResult;
+
+  // patients is the population k-anonymity is evaluated over: the exported patients, or a
+  // larger reference population when only some of them are exported.
+  // force applies the pipeline even when de-identification is switched off (researchers).
+  constructor(private config: DeidentificationConfig, patients: Array<{ id: number } & Partial<QuasiIdentifiers>> = [], force = false) {
+    this.active = config.enabled || force;
+    this.kAnonymity = computeKAnonymity(this.active ? patients : [], config.kAnonymity);
+  }
+
+  private digest(kind: SubjectKind, id: number, purpose: string): Buffer {
+    return crypto.createHmac('sha256', this.config.secret).update(`${purpose}:${kind}:${id}`).digest();
+  }
+
+  pseudonym(kind: SubjectKind, id: number): string {
+    return `${kind === 'patient' ? 'P' : 'U'}-${this.digest(kind, id, 'pseudonym').toString('hex').slice(0, 12)}`;
+  }
+
+  // Non-zero offset in [-max, max] days, fixed per subject
+  dateOffsetDays(kind: SubjectKind, id: number): number {
+    const digest = this.digest(kind, id, 'date-shift');
+    const magnitude = (digest.readUInt32BE(0) % this.config.dateShiftMaxDays) + 1;
+    return digest[4] & 1 ? magnitude : -magnitude;
+  }
+
+  private shiftDate(value: Date | string, offsetDays: number): string {
+    const shifted = new Date(new Date(value).getTime() + offsetDays * DAY_MS);
+    // Keep date-only values date-only
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? shifted.toISOString().slice(0, 10)
+      : shifted.toISOString();
+  }
+
+  private isDate(value: unknown): value is Date | string {
+    if (value instanceof Date) {
+      return !isNaN(value.getTime());
+    }
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}(T| |$)/.test(value) && !isNaN(Date.parse(value));
+  }
+
+  // Frame timestamps in recordings are Date.now() values; smaller numbers are offsets
+  private isEpochTimestamp(key: string, value: unknown): value is number {
+    return key === 'timestamp' && typeof value === 'number' && value >= MIN_EPOCH_MS;
+  }
+
+  // Applies the field rules at every depth, so dates nested in JSON columns such as
+  // repetitionData[].timestamp and repetitionData[].motionData[].timestamp move too
+  private transformValue(key: string, value: any, pseudonym: string, offset: number): any {
+    if (SUPPRESSED_FIELDS.includes(key)) {
+      return null;
+    }
+    if (SUBJECT_ID_FIELDS.includes(key)) {
+      return value === null || value === undefined ? value : pseudonym;
+    }
+    if (this.isDate(value)) {
+      return this.shiftDate(value, offset);
+    }
+    if (this.isEpochTimestamp(key, value)) {
+      return value + offset * DAY_MS;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.transformValue(key, item, pseudonym, offset));
+    }
+    if (value !== null && typeof value === 'object') {
+      return this.transformObject(value, pseudonym, offset);
+    }
+    return value;
+  }
+
+  private transformObject(record: ExportRecord, pseudonym: string, offset: number): ExportRecord {
+    const result: ExportRecord = {};
+    Object.keys(record).forEach(key => {
+      result[key] = this.transformValue(key, record[key], pseudonym, offset);
+    });
+    return result;
+  }
+
+  private transform(record: ExportRecord, kind: SubjectKind, subjectId: number): ExportRecord {
+    return this.transformObject(record, this.pseudonym(kind, subjectId), this.dateOffsetDays(kind, subjectId));
+  }
+
+  // A clinical patients row
+  patient(patient: ExportRecord & { id: number }): ExportRecord {
+    if (!this.active) {
+      return patient;
+    }
+    const result = this.transform(patient, 'patient', patient.id);
+    const generalized = this.kAnonymity.generalized.get(patient.id);
+    return {
+      ...result,
+      id: this.pseudonym('patient', patient.id),
+      patientId: this.pseudonym('patient', patient.id),
+      ...generalized,
+    };
+  }
+
+  // Assessments, questionnaires and other rows belonging to a clinical patient
+  patientRecord(patientId: number, record: ExportRecord): ExportRecord {
+    return this.active ? this.transform(record, 'patient', patientId) : record;
+  }
+
+  // A patient app user (users table) or admin portal row keyed by user id
+  user(user: ExportRecord & { id: number }): ExportRecord {
+    if (!this.active) {
+      return user;
+    }
+    return { ...this.transform(user, 'user', user.id), id: this.pseudonym('user', user.id) };
+  }
+
+  userRecord(userId: number, record: ExportRecord): ExportRecord {
+    return this.active ? this.transform(record, 'user', userId) : record;
+  }
+
+  // Generalized quasi-identifiers for a patient, for joining onto exported rows
+  quasiIdentifiers(patient: { id: number } & Partial<QuasiIdentifiers>): QuasiIdentifiers {
+    if (this.active) {
+      const generalized = this.kAnonymity.generalized.get(patient.id);
+      if (generalized) {
+        return generalized;
+      }
+    }
+    return {
+      ageGroup: patient.ageGroup ?? null,
+      sex: patient.sex ?? null,
+      occupationCategory: patient.occupationCategory ?? null,
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Fhir } from 'fhir';
+import { buildClinicalFhirBundle, buildUserFhirBundle, validateFhirBundle, type ClinicalFhirInput, type FhirBundle } from './fhir';
+
+// De-identified records as the export pipeline hands them over: pseudonym ids, shifted dates
+function clinicalInput(id: string, sex: string): ClinicalFhirInput {
+  return {
+    patient: { id, sex, isActive: true, laterality: 'right' },
+    assessments: [{
+      id: `${id}-a1`,
+      completedAt: '2024-03-02T10:00:00.000Z',
+      tamScore: '212.5',
+      indexFingerRom: '230',
+      indexMcp: '80',
+      indexPip: '95.5',
+      indexDip: '55',
+      percentOfNormalRom: '82',
+    }],
+    quickDashResponses: [{
+      id: `${id}-q1`,
+      completedAt: '2024-03-02T10:05:00.000Z',
+      q1_difficulty_opening_jar: 2,
+      q2_difficulty_writing: 1,
+      q7_arm_shoulder_hand_pain: 3,
+    }],
+  };
+}
+
+// Every bundle is validated twice: against the R4 base StructureDefinitions and value sets
+// bundled with the fhir package, and with validateFhirBundle. The R4 profiles cannot see
+// references, so only validateFhirBundle checks that every subject resolves in the Bundle.
+const r4 = new Fhir();
+
+// R4 validation errors as "location: message"; warnings about our own code systems are ignored
+function r4Errors(bundle: FhirBundle): string[] {
+  return r4.validate(bundle, { errorOnUnexpected: true }).messages
+    .filter(message => message.severity === 'error' || message.severity === 'fatal')
+    .map(message => `${message.location}: ${message.message}`);
+}
+
+function resourcesOf(bundle: FhirBundle, resourceType: string) {
+  return bundle.entry.filter(entry => entry.resource.resourceType === resourceType);
+}
+
+// The R4 required elements of what we emit, checked directly rather than through either validator
+function assertRequiredElements(bundle: FhirBundle) {
+  const patientUrls = resourcesOf(bundle, 'Patient').map(entry => entry.fullUrl);
+  bundle.entry.forEach(entry => {
+    assert.match(entry.fullUrl, /^urn:uuid:/);
+    const resource = entry.resource;
+    if (resource.resourceType === 'Observation') {
+      assert.equal(resource.status, 'final');
+      assert.ok(resource.code.coding.length > 0);
+      assert.ok(patientUrls.includes(resource.subject.reference));
+      assert.equal(typeof resource.valueQuantity.value, 'number');
+      assert.equal(resource.valueQuantity.system, 'http://unitsofmeasure.org');
+    }
+    if (resource.resourceType === 'QuestionnaireResponse') {
+      assert.equal(resource.status, 'completed');
+      assert.ok(patientUrls.includes(resource.subject.reference));
+      resource.item.forEach((item: any) => assert.ok(item.linkId));
+    }
+  });
+}
+
+// Copy of the first resource of the given type, for corrupting in the negative cases
+function withFirst(bundle: FhirBundle, resourceType: string, change: (resource: any) => void): FhirBundle {
+  const copy: FhirBundle = JSON.parse(JSON.stringify(bundle));
+  const entry = copy.entry.find(candidate => candidate.resource.resourceType === resourceType);
+  assert.ok(entry, `bundle has no ${resourceType}`);
+  change(entry.resource);
+  return copy;
+}
+
+test('per-patient clinical bundle validates', () => {
+  const bundle = buildClinicalFhirBundle([clinicalInput('p-7f3a', 'F')]);
+
+  assert.deepEqual(r4Errors(bundle), []);
+  assert.deepEqual(validateFhirBundle(bundle), []);
+  assertRequiredElements(bundle);
+  assert.equal(bundle.type, 'collection');
+  assert.equal(resourcesOf(bundle, 'Patient').length, 1);
+  assert.equal(resourcesOf(bundle, 'Observation').length, 6);
+  assert.equal(resourcesOf(bundle, 'QuestionnaireResponse').length, 1);
+  assert.equal(resourcesOf(bundle, 'Patient')[0].resource.gender, 'female');
+});
+
+test('cohort clinical bundle validates with one subject per patient', () => {
+  const bundle = buildClinicalFhirBundle([clinicalInput('p-7f3a', 'F'), clinicalInput('p-91c0', 'M'), clinicalInput('p-02be', '')]);
+
+  assert.deepEqual(r4Errors(bundle), []);
+  assert.deepEqual(validateFhirBundle(bundle), []);
+  assertRequiredElements(bundle);
+  assert.deepEqual(resourcesOf(bundle, 'Patient').map(entry => entry.resource.gender), ['female', 'male', 'unknown']);
+  assert.equal(resourcesOf(bundle, 'Observation').length, 18);
+});
+
+test('patient app bundle validates', () => {
+  const bundle = buildUserFhirBundle({ id: 'u-51d2', isActive: true }, [
+    { id: 'ua-1', isCompleted: true, completedAt: '2024-03-02T10:00:00.000Z', handType: 'LEFT', totalActiveRom: '201', maxMcpAngle: '78', dashScore: '22.5', responses: '{"2":3,"1":2}' },
+    { id: 'ua-2', isCompleted: false, totalActiveRom: '150' },
+  ]);
+
+  assert.deepEqual(r4Errors(bundle), []);
+  assert.deepEqual(validateFhirBundle(bundle), []);
+  assertRequiredElements(bundle);
+  assert.equal(resourcesOf(bundle, 'Observation').length, 3);
+  assert.deepEqual(resourcesOf(bundle, 'QuestionnaireResponse')[0].resource.item.map((item: any) => item.linkId), ['1', '2']);
+});
+
+test('rejects an Observation without a subject', () => {
+  const bundle = withFirst(buildClinicalFhirBundle([clinicalInput('p-7f3a', 'F')]), 'Observation', resource => {
+    delete resource.subject;
+  });
+  // Observation.subject is optional in R4 itself; the exports require it
+  assert.deepEqual(r4Errors(bundle), []);
+  assert.deepEqual(validateFhirBundle(bundle), ['Bundle.entry[1].resource.subject does not resolve within the Bundle']);
+});
+
+test('rejects an Observation whose subject is outside the Bundle', () => {
+  const bundle = withFirst(buildClinicalFhirBundle([clinicalInput('p-7f3a', 'F')]), 'Observation', resource => {
+    resource.subject.reference = 'Patient/123';
+  });
+  assert.deepEqual(validateFhirBundle(bundle), ['Bundle.entry[1].resource.subject does not resolve within the Bundle']);
+});
+
+test('rejects an Observation without a code', () => {
+  const bundle = withFirst(buildClinicalFhirBundle([clinicalInput('p-7f3a', 'F')]), 'Observation', resource => {
+    delete resource.code;
+  });
+  assert.deepEqual(r4Errors(bundle), ['Observation.code: Missing property']);
+  assert.deepEqual(validateFhirBundle(bundle), ['Bundle.entry[1].resource.code is required']);
+});
+
+test('rejects an invalid valueQuantity', () => {
+  const nonNumeric = withFirst(buildClinicalFhirBundle([clinicalInput('p-7f3a', 'F')]), 'Observation', resource => {
+    resource.valueQuantity.value = '212.5';
+  });
+  assert.equal(r4Errors(nonNumeric).length, 1);
+  assert.match(r4Errors(nonNumeric)[0], /^Observation\.valueQuantity\.value: Number type expected/);
+  assert.deepEqual(validateFhirBundle(nonNumeric), ['Bundle.entry[1].resource.valueQuantity.value must be a decimal']);
+
+  // R4 allows any unit system; the exports promise UCUM
+  const notUcum = withFirst(buildClinicalFhirBundle([clinicalInput('p-7f3a', 'F')]), 'Observation', resource => {
+    resource.valueQuantity.system = 'http://example.org/units';
+  });
+  assert.deepEqual(validateFhirBundle(notUcum), ['Bundle.entry[1].resource.valueQuantity.system must be UCUM when a code is present']);
+});
+
+test('rejects a Patient gender outside administrative-gender and a missing QuestionnaireResponse status', () => {
+  let bundle = withFirst(buildClinicalFhirBundle([clinicalInput('p-7f3a', 'F')]), 'Patient', resource => {
+    resource.gender = 'F';
+  });
+  bundle = withFirst(bundle, 'QuestionnaireResponse', resource => {
+    delete resource.status;
+  });
+  assert.deepEqual(r4Errors(bundle), [
+    'Patient.gender: Code "F" not found in value set',
+    'QuestionnaireResponse.status: Missing property',
+  ]);
+  assert.deepEqual(validateFhirBundle(bundle), [
+    'Bundle.entry[0].resource.gender is not in the administrative-gender value set',
+    'Bundle.entry[7].resource.status is required',
+  ]);
+});
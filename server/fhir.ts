@@ -0,0 +1,384 @@
+// FHIR R4 export of assessment data.
+// Builds a "collection" Bundle of a de-identified Patient, one Observation per
+// recorded metric and a QuestionnaireResponse per QuickDASH/DASH questionnaire.
+// Finger and wrist range of motion has no dedicated LOINC codes, so angle metrics
+// carry the SNOMED CT "range of joint movement" observable plus a local code, and
+// the measured structure goes in bodySite. Kapandji, TAM and DASH scores use local
+// codes only. validateFhirBundle checks the base R4 constraints we rely on.
+// Inputs normally come out of the de-identification pipeline first, so ids may be
+// pseudonym strings and dates shifted ISO strings.
+import crypto from 'crypto';
+import type { QuickDashResponse } from '@shared/schema';
+import type { ExportRecord } from './deidentification';
+
+const FHIR_SYSTEM_BASE = process.env.FHIR_SYSTEM_BASE || 'https://exer.ai/fhir';
+const METRIC_CODE_SYSTEM = `${FHIR_SYSTEM_BASE}/CodeSystem/hand-metrics`;
+const STUDY_ID_SYSTEM = `${FHIR_SYSTEM_BASE}/NamingSystem/study-participant`;
+const QUICKDASH_QUESTIONNAIRE = `${FHIR_SYSTEM_BASE}/Questionnaire/quickdash`;
+const DASH_QUESTIONNAIRE = `${FHIR_SYSTEM_BASE}/Questionnaire/dash`;
+
+const SNOMED = 'http://snomed.info/sct';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const RANGE_OF_JOINT_MOVEMENT = { system: SNOMED, code: '364564000', display: 'Range of joint movement' };
+
+export type FhirResource = { resourceType: string; id?: string; [key: string]: any };
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: Array<{ fullUrl: string; resource: FhirResource }>;
+}
+
+type Unit = 'deg' | '%' | '{score}';
+
+interface MetricDefinition {
+  code: string;
+  display: string;
+  unit: Unit;
+  bodySite: keyof typeof BODY_SITES;
+}
+
+const BODY_SITES = {
+  hand: { code: '85562004', display: 'Hand structure' },
+  thumb: { code: '76505004', display: 'Thumb structure' },
+  index: { code: '83738005', display: 'Index finger structure' },
+  middle: { code: '65531009', display: 'Middle finger structure' },
+  ring: { code: '82002001', display: 'Ring finger structure' },
+  little: { code: '12406000', display: 'Little finger structure' },
+  wrist: { code: '74670003', display: 'Wrist joint structure' },
+};
+
+const UNIT_DISPLAY: Record<Unit, string> = { deg: '°', '%': '%', '{score}': 'score' };
+
+function metric(code: string, display: string, unit: Unit, bodySite: keyof typeof BODY_SITES): MetricDefinition {
+  return { code, display, unit, bodySite };
+}
+
+function fingerJoints(prefix: string, finger: 'index' | 'middle' | 'ring' | 'little', label: string): Record<string, MetricDefinition> {
+  return {
+    [`${prefix}Mcp`]: metric(`${finger}-mcp-rom`, `${label} finger MCP range of motion`, 'deg', finger),
+    [`${prefix}Pip`]: metric(`${finger}-pip-rom`, `${label} finger PIP range of motion`, 'deg', finger),
+    [`${prefix}Dip`]: metric(`${finger}-dip-rom`, `${label} finger DIP range of motion`, 'deg', finger),
+  };
+}
+
+const SHARED_METRICS: Record<string, MetricDefinition> = {
+  indexFingerRom: metric('index-tam', 'Index finger total active motion', 'deg', 'index'),
+  middleFingerRom: metric('middle-tam', 'Middle finger total active motion', 'deg', 'middle'),
+  ringFingerRom: metric('ring-tam', 'Ring finger total active motion', 'deg', 'ring'),
+  pinkyFingerRom: metric('little-tam', 'Little finger total active motion', 'deg', 'little'),
+  kapandjiScore: metric('kapandji-score', 'Kapandji thumb opposition score', '{score}', 'thumb'),
+  wristFlexionAngle: metric('wrist-flexion', 'Wrist flexion angle', 'deg', 'wrist'),
+  wristExtensionAngle: metric('wrist-extension', 'Wrist extension angle', 'deg', 'wrist'),
+  maxWristFlexion: metric('wrist-flexion-max', 'Maximum wrist flexion', 'deg', 'wrist'),
+  maxWristExtension: metric('wrist-extension-max', 'Maximum wrist extension', 'deg', 'wrist'),
+};
+
+// Clinical study assessments (patientAssessments)
+const PATIENT_ASSESSMENT_METRICS: Record<string, MetricDefinition> = {
+  tamScore: metric('tam', 'Total active motion', 'deg', 'hand'),
+  ...SHARED_METRICS,
+  ...fingerJoints('index', 'index', 'Index'),
+  ...fingerJoints('middle', 'middle', 'Middle'),
+  ...fingerJoints('ring', 'ring', 'Ring'),
+  ...fingerJoints('pinky', 'little', 'Little'),
+  percentOfNormalRom: metric('percent-normal-rom', 'Range of motion as percent of normal', '%', 'hand'),
+};
+
+// Patient app recordings (userAssessments). maxMcp/Pip/DipAngle are the index finger
+// joints; deviation and Kapandji values are stored alongside the schema columns.
+const USER_ASSESSMENT_METRICS: Record<string, MetricDefinition> = {
+  totalActiveRom: metric('index-tam', 'Index finger total active motion', 'deg', 'index'),
+  maxMcpAngle: metric('index-mcp-rom', 'Index finger MCP range of motion', 'deg', 'index'),
+  maxPipAngle: metric('index-pip-rom', 'Index finger PIP range of motion', 'deg', 'index'),
+  maxDipAngle: metric('index-dip-rom', 'Index finger DIP range of motion', 'deg', 'index'),
+  ...SHARED_METRICS,
+  ...fingerJoints('middleFinger', 'middle', 'Middle'),
+  ...fingerJoints('ringFinger', 'ring', 'Ring'),
+  ...fingerJoints('pinkyFinger', 'little', 'Little'),
+  maxRadialDeviation: metric('wrist-radial-deviation-max', 'Maximum wrist radial deviation', 'deg', 'wrist'),
+  maxUlnarDeviation: metric('wrist-ulnar-deviation-max', 'Maximum wrist ulnar deviation', 'deg', 'wrist'),
+  dashScore: metric('dash-score', 'DASH disability score', '{score}', 'hand'),
+};
+
+// QuickDASH items in questionnaire order; linkIds are the item numbers 1-11
+const QUICKDASH_ITEMS: (keyof QuickDashResponse)[] = [
+  'q1_difficulty_opening_jar',
+  'q2_difficulty_writing',
+  'q3_difficulty_turning_key',
+  'q4_difficulty_preparing_meal',
+  'q5_difficulty_pushing_door',
+  'q6_difficulty_placing_object',
+  'q7_arm_shoulder_hand_pain',
+  'q8_arm_shoulder_hand_pain_activity',
+  'q9_tingling_arm_shoulder_hand',
+  'q10_weakness_arm_shoulder_hand',
+  'q11_stiffness_arm_shoulder_hand',
+];
+
+function toDateTime(value: Date | string | null | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const number = Number(value);
+  return isFinite(number) ? number : null;
+}
+
+function laterality(value: string | null | undefined): string | null {
+  const normalized = (value || '').toLowerCase();
+  if (normalized.startsWith('l')) return 'Left';
+  if (normalized.startsWith('r')) return 'Right';
+  return null;
+}
+
+function genderFromSex(sex: string | null | undefined): string {
+  switch ((sex || '').toUpperCase()) {
+    case 'M': return 'male';
+    case 'F': return 'female';
+    case 'OTHER': return 'other';
+    default: return 'unknown';
+  }
+}
+
+// Collects resources and hands out urn:uuid fullUrls so entries can reference each other
+class BundleBuilder {
+  private entries: Array<{ fullUrl: string; resource: FhirResource }> = [];
+
+  add(resource: FhirResource): string {
+    const fullUrl = `urn:uuid:${crypto.randomUUID()}`;
+    this.entries.push({ fullUrl, resource });
+    return fullUrl;
+  }
+
+  build(): FhirBundle {
+    return {
+      resourceType: 'Bundle',
+      id: crypto.randomUUID(),
+      type: 'collection',
+      timestamp: new Date().toISOString(),
+      entry: this.entries,
+    };
+  }
+}
+
+function observation(
+  id: string,
+  definition: MetricDefinition,
+  value: number,
+  subject: string,
+  effective: string | undefined,
+  side: string | null,
+): FhirResource {
+  const site = BODY_SITES[definition.bodySite];
+  return {
+    resourceType: 'Observation',
+    id,
+    status: 'final',
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'exam', display: 'Exam' }] }],
+    code: {
+      coding: [
+        ...(definition.unit === 'deg' ? [RANGE_OF_JOINT_MOVEMENT] : []),
+        { system: METRIC_CODE_SYSTEM, code: definition.code, display: definition.display },
+      ],
+      text: definition.display,
+    },
+    subject: { reference: subject },
+    ...(effective && { effectiveDateTime: effective }),
+    valueQuantity: { value, unit: UNIT_DISPLAY[definition.unit], system: UCUM, code: definition.unit },
+    bodySite: {
+      coding: [{ system: SNOMED, ...site }],
+      text: side ? `${side} ${site.display.replace(/ structure$/, '').toLowerCase()}` : site.display,
+    },
+  };
+}
+
+function addObservations(
+  builder: BundleBuilder,
+  record: Record<string, any>,
+  metrics: Record<string, MetricDefinition>,
+  idPrefix: string,
+  subject: string,
+  effective: string | undefined,
+  side: string | null,
+) {
+  Object.keys(metrics).forEach(key => {
+    const value = toNumber(record[key]);
+    if (value !== null) {
+      builder.add(observation(`${idPrefix}-${key}`, metrics[key], value, subject, effective, side));
+    }
+  });
+}
+
+// Only the study identifier, sex and active flag leave the system
+function deidentifiedPatient(id: string, studyId: string | number, sex: string | null | undefined, active: boolean | null | undefined): FhirResource {
+  return {
+    resourceType: 'Patient',
+    id,
+    identifier: [{ system: STUDY_ID_SYSTEM, value: String(studyId) }],
+    active: active ?? true,
+    gender: genderFromSex(sex),
+  };
+}
+
+export interface ClinicalFhirInput {
+  patient: ExportRecord;
+  assessments: ExportRecord[];
+  quickDashResponses: ExportRecord[];
+}
+
+function addClinicalPatient(builder: BundleBuilder, { patient, assessments, quickDashResponses }: ClinicalFhirInput) {
+  const subject = builder.add(deidentifiedPatient(`patient-${patient.id}`, patient.id, patient.sex, patient.isActive));
+  const side = laterality(patient.laterality);
+
+  assessments.forEach(assessment => {
+    addObservations(builder, assessment, PATIENT_ASSESSMENT_METRICS, `pa-${assessment.id}`, subject,
+      toDateTime(assessment.completedAt || assessment.assessmentDate), side);
+  });
+
+  quickDashResponses.forEach(response => {
+    builder.add({
+      resourceType: 'QuestionnaireResponse',
+      id: `quickdash-${response.id}`,
+      questionnaire: QUICKDASH_QUESTIONNAIRE,
+      status: 'completed',
+      subject: { reference: subject },
+      ...(toDateTime(response.completedAt) && { authored: toDateTime(response.completedAt) }),
+      item: QUICKDASH_ITEMS
+        .map((field, index) => ({ linkId: String(index + 1), value: toNumber(response[field]) }))
+        .filter(item => item.value !== null)
+        .map(item => ({ linkId: item.linkId, answer: [{ valueInteger: item.value }] })),
+    });
+  });
+}
+
+export function buildClinicalFhirBundle(inputs: ClinicalFhirInput[]): FhirBundle {
+  const builder = new BundleBuilder();
+  inputs.forEach(input => addClinicalPatient(builder, input));
+  return builder.build();
+}
+
+// DASH answers from the patient app are stored as a JSON map of item number to answer
+function parseDashResponses(raw: unknown): Array<[string, number]> {
+  let responses: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      responses = JSON.parse(raw);
+    } catch (error) {
+      return [];
+    }
+  }
+  if (!responses || typeof responses !== 'object') {
+    return [];
+  }
+  const answers = responses as Record<string, unknown>;
+  return Object.keys(answers)
+    .map(key => [key, toNumber(answers[key])] as [string, number | null])
+    .filter((answer): answer is [string, number] => answer[1] !== null)
+    .sort((a, b) => Number(a[0]) - Number(b[0]));
+}
+
+export function buildUserFhirBundle(user: ExportRecord, userAssessments: ExportRecord[]): FhirBundle {
+  const builder = new BundleBuilder();
+  const subject = builder.add(deidentifiedPatient(`user-${user.id}`, user.id, null, user.isActive));
+
+  userAssessments.filter(ua => ua.isCompleted).forEach(ua => {
+    const effective = toDateTime(ua.completedAt);
+    addObservations(builder, ua, USER_ASSESSMENT_METRICS, `ua-${ua.id}`, subject, effective, laterality(ua.handType));
+
+    const answers = parseDashResponses(ua.responses);
+    if (answers.length > 0) {
+      builder.add({
+        resourceType: 'QuestionnaireResponse',
+        id: `dash-${ua.id}`,
+        questionnaire: DASH_QUESTIONNAIRE,
+        status: 'completed',
+        subject: { reference: subject },
+        ...(effective && { authored: effective }),
+        item: answers.map(([linkId, value]) => ({ linkId, answer: [{ valueInteger: value }] })),
+      });
+    }
+  });
+
+  return builder.build();
+}
+
+const FHIR_ID = /^[A-Za-z0-9\-.]{1,64}$/;
+const OBSERVATION_STATUSES = ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'];
+const QUESTIONNAIRE_RESPONSE_STATUSES = ['in-progress', 'completed', 'amended', 'entered-in-error', 'stopped'];
+const GENDERS = ['male', 'female', 'other', 'unknown'];
+
+// Checks the cardinality and value-set constraints of the R4 base profiles for the
+// resources we emit, and that every subject reference resolves inside the Bundle.
+export function validateFhirBundle(bundle: FhirBundle): string[] {
+  const issues: string[] = [];
+  if (bundle.resourceType !== 'Bundle' || bundle.type !== 'collection') {
+    issues.push('Bundle.type must be collection');
+  }
+
+  const fullUrls = new Set(bundle.entry.map(entry => entry.fullUrl));
+  const resolves = (reference: unknown) => typeof reference === 'string' && fullUrls.has(reference);
+
+  bundle.entry.forEach((entry, index) => {
+    const resource = entry.resource;
+    const path = `Bundle.entry[${index}].resource`;
+    if (!entry.fullUrl) {
+      issues.push(`Bundle.entry[${index}].fullUrl is required`);
+    }
+    if (resource.id !== undefined && !FHIR_ID.test(resource.id)) {
+      issues.push(`${path}.id is not a valid id`);
+    }
+
+    switch (resource.resourceType) {
+      case 'Patient':
+        if (resource.gender !== undefined && !GENDERS.includes(resource.gender)) {
+          issues.push(`${path}.gender is not in the administrative-gender value set`);
+        }
+        break;
+      case 'Observation':
+        if (!OBSERVATION_STATUSES.includes(resource.status)) {
+          issues.push(`${path}.status is required`);
+        }
+        if (!resource.code?.coding?.length && !resource.code?.text) {
+          issues.push(`${path}.code is required`);
+        }
+        if (resource.valueQuantity && typeof resource.valueQuantity.value !== 'number') {
+          issues.push(`${path}.valueQuantity.value must be a decimal`);
+        }
+        if (resource.valueQuantity?.code && resource.valueQuantity.system !== UCUM) {
+          issues.push(`${path}.valueQuantity.system must be UCUM when a code is present`);
+        }
+        if (!resolves(resource.subject?.reference)) {
+          issues.push(`${path}.subject does not resolve within the Bundle`);
+        }
+        break;
+      case 'QuestionnaireResponse':
+        if (!QUESTIONNAIRE_RESPONSE_STATUSES.includes(resource.status)) {
+          issues.push(`${path}.status is required`);
+        }
+        (resource.item || []).forEach((item: any, itemIndex: number) => {
+          if (!item.linkId) {
+            issues.push(`${path}.item[${itemIndex}].linkId is required`);
+          }
+        });
+        if (!resolves(resource.subject?.reference)) {
+          issues.push(`${path}.subject does not resolve within the Bundle`);
+        }
+        break;
+      default:
+        issues.push(`${path}.resourceType ${resource.resourceType} is not expected in this export`);
+    }
+  });
+
+  return issues;
+}
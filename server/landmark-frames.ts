@@ -0,0 +1,335 @@
+// Per-frame landmark export and import.
+// A recording is stored as repetitionData[].motionData[] frames, each holding 21
+// MediaPipe hand landmarks and optionally 33 pose landmarks. Exports flatten that to
+// one row per landmark:
+//   repetition, frame, timestamp, source (hand|pose), landmark, x, y, z, visibility, handedness
+// either as CSV or as columnar JSON Lines, where each line is one frame's row group
+// with every column as an equal-length array (the Parquet layout, in plain JSON).
+// Timestamps are milliseconds since the first frame, so no wall-clock time leaves.
+// Imports accept the same two formats and rebuild repetitionData so the recording
+// can be scored like one captured in the app.
+import { calculateAllFingersMaxROM } from '@shared/rom-calculator';
+import { calculateMaxElbowWristAngles, resetElbowSessionState } from '@shared/elbow-wrist-calculator';
+
+export type LandmarkFormat = 'csv' | 'jsonl';
+export type LandmarkSource = 'hand' | 'pose';
+
+export interface LandmarkRow {
+  repetition: number;
+  frame: number;
+  timestamp: number;
+  source: LandmarkSource;
+  landmark: number;
+  x: number;
+  y: number;
+  z: number;
+  visibility: number | null;
+  handedness: string | null;
+}
+
+export class LandmarkFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LandmarkFormatError';
+  }
+}
+
+export const LANDMARK_COLUMNS: (keyof LandmarkRow)[] = [
+  'repetition', 'frame', 'timestamp', 'source', 'landmark', 'x', 'y', 'z', 'visibility', 'handedness',
+];
+const REQUIRED_COLUMNS: (keyof LandmarkRow)[] = ['repetition', 'frame', 'timestamp', 'source', 'landmark', 'x', 'y', 'z'];
+
+const HAND_LANDMARK_COUNT = 21;
+const POSE_LANDMARK_COUNT = 33;
+const MAX_IMPORT_FRAMES = 20000;
+
+export const LANDMARK_CONTENT_TYPES: Record<LandmarkFormat, string> = {
+  csv: 'text/csv',
+  jsonl: 'application/x-ndjson',
+};
+
+function landmarkRowsForFrame(
+  repetition: number,
+  frameIndex: number,
+  frame: any,
+  startTime: number,
+): LandmarkRow[] {
+  const handLandmarks: any[] = Array.isArray(frame) ? frame : (frame.landmarks || []);
+  const poseLandmarks: any[] = Array.isArray(frame) ? [] : (frame.poseLandmarks || []);
+  const base = {
+    repetition,
+    frame: frameIndex,
+    timestamp: Number(frame.timestamp ?? 0) - startTime,
+    handedness: frame.handedness || frame.sessionHandType || null,
+  };
+  const toRow = (source: LandmarkSource) => (landmark: any, index: number): LandmarkRow => ({
+    ...base,
+    source,
+    landmark: index,
+    x: Number(landmark.x),
+    y: Number(landmark.y),
+    z: Number(landmark.z ?? 0),
+    visibility: landmark.visibility ?? null,
+  });
+  return [...handLandmarks.map(toRow('hand')), ...poseLandmarks.map(toRow('pose'))];
+}
+
+// Groups of rows, one per recorded frame, in recording order
+export function landmarkFrameGroups(repetitionData: unknown): LandmarkRow[][] {
+  if (!Array.isArray(repetitionData)) {
+    return [];
+  }
+  const groups: LandmarkRow[][] = [];
+  let startTime: number | null = null;
+  repetitionData.forEach((rep: any, repIndex: number) => {
+    const repetition = Number(rep?.repetition ?? repIndex + 1);
+    (Array.isArray(rep?.motionData) ? rep.motionData : []).forEach((frame: any, frameIndex: number) => {
+      if (startTime === null) {
+        startTime = Number(frame?.timestamp ?? 0) || 0;
+      }
+      groups.push(landmarkRowsForFrame(repetition, frameIndex, frame, startTime));
+    });
+  });
+  return groups;
+}
+
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function landmarksToCsv(groups: LandmarkRow[][]): string {
+  const lines = [LANDMARK_COLUMNS.join(',')];
+  groups.forEach(rows => rows.forEach(row => {
+    lines.push(LANDMARK_COLUMNS.map(column => csvCell(row[column])).join(','));
+  }));
+  return lines.join('\n');
+}
+
+export function landmarksToJsonl(groups: LandmarkRow[][]): string {
+  return groups
+    .filter(rows => rows.length > 0)
+    .map(rows => {
+      const columns: Record<string, unknown[]> = {};
+      LANDMARK_COLUMNS.forEach(column => {
+        columns[column] = rows.map(row => row[column]);
+      });
+      return JSON.stringify(columns);
+    })
+    .join('\n');
+}
+
+function parseNumber(value: unknown, column: string, line: number): number {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  if (!isFinite(number)) {
+    throw new LandmarkFormatError(`Line ${line}: "${column}" must be a number`);
+  }
+  return number;
+}
+
+function toLandmarkRow(values: Record<string, unknown>, line: number): LandmarkRow {
+  const source = String(values.source).toLowerCase();
+  if (source !== 'hand' && source !== 'pose') {
+    throw new LandmarkFormatError(`Line ${line}: "source" must be "hand" or "pose"`);
+  }
+  // The index places the landmark in its frame array, so it must be a real MediaPipe index
+  const landmark = parseNumber(values.landmark, 'landmark', line);
+  const landmarkCount = source === 'hand' ? HAND_LANDMARK_COUNT : POSE_LANDMARK_COUNT;
+  if (!Number.isInteger(landmark) || landmark < 0 || landmark >= landmarkCount) {
+    throw new LandmarkFormatError(`Line ${line}: "landmark" must be an integer from 0 to ${landmarkCount - 1} for ${source} rows`);
+  }
+  const visibility = values.visibility;
+  return {
+    repetition: parseNumber(values.repetition, 'repetition', line),
+    frame: parseNumber(values.frame, 'frame', line),
+    timestamp: parseNumber(values.timestamp, 'timestamp', line),
+    source,
+    landmark,
+    x: parseNumber(values.x, 'x', line),
+    y: parseNumber(values.y, 'y', line),
+    z: parseNumber(values.z, 'z', line),
+    visibility: visibility === null || visibility === undefined || visibility === ''
+      ? null
+      : parseNumber(visibility, 'visibility', line),
+    handedness: values.handedness ? String(values.handedness) : null,
+  };
+}
+
+// Splits one CSV line, honouring quoted cells
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+function checkColumns(columns: string[]) {
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new LandmarkFormatError(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+  }
+}
+
+export function parseLandmarkCsv(text: string): LandmarkRow[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) {
+    throw new LandmarkFormatError('The file has no landmark rows');
+  }
+  const header = splitCsvLine(lines[0]).map(column => column.trim());
+  checkColumns(header);
+  return lines.slice(1).map((line, index) => {
+    const cells = splitCsvLine(line);
+    const values: Record<string, string> = {};
+    header.forEach((column, columnIndex) => {
+      values[column] = (cells[columnIndex] ?? '').trim();
+    });
+    return toLandmarkRow(values, index + 2);
+  });
+}
+
+export function parseLandmarkJsonl(text: string): LandmarkRow[] {
+  const rows: LandmarkRow[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    let group: Record<string, unknown>;
+    try {
+      group = JSON.parse(line);
+    } catch (error) {
+      throw new LandmarkFormatError(`Line ${index + 1}: not valid JSON`);
+    }
+    checkColumns(Object.keys(group));
+    const length = Array.isArray(group.landmark) ? group.landmark.length : -1;
+    const columns = Object.keys(group).filter(column => LANDMARK_COLUMNS.includes(column as keyof LandmarkRow));
+    if (length < 0 || columns.some(column => !Array.isArray(group[column]) || (group[column] as unknown[]).length !== length)) {
+      throw new LandmarkFormatError(`Line ${index + 1}: every column must be an array of the same length`);
+    }
+    for (let i = 0; i < length; i++) {
+      const values: Record<string, unknown> = {};
+      columns.forEach(column => {
+        values[column] = (group[column] as unknown[])[i];
+      });
+      rows.push(toLandmarkRow(values, index + 1));
+    }
+  });
+  if (rows.length === 0) {
+    throw new LandmarkFormatError('The file has no landmark rows');
+  }
+  return rows;
+}
+
+// Array.from turns holes left by missing landmark indices into undefined
+function hasGaps(landmarks: any[]): boolean {
+  return Array.from(landmarks).some(landmark => !landmark);
+}
+
+export interface ImportedRecording {
+  repetitionData: any[];
+  frameCount: number;
+  handType: string | null;
+}
+
+// Rebuilds repetitionData in the shape the recording page submits, including the
+// per-repetition index-finger ROM and, when pose landmarks are present, the
+// elbow-referenced wrist angles
+export function rowsToRecording(rows: LandmarkRow[]): ImportedRecording {
+  const frames = new Map<string, { repetition: number; frame: number; rows: LandmarkRow[] }>();
+  rows.forEach(row => {
+    const key = `${row.repetition}:${row.frame}`;
+    const entry = frames.get(key) || { repetition: row.repetition, frame: row.frame, rows: [] };
+    entry.rows.push(row);
+    frames.set(key, entry);
+  });
+  if (frames.size > MAX_IMPORT_FRAMES) {
+    throw new LandmarkFormatError(`At most ${MAX_IMPORT_FRAMES} frames can be imported at once`);
+  }
+
+  const ordered = Array.from(frames.values()).sort((a, b) => a.repetition - b.repetition || a.frame - b.frame);
+  const repetitions = new Map<number, any[]>();
+  let handType: string | null = null;
+
+  ordered.forEach(({ repetition, frame, rows: frameRows }) => {
+    const hand: any[] = [];
+    const pose: any[] = [];
+    frameRows.forEach(row => {
+      const target = row.source === 'hand' ? hand : pose;
+      target[row.landmark] = {
+        x: row.x,
+        y: row.y,
+        z: row.z,
+        ...(row.visibility !== null && { visibility: row.visibility }),
+      };
+    });
+    if (hand.length !== HAND_LANDMARK_COUNT || hasGaps(hand)) {
+      throw new LandmarkFormatError(
+        `Repetition ${repetition}, frame ${frame}: expected hand landmarks 0-${HAND_LANDMARK_COUNT - 1}`);
+    }
+    if (hasGaps(pose)) {
+      throw new LandmarkFormatError(`Repetition ${repetition}, frame ${frame}: pose landmarks must be numbered without gaps`);
+    }
+
+    const handedness = frameRows[0].handedness;
+    handType = handType || handedness;
+    const motionFrames = repetitions.get(repetition) || [];
+    motionFrames.push({
+      timestamp: frameRows[0].timestamp,
+      landmarks: hand,
+      poseLandmarks: pose,
+      handedness,
+      sessionHandType: handedness,
+    });
+    repetitions.set(repetition, motionFrames);
+  });
+
+  const repetitionData = Array.from(repetitions.keys()).map(repetition => {
+    const motionData = repetitions.get(repetition)!;
+    const withPose = motionData.filter(frame => frame.poseLandmarks.length > 0);
+    let wristAngles = {};
+    if (withPose.length > 0) {
+      resetElbowSessionState();
+      const wrist = calculateMaxElbowWristAngles(withPose);
+      if (wrist.elbowDetected) {
+        wristAngles = { maxWristFlexion: wrist.wristFlexionAngle, maxWristExtension: wrist.wristExtensionAngle };
+      }
+    }
+    return {
+      repetition,
+      duration: Math.round((motionData[motionData.length - 1].timestamp - motionData[0].timestamp) / 1000),
+      landmarksDetected: HAND_LANDMARK_COUNT,
+      motionData,
+      romData: calculateAllFingersMaxROM(motionData).index,
+      ...wristAngles,
+    };
+  });
+
+  return { repetitionData, frameCount: ordered.length, handType };
+}
+
+export function parseLandmarkFile(text: string, format: LandmarkFormat): ImportedRecording {
+  return rowsToRecording(format === 'csv' ? parseLandmarkCsv(text) : parseLandmarkJsonl(text));
+}
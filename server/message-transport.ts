@@ -0,0 +1,57 @@
+// Outbound message delivery (password resets, notifications).
+// Real deployments register an email/SMS transport with setMessageTransport();
+// out of the box messages are written to the console or to data/outbox.
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface OutgoingMessage {
+  to: string;
+  subject: string;
+  text: string;
+  category: string;          // e.g. "password_reset"
+}
+
+export interface MessageTransport {
+  readonly name: string;
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+export class ConsoleTransport implements MessageTransport {
+  readonly name = 'console';
+
+  async send(message: OutgoingMessage): Promise<void> {
+    console.log(`[message:${message.category}] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+// Writes one JSON file per message so local testers can pick up reset links
+export class FileTransport implements MessageTransport {
+  readonly name = 'file';
+
+  constructor(private outboxDir: string = path.join('./data', 'outbox')) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}_${message.category}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, createdAt: new Date().toISOString() }, null, 2),
+    );
+  }
+}
+
+let activeTransport: MessageTransport = process.env.MESSAGE_TRANSPORT === 'file'
+  ? new FileTransport()
+  : new ConsoleTransport();
+
+export function setMessageTransport(transport: MessageTransport) {
+  activeTransport = transport;
+}
+
+export function getMessageTransport(): MessageTransport {
+  return activeTransport;
+}
+
+export async function sendMessage(message: OutgoingMessage): Promise<void> {
+  await activeTransport.send(message);
+}
@@ -0,0 +1,113 @@
+// Password hashing and password policy for clinical and admin accounts.
+// Hashes use scrypt with a per-password random salt and are stored as
+// "scrypt$N$r$p$<salt>$<hash>" so cost parameters can be raised later.
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions,
+) => Promise<Buffer>;
+
+const HASH_PREFIX = 'scrypt';
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireMixedCase: boolean;
+  requireDigit: boolean;
+  historySize: number;       // Number of previous passwords that may not be reused
+}
+
+// Deployment-configurable policy; defaults follow common clinical-system guidance
+export const passwordPolicy: PasswordPolicy = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '', 10) || 12,
+  requireMixedCase: process.env.PASSWORD_REQUIRE_MIXED_CASE !== 'false',
+  requireDigit: process.env.PASSWORD_REQUIRE_DIGIT !== 'false',
+  historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '', 10) || 5,
+};
+
+export function isPasswordHash(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(`${HASH_PREFIX}$`);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await scrypt(password, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  return [HASH_PREFIX, SCRYPT_PARAMS.N, SCRYPT_PARAMS.r, SCRYPT_PARAMS.p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+// Verify a password against a stored value. Rows created before hashing was
+// introduced still hold plaintext; those are compared in constant time and
+// reported via needsUpgrade so the caller can re-save them hashed.
+export async function verifyPassword(password: string, stored: string | null | undefined): Promise<{ valid: boolean; needsUpgrade: boolean }> {
+  if (!stored) {
+    return { valid: false, needsUpgrade: false };
+  }
+
+  if (!isPasswordHash(stored)) {
+    const expected = crypto.createHash('sha256').update(stored).digest();
+    const actual = crypto.createHash('sha256').update(password).digest();
+    const valid = crypto.timingSafeEqual(expected, actual);
+    return { valid, needsUpgrade: valid };
+  }
+
+  const [, n, r, p, saltB64, hashB64] = stored.split('$');
+  const params = { N: parseInt(n, 10), r: parseInt(r, 10), p: parseInt(p, 10) };
+  const expected = Buffer.from(hashB64, 'base64');
+  const actual = await scrypt(password, Buffer.from(saltB64, 'base64'), expected.length, params);
+  const valid = crypto.timingSafeEqual(expected, actual);
+
+  const outdated = params.N !== SCRYPT_PARAMS.N || params.r !== SCRYPT_PARAMS.r || params.p !== SCRYPT_PARAMS.p;
+  return { valid, needsUpgrade: valid && outdated };
+}
+
+// Check a proposed new password against the policy, including reuse of the
+// current password and the stored history. Returns human-readable violations.
+export async function validatePasswordPolicy(
+  password: string,
+  previousHashes: string[] = [],
+  policy: PasswordPolicy = passwordPolicy,
+): Promise<string[]> {
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`Password must be at least ${policy.minLength} characters long`);
+  }
+  if (policy.requireMixedCase && (!/[a-z]/.test(password) || !/[A-Z]/.test(password))) {
+    violations.push('Password must contain both upper and lower case letters');
+  }
+  if (policy.requireDigit && !/[0-9]/.test(password)) {
+    violations.push('Password must contain at least one digit');
+  }
+
+  for (const previous of previousHashes.slice(0, policy.historySize + 1)) {
+    if ((await verifyPassword(password, previous)).valid) {
+      violations.push(`Password must not match any of your last ${policy.historySize} passwords`);
+      break;
+    }
+  }
+
+  return violations;
+}
+
+// Build the history list to store after a password change: the outgoing
+// hash goes first, trimmed to the configured size.
+export function nextPasswordHistory(currentHash: string, history: unknown, policy: PasswordPolicy = passwordPolicy): string[] {
+  const previous = Array.isArray(history) ? history.filter((h): h is string => typeof h === 'string') : [];
+  return [currentHash, ...previous].slice(0, policy.historySize);
+}
+
+// Single-use reset tokens: the raw token goes to the user, only its SHA-256 is stored
+export function generateResetToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashResetToken(token) };
+}
+
+export function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
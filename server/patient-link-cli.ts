@@ -0,0 +1,39 @@
+// Links existing patient app users to clinical patients and mirrors their recordings
+// into patientAssessments (see patient-link.ts). Safe to run more than once. On the
+// database, run npm run db:push first to add patient_assessments.user_assessment_id.
+//   npm run link-patients               applies the migration
+//   npm run link-patients -- --dry-run  only reports what would change
+import { linkLegacyUsers } from './patient-link';
+import { PersistentMemoryStorage } from './persistent-storage';
+import { createStorage, storageBackupSource } from './storage-backend';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const unknown = args.filter(arg => arg !== '--dry-run');
+  if (unknown.length > 0) {
+    console.error('Usage: patient-link-cli [--dry-run]');
+    process.exit(2);
+  }
+  const dryRun = args.includes('--dry-run');
+
+  const storage = await createStorage();
+  if (storage instanceof PersistentMemoryStorage) {
+    await storage.ready;
+  }
+  const report = await linkLegacyUsers(storage, { dryRun });
+  const verb = dryRun ? 'would be' : 'were';
+  console.log(`${report.users} users in the ${storageBackupSource()} store${dryRun ? ' (dry run)' : ''}`);
+  console.log(`  patients: ${report.patientsLinked} already linked, ${report.patientsCreated} ${verb} created, ${report.patientsWithdrawn} withdrawn and skipped`);
+  console.log(`  assessments: ${report.assessmentsCreated} ${verb} created, ${report.assessmentsUpdated} ${verb} updated`);
+  if (report.assessmentTypesCreated.length > 0) {
+    console.log(`  assessment types that ${verb} created: ${report.assessmentTypesCreated.join(', ')}`);
+  }
+  report.skipped.forEach(item => console.log(`  skipped user_assessment_id:${item.userAssessmentId}: ${item.reason}`));
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,285 @@
+// Links the patient app's records to the clinical ones.
+// The app writes users and userAssessments; the clinical dashboard and cohort analytics
+// read patients and patientAssessments. A user is the same person as the patient whose
+// accessCode equals users.code, so each user gets such a patient (created on demand,
+// with patientId P###, the id the admin portal shows). Every completed recording is
+// mirrored into patientAssessments, keyed by userAssessmentId so re-syncing updates the
+// copy instead of adding another. The copy holds the metrics only: the motion frames
+// stay on the user assessment, and deleting or purging the recording removes the copy.
+// A withdrawn patient is left alone: nothing more is linked or mirrored into their
+// record, and purging them removes the user too (see purgePatient), so they are never
+// recreated.
+import type { IStorage } from './storage';
+import type {
+  Assessment,
+  AssessmentType,
+  InsertPatientAssessment,
+  Patient,
+  PatientAssessment,
+  User,
+  UserAssessment,
+} from '@shared/schema';
+import { formatPatientId } from './patient-onboarding';
+
+// The storage methods linking uses
+export type PatientLinkStorage = Pick<IStorage,
+  | 'getUsers' | 'getUserAssessments' | 'getAssessment' | 'getCohorts'
+  | 'getPatientByAccessCode' | 'createPatient' | 'updatePatient'
+  | 'getAssessmentTypes' | 'createAssessmentType'
+  | 'getPatientAssessmentByUserAssessmentId' | 'createPatientAssessment' | 'updatePatientAssessment'>;
+
+export interface PatientLinkReport {
+  dryRun: boolean;
+  users: number;
+  patientsLinked: number;            // Users whose code already belonged to a patient
+  patientsWithdrawn: number;         // Users whose patient withdrew; skipped
+  patientsCreated: number;
+  assessmentsCreated: number;
+  assessmentsUpdated: number;
+  assessmentTypesCreated: string[];  // App assessments that had no clinical assessment type yet
+  skipped: Array<{ userAssessmentId: number; reason: string }>;
+}
+
+type MetricColumn = keyof InsertPatientAssessment;
+type MetricSource = keyof UserAssessment;
+
+// Which recording columns fill which clinical columns, by kind of assessment. Pronation/
+// supination, radial/ulnar deviation and the DASH survey have no clinical columns.
+const FINGER_METRICS: Array<[MetricColumn, MetricSource]> = [
+  ['tamScore', 'totalActiveRom'],
+  ['indexFingerRom', 'indexFingerRom'],
+  ['middleFingerRom', 'middleFingerRom'],
+  ['ringFingerRom', 'ringFingerRom'],
+  ['pinkyFingerRom', 'pinkyFingerRom'],
+  ['indexMcp', 'maxMcpAngle'],
+  ['indexPip', 'maxPipAngle'],
+  ['indexDip', 'maxDipAngle'],
+  ['middleMcp', 'middleFingerMcp'],
+  ['middlePip', 'middleFingerPip'],
+  ['middleDip', 'middleFingerDip'],
+  ['ringMcp', 'ringFingerMcp'],
+  ['ringPip', 'ringFingerPip'],
+  ['ringDip', 'ringFingerDip'],
+  ['pinkyMcp', 'pinkyFingerMcp'],
+  ['pinkyPip', 'pinkyFingerPip'],
+  ['pinkyDip', 'pinkyFingerDip'],
+];
+
+const WRIST_METRICS: Array<[MetricColumn, MetricSource]> = [
+  ['wristFlexionAngle', 'wristFlexionAngle'],
+  ['wristExtensionAngle', 'wristExtensionAngle'],
+  ['maxWristFlexion', 'maxWristFlexion'],
+  ['maxWristExtension', 'maxWristExtension'],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LAST_STUDY_WEEK = 12;
+
+// The clinical metric columns for a recording of the named assessment
+export function recordingMetrics(assessmentName: string, userAssessment: UserAssessment): Partial<InsertPatientAssessment> {
+  const metrics: Record<string, unknown> = {};
+  const copy = (pairs: Array<[MetricColumn, MetricSource]>) => {
+    pairs.forEach(([column, source]) => {
+      metrics[column] = userAssessment[source] ?? null;
+    });
+  };
+
+  if (/kapandji/i.test(assessmentName)) {
+    // Older recordings only carry the score in totalActiveRom, and the finger ROM
+    // columns hold which landmarks the thumb reached rather than angles
+    metrics.kapandjiScore = (userAssessment as any).kapandjiScore ?? userAssessment.totalActiveRom ?? null;
+  } else if (/wrist flexion/i.test(assessmentName)) {
+    copy(WRIST_METRICS);
+  } else if (/\bTAM\b|total active motion|finger/i.test(assessmentName)) {
+    copy(FINGER_METRICS);
+  }
+  if (userAssessment.qualityScore !== null && userAssessment.qualityScore !== undefined) {
+    metrics.deviceConfidenceScore = String(userAssessment.qualityScore);
+  }
+  return metrics;
+}
+
+// Days and study weeks (0-12, nearest week) since surgery, for patients with a surgery date
+export function postOpTiming(surgeryDate: Date | string | null, recordedAt: Date): { postOpDay: number | null; studyWeek: number | null } {
+  if (!surgeryDate) {
+    return { postOpDay: null, studyWeek: null };
+  }
+  const postOpDay = Math.floor((recordedAt.getTime() - new Date(surgeryDate).getTime()) / DAY_MS);
+  const week = Math.round(postOpDay / 7);
+  return { postOpDay, studyWeek: week >= 0 && week <= LAST_STUDY_WEEK ? week : null };
+}
+
+// Cohorts are named after the injury they study ("Carpal Tunnel Study")
+async function cohortIdFor(storage: PatientLinkStorage, injuryType: string | null): Promise<number | null> {
+  if (!injuryType) {
+    return null;
+  }
+  const cohort = (await storage.getCohorts()).find(candidate => candidate.name === `${injuryType} Study`);
+  return cohort ? cohort.id : null;
+}
+
+export function isWithdrawn(patient: Patient): boolean {
+  return patient.enrollmentStatus === 'withdrawn';
+}
+
+// Returns the user's patient, creating it if their code has none. An existing patient
+// only has gaps filled, since clinicians may have edited it, and a withdrawn one is
+// returned unchanged.
+export async function linkUserToPatient(storage: PatientLinkStorage, user: User): Promise<{ patient: Patient; created: boolean }> {
+  const existing = await storage.getPatientByAccessCode(user.code);
+  if (existing && isWithdrawn(existing)) {
+    return { patient: existing, created: false };
+  }
+  if (!existing) {
+    const patientId = formatPatientId(user.id);
+    const patient = await storage.createPatient({
+      patientId,
+      alias: `Patient ${patientId}`,
+      accessCode: user.code,
+      injuryType: user.injuryType,
+      surgeryDate: user.surgeryDate ? new Date(user.surgeryDate) : null,
+      cohortId: await cohortIdFor(storage, user.injuryType),
+      isActive: user.isActive !== false,
+    });
+    return { patient, created: true };
+  }
+
+  const updates: Partial<Patient> = {};
+  if (!existing.injuryType && user.injuryType) {
+    updates.injuryType = user.injuryType;
+  }
+  if (!existing.surgeryDate && user.surgeryDate) {
+    updates.surgeryDate = new Date(user.surgeryDate);
+  }
+  if (!existing.cohortId) {
+    const cohortId = await cohortIdFor(storage, existing.injuryType || user.injuryType);
+    if (cohortId) {
+      updates.cohortId = cohortId;
+    }
+  }
+  if (Object.keys(updates).length === 0) {
+    return { patient: existing, created: false };
+  }
+  return { patient: (await storage.updatePatient(existing.id, updates)) || existing, created: false };
+}
+
+// Clinical assessment types share the app catalogue's names; a missing one is created
+// from the app assessment
+async function assessmentTypeFor(storage: PatientLinkStorage, assessment: Assessment): Promise<AssessmentType> {
+  const existing = (await storage.getAssessmentTypes()).find(type => type.name === assessment.name);
+  if (existing) {
+    return existing;
+  }
+  return await storage.createAssessmentType({
+    name: assessment.name,
+    description: assessment.description,
+    instructions: assessment.instructions,
+    videoUrl: assessment.videoUrl,
+    duration: assessment.duration,
+    repetitions: assessment.repetitions,
+    isActive: true,
+    orderIndex: assessment.orderIndex,
+  });
+}
+
+function toPatientAssessment(patient: Patient, assessmentType: AssessmentType, userAssessment: UserAssessment) {
+  const recordedAt = userAssessment.completedAt ? new Date(userAssessment.completedAt) : new Date();
+  return {
+    patientId: patient.id,
+    assessmentTypeId: assessmentType.id,
+    clinicianId: patient.assignedClinicianId,
+    userAssessmentId: userAssessment.id,
+    sessionNumber: userAssessment.sessionNumber,
+    assessmentDate: recordedAt,
+    completedAt: recordedAt,
+    isCompleted: true,
+    ...postOpTiming(patient.surgeryDate, recordedAt),
+    ...recordingMetrics(assessmentType.name, userAssessment),
+  };
+}
+
+// Mirrors one completed recording into patientAssessments, returning the clinical copy.
+// Incomplete recordings, recordings of unknown assessments and recordings of withdrawn
+// patients are not mirrored.
+export async function syncUserAssessment(storage: PatientLinkStorage, user: User, userAssessment: UserAssessment): Promise<PatientAssessment | null> {
+  if (!userAssessment.isCompleted) {
+    return null;
+  }
+  const assessment = await storage.getAssessment(userAssessment.assessmentId);
+  if (!assessment) {
+    return null;
+  }
+  const { patient } = await linkUserToPatient(storage, user);
+  if (isWithdrawn(patient)) {
+    return null;
+  }
+  const values = toPatientAssessment(patient, await assessmentTypeFor(storage, assessment), userAssessment);
+  const existing = await storage.getPatientAssessmentByUserAssessmentId(userAssessment.id);
+  if (existing) {
+    return (await storage.updatePatientAssessment(existing.id, values)) || existing;
+  }
+  return await storage.createPatientAssessment(values);
+}
+
+// The migration: links every user and mirrors every completed recording. Safe to run
+// again; a dry run only reports what would change.
+export async function linkLegacyUsers(storage: PatientLinkStorage, options: { dryRun: boolean }): Promise<PatientLinkReport> {
+  const report: PatientLinkReport = {
+    dryRun: options.dryRun,
+    users: 0,
+    patientsLinked: 0,
+    patientsWithdrawn: 0,
+    patientsCreated: 0,
+    assessmentsCreated: 0,
+    assessmentsUpdated: 0,
+    assessmentTypesCreated: [],
+    skipped: [],
+  };
+  const catalogue = new Map<number, Assessment | undefined>();
+  const typeNames = (await storage.getAssessmentTypes()).map(type => type.name);
+
+  const users = await storage.getUsers();
+  for (let i = 0; i < users.length; i++) {
+    const user = users[i];
+    report.users++;
+    const patient = await storage.getPatientByAccessCode(user.code);
+    if (patient && isWithdrawn(patient)) {
+      report.patientsWithdrawn++;
+      continue;
+    }
+    if (patient) {
+      report.patientsLinked++;
+    } else {
+      report.patientsCreated++;
+    }
+    if (!options.dryRun) {
+      await linkUserToPatient(storage, user);
+    }
+
+    const recordings = (await storage.getUserAssessments(user.id)).filter(recording => recording.isCompleted);
+    for (let j = 0; j < recordings.length; j++) {
+      const recording = recordings[j];
+      if (!catalogue.has(recording.assessmentId)) {
+        catalogue.set(recording.assessmentId, await storage.getAssessment(recording.assessmentId));
+      }
+      const assessment = catalogue.get(recording.assessmentId);
+      if (!assessment) {
+        report.skipped.push({ userAssessmentId: recording.id, reason: `Unknown assessment ${recording.assessmentId}` });
+        continue;
+      }
+      if (!typeNames.includes(assessment.name)) {
+        typeNames.push(assessment.name);
+        report.assessmentTypesCreated.push(assessment.name);
+      }
+      if (await storage.getPatientAssessmentByUserAssessmentId(recording.id)) {
+        report.assessmentsUpdated++;
+      } else {
+        report.assessmentsCreated++;
+      }
+      if (!options.dryRun) {
+        await syncUserAssessment(storage, user, recording);
+      }
+    }
+  }
+  return report;
+}
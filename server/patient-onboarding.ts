@@ -0,0 +1,273 @@
+// Bulk onboarding of patient app users from a CSV file.
+// The file has a header row and one patient per line:
+//   injuryType, surgeryDate, firstName, lastName, email
+// Only injuryType is required; surgeryDate is YYYY-MM-DD. Every upload is validated
+// in full first, so the admin sees every row-level error and duplicate (within the
+// file, or against an existing patient with the same email, or the same name and
+// surgery date) before anything is created. A commit creates all rows or none.
+import crypto from 'crypto';
+import type { User } from '@shared/schema';
+import { csvCell, splitCsvLine } from './landmark-frames';
+
+export const VALID_INJURY_TYPES = [
+  'Trigger Finger',
+  'Carpal Tunnel',
+  'Distal Radius Fracture',
+  'CMC Arthroplasty'
+];
+
+export const ONBOARDING_COLUMNS = ['injuryType', 'surgeryDate', 'firstName', 'lastName', 'email'] as const;
+export const MAX_ONBOARDING_ROWS = 500;
+
+type OnboardingColumn = typeof ONBOARDING_COLUMNS[number];
+
+export class OnboardingFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OnboardingFormatError';
+  }
+}
+
+export interface OnboardingPatient {
+  injuryType: string;
+  surgeryDate: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+}
+
+export interface OnboardingRowResult extends OnboardingPatient {
+  line: number;
+  errors: string[];
+  duplicateOf: { line: number } | { userId: number; patientId: string } | null;
+}
+
+export interface OnboardingReport {
+  rows: OnboardingRowResult[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number;
+}
+
+export function formatPatientId(userId: number): string {
+  return `P${String(userId).padStart(3, '0')}`;
+}
+
+// "Injury Type", "injury_type" and "injuryType" all name the same column
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function parseRows(text: string): Array<{ line: number; values: Record<OnboardingColumn, string> }> {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex(line => line.trim() !== '');
+  if (headerIndex < 0) {
+    throw new OnboardingFormatError('The file is empty');
+  }
+
+  const header = splitCsvLine(lines[headerIndex]).map(normalizeHeader);
+  const positions = {} as Record<OnboardingColumn, number>;
+  ONBOARDING_COLUMNS.forEach(column => {
+    positions[column] = header.indexOf(column.toLowerCase());
+  });
+  if (positions.injuryType < 0) {
+    throw new OnboardingFormatError('Missing column: injuryType');
+  }
+
+  const rows: Array<{ line: number; values: Record<OnboardingColumn, string> }> = [];
+  lines.slice(headerIndex + 1).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    const cells = splitCsvLine(line);
+    const values = {} as Record<OnboardingColumn, string>;
+    ONBOARDING_COLUMNS.forEach(column => {
+      values[column] = positions[column] < 0 ? '' : (cells[positions[column]] ?? '').trim();
+    });
+    rows.push({ line: headerIndex + index + 2, values });
+  });
+
+  if (rows.length === 0) {
+    throw new OnboardingFormatError('The file has no patient rows');
+  }
+  if (rows.length > MAX_ONBOARDING_ROWS) {
+    throw new OnboardingFormatError(`At most ${MAX_ONBOARDING_ROWS} patients can be onboarded at once`);
+  }
+  return rows;
+}
+
+function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function dateKey(value: unknown): string | null {
+  if (!value) {
+    return null;
+  }
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value).slice(0, 10);
+}
+
+// Keys that identify the same person; rows without an email or a full name cannot be matched
+function identityKeys(patient: { email?: string | null; firstName?: string | null; lastName?: string | null; surgeryDate?: unknown }): string[] {
+  const keys: string[] = [];
+  if (patient.email) {
+    keys.push(`email:${patient.email.toLowerCase()}`);
+  }
+  if (patient.firstName && patient.lastName) {
+    const name = `${patient.firstName} ${patient.lastName}`.toLowerCase().replace(/\s+/g, ' ');
+    keys.push(`name:${name}|${dateKey(patient.surgeryDate) ?? ''}`);
+  }
+  return keys;
+}
+
+export function validateOnboardingCsv(text: string, existingUsers: User[]): OnboardingReport {
+  const existing = new Map<string, User>();
+  existingUsers.forEach(user => {
+    identityKeys(user).forEach(key => existing.set(key, user));
+  });
+  const seen = new Map<string, number>();
+
+  const rows = parseRows(text).map(({ line, values }): OnboardingRowResult => {
+    const errors: string[] = [];
+    const injuryType = VALID_INJURY_TYPES.find(type => type.toLowerCase() === values.injuryType.toLowerCase());
+    if (!values.injuryType) {
+      errors.push('injuryType is required');
+    } else if (!injuryType) {
+      errors.push(`injuryType must be one of: ${VALID_INJURY_TYPES.join(', ')}`);
+    }
+    if (values.surgeryDate && !isCalendarDate(values.surgeryDate)) {
+      errors.push('surgeryDate must be a date in YYYY-MM-DD format');
+    }
+    if (values.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values.email)) {
+      errors.push('email is not a valid address');
+    }
+    if (!values.firstName !== !values.lastName) {
+      errors.push('firstName and lastName must be given together');
+    }
+
+    const patient: OnboardingPatient = {
+      injuryType: injuryType || values.injuryType,
+      surgeryDate: values.surgeryDate || null,
+      firstName: values.firstName || null,
+      lastName: values.lastName || null,
+      email: values.email || null,
+    };
+
+    const keys = identityKeys(patient);
+    let duplicateOf: OnboardingRowResult['duplicateOf'] = null;
+    for (let i = 0; i < keys.length && !duplicateOf; i++) {
+      const user = existing.get(keys[i]);
+      const earlierLine = seen.get(keys[i]);
+      if (user) {
+        duplicateOf = { userId: user.id, patientId: formatPatientId(user.id) };
+        errors.push(`Duplicate of existing patient ${formatPatientId(user.id)}`);
+      } else if (earlierLine !== undefined) {
+        duplicateOf = { line: earlierLine };
+        errors.push(`Duplicate of line ${earlierLine}`);
+      }
+    }
+    keys.forEach(key => {
+      if (!seen.has(key)) {
+        seen.set(key, line);
+      }
+    });
+
+    return { line, ...patient, errors, duplicateOf };
+  });
+
+  const invalidRows = rows.filter(row => row.errors.length > 0).length;
+  return {
+    rows,
+    totalRows: rows.length,
+    validRows: rows.length - invalidRows,
+    invalidRows,
+    duplicateRows: rows.filter(row => row.duplicateOf).length,
+  };
+}
+
+// Six-digit access codes that are unique among themselves and against taken codes
+export function generateAccessCodes(count: number, taken: Set<string>): string[] {
+  const codes: string[] = [];
+  const used = new Set(Array.from(taken));
+  while (codes.length < count) {
+    const code = crypto.randomInt(100000, 1000000).toString();
+    if (!used.has(code)) {
+      used.add(code);
+      codes.push(code);
+    }
+  }
+  return codes;
+}
+
+const SHEET_COLUMNS = ['patientId', 'accessCode', 'firstName', 'lastName', 'email', 'injuryType', 'surgeryDate'] as const;
+
+function sheetRows(users: User[]): Array<Record<typeof SHEET_COLUMNS[number], string>> {
+  return users.map(user => ({
+    patientId: formatPatientId(user.id),
+    accessCode: user.code,
+    firstName: user.firstName || '',
+    lastName: user.lastName || '',
+    email: user.email || '',
+    injuryType: user.injuryType || '',
+    surgeryDate: dateKey(user.surgeryDate) || '',
+  }));
+}
+
+export function accessCodeSheetCsv(users: User[]): string {
+  return [
+    SHEET_COLUMNS.join(','),
+    ...sheetRows(users).map(row => SHEET_COLUMNS.map(column => csvCell(row[column])).join(',')),
+  ].join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// One card per patient, laid out to be cut apart and handed over in clinic
+export function accessCodeSheetHtml(users: User[], generatedAt = new Date()): string {
+  const cards = sheetRows(users).map(row => {
+    const name = [row.firstName, row.lastName].filter(Boolean).join(' ');
+    return `<div class="card">
+  <div class="patient">${escapeHtml(row.patientId)}${name ? ` &middot; ${escapeHtml(name)}` : ''}</div>
+  <div class="label">Access code</div>
+  <div class="code">${escapeHtml(row.accessCode)}</div>
+  <div class="detail">${escapeHtml(row.injuryType)}${row.surgeryDate ? ` &middot; Surgery ${escapeHtml(row.surgeryDate)}` : ''}</div>
+</div>`;
+  });
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Patient access codes</title>
+<style>
+  body { font-family: Arial, sans-serif; margin: 24px; color: #1F2937; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  p.meta { font-size: 12px; color: #6B7280; margin: 0 0 16px; }
+  .grid { display: grid; grid-template-columns: repeat(2, 1fr); gap: 12px; }
+  .card { border: 1px dashed #9CA3AF; border-radius: 6px; padding: 12px; page-break-inside: avoid; }
+  .patient { font-weight: bold; }
+  .label { font-size: 11px; text-transform: uppercase; color: #6B7280; margin-top: 8px; }
+  .code { font-family: monospace; font-size: 28px; letter-spacing: 4px; }
+  .detail { font-size: 12px; margin-top: 4px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Patient access codes</h1>
+<p class="meta">${users.length} patient${users.length === 1 ? '' : 's'} &middot; generated ${escapeHtml(generatedAt.toISOString().slice(0, 16).replace('T', ' '))} UTC</p>
+<div class="grid">
+${cards.join('\n')}
+</div>
+</body>
+</html>`;
+}
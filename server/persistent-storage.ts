@@ -7,252 +7,661 @@ interface StorageData {
   assessments: Array<{ id: number; [key: string]: any }>;
   injuryTypes: Array<{ [key: string]: any }>;
   clinicalUsers: Array<{ id: number; [key: string]: any }>;
+  passwordResetTokens?: Array<{ id: number; [key: string]: any }>;
+  patientDelegations?: Array<{ id: number; [key: string]: any }>;
+  auditLogs?: Array<{ id: number; [key: string]: any }>;
+  shareLinks?: Array<{ id: number; [key: string]: any }>;
+  shareLinkAccessLogs?: Array<{ id: number; [key: string]: any }>;
+  consentDocuments?: Array<{ id: number; [key: string]: any }>;
+  consentRecords?: Array<{ id: number; [key: string]: any }>;
+  dataExports?: Array<{ id: number; [key: string]: any }>;
+  systemSettings?: Array<{ key: string; [key: string]: any }>;
+  legalHolds?: Array<{ id: number; [key: string]: any }>;
+  adminUsers?: Array<{ id: number; [key: string]: any }>;
+  cohorts?: Array<{ id: number; [key: string]: any }>;
+  patients?: Array<{ id: number; [key: string]: any }>;
+  assessmentTypes?: Array<{ id: number; [key: string]: any }>;
+  patientAssessments?: Array<{ id: number; [key: string]: any }>;
+  outlierAlerts?: Array<{ id: number; [key: string]: any }>;
+  studyVisits?: Array<{ id: number; [key: string]: any }>;
+  quickDashResponses?: Array<{ id: number; [key: string]: any }>;
 }
 
+// The SQL table each StorageData collection corresponds to, for backups
+const STORAGE_DATA_TABLES: Record<keyof StorageData, string> = {
+  users: 'users',
+  userAssessments: 'user_assessments',
+  assessments: 'assessments',
+  injuryTypes: 'injury_types',
+  clinicalUsers: 'clinical_users',
+  passwordResetTokens: 'password_reset_tokens',
+  patientDelegations: 'patient_delegations',
+  auditLogs: 'audit_logs',
+  shareLinks: 'share_links',
+  shareLinkAccessLogs: 'share_link_access_logs',
+  consentDocuments: 'consent_documents',
+  consentRecords: 'consent_records',
+  dataExports: 'data_exports',
+  systemSettings: 'system_settings',
+  legalHolds: 'legal_holds',
+  adminUsers: 'admin_users',
+  cohorts: 'cohorts',
+  patients: 'patients',
+  assessmentTypes: 'assessment_types',
+  patientAssessments: 'patient_assessments',
+  outlierAlerts: 'outlier_alerts',
+  studyVisits: 'study_visits',
+  quickDashResponses: 'quick_dash_responses',
+};
+
+export interface PersistentMemoryStorageOptions {
+  dataDir?: string;   // Where storage.json lives; defaults to ./data
+  persist?: boolean;  // false keeps everything in memory only, for tests and throwaway offline sessions
+}
+
+// The assessment catalogue a new store starts with; clinical assessment types start from the same list
+const DEFAULT_ASSESSMENTS = [
+  {
+    id: 1,
+    name: 'TAM (Total Active Motion)',
+    description: 'Comprehensive finger flexion and extension measurement',
+    videoUrl: '/videos/tam_video.mp4',
+    duration: 10,
+    repetitions: 1,
+    instructions: 'Make a complete fist, then fully extend all fingers. Repeat slowly and deliberately.',
+    isActive: true,
+    orderIndex: 1
+  },
+  {
+    id: 2,
+    name: 'Kapandji Score',
+    description: 'Thumb opposition assessment using standardized scoring',
+    videoUrl: '/videos/kapandji-instruction.mov',
+    duration: 10,
+    repetitions: 1,
+    instructions: 'Touch your thumb to each finger tip, then to the base of each finger, progressing down the hand.',
+    isActive: true,
+    orderIndex: 2
+  },
+  {
+    id: 3,
+    name: 'Wrist Flexion/Extension',
+    description: 'Measure wrist forward and backward bending range of motion',
+    videoUrl: '/videos/wrist-fe-assessment.mp4',
+    duration: 10,
+    repetitions: 1,
+    instructions: 'Bend your wrist forward as far as comfortable, then backward. Keep forearm stable.',
+    isActive: true,
+    orderIndex: 3
+  },
+  {
+    id: 4,
+    name: 'Forearm Pronation/Supination',
+    description: 'Assess forearm rotation capabilities',
+    videoUrl: '/videos/forearm-rotation.mp4',
+    duration: 10,
+    repetitions: 1,
+    instructions: 'Rotate your forearm to turn palm up and down while keeping elbow stable.',
+    isActive: true,
+    orderIndex: 4
+  },
+  {
+    id: 5,
+    name: 'Wrist Radial/Ulnar Deviation',
+    description: 'Measure side-to-side wrist movement',
+    videoUrl: '/videos/wrist-deviation.mp4',
+    duration: 10,
+    repetitions: 1,
+    instructions: 'Move your wrist side to side, first toward thumb then toward pinky.',
+    isActive: true,
+    orderIndex: 5
+  },
+  {
+    id: 6,
+    name: 'DASH Survey',
+    description: 'Disabilities of the Arm, Shoulder and Hand questionnaire',
+    videoUrl: null,
+    duration: 600,
+    repetitions: 1,
+    instructions: 'Complete the DASH questionnaire about your arm, shoulder and hand function',
+    isActive: true,
+    orderIndex: 6
+  }
+];
+
 import { IStorage } from "./storage";
+import { hashPassword, isPasswordHash, verifyPassword } from "./passwords";
+import { assignedAssessmentCount, complianceRate } from "./compliance";
+import { chainAuditEntry } from "./audit-log";
+import type { BackupSnapshot, RestoreResult } from "./backup";
+import type { AuditLogQuery } from "@shared/schema";
 
 export class PersistentMemoryStorage implements IStorage {
-  // Add missing admin methods as stubs
-  async getAdminUser(id: number): Promise<any> {
-    return undefined;
+  // Admin portal methods; admin patients are the legacy users, as in DatabaseStorage
+  async getAdminUser(id: number): Promise<any | undefined> {
+    return this.adminUsers.get(id);
   }
 
-  async getAdminUserByUsername(username: string): Promise<any> {
-    return undefined;
+  async getAdminUserByUsername(username: string): Promise<any | undefined> {
+    return Array.from(this.adminUsers.values()).find(user => user.username === username);
   }
 
   async createAdminUser(user: any): Promise<any> {
-    return { id: 1, ...user };
+    this.assertUnique(this.adminUsers, 'username', user.username, 'Admin username');
+    this.assertUnique(this.adminUsers, 'email', user.email, 'Admin email');
+    const password = isPasswordHash(user.password) ? user.password : await hashPassword(user.password);
+    const created = {
+      id: this.nextId(this.adminUsers),
+      isActive: true,
+      passwordHistory: null,
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      totpRecoveryCodes: null,
+      lastLoginAt: null,
+      ...user,
+      password,
+      passwordChangedAt: new Date(),
+      createdAt: new Date()
+    };
+    this.adminUsers.set(created.id, created);
+    await this.saveToFile();
+    return created;
   }
 
-  async updateAdminUser(id: number, updates: any): Promise<any> {
-    return undefined;
+  async updateAdminUser(id: number, updates: any): Promise<any | undefined> {
+    const user = this.adminUsers.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, ...updates };
+    this.adminUsers.set(id, updated);
+    await this.saveToFile();
+    return updated;
   }
 
-  async authenticateAdminUser(username: string, password: string): Promise<any> {
+  async authenticateAdminUser(username: string, password: string): Promise<any | null> {
+    const user = await this.getAdminUserByUsername(username);
+    const { valid, needsUpgrade } = await verifyPassword(password, user?.password);
+    if (user && valid && user.isActive) {
+      return this.updateAdminUser(user.id, {
+        lastLoginAt: new Date(),
+        ...(needsUpgrade && { password: await hashPassword(password) })
+      });
+    }
     return null;
   }
 
   async getAdminComplianceData(): Promise<any> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const tomorrow = new Date(today);
+    tomorrow.setDate(today.getDate() + 1);
+
+    const activeUsers = Array.from(this.users.values()).filter(user => user.isActive !== false);
+    const completed = Array.from(this.userAssessments.values()).filter(assessment => assessment.isCompleted);
+
+    let atRiskPatients = 0;
+    let assignedAssessments = 0;
+    activeUsers.forEach(user => {
+      const assignedCount = assignedAssessmentCount(user.injuryType || 'Unknown');
+      const completedCount = completed.filter(assessment => assessment.userId === user.id).length;
+      if (complianceRate(completedCount, assignedCount) < 60) {
+        atRiskPatients++;
+      }
+      assignedAssessments += assignedCount;
+    });
+
+    const completedToday = completed.filter(assessment => {
+      const completedAt = assessment.completedAt ? new Date(assessment.completedAt) : null;
+      return completedAt !== null && completedAt >= today && completedAt < tomorrow;
+    }).length;
+
     return {
-      totalPatients: 0,
-      activePatients: 0,
-      totalAssessments: 0,
-      completedToday: 0
+      totalPatients: activeUsers.length,
+      activePatients: atRiskPatients, // Patients below 60% compliance
+      totalAssessments: completed.length,
+      completedToday,
+      complianceRate: Math.round(complianceRate(completed.length, assignedAssessments)),
+      assignedAssessments,
+      completedAssessments: completed.length
     };
   }
 
   async getAdminPatients(): Promise<any[]> {
-    return [];
+    return Array.from(this.users.values())
+      .filter(user => user.isActive !== false)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map(user => {
+        const assessments = Array.from(this.userAssessments.values()).filter(assessment => assessment.userId === user.id);
+        const visits = assessments
+          .filter(assessment => assessment.completedAt)
+          .map(assessment => new Date(assessment.completedAt).getTime());
+        const completedCount = assessments.filter(assessment => assessment.isCompleted).length;
+        const surgeryDate = user.surgeryDate ? String(user.surgeryDate).split('T')[0] : null;
+        return {
+          id: user.id,
+          patientId: `P${user.id.toString().padStart(3, '0')}`,
+          code: user.code,
+          injuryType: user.injuryType || 'Unknown',
+          isActive: user.isActive !== false,
+          createdAt: new Date(user.createdAt || Date.now()).toISOString(),
+          surgeryDate,
+          lastVisit: visits.length > 0 ? new Date(Math.max(...visits)).toISOString() : null,
+          completedAssessments: completedCount,
+          postOpDay: surgeryDate ? Math.floor((Date.now() - new Date(surgeryDate).getTime()) / (1000 * 60 * 60 * 24)) : null,
+          complianceRate: Math.round(complianceRate(completedCount, assignedAssessmentCount(user.injuryType || 'Unknown')))
+        };
+      });
   }
 
   async generatePatientAccessCode(): Promise<string> {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+    let code: string;
+    do {
+      code = Math.floor(100000 + Math.random() * 900000).toString();
+    } while (this.userByCode.has(code));
+    return code;
   }
 
-  async createAdminPatient(injuryType: string): Promise<any> {
-    return {
-      id: 1,
-      patientId: 'PT001',
+  async createAdminPatient(injuryType: string, surgeryDate?: string): Promise<any> {
+    const [user] = await this.createUsers([{
       code: await this.generatePatientAccessCode(),
-      injuryType
+      injuryType,
+      surgeryDate: surgeryDate || null,
+      firstName: 'Patient',
+      lastName: 'User'
+    }]);
+    return {
+      id: user.id,
+      patientId: `P${user.id.toString().padStart(3, '0')}`,
+      code: user.code,
+      injuryType: user.injuryType || 'Unknown',
+      surgeryDate: user.surgeryDate
     };
   }
 
   async downloadPatientMotionData(userId: number): Promise<any> {
-    return {};
-  }
+    const user = this.users.get(userId);
+    if (!user) return null;
 
-  async getCohorts(): Promise<any[]> {
-    return [];
+    const assessments = await this.getUserAssessments(userId);
+    return {
+      patient: {
+        id: user.id,
+        patientId: `P${user.id.toString().padStart(3, '0')}`,
+        code: user.code,
+        injuryType: user.injuryType,
+        createdAt: user.createdAt
+      },
+      assessments: assessments.map(assessment => ({
+        id: assessment.id,
+        assessmentId: assessment.assessmentId,
+        completedAt: assessment.completedAt,
+        romData: assessment.romData,
+        repetitionData: assessment.repetitionData,
+        qualityScore: assessment.qualityScore,
+        tamScore: assessment.totalActiveRom,
+        kapandjiScore: assessment.dashScore, // Using dashScore field as Kapandji score
+        wristFlexion: assessment.wristFlexionAngle,
+        wristExtension: assessment.wristExtensionAngle,
+        handType: assessment.handType
+      }))
+    };
   }
 
-  async getCohort(id: number): Promise<any> {
-    return undefined;
+  async createPasswordResetToken(token: any): Promise<any> {
+    const id = this.passwordResetTokens.size > 0 ? Math.max(...Array.from(this.passwordResetTokens.keys())) + 1 : 1;
+    const newToken = { id, ...token, usedAt: null, createdAt: new Date() };
+    this.passwordResetTokens.set(id, newToken);
+    await this.saveToFile();
+    return newToken;
   }
 
-  async createCohort(cohort: any): Promise<any> {
-    return { id: 1, ...cohort };
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<any> {
+    return Array.from(this.passwordResetTokens.values()).find(token => token.tokenHash === tokenHash);
   }
 
-  async updateCohort(id: number, updates: any): Promise<any> {
-    return undefined;
+  async markPasswordResetTokenUsed(id: number): Promise<boolean> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token || token.usedAt) return false;
+    this.passwordResetTokens.set(id, { ...token, usedAt: new Date() });
+    await this.saveToFile();
+    return true;
   }
 
-  async deleteCohort(id: number): Promise<boolean> {
-    return false;
+  async invalidatePasswordResetTokens(userType: string, userId: number): Promise<void> {
+    this.passwordResetTokens.forEach((token, id) => {
+      if (token.userType === userType && token.userId === userId && !token.usedAt) {
+        this.passwordResetTokens.set(id, { ...token, usedAt: new Date() });
+      }
+    });
+    await this.saveToFile();
   }
 
-  async getPatients(): Promise<any[]> {
-    return [];
+  async createPatientDelegation(delegation: any): Promise<any> {
+    const id = this.patientDelegations.size > 0 ? Math.max(...Array.from(this.patientDelegations.keys())) + 1 : 1;
+    const newDelegation = { id, reason: null, expiresAt: null, ...delegation, revokedAt: null, createdAt: new Date() };
+    this.patientDelegations.set(id, newDelegation);
+    await this.saveToFile();
+    return newDelegation;
   }
 
-  async getPatient(id: number): Promise<any> {
-    return undefined;
+  async getPatientDelegations(patientId: number): Promise<any[]> {
+    return Array.from(this.patientDelegations.values())
+      .filter(delegation => delegation.patientId === patientId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
-  async getPatientWithDetails(id: number): Promise<any> {
-    return undefined;
+  async getDelegatedPatientIds(clinicianId: number): Promise<number[]> {
+    const now = Date.now();
+    return Array.from(this.patientDelegations.values())
+      .filter(delegation => delegation.clinicianId === clinicianId && !delegation.revokedAt &&
+        (!delegation.expiresAt || new Date(delegation.expiresAt).getTime() > now))
+      .map(delegation => delegation.patientId);
   }
 
-  async createPatient(patient: any): Promise<any> {
-    return { id: 1, ...patient };
+  async revokePatientDelegation(id: number): Promise<boolean> {
+    const delegation = this.patientDelegations.get(id);
+    if (!delegation || delegation.revokedAt) return false;
+    this.patientDelegations.set(id, { ...delegation, revokedAt: new Date() });
+    await this.saveToFile();
+    return true;
   }
 
-  async updatePatient(id: number, updates: any): Promise<any> {
-    return undefined;
+  async createShareLink(link: any): Promise<any> {
+    const id = this.shareLinks.size > 0 ? Math.max(...Array.from(this.shareLinks.keys())) + 1 : 1;
+    const newLink = { id, scope: 'summary', label: null, maxViews: null, ...link, viewCount: 0, revokedAt: null, lastViewedAt: null, createdAt: new Date() };
+    this.shareLinks.set(id, newLink);
+    await this.saveToFile();
+    return newLink;
   }
 
-  async deletePatient(id: number): Promise<boolean> {
-    return false;
+  async getShareLink(id: number): Promise<any | undefined> {
+    return this.shareLinks.get(id);
   }
 
-  async checkEligibility(): Promise<any> {
-    return { eligible: true, reasons: [] };
+  async getShareLinkByTokenHash(tokenHash: string): Promise<any | undefined> {
+    return Array.from(this.shareLinks.values()).find(link => link.tokenHash === tokenHash);
   }
 
-  async enrollPatient(enrollment: any): Promise<any> {
-    return {};
+  async getShareLinksByUser(userId: number): Promise<any[]> {
+    return Array.from(this.shareLinks.values())
+      .filter(link => link.userId === userId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
-  async generateAccessCode(): Promise<string> {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+  async recordShareLinkView(id: number): Promise<any | undefined> {
+    const link = this.shareLinks.get(id);
+    if (!link || link.revokedAt || new Date(link.expiresAt).getTime() <= Date.now() ||
+        (link.maxViews !== null && link.viewCount >= link.maxViews)) {
+      return undefined;
+    }
+    const updated = { ...link, viewCount: link.viewCount + 1, lastViewedAt: new Date() };
+    this.shareLinks.set(id, updated);
+    await this.saveToFile();
+    return updated;
   }
 
-  async getPatientByAccessCode(code: string): Promise<any> {
-    return undefined;
+  async revokeShareLink(id: number): Promise<boolean> {
+    const link = this.shareLinks.get(id);
+    if (!link || link.revokedAt) return false;
+    this.shareLinks.set(id, { ...link, revokedAt: new Date() });
+    await this.saveToFile();
+    return true;
   }
 
-  async getAssessmentTypes(): Promise<any[]> {
-    return [];
+  async createShareLinkAccessLog(log: any): Promise<any> {
+    const id = this.shareLinkAccessLogs.length + 1;
+    const newLog = { id, ipAddress: null, userAgent: null, ...log, accessedAt: new Date() };
+    this.shareLinkAccessLogs.push(newLog);
+    await this.saveToFile();
+    return newLog;
   }
 
-  async getAssessmentType(id: number): Promise<any> {
-    return undefined;
+  async getShareLinkAccessLogs(shareLinkId: number): Promise<any[]> {
+    return this.shareLinkAccessLogs
+      .filter(log => log.shareLinkId === shareLinkId)
+      .reverse();
   }
 
-  async createAssessmentType(assessmentType: any): Promise<any> {
-    return { id: 1, ...assessmentType };
+  async createConsentDocument(document: any): Promise<any> {
+    const id = this.consentDocuments.size > 0 ? Math.max(...Array.from(this.consentDocuments.keys())) + 1 : 1;
+    const newDocument = { id, createdBy: null, ...document, publishedAt: null, createdAt: new Date() };
+    this.consentDocuments.set(id, newDocument);
+    await this.saveToFile();
+    return newDocument;
   }
 
-  async updateAssessmentType(id: number, updates: any): Promise<any> {
-    return undefined;
+  async getConsentDocument(id: number): Promise<any | undefined> {
+    return this.consentDocuments.get(id);
   }
 
-  async getPatientAssessments(): Promise<any[]> {
-    return [];
+  async getConsentDocuments(): Promise<any[]> {
+    return Array.from(this.consentDocuments.values())
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
-  async getPatientAssessment(id: number): Promise<any> {
-    return undefined;
+  async updateConsentDocument(id: number, updates: any): Promise<any | undefined> {
+    const document = this.consentDocuments.get(id);
+    if (!document || document.publishedAt) return undefined;
+    const updated = { ...document, ...updates };
+    this.consentDocuments.set(id, updated);
+    await this.saveToFile();
+    return updated;
   }
 
-  async createPatientAssessment(assessment: any): Promise<any> {
-    return { id: 1, ...assessment };
+  async publishConsentDocument(id: number): Promise<any | undefined> {
+    const document = this.consentDocuments.get(id);
+    if (!document || document.publishedAt) return undefined;
+    const published = { ...document, publishedAt: new Date() };
+    this.consentDocuments.set(id, published);
+    await this.saveToFile();
+    return published;
   }
 
-  async updatePatientAssessment(id: number, updates: any): Promise<any> {
-    return undefined;
+  async getCurrentConsentDocument(): Promise<any | undefined> {
+    return Array.from(this.consentDocuments.values())
+      .filter(document => document.publishedAt)
+      .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime() || b.id - a.id)[0];
   }
 
-  async getCohortAssessments(): Promise<any[]> {
-    return [];
+  async createConsentRecord(record: any): Promise<any> {
+    const id = this.consentRecords.length + 1;
+    const newRecord = { id, ipAddress: null, userAgent: null, ...record, signedAt: new Date() };
+    this.consentRecords.push(newRecord);
+    await this.saveToFile();
+    return newRecord;
   }
 
-  async getCohortAnalytics(): Promise<any> {
-    return null;
+  async getConsentRecords(userId?: number): Promise<any[]> {
+    return this.consentRecords
+      .filter(record => userId === undefined || record.userId === userId)
+      .reverse();
   }
 
-  async getOutlierAlerts(): Promise<any[]> {
-    return [];
+  async getSystemSetting(key: string): Promise<any | undefined> {
+    return this.systemSettings.get(key);
   }
 
-  async createOutlierAlert(alert: any): Promise<any> {
-    return { id: 1, ...alert };
+  async upsertSystemSetting(key: string, value: unknown, updatedBy?: number): Promise<any> {
+    const setting = { key, value, updatedBy: updatedBy ?? null, updatedAt: new Date() };
+    this.systemSettings.set(key, setting);
+    await this.saveToFile();
+    return setting;
   }
 
-  async resolveOutlierAlert(id: number): Promise<boolean> {
-    return false;
+  async getLegalHolds(includeReleased = false): Promise<any[]> {
+    return Array.from(this.legalHolds.values())
+      .filter(hold => includeReleased || !hold.releasedAt)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
-  async createAuditLog(log: any): Promise<any> {
-    return { id: 1, ...log };
+  async createLegalHold(hold: any): Promise<any> {
+    const id = this.legalHolds.size > 0 ? Math.max(...Array.from(this.legalHolds.keys())) + 1 : 1;
+    const created = { id, patientId: null, userId: null, ...hold, createdAt: new Date(), releasedBy: null, releasedAt: null };
+    this.legalHolds.set(id, created);
+    await this.saveToFile();
+    return created;
   }
 
-  async getAuditLogs(): Promise<any[]> {
-    return [];
+  async releaseLegalHold(id: number, releasedBy: number): Promise<any> {
+    const hold = this.legalHolds.get(id);
+    if (!hold || hold.releasedAt) {
+      return undefined;
+    }
+    const released = { ...hold, releasedBy, releasedAt: new Date() };
+    this.legalHolds.set(id, released);
+    await this.saveToFile();
+    return released;
   }
 
-  async createDataExport(exportRequest: any): Promise<any> {
-    return { id: 1, ...exportRequest };
+  async getPatientAssessmentsBefore(cutoff: Date): Promise<any[]> {
+    return Array.from(this.patientAssessments.values())
+      .filter(assessment => assessment.assessmentDate && new Date(assessment.assessmentDate) < cutoff)
+      .sort((a, b) => new Date(a.assessmentDate).getTime() - new Date(b.assessmentDate).getTime());
   }
 
-  async getDataExport(id: number): Promise<any> {
-    return undefined;
+  async getUserAssessmentsBefore(cutoff: Date): Promise<any[]> {
+    return Array.from(this.userAssessments.values())
+      .filter(assessment => assessment.completedAt && new Date(assessment.completedAt) < cutoff)
+      .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime());
   }
 
-  async updateDataExport(id: number, updates: any): Promise<any> {
-    return undefined;
+  async purgePatientAssessments(ids: number[]): Promise<number> {
+    const purged = ids.filter(id => this.patientAssessments.delete(id));
+    if (purged.length === 0) {
+      return 0;
+    }
+    // Visits and questionnaires outlive the assessment they pointed at
+    [this.studyVisits, this.quickDashResponses].forEach(collection => {
+      collection.forEach((row, id) => {
+        if (purged.includes(row.assessmentId)) {
+          collection.set(id, { ...row, assessmentId: null });
+        }
+      });
+    });
+    await this.saveToFile();
+    return purged.length;
   }
 
-  async getClinicalUser(id: number): Promise<any> {
-    return this.clinicalUsers.get(id);
+  async purgeUserAssessments(ids: number[]): Promise<number> {
+    const purged = ids.filter(id => this.userAssessments.delete(id));
+    if (purged.length === 0) {
+      return 0;
+    }
+    await this.purgeLinkedPatientAssessments(purged);
+    const linkIds = Array.from(this.shareLinks.values())
+      .filter(link => purged.includes(link.userAssessmentId))
+      .map(link => link.id);
+    linkIds.forEach(id => this.shareLinks.delete(id));
+    this.shareLinkAccessLogs = this.shareLinkAccessLogs.filter(log => !linkIds.includes(log.shareLinkId));
+    await this.saveToFile();
+    return purged.length;
   }
 
-  async getClinicalUserByUsername(username: string): Promise<any> {
-    return this.clinicalUsersByUsername.get(username);
+  async getWithdrawnPatients(): Promise<any[]> {
+    return Array.from(this.patients.values()).filter(patient => patient.enrollmentStatus === 'withdrawn');
   }
 
-  async createClinicalUser(user: any): Promise<any> {
-    const id = Date.now();
-    const newUser = { id, ...user };
-    this.clinicalUsers.set(id, newUser);
-    this.clinicalUsersByUsername.set(user.username, newUser);
+  // Removes the linked patient app user as well, as in DatabaseStorage
+  async purgePatient(id: number): Promise<boolean> {
+    const patient = this.patients.get(id);
+    if (!patient) {
+      return false;
+    }
+    const user = patient.accessCode ? this.userByCode.get(patient.accessCode) : undefined;
+    if (user) {
+      await this.purgeUserAssessments(Array.from(this.userAssessments.values())
+        .filter(assessment => assessment.userId === user.id)
+        .map(assessment => assessment.id));
+      this.users.delete(user.id);
+      this.userByCode.delete(user.code);
+    }
+    this.patients.delete(id);
+    [this.quickDashResponses, this.studyVisits, this.outlierAlerts, this.patientDelegations, this.legalHolds, this.patientAssessments]
+      .forEach(collection => {
+        Array.from(collection.values())
+          .filter(row => row.patientId === id)
+          .forEach(row => collection.delete(row.id));
+      });
     await this.saveToFile();
-    return newUser;
+    return true;
   }
 
-  async updateClinicalUser(id: number, updates: any): Promise<any> {
-    const user = this.clinicalUsers.get(id);
-    if (!user) return undefined;
-    const updated = { ...user, ...updates };
-    this.clinicalUsers.set(id, updated);
+  async getBackupSnapshot(): Promise<BackupSnapshot> {
+    await this.ready;
+    // A JSON round trip gives rows the same shape a backup of the database has
+    const data = JSON.parse(JSON.stringify(this.toStorageData()));
+    const snapshot: BackupSnapshot = {};
+    (Object.keys(STORAGE_DATA_TABLES) as Array<keyof StorageData>).forEach(key => {
+      snapshot[STORAGE_DATA_TABLES[key]] = data[key] || [];
+    });
+    return snapshot;
+  }
+
+  async restoreBackupSnapshot(snapshot: BackupSnapshot): Promise<RestoreResult> {
+    await this.ready;
+    const data: any = {};
+    const restored: string[] = [];
+    const emptied: string[] = [];
+    (Object.keys(STORAGE_DATA_TABLES) as Array<keyof StorageData>).forEach(key => {
+      const name = STORAGE_DATA_TABLES[key];
+      data[key] = snapshot[name] || [];
+      (snapshot[name] ? restored : emptied).push(name);
+    });
+    const kept = Object.values(STORAGE_DATA_TABLES);
+    this.applyStorageData(data);
     await this.saveToFile();
-    return updated;
+    return { restored, emptied, skipped: Object.keys(snapshot).filter(name => !kept.includes(name)) };
   }
 
-  async authenticateClinicalUser(username: string, password: string): Promise<any> {
-    const user = this.clinicalUsersByUsername.get(username);
-    if (user && user.password === password && user.isActive) {
-      return user;
-    }
-    return null;
+  async createAuditLog(logData: any): Promise<any> {
+    const id = this.auditLogs.size > 0 ? Math.max(...Array.from(this.auditLogs.keys())) + 1 : 1;
+    const previous = this.auditLogs.get(id - 1);
+    const log = { id, targetEntity: null, details: null, ipAddress: null, userAgent: null, ...chainAuditEntry(logData, previous) };
+    this.auditLogs.set(id, log);
+    await this.saveToFile();
+    return log;
   }
 
-  async getAssessmentsForInjuryType(injuryType: string): Promise<any[]> {
-    return this.getAssessmentsForInjury(injuryType);
+  async getAuditLogs(userId?: number, limit = 100): Promise<any[]> {
+    return Array.from(this.auditLogs.values())
+      .filter(log => !userId || log.userId === userId)
+      .reverse()
+      .slice(0, limit);
   }
 
-  async getPatientAssessmentHistory(patientId: number): Promise<any[]> {
-    return [];
+  async searchAuditLogs(query: AuditLogQuery): Promise<{ logs: any[]; total: number }> {
+    const matching = Array.from(this.auditLogs.values())
+      .filter(log =>
+        (!query.userId || log.userId === query.userId) &&
+        (!query.action || log.action === query.action) &&
+        (!query.targetEntity || log.targetEntity === query.targetEntity) &&
+        (!query.from || new Date(log.timestamp) >= query.from) &&
+        (!query.to || new Date(log.timestamp) <= query.to))
+      .reverse();
+    return { logs: matching.slice(query.offset, query.offset + query.limit), total: matching.length };
   }
 
-  async createStudyVisit(visit: any): Promise<any> {
-    return { id: 1, ...visit };
+  async getAuditLogChain(): Promise<any[]> {
+    return Array.from(this.auditLogs.values()).sort((a, b) => a.id - b.id);
   }
 
   async resetUserAssessments(userId: number): Promise<void> {
-    const toDelete = [];
-    for (const [id, ua] of this.userAssessments) {
-      if ((ua as any).userId === userId) {
-        toDelete.push(id);
-      }
-    }
-    toDelete.forEach(id => this.userAssessments.delete(id));
+    const ids = Array.from(this.userAssessments.values())
+      .filter(ua => ua.userId === userId)
+      .map(ua => ua.id);
+    ids.forEach(id => this.userAssessments.delete(id));
+    await this.purgeLinkedPatientAssessments(ids);
     await this.saveToFile();
   }
 
-  // Keep existing implementation for other methods
+  // The clinical copies of patient app recordings go with the recordings
+  private async purgeLinkedPatientAssessments(userAssessmentIds: number[]): Promise<void> {
+    const linked = Array.from(this.patientAssessments.values())
+      .filter(assessment => userAssessmentIds.includes(assessment.userAssessmentId))
+      .map(assessment => assessment.id);
+    await this.purgePatientAssessments(linked);
+  }
+
   private users = new Map<number, any>();
   private userByCode = new Map<string, any>();
   private userAssessments = new Map<number, any>();
@@ -260,16 +669,44 @@ export class PersistentMemoryStorage implements IStorage {
   private injuryTypes: any[] = [];
   private clinicalUsers = new Map<number, any>();
   private clinicalUsersByUsername = new Map<string, any>();
-  public patients = new Map<number, any>();
+  private passwordResetTokens = new Map<number, any>();
+  private patientDelegations = new Map<number, any>();
+  private auditLogs = new Map<number, any>();
+  private shareLinks = new Map<number, any>();
+  private shareLinkAccessLogs: any[] = [];
+  private consentDocuments = new Map<number, any>();
+  private consentRecords: any[] = [];
+  private dataExports = new Map<number, any>();
+  private systemSettings = new Map<string, any>();
+  private legalHolds = new Map<number, any>();
+  private adminUsers = new Map<number, any>();
+  private cohorts = new Map<number, any>();
+  private patients = new Map<number, any>();
+  private assessmentTypes = new Map<number, any>();
+  private patientAssessments = new Map<number, any>();
+  private outlierAlerts = new Map<number, any>();
+  private studyVisits = new Map<number, any>();
+  private quickDashResponses = new Map<number, any>();
   private nextUserAssessmentId = 1;
-  private dataDir = './data';
-  private dataFile = path.join(this.dataDir, 'storage.json');
+  private dataDir: string;
+  private dataFile: string;
+  private persist: boolean;
 
-  constructor() {
-    this.initializeStorage();
+  // Settles once the data file has been loaded (or created)
+  readonly ready: Promise<void>;
+
+  constructor(options: PersistentMemoryStorageOptions = {}) {
+    this.dataDir = options.dataDir || './data';
+    this.dataFile = path.join(this.dataDir, 'storage.json');
+    this.persist = options.persist !== false;
+    this.ready = this.initializeStorage();
   }
 
   private async initializeStorage() {
+    if (!this.persist) {
+      await this.initializeDefaults();
+      return;
+    }
     try {
       // Ensure data directory exists
       await fs.mkdir(this.dataDir, { recursive: true });
@@ -287,61 +724,151 @@ export class PersistentMemoryStorage implements IStorage {
   private async loadFromFile() {
     try {
       const data = await fs.readFile(this.dataFile, 'utf-8');
-      const parsed: StorageData = JSON.parse(data);
-      
-      // Restore users
-      parsed.users.forEach(user => {
-        this.users.set(user.id, user);
-        this.userByCode.set(user.code, user);
-      });
-      
-      // Restore user assessments
-      parsed.userAssessments.forEach(ua => {
-        this.userAssessments.set(ua.id, ua);
-        this.nextUserAssessmentId = Math.max(this.nextUserAssessmentId, ua.id + 1);
-      });
-      
-      // Restore assessments
-      parsed.assessments.forEach(assessment => {
-        this.assessments.set(assessment.id, assessment);
-      });
-      
-      // Restore injury types
-      this.injuryTypes = parsed.injuryTypes || [];
-      
-      // Restore clinical users
-      this.clinicalUsers = new Map();
-      this.clinicalUsersByUsername = new Map();
-      if (parsed.clinicalUsers) {
-        parsed.clinicalUsers.forEach(user => {
-          this.clinicalUsers.set(user.id, user);
-          this.clinicalUsersByUsername.set(user.username, user);
-        });
-      }
-      
-      // If no clinical users found, create default ones
-      if (this.clinicalUsers.size === 0) {
-        console.log('No clinical users found in storage, creating defaults...');
-        this.createDefaultClinicalUsers();
-      }
-      
-      console.log(`Loaded ${parsed.users.length} users, ${parsed.userAssessments.length} user assessments, ${parsed.assessments.length} assessments, ${parsed.clinicalUsers?.length || 0} clinical users`);
+      this.applyStorageData(JSON.parse(data));
     } catch (error) {
       throw new Error('Failed to load data file');
     }
   }
 
+  // Replaces everything held in memory with the given data
+  private applyStorageData(parsed: StorageData) {
+    this.users = new Map();
+    this.userByCode = new Map();
+    this.userAssessments = new Map();
+    this.nextUserAssessmentId = 1;
+    this.assessments = new Map();
+    this.passwordResetTokens = new Map();
+    this.patientDelegations = new Map();
+    this.auditLogs = new Map();
+    this.shareLinks = new Map();
+    this.consentDocuments = new Map();
+    this.dataExports = new Map();
+    this.systemSettings = new Map();
+    this.legalHolds = new Map();
+    this.adminUsers = new Map();
+    this.cohorts = new Map();
+    this.patients = new Map();
+    this.assessmentTypes = new Map();
+    this.patientAssessments = new Map();
+    this.outlierAlerts = new Map();
+    this.studyVisits = new Map();
+    this.quickDashResponses = new Map();
+
+    // Restore users
+    parsed.users.forEach(user => {
+      this.users.set(user.id, user);
+      this.userByCode.set(user.code, user);
+    });
+    
+    // Restore user assessments
+    parsed.userAssessments.forEach(ua => {
+      this.userAssessments.set(ua.id, ua);
+      this.nextUserAssessmentId = Math.max(this.nextUserAssessmentId, ua.id + 1);
+    });
+    
+    // Restore assessments
+    parsed.assessments.forEach(assessment => {
+      this.assessments.set(assessment.id, assessment);
+    });
+    
+    // Restore injury types
+    this.injuryTypes = parsed.injuryTypes || [];
+    
+    // Restore clinical users
+    this.clinicalUsers = new Map();
+    this.clinicalUsersByUsername = new Map();
+    if (parsed.clinicalUsers) {
+      parsed.clinicalUsers.forEach(user => {
+        this.clinicalUsers.set(user.id, user);
+        this.clinicalUsersByUsername.set(user.username, user);
+      });
+    }
+    
+    // Restore password reset tokens, caseload delegations, the audit log, share links, consent, exports, settings and legal holds
+    (parsed.passwordResetTokens || []).forEach(token => {
+      this.passwordResetTokens.set(token.id, token);
+    });
+    (parsed.patientDelegations || []).forEach(delegation => {
+      this.patientDelegations.set(delegation.id, delegation);
+    });
+    (parsed.auditLogs || []).forEach(log => {
+      this.auditLogs.set(log.id, log);
+    });
+    (parsed.shareLinks || []).forEach(link => {
+      this.shareLinks.set(link.id, link);
+    });
+    this.shareLinkAccessLogs = parsed.shareLinkAccessLogs || [];
+    (parsed.consentDocuments || []).forEach(document => {
+      this.consentDocuments.set(document.id, document);
+    });
+    this.consentRecords = parsed.consentRecords || [];
+    (parsed.dataExports || []).forEach(exportRequest => {
+      this.dataExports.set(exportRequest.id, exportRequest);
+    });
+    (parsed.systemSettings || []).forEach(setting => {
+      this.systemSettings.set(setting.key, setting);
+    });
+    (parsed.legalHolds || []).forEach(hold => {
+      this.legalHolds.set(hold.id, hold);
+    });
+
+    // Restore the admin portal and clinical study collections
+    const restore = (rows: Array<{ id: number }> | undefined, into: Map<number, any>) => {
+      (rows || []).forEach(row => into.set(row.id, row));
+    };
+    restore(parsed.adminUsers, this.adminUsers);
+    restore(parsed.cohorts, this.cohorts);
+    restore(parsed.patients, this.patients);
+    restore(parsed.assessmentTypes, this.assessmentTypes);
+    restore(parsed.patientAssessments, this.patientAssessments);
+    restore(parsed.outlierAlerts, this.outlierAlerts);
+    restore(parsed.studyVisits, this.studyVisits);
+    restore(parsed.quickDashResponses, this.quickDashResponses);
+    
+    // If no clinical users found, create default ones
+    if (this.clinicalUsers.size === 0) {
+      console.log('No clinical users found in storage, creating defaults...');
+      this.createDefaultClinicalUsers();
+    }
+
+    // Data files written before these collections were stored start from the defaults
+    this.createMissingDefaults();
+    
+    console.log(`Loaded ${parsed.users.length} users, ${parsed.userAssessments.length} user assessments, ${parsed.assessments.length} assessments, ${parsed.clinicalUsers?.length || 0} clinical users`);
+  }
+
+  private toStorageData(): StorageData {
+    return {
+      users: Array.from(this.users.values()),
+      userAssessments: Array.from(this.userAssessments.values()),
+      assessments: Array.from(this.assessments.values()),
+      injuryTypes: this.injuryTypes,
+      clinicalUsers: Array.from(this.clinicalUsers.values()),
+      passwordResetTokens: Array.from(this.passwordResetTokens.values()),
+      patientDelegations: Array.from(this.patientDelegations.values()),
+      auditLogs: Array.from(this.auditLogs.values()),
+      shareLinks: Array.from(this.shareLinks.values()),
+      shareLinkAccessLogs: this.shareLinkAccessLogs,
+      consentDocuments: Array.from(this.consentDocuments.values()),
+      consentRecords: this.consentRecords,
+      dataExports: Array.from(this.dataExports.values()),
+      systemSettings: Array.from(this.systemSettings.values()),
+      legalHolds: Array.from(this.legalHolds.values()),
+      adminUsers: Array.from(this.adminUsers.values()),
+      cohorts: Array.from(this.cohorts.values()),
+      patients: Array.from(this.patients.values()),
+      assessmentTypes: Array.from(this.assessmentTypes.values()),
+      patientAssessments: Array.from(this.patientAssessments.values()),
+      outlierAlerts: Array.from(this.outlierAlerts.values()),
+      studyVisits: Array.from(this.studyVisits.values()),
+      quickDashResponses: Array.from(this.quickDashResponses.values())
+    };
+  }
+
   private async saveToFile() {
+    if (!this.persist) return;
     try {
-      const data: StorageData = {
-        users: Array.from(this.users.values()),
-        userAssessments: Array.from(this.userAssessments.values()),
-        assessments: Array.from(this.assessments.values()),
-        injuryTypes: this.injuryTypes,
-        clinicalUsers: Array.from(this.clinicalUsers.values())
-      };
-      
-      await fs.writeFile(this.dataFile, JSON.stringify(data, null, 2));
+      await fs.writeFile(this.dataFile, JSON.stringify(this.toStorageData(), null, 2));
     } catch (error) {
       console.error('Failed to save data to file:', error);
     }
@@ -349,66 +876,8 @@ export class PersistentMemoryStorage implements IStorage {
 
   private async initializeDefaults() {
     // Create all assessments
-    const assessments = [
-      {
-        id: 1,
-        name: 'TAM (Total Active Motion)',
-        description: 'Comprehensive finger flexion and extension measurement',
-        videoUrl: '/videos/tam_video.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Make a complete fist, then fully extend all fingers. Repeat slowly and deliberately.',
-        isActive: true,
-        orderIndex: 1
-      },
-      {
-        id: 2,
-        name: 'Kapandji Score',
-        description: 'Thumb opposition assessment using standardized scoring',
-        videoUrl: '/videos/kapandji-instruction.mov',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Touch your thumb to each finger tip, then to the base of each finger, progressing down the hand.',
-        isActive: true,
-        orderIndex: 2
-      },
-      {
-        id: 3,
-        name: 'Wrist Flexion/Extension',
-        description: 'Measure wrist forward and backward bending range of motion',
-        videoUrl: '/videos/wrist-fe-assessment.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Bend your wrist forward as far as comfortable, then backward. Keep forearm stable.',
-        isActive: true,
-        orderIndex: 3
-      },
-      {
-        id: 4,
-        name: 'Forearm Pronation/Supination',
-        description: 'Assess forearm rotation capabilities',
-        videoUrl: '/videos/forearm-rotation.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Rotate your forearm to turn palm up and down while keeping elbow stable.',
-        isActive: true,
-        orderIndex: 4
-      },
-      {
-        id: 5,
-        name: 'Wrist Radial/Ulnar Deviation',
-        description: 'Measure side-to-side wrist movement',
-        videoUrl: '/videos/wrist-deviation.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Move your wrist side to side, first toward thumb then toward pinky.',
-        isActive: true,
-        orderIndex: 5
-      }
-    ];
-
-    assessments.forEach(assessment => {
-      this.assessments.set(assessment.id, assessment);
+    DEFAULT_ASSESSMENTS.forEach(assessment => {
+      this.assessments.set(assessment.id, { ...assessment });
     });
 
     // Create injury types matching overview page exactly
@@ -652,7 +1121,12 @@ export class PersistentMemoryStorage implements IStorage {
       this.patients.set(patient.id, patient);
     });
 
-    console.log('Memory storage initialized with 5 assessments, comprehensive patient data, and 3 clinical users');
+    this.adminUsers = new Map();
+    this.cohorts = new Map();
+    this.assessmentTypes = new Map();
+    this.createMissingDefaults();
+
+    console.log(`Memory storage initialized with ${DEFAULT_ASSESSMENTS.length} assessments, comprehensive patient data, and 3 clinical users`);
   }
 
   private createDefaultClinicalUsers() {
@@ -701,88 +1175,79 @@ export class PersistentMemoryStorage implements IStorage {
     this.saveToFile().catch(console.error);
   }
 
+  // Default admin portal account, study cohorts and clinical assessment types for empty collections,
+  // plus any catalogue assessment the store is missing.
+  // Like the default clinical users, the admin password is upgraded to a hash at first login.
+  private createMissingDefaults() {
+    if (this.adminUsers.size === 0) {
+      this.adminUsers.set(1, {
+        id: 1,
+        username: 'admin',
+        password: 'admin123',
+        email: 'admin@clinic.com',
+        firstName: 'Admin',
+        lastName: 'User',
+        isActive: true,
+        createdAt: new Date()
+      });
+    }
+
+    if (this.cohorts.size === 0) {
+      [
+        { name: 'Trigger Finger Study', description: 'Finger tendon disorder research' },
+        { name: 'Carpal Tunnel Study', description: 'Nerve compression in the wrist research' },
+        { name: 'Distal Radius Fracture Study', description: 'Broken wrist bone recovery research' },
+        { name: 'CMC Arthroplasty Study', description: 'Thumb joint replacement research' },
+        { name: 'Metacarpal ORIF Study', description: 'Hand bone surgical repair research' },
+        { name: 'Phalanx Fracture Study', description: 'Finger bone fracture research' }
+      ].forEach((cohort, i) => {
+        this.cohorts.set(i + 1, { id: i + 1, ...cohort, normalRomRanges: null, isActive: true, createdAt: new Date() });
+      });
+    }
+
+    DEFAULT_ASSESSMENTS.forEach(assessment => {
+      if (!this.assessments.has(assessment.id)) {
+        this.assessments.set(assessment.id, { ...assessment });
+      }
+    });
+
+    if (this.assessmentTypes.size === 0) {
+      DEFAULT_ASSESSMENTS.forEach(assessment => {
+        this.assessmentTypes.set(assessment.id, { ...assessment });
+      });
+    }
+  }
+
+  private nextId(collection: Map<number, any>): number {
+    return collection.size > 0 ? Math.max(...Array.from(collection.keys())) + 1 : 1;
+  }
+
+  // Mirrors the unique constraints DatabaseStorage relies on
+  private assertUnique(collection: Map<number, any>, field: string, value: unknown, label: string) {
+    if (value !== undefined && value !== null &&
+        Array.from(collection.values()).some(row => row[field] === value)) {
+      throw new Error(`${label} ${value} already exists`);
+    }
+  }
+
   // API Methods with auto-save
   async getAssessments(): Promise<any[]> {
-    return [
-      { 
-        id: 1, 
-        name: 'TAM (Total Active Motion)', 
-        description: 'Measures finger range of motion', 
-        duration: 300, 
-        orderIndex: 1, 
-        isActive: true, 
-        instructions: 'Follow finger movements shown on screen', 
-        videoUrl: null, 
-        repetitions: 5,
-        injuryTypes: ['Trigger Finger', 'Carpal Tunnel', 'Distal Radius Fracture', 'CMC Arthroplasty', 'Metacarpal ORIF', 'Phalanx Fracture']
-      },
-      { 
-        id: 2, 
-        name: 'Kapandji Score', 
-        description: 'Thumb opposition assessment', 
-        duration: 180, 
-        orderIndex: 2, 
-        isActive: true, 
-        instructions: 'Touch thumb to fingertips as shown', 
-        videoUrl: null, 
-        repetitions: 1,
-        injuryTypes: ['Carpal Tunnel', 'Distal Radius Fracture', 'CMC Arthroplasty']
-      },
-      { 
-        id: 3, 
-        name: 'Wrist Flexion/Extension', 
-        description: 'Wrist range of motion measurement', 
-        duration: 240, 
-        orderIndex: 3, 
-        isActive: true, 
-        instructions: 'Move wrist up and down as demonstrated', 
-        videoUrl: null, 
-        repetitions: 3,
-        injuryTypes: ['Carpal Tunnel', 'Distal Radius Fracture', 'CMC Arthroplasty']
-      },
-      { 
-        id: 4, 
-        name: 'Forearm Pronation/Supination', 
-        description: 'Forearm rotation assessment', 
-        duration: 200, 
-        orderIndex: 4, 
-        isActive: true, 
-        instructions: 'Rotate forearm as shown in demonstration', 
-        videoUrl: null, 
-        repetitions: 3,
-        injuryTypes: ['Carpal Tunnel', 'Distal Radius Fracture', 'CMC Arthroplasty']
-      },
-      { 
-        id: 5, 
-        name: 'Wrist Radial/Ulnar Deviation', 
-        description: 'Side-to-side wrist movement', 
-        duration: 220, 
-        orderIndex: 5, 
-        isActive: true, 
-        instructions: 'Move wrist side to side following the guide', 
-        videoUrl: null, 
-        repetitions: 3,
-        injuryTypes: ['Carpal Tunnel', 'Distal Radius Fracture', 'CMC Arthroplasty']
-      },
-      { 
-        id: 6, 
-        name: 'DASH Survey', 
-        description: 'Disabilities of the Arm, Shoulder and Hand questionnaire', 
-        duration: 600, 
-        orderIndex: 6, 
-        isActive: true, 
-        instructions: 'Complete the DASH questionnaire about your arm, shoulder and hand function', 
-        videoUrl: null, 
-        repetitions: 1,
-        injuryTypes: ['Trigger Finger', 'Carpal Tunnel', 'Distal Radius Fracture', 'CMC Arthroplasty', 'Metacarpal ORIF', 'Phalanx Fracture']
-      }
-    ];
+    return Array.from(this.assessments.values())
+      .filter(assessment => assessment.isActive !== false)
+      .sort((a, b) => a.orderIndex - b.orderIndex);
   }
 
   async getAssessment(id: number): Promise<any> {
     return this.assessments.get(id);
   }
 
+  async createAssessment(assessment: any): Promise<any> {
+    const created = { id: this.nextId(this.assessments), videoUrl: null, repetitions: 3, instructions: null, isActive: true, ...assessment };
+    this.assessments.set(created.id, created);
+    await this.saveToFile();
+    return created;
+  }
+
   async getUserByCode(code: string): Promise<any> {
     const user = this.userByCode.get(code);
     console.log(`Persistent storage getUserByCode(${code}) returning:`, user ? 'found' : 'not found');
@@ -810,6 +1275,7 @@ export class PersistentMemoryStorage implements IStorage {
     
     const newUser = {
       id: this.users.size > 0 ? Math.max(...Array.from(this.users.keys())) + 1 : 1,
+      isActive: true,
       ...userData,
       injuryType,
       createdAt: new Date(),
@@ -822,10 +1288,56 @@ export class PersistentMemoryStorage implements IStorage {
     return newUser;
   }
 
+  async getUsers(): Promise<any[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async createUsers(usersData: any[]): Promise<any[]> {
+    // Check every code before creating any user so a failure leaves nothing behind
+    const codes = new Set<string>();
+    usersData.forEach(userData => {
+      if (!userData.code || this.userByCode.has(userData.code) || codes.has(userData.code)) {
+        throw new Error(`Access code ${userData.code} is missing or already in use`);
+      }
+      codes.add(userData.code);
+    });
+
+    let nextId = this.users.size > 0 ? Math.max(...Array.from(this.users.keys())) + 1 : 1;
+    const created = usersData.map(userData => ({
+      id: nextId++,
+      isActive: true,
+      ...userData,
+      injuryType: userData.injuryType || null,
+      createdAt: new Date(),
+      isFirstTime: true
+    }));
+    created.forEach(user => {
+      this.users.set(user.id, user);
+      this.userByCode.set(user.code, user);
+    });
+    await this.saveToFile();
+    return created;
+  }
+
   async getUserById(id: number): Promise<any> {
     return this.users.get(id);
   }
 
+  async getUser(id: number): Promise<any> {
+    return this.users.get(id);
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user) return false;
+    // Their assessments go with them, as in DatabaseStorage
+    await this.resetUserAssessments(id);
+    this.users.delete(id);
+    this.userByCode.delete(user.code);
+    await this.saveToFile();
+    return true;
+  }
+
   async updateUser(id: number, updates: any): Promise<any> {
     const user = this.users.get(id);
     if (user) {
@@ -872,6 +1384,7 @@ export class PersistentMemoryStorage implements IStorage {
         shareToken: null 
       };
       this.userAssessments.set(id, updatedAssessment);
+      await this.purgeLinkedPatientAssessments([id]);
       await this.saveToFile();
       return true;
     } catch (error) {
@@ -892,6 +1405,11 @@ export class PersistentMemoryStorage implements IStorage {
     return assessments;
   }
 
+  async getUserAssessment(userId: number, assessmentId: number): Promise<any | undefined> {
+    return Array.from(this.userAssessments.values())
+      .find(ua => ua.userId === userId && ua.assessmentId === assessmentId);
+  }
+
   async getUserProgress(userId: number): Promise<any> {
     const user = this.users.get(userId);
     if (!user) return { completed: 0, total: 0, percentage: 0, studyDay: 0, daysRemaining: 0 };
@@ -929,7 +1447,12 @@ export class PersistentMemoryStorage implements IStorage {
       "Distal Radius Fracture": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
       "CMC Arthroplasty": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
       "Metacarpal ORIF": ["TAM (Total Active Motion)"],
-      "Phalanx Fracture": ["TAM (Total Active Motion)"]
+      "Phalanx Fracture": ["TAM (Total Active Motion)"],
+      "Radial Head Replacement": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
+      "Terrible Triad Injury": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
+      "Dupuytren's Contracture": ["TAM (Total Active Motion)"],
+      "Flexor Tendon Injury": ["TAM (Total Active Motion)"],
+      "Extensor Tendon Injury": ["TAM (Total Active Motion)"]
     };
 
     const requiredAssessments = injuryAssessmentMap[injuryType] || ["TAM (Total Active Motion)"];
@@ -941,6 +1464,10 @@ export class PersistentMemoryStorage implements IStorage {
     return assessments;
   }
 
+  async getAssessmentsForInjury(injuryType: string): Promise<any[]> {
+    return this.getAssessmentsForInjuryType(injuryType);
+  }
+
   async getTodaysAssessments(userId: number): Promise<any[]> {
     const user = this.users.get(userId);
     if (!user) return [];
@@ -975,14 +1502,14 @@ export class PersistentMemoryStorage implements IStorage {
   }
 
   async getInjuryTypes(): Promise<any[]> {
-    return [
-      { name: 'Trigger Finger', description: 'Finger tendon disorder', assessmentCount: 1 },
-      { name: 'Carpal Tunnel', description: 'Nerve compression in the wrist', assessmentCount: 5 },
-      { name: 'Distal Radius Fracture', description: 'Broken wrist bone', assessmentCount: 5 },
-      { name: 'CMC Arthroplasty', description: 'Thumb joint replacement', assessmentCount: 5 },
-      { name: 'Metacarpal ORIF', description: 'Hand bone surgical repair', assessmentCount: 1 },
-      { name: 'Phalanx Fracture', description: 'Finger bone fracture', assessmentCount: 1 }
-    ];
+    return this.injuryTypes;
+  }
+
+  async createInjuryType(injuryType: any): Promise<any> {
+    const created = { id: this.injuryTypes.length + 1, ...injuryType };
+    this.injuryTypes.push(created);
+    await this.saveToFile();
+    return created;
   }
 
   // Clinical Authentication Methods
@@ -991,13 +1518,18 @@ export class PersistentMemoryStorage implements IStorage {
     console.log(`Available clinical users:`, Array.from(this.clinicalUsersByUsername.keys()));
     const user = this.clinicalUsersByUsername.get(username);
     console.log(`Found user:`, user ? 'yes' : 'no');
+    const { valid, needsUpgrade } = await verifyPassword(password, user?.password);
     if (user) {
-      console.log(`Password match:`, user.password === password);
+      console.log(`Password match:`, valid);
       console.log(`User active:`, user.isActive);
     }
-    if (user && user.password === password && user.isActive) {
+    if (user && valid && user.isActive) {
       console.log(`Clinical authentication successful for user: ${username}`);
-      return user;
+      // Default/legacy accounts are stored in plaintext until their first successful login
+      return this.updateClinicalUser(user.id, {
+        lastLoginAt: new Date(),
+        ...(needsUpgrade && { password: await hashPassword(password) })
+      });
     }
     console.log(`Clinical authentication failed for user: ${username}`);
     return null;
@@ -1015,6 +1547,8 @@ export class PersistentMemoryStorage implements IStorage {
     const newUser = {
       id: this.clinicalUsers.size > 0 ? Math.max(...Array.from(this.clinicalUsers.keys())) + 1 : 1,
       ...userData,
+      password: await hashPassword(userData.password),
+      passwordChangedAt: new Date(),
       createdAt: new Date(),
       isActive: true
     };
@@ -1036,446 +1570,412 @@ export class PersistentMemoryStorage implements IStorage {
     return null;
   }
 
-  // Clinical Dashboard Methods (basic implementations)
+  // Cohort methods; deleting a cohort deactivates it
   async getCohorts(): Promise<any[]> {
-    return [
-      { id: 1, name: 'Trigger Finger Study', description: 'Finger tendon disorder research', patientCount: 25, status: 'active', injuryType: 'Trigger Finger' },
-      { id: 2, name: 'Carpal Tunnel Study', description: 'Nerve compression in the wrist research', patientCount: 32, status: 'active', injuryType: 'Carpal Tunnel' },
-      { id: 3, name: 'Distal Radius Fracture Study', description: 'Broken wrist bone recovery research', patientCount: 28, status: 'active', injuryType: 'Distal Radius Fracture' },
-      { id: 4, name: 'CMC Arthroplasty Study', description: 'Thumb joint replacement research', patientCount: 20, status: 'active', injuryType: 'CMC Arthroplasty' },
-      { id: 5, name: 'Metacarpal ORIF Study', description: 'Hand bone surgical repair research', patientCount: 15, status: 'active', injuryType: 'Metacarpal ORIF' },
-      { id: 6, name: 'Phalanx Fracture Study', description: 'Finger bone fracture research', patientCount: 18, status: 'active', injuryType: 'Phalanx Fracture' }
-    ];
+    return Array.from(this.cohorts.values())
+      .filter(cohort => cohort.isActive)
+      .sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  private getCohortInjuryType(cohortId: number): string | null {
-    const cohortMap = {
-      1: 'Trigger Finger',
-      2: 'Carpal Tunnel', 
-      3: 'Distal Radius Fracture',
-      4: 'CMC Arthroplasty',
-      5: 'Metacarpal ORIF',
-      6: 'Phalanx Fracture'
-    };
-    return cohortMap[cohortId] || null;
+  async getCohort(id: number): Promise<any | undefined> {
+    return this.cohorts.get(id);
   }
 
-  async getPatients(): Promise<any[]> {
-    const now = new Date();
-    const lastWeek = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const twoWeeksAgo = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
-    
-    return [
-      { 
-        id: 1, 
-        patientId: 'PT001', 
-        alias: 'Patient A', 
-        status: 'improving', 
-        lastAssessment: now.toISOString(),
-        assessmentCount: 5,
-        ageGroup: '45-54',
-        sex: 'F',
-        handDominance: 'RIGHT',
-        injuryType: 'Carpal Tunnel',
-        enrollmentDate: twoWeeksAgo.toISOString(),
-        cohortId: 1
-      },
-      { 
-        id: 2, 
-        patientId: 'PT002', 
-        alias: 'Patient B', 
-        status: 'stable', 
-        lastAssessment: lastWeek.toISOString(),
-        assessmentCount: 3,
-        ageGroup: '35-44',
-        sex: 'M',
-        handDominance: 'LEFT',
-        injuryType: 'Tennis Elbow',
-        enrollmentDate: twoWeeksAgo.toISOString(),
-        cohortId: 2
-      },
-      { 
-        id: 3, 
-        patientId: 'PT003', 
-        alias: 'Patient C', 
-        status: 'declining', 
-        lastAssessment: twoWeeksAgo.toISOString(),
-        assessmentCount: 2,
-        ageGroup: '55-64',
-        sex: 'F',
-        handDominance: 'RIGHT',
-        injuryType: 'Trigger Finger',
-        enrollmentDate: twoWeeksAgo.toISOString(),
-        cohortId: 3
-      }
-    ];
+  async createCohort(cohort: any): Promise<any> {
+    this.assertUnique(this.cohorts, 'name', cohort.name, 'Cohort name');
+    const created = { id: this.nextId(this.cohorts), normalRomRanges: null, isActive: true, ...cohort, createdAt: new Date() };
+    this.cohorts.set(created.id, created);
+    await this.saveToFile();
+    return created;
   }
 
-  async getAlerts(): Promise<any[]> {
-    const now = new Date();
-    const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-    
-    return [
-      {
-        id: 1,
-        patientId: 'PT003',
-        patientAlias: 'Patient C',
-        severity: 'critical',
-        type: 'declining_performance',
-        message: 'Patient showing significant decrease in ROM scores over last 2 assessments',
-        createdAt: oneHourAgo.toISOString(),
-        isResolved: false
-      },
-      {
-        id: 2,
-        patientId: 'PT002',
-        patientAlias: 'Patient B',
-        severity: 'warning',
-        type: 'missed_assessment',
-        message: 'Patient has not completed assessment in 7 days',
-        createdAt: now.toISOString(),
-        isResolved: false
-      }
-    ];
+  async updateCohort(id: number, updates: any): Promise<any | undefined> {
+    const cohort = this.cohorts.get(id);
+    if (!cohort) return undefined;
+    const updated = { ...cohort, ...updates };
+    this.cohorts.set(id, updated);
+    await this.saveToFile();
+    return updated;
   }
 
-  async createAuditLog(logData: any): Promise<any> {
-    // Simple audit log implementation
-    console.log('Audit Log:', logData);
-    return { id: Date.now(), ...logData, timestamp: new Date() };
+  async deleteCohort(id: number): Promise<boolean> {
+    return !!(await this.updateCohort(id, { isActive: false }));
   }
 
-  async createCohort(cohortData: any): Promise<any> {
-    return { id: Date.now(), ...cohortData, createdAt: new Date() };
+  // Patient methods; deleting a patient deactivates it
+  private withDetails(patient: any): any {
+    const assessments = Array.from(this.patientAssessments.values())
+      .filter(assessment => assessment.patientId === patient.id)
+      .sort((a, b) => new Date(b.assessmentDate).getTime() - new Date(a.assessmentDate).getTime());
+    return {
+      id: patient.id,
+      patientId: patient.patientId,
+      alias: patient.alias,
+      cohortId: patient.cohortId ?? null,
+      assignedClinicianId: patient.assignedClinicianId ?? null,
+      status: patient.status,
+      isActive: patient.isActive,
+      baselineAssessmentId: patient.baselineAssessmentId ?? null,
+      createdAt: patient.createdAt,
+      cohort: this.cohorts.get(patient.cohortId) || null,
+      assignedClinician: this.clinicalUsers.get(patient.assignedClinicianId) || null,
+      lastAssessment: assessments[0] || null,
+      assessmentCount: assessments.length
+    };
   }
 
-  async updateCohort(id: number, updates: any): Promise<any> {
-    return { id, ...updates, updatedAt: new Date() };
+  async getPatients(clinicianId?: number): Promise<any[]> {
+    const lastAssessed = (patient: any) => patient.lastAssessment ? new Date(patient.lastAssessment.assessmentDate).getTime() : Number.MAX_SAFE_INTEGER;
+    return Array.from(this.patients.values())
+      .filter(patient => patient.isActive !== false && (!clinicianId || patient.assignedClinicianId === clinicianId))
+      .map(patient => this.withDetails(patient))
+      .sort((a, b) => lastAssessed(b) - lastAssessed(a));
   }
 
-  async createPatient(patientData: any): Promise<any> {
-    const injuryType = this.getCohortInjuryType(patientData.cohortId);
-    
-    const patient = { 
-      id: Date.now(), 
-      ...patientData, 
-      injuryType,
-      createdAt: new Date(),
+  async getPatient(id: number): Promise<any | undefined> {
+    return this.patients.get(id);
+  }
+
+  async getPatientWithDetails(id: number): Promise<any | undefined> {
+    const patient = this.patients.get(id);
+    return patient ? this.withDetails(patient) : undefined;
+  }
+
+  async createPatient(patient: any): Promise<any> {
+    this.assertUnique(this.patients, 'patientId', patient.patientId, 'Patient ID');
+    if (patient.accessCode) {
+      this.assertUnique(this.patients, 'accessCode', patient.accessCode, 'Access code');
+    }
+    const created = {
+      id: this.nextId(this.patients),
+      cohortId: null,
+      assignedClinicianId: null,
+      status: 'stable',
       isActive: true,
       enrolledInStudy: false,
-      enrollmentStatus: 'pending'
+      enrolledDate: null,
+      withdrawnAt: null,
+      baselineAssessmentId: null,
+      ...patient,
+      accessCode: patient.accessCode || await this.generateAccessCode(),
+      enrollmentStatus: 'screening',
+      createdAt: new Date()
     };
-    
-    // Store in patients map for eligibility checks
-    this.patients.set(patient.id, patient);
+    this.patients.set(created.id, created);
     await this.saveToFile();
-    
-    return patient;
+    return created;
   }
 
-  async updatePatient(id: number, updates: any): Promise<any> {
-    return { id, ...updates, updatedAt: new Date() };
+  async updatePatient(id: number, updates: any): Promise<any | undefined> {
+    const patient = this.patients.get(id);
+    if (!patient) return undefined;
+    const updated = { ...patient, ...updates };
+    this.patients.set(id, updated);
+    await this.saveToFile();
+    return updated;
   }
 
-  async getDashboardMetrics(): Promise<any> {
-    return {
-      totalPatients: 3,
-      activeStudies: 2,
-      completedAssessments: 10,
-      averageAdherence: 85
-    };
+  async deletePatient(id: number): Promise<boolean> {
+    return !!(await this.updatePatient(id, { isActive: false }));
   }
 
   async getPatientDashboardData(): Promise<any> {
+    const totalAssessments = Array.from(this.assessments.values()).filter(assessment => assessment.isActive !== false).length;
+    const patients = Array.from(this.patients.values())
+      .filter(patient => patient.isActive !== false)
+      .map(patient => {
+        const enrolledDate = new Date(patient.enrolledDate || patient.createdAt);
+        const completed = this.completedUserAssessmentsFor(patient);
+        const latest = completed[0];
+        const assessmentsCompleted = completed.length;
+        const daysSinceEnrollment = Math.floor((Date.now() - enrolledDate.getTime()) / (1000 * 60 * 60 * 24));
+        return {
+          id: patient.id,
+          patientId: patient.patientId,
+          alias: patient.alias,
+          injuryType: patient.injuryType ?? null,
+          enrolledDate,
+          accessCode: patient.accessCode ?? null,
+          daysSinceEnrollment,
+          assessmentsCompleted,
+          totalAssessments,
+          lastAssessmentDate: latest?.completedAt || null,
+          lastAssessmentType: latest ? this.assessments.get(latest.assessmentId)?.name || null : null,
+          status: assessmentsCompleted === 0 && daysSinceEnrollment > 7 ? 'Overdue' :
+                  assessmentsCompleted >= 5 ? 'Complete' :
+                  assessmentsCompleted === 0 ? 'New' : 'Active'
+        };
+      })
+      .sort((a, b) => b.enrolledDate.getTime() - a.enrolledDate.getTime());
+    return { patients };
+  }
+
+  async getDashboardMetrics(): Promise<any> {
+    const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    const patients = Array.from(this.patients.values()).filter(patient => patient.isActive !== false);
+    const counts = patients.map(patient => this.completedUserAssessmentsFor(patient).length);
     return {
-      recentActivity: [
-        { id: 1, type: 'assessment_completed', message: 'Patient A completed TAM assessment', timestamp: new Date() },
-        { id: 2, type: 'patient_enrolled', message: 'Patient D enrolled in study', timestamp: new Date() }
-      ],
-      performanceMetrics: {
-        weeklyAdherence: 88,
-        assessmentCompletion: 92,
-        dataQuality: 95
-      }
+      totalPatients: patients.length,
+      activePatients: counts.filter(count => count > 0 && count < 5).length,
+      completedPatients: counts.filter(count => count >= 5).length,
+      overduePatients: patients.filter((patient, i) =>
+        counts[i] === 0 && new Date(patient.enrolledDate || patient.createdAt).getTime() < weekAgo).length
     };
   }
 
+  // A clinical patient's app assessments belong to the user holding its access code; newest first
+  private completedUserAssessmentsFor(patient: any): any[] {
+    const user = patient.accessCode ? this.userByCode.get(patient.accessCode) : undefined;
+    if (!user) return [];
+    return Array.from(this.userAssessments.values())
+      .filter(assessment => assessment.userId === user.id && assessment.completedAt)
+      .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
+  }
+
+  // Patient enrollment
   async checkEligibility(patientId: number, cohortId: number): Promise<{ eligible: boolean; reasons: string[] }> {
-    console.log(`Looking for patient ${patientId} in patients map with ${this.patients.size} entries`);
     const patient = this.patients.get(patientId);
-    
-    if (!patient) {
-      console.log(`Patient ${patientId} not found in patients map`);
-      return { eligible: false, reasons: ['Patient not found'] };
+    if (!patient || !this.cohorts.has(cohortId)) {
+      return { eligible: false, reasons: ['Patient or cohort not found'] };
     }
 
-    console.log(`Found patient:`, patient);
     const reasons: string[] = [];
-    
-    // Check if already enrolled in another study
-    if (patient.enrolledInStudy && patient.cohortId && patient.cohortId !== cohortId) {
+    if (patient.enrolledInStudy && patient.cohortId !== cohortId) {
       reasons.push('Patient already enrolled in another study');
     }
-    
-    // Check enrollment status
     if (patient.enrollmentStatus === 'excluded') {
       reasons.push('Patient previously excluded from studies');
     }
-    
     if (patient.enrollmentStatus === 'withdrawn') {
       reasons.push('Patient previously withdrew from studies');
     }
-
-    // Check if patient is active
-    if (patient.isActive === false) {
-      reasons.push('Patient account is inactive');
-    }
-
-    const result = { eligible: reasons.length === 0, reasons };
-    console.log(`Eligibility result:`, result);
-    return result;
+    return { eligible: reasons.length === 0, reasons };
   }
 
-  // Missing methods for IStorage interface
   async enrollPatient(enrollment: any): Promise<any> {
-    const patient = this.patients.get(enrollment.patientId);
-    if (patient) {
-      patient.enrolledInStudy = true;
-      patient.cohortId = enrollment.cohortId;
-      patient.enrollmentStatus = enrollment.enrollmentStatus;
-      await this.saveToFile();
+    const { eligible } = await this.checkEligibility(enrollment.patientId, enrollment.cohortId);
+    if (!eligible) {
+      throw new Error('Patient is not eligible for enrollment');
     }
-    return patient;
+    return this.updatePatient(enrollment.patientId, {
+      enrollmentStatus: enrollment.enrollmentStatus,
+      cohortId: enrollment.cohortId,
+      enrolledInStudy: enrollment.enrollmentStatus === 'enrolled',
+      enrolledDate: enrollment.enrollmentStatus === 'enrolled' ? new Date() : null,
+      withdrawnAt: enrollment.enrollmentStatus === 'withdrawn' ? new Date() : null,
+      eligibilityNotes: enrollment.eligibilityNotes
+    });
   }
 
   async generateAccessCode(): Promise<string> {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+    let code: string;
+    do {
+      code = Math.floor(100000 + Math.random() * 900000).toString();
+    } while (Array.from(this.patients.values()).some(patient => patient.accessCode === code));
+    return code;
   }
 
   async getPatientByAccessCode(accessCode: string): Promise<any | undefined> {
-    for (const patient of this.patients.values()) {
-      if (patient.accessCode === accessCode) {
-        return patient;
-      }
-    }
-    return undefined;
-  }
-
-  async getCohorts(): Promise<any[]> {
-    return [
-      { id: 1, name: 'Wrist Fracture Study', description: 'Post-surgical recovery', isActive: true },
-      { id: 2, name: 'Carpal Tunnel Study', description: 'Post-carpal tunnel release', isActive: true }
-    ];
-  }
-
-  async getCohort(id: number): Promise<any | undefined> {
-    const cohorts = await this.getCohorts();
-    return cohorts.find(c => c.id === id);
-  }
-
-  async deleteCohort(id: number): Promise<boolean> {
-    return true; // Simple implementation
-  }
-
-  async getPatients(clinicianId?: number): Promise<any[]> {
-    return Array.from(this.patients.values());
-  }
-
-  async getPatient(id: number): Promise<any | undefined> {
-    return this.patients.get(id);
-  }
-
-  async getPatientWithDetails(id: number): Promise<any | undefined> {
-    const patient = this.patients.get(id);
-    if (patient) {
-      return {
-        ...patient,
-        cohort: await this.getCohort(patient.cohortId),
-        assignedClinician: null,
-        lastAssessment: null,
-        assessmentCount: 0
-      };
-    }
-    return undefined;
-  }
-
-  async deletePatient(id: number): Promise<boolean> {
-    return this.patients.delete(id);
+    return Array.from(this.patients.values()).find(patient => patient.accessCode === accessCode);
   }
 
+  // Assessment Type methods
   async getAssessmentTypes(): Promise<any[]> {
-    return Array.from(this.assessments.values());
+    return Array.from(this.assessmentTypes.values())
+      .filter(assessmentType => assessmentType.isActive)
+      .sort((a, b) => a.orderIndex - b.orderIndex);
   }
 
   async getAssessmentType(id: number): Promise<any | undefined> {
-    return this.assessments.get(id);
+    return this.assessmentTypes.get(id);
   }
 
   async createAssessmentType(assessmentType: any): Promise<any> {
-    const id = Date.now();
-    const newType = { id, ...assessmentType };
-    this.assessments.set(id, newType);
+    const created = { id: this.nextId(this.assessmentTypes), instructions: null, videoUrl: null, repetitions: 3, isActive: true, ...assessmentType };
+    this.assessmentTypes.set(created.id, created);
     await this.saveToFile();
-    return newType;
+    return created;
   }
 
   async updateAssessmentType(id: number, updates: any): Promise<any | undefined> {
-    const existing = this.assessments.get(id);
-    if (existing) {
-      const updated = { ...existing, ...updates };
-      this.assessments.set(id, updated);
-      await this.saveToFile();
-      return updated;
-    }
-    return undefined;
+    const assessmentType = this.assessmentTypes.get(id);
+    if (!assessmentType) return undefined;
+    const updated = { ...assessmentType, ...updates };
+    this.assessmentTypes.set(id, updated);
+    await this.saveToFile();
+    return updated;
   }
 
-  async getPatientAssessments(patientId: number, limit?: number): Promise<any[]> {
-    const assessments = Array.from(this.userAssessments.values())
-      .filter(ua => ua.userId === patientId);
-    return limit ? assessments.slice(0, limit) : assessments;
+  // Patient Assessment methods
+  async getPatientAssessments(patientId: number, limit = 100): Promise<any[]> {
+    return Array.from(this.patientAssessments.values())
+      .filter(assessment => assessment.patientId === patientId)
+      .sort((a, b) => new Date(b.assessmentDate).getTime() - new Date(a.assessmentDate).getTime())
+      .slice(0, limit);
   }
 
   async getPatientAssessment(id: number): Promise<any | undefined> {
-    return this.userAssessments.get(id);
+    return this.patientAssessments.get(id);
+  }
+
+  async getPatientAssessmentByUserAssessmentId(userAssessmentId: number): Promise<any | undefined> {
+    return Array.from(this.patientAssessments.values()).find(assessment => assessment.userAssessmentId === userAssessmentId);
   }
 
   async createPatientAssessment(assessment: any): Promise<any> {
-    const id = Date.now();
-    const newAssessment = { id, ...assessment, createdAt: new Date() };
-    this.userAssessments.set(id, newAssessment);
+    const created = {
+      id: this.nextId(this.patientAssessments),
+      assessmentDate: new Date(),
+      sessionNumber: 1,
+      rawData: null,
+      notes: null,
+      missedVisit: false,
+      retakeFlag: false,
+      isCompleted: false,
+      completedAt: null,
+      ...assessment
+    };
+    this.patientAssessments.set(created.id, created);
     await this.saveToFile();
-    return newAssessment;
+    return created;
   }
 
   async updatePatientAssessment(id: number, updates: any): Promise<any | undefined> {
-    const existing = this.userAssessments.get(id);
-    if (existing) {
-      const updated = { ...existing, ...updates };
-      this.userAssessments.set(id, updated);
-      await this.saveToFile();
-      return updated;
-    }
-    return undefined;
+    const assessment = this.patientAssessments.get(id);
+    if (!assessment) return undefined;
+    const updated = { ...assessment, ...updates };
+    this.patientAssessments.set(id, updated);
+    await this.saveToFile();
+    return updated;
   }
 
-  async getCohortAssessments(cohortId: number, limit?: number): Promise<any[]> {
-    return [];
+  async getCohortAssessments(cohortId: number, limit = 500): Promise<any[]> {
+    return Array.from(this.patientAssessments.values())
+      .filter(assessment => assessment.isCompleted && this.patients.get(assessment.patientId)?.cohortId === cohortId)
+      .sort((a, b) => new Date(b.assessmentDate).getTime() - new Date(a.assessmentDate).getTime())
+      .slice(0, limit);
+  }
+
+  async getPatientAssessmentHistory(patientId: number): Promise<any[]> {
+    return this.getPatientAssessments(patientId);
   }
 
+  // Analytics methods; averages and sample standard deviations over completed assessments
   async getCohortAnalytics(cohortId: number): Promise<any | null> {
-    return null;
+    const cohort = this.cohorts.get(cohortId);
+    const members = Array.from(this.patients.values()).filter(patient => patient.cohortId === cohortId);
+    if (!cohort || members.length === 0) {
+      return null;
+    }
+    const memberIds = members.map(patient => patient.id);
+    const completed = Array.from(this.patientAssessments.values())
+      .filter(assessment => assessment.isCompleted && memberIds.includes(assessment.patientId));
+    const values = (field: string) => completed
+      .filter(assessment => assessment[field] !== null && assessment[field] !== undefined)
+      .map(assessment => Number(assessment[field]));
+    const mean = (xs: number[]) => xs.length > 0 ? xs.reduce((sum, x) => sum + x, 0) / xs.length : null;
+    const stdDev = (xs: number[]) => {
+      if (xs.length < 2) return null;
+      const m = mean(xs)!;
+      return Math.sqrt(xs.reduce((sum, x) => sum + (x - m) * (x - m), 0) / (xs.length - 1));
+    };
+
+    return {
+      cohortId,
+      cohortName: cohort.name,
+      patientCount: members.length,
+      avgTamScore: mean(values('tamScore')),
+      avgKapandjiScore: mean(values('kapandjiScore')),
+      avgWristFlexion: mean(values('wristFlexionAngle')),
+      avgWristExtension: mean(values('wristExtensionAngle')),
+      stdDevTamScore: stdDev(values('tamScore')),
+      stdDevKapandjiScore: stdDev(values('kapandjiScore')),
+      stdDevWristFlexion: stdDev(values('wristFlexionAngle')),
+      stdDevWristExtension: stdDev(values('wristExtensionAngle'))
+    };
   }
 
+  // Outlier Alert methods; only unresolved alerts are listed
   async getOutlierAlerts(patientId?: number): Promise<any[]> {
-    return [];
+    return Array.from(this.outlierAlerts.values())
+      .filter(alert => !alert.isResolved && (!patientId || alert.patientId === patientId))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
   async createOutlierAlert(alert: any): Promise<any> {
-    return { id: Date.now(), ...alert, createdAt: new Date() };
+    const created = {
+      id: this.nextId(this.outlierAlerts),
+      deviationValue: null,
+      consecutiveOccurrences: 1,
+      isResolved: false,
+      resolvedAt: null,
+      ...alert,
+      createdAt: new Date()
+    };
+    this.outlierAlerts.set(created.id, created);
+    await this.saveToFile();
+    return created;
   }
 
   async resolveOutlierAlert(id: number): Promise<boolean> {
+    const alert = this.outlierAlerts.get(id);
+    if (!alert) return false;
+    this.outlierAlerts.set(id, { ...alert, isResolved: true, resolvedAt: new Date() });
+    await this.saveToFile();
     return true;
   }
 
-  async getAuditLogs(userId?: number, limit?: number): Promise<any[]> {
-    return [];
-  }
-
+  // Data Export methods
   async createDataExport(exportRequest: any): Promise<any> {
-    return { id: Date.now(), ...exportRequest, createdAt: new Date() };
+    const id = this.dataExports.size > 0 ? Math.max(...Array.from(this.dataExports.keys())) + 1 : 1;
+    const newExport = { id, format: 'csv', filters: null, ...exportRequest, downloadedAt: null, createdAt: new Date() };
+    this.dataExports.set(id, newExport);
+    await this.saveToFile();
+    return newExport;
   }
 
   async getDataExport(id: number): Promise<any | undefined> {
-    return undefined;
+    return this.dataExports.get(id);
   }
 
-  async updateDataExport(id: number, updates: any): Promise<any | undefined> {
-    return undefined;
+  async getDataExportByDownloadUrl(downloadUrl: string): Promise<any | undefined> {
+    return Array.from(this.dataExports.values()).find(exportRequest => exportRequest.downloadUrl === downloadUrl);
   }
 
-  async generateShareToken(userAssessmentId: number): Promise<string> {
-    return Math.random().toString(36).substring(2, 15);
-  }
-
-  async getUserAssessmentByShareToken(shareToken: string): Promise<any | undefined> {
-    for (const assessment of this.userAssessments.values()) {
-      if (assessment.shareToken === shareToken) {
-        return assessment;
-      }
-    }
-    return undefined;
+  async updateDataExport(id: number, updates: any): Promise<any | undefined> {
+    const exportRequest = this.dataExports.get(id);
+    if (!exportRequest) return undefined;
+    const updated = { ...exportRequest, ...updates };
+    this.dataExports.set(id, updated);
+    await this.saveToFile();
+    return updated;
   }
 
-  async enrollPatient(enrollmentData: any): Promise<any> {
-    const patient = this.patients.get(enrollmentData.patientId);
-    
-    if (!patient) {
-      throw new Error('Patient not found');
-    }
-
-    const updatedPatient = {
-      ...patient,
-      enrolledInStudy: true,
-      enrollmentStatus: enrollmentData.enrollmentStatus,
-      cohortId: enrollmentData.cohortId,
-      eligibilityNotes: enrollmentData.eligibilityNotes,
-      studyEnrollmentDate: new Date()
+  // Study visits and QuickDASH responses
+  async createStudyVisit(visit: any): Promise<any> {
+    const created = {
+      id: this.nextId(this.studyVisits),
+      visitStatus: 'scheduled',
+      completedAt: null,
+      assessmentId: null,
+      reminderSent: false,
+      ...visit,
+      createdAt: new Date()
     };
-
-    this.patients.set(enrollmentData.patientId, updatedPatient);
+    this.studyVisits.set(created.id, created);
     await this.saveToFile();
-    
-    return updatedPatient;
-  }
-
-  async getTodaysAssessments(userId: number): Promise<any> {
-    const user = this.users.get(userId);
-    if (!user) {
-      return { assessments: [] };
-    }
-
-    const userAssessments = this.userAssessments.get(userId) || [];
-    const today = new Date().toDateString();
-
-    // Get all assessments for user's injury type
-    let availableAssessments = [];
-    if (user.injuryType) {
-      availableAssessments = await this.getAssessmentsForInjuryType(user.injuryType);
-    } else {
-      availableAssessments = Array.from(this.assessments.values());
-    }
-
-    // Mark assessments as completed if done today
-    const assessmentsWithStatus = availableAssessments.map(assessment => {
-      const todayCompletion = userAssessments.find(ua => 
-        ua.assessmentId === assessment.id && 
-        new Date(ua.completedAt).toDateString() === today
-      );
-
-      return {
-        ...assessment,
-        isCompleted: !!todayCompletion,
-        completedAt: todayCompletion?.completedAt,
-        status: todayCompletion ? 'completed' : 'due_today',
-        userAssessmentId: todayCompletion?.id
-      };
-    });
-
-    return { assessments: assessmentsWithStatus };
-  }
-
-  // Outlier Alert methods (stub implementations for interface compatibility)
-  async getOutlierAlerts(patientId?: number): Promise<any[]> {
-    return []; // PersistentMemoryStorage doesn't have outlier alerts
+    return created;
   }
 
-  async createOutlierAlert(insertAlert: any): Promise<any> {
-    return { id: Date.now(), ...insertAlert, createdAt: new Date() };
+  async getStudyVisits(patientId: number): Promise<any[]> {
+    return Array.from(this.studyVisits.values())
+      .filter(visit => visit.patientId === patientId)
+      .sort((a, b) => a.scheduledWeek - b.scheduledWeek);
   }
 
-  async resolveOutlierAlert(id: number): Promise<boolean> {
-    return true; // Always succeed for compatibility
+  async getQuickDashResponses(patientId: number): Promise<any[]> {
+    return Array.from(this.quickDashResponses.values())
+      .filter(response => response.patientId === patientId)
+      .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime());
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,270 @@
+// REDCap export: a longitudinal project with one record per patient.
+// - "demographics" is a plain instrument in the Enrollment event.
+// - "assessment" is a repeating instrument. Each assessment goes in the event of the
+//   study visit it fulfils ("Week N" from studyVisits.scheduledWeek), falling back to
+//   its own studyWeek, and otherwise to "Unscheduled".
+// The data dictionary is generated from the Drizzle columns, so it always matches the
+// records file. Joint-angle validation ranges come from ANATOMICAL_LIMITS. The ZIP also
+// holds the event, instrument-designation and repeating-instrument files that REDCap
+// needs before the records can be imported.
+import JSZip from 'jszip';
+import { getTableColumns, type Column } from 'drizzle-orm';
+import { patientAssessments, patients } from '@shared/schema';
+import { ANATOMICAL_LIMITS } from '@shared/rom-calculator';
+import type { ExportRecord } from './deidentification';
+
+const ARM = 1;
+const DEMOGRAPHICS_FORM = 'demographics';
+const ASSESSMENT_FORM = 'assessment';
+const ENROLLMENT_EVENT = 'Enrollment';
+const UNSCHEDULED_EVENT = 'Unscheduled';
+
+const DEMOGRAPHIC_COLUMNS = ['ageGroup', 'sex', 'occupationCategory'];
+// Linking keys, free text and raw landmarks have no place in the REDCap project
+const EXCLUDED_ASSESSMENT_COLUMNS = ['id', 'patientId', 'clinicianId', 'rawData', 'notes'];
+
+const DICTIONARY_HEADER = [
+  'Variable / Field Name', 'Form Name', 'Section Header', 'Field Type', 'Field Label',
+  'Choices, Calculations, OR Slider Labels', 'Field Note', 'Text Validation Type OR Show Slider Number',
+  'Text Validation Min', 'Text Validation Max', 'Identifier?', 'Branching Logic (Show field only if...)',
+  'Required Field?', 'Custom Alignment', 'Question Number (surveys only)', 'Matrix Group Name',
+  'Matrix Ranking?', 'Field Annotation',
+];
+
+interface RedcapField {
+  key: string;          // Property on the export row
+  name: string;         // REDCap variable name (the database column name)
+  form: string;
+  fieldType: 'text' | 'yesno';
+  validation: '' | 'integer' | 'number' | 'date_ymd' | 'datetime_seconds_ymd';
+  label: string;
+  note: string;
+  min?: number;
+  max?: number;
+}
+
+type Range = { min: number; max: number };
+
+const FINGERS = ['index', 'middle', 'ring', 'pinky'];
+const JOINT_LIMITS: Record<string, Range> = {
+  Mcp: ANATOMICAL_LIMITS.MCP,
+  Pip: ANATOMICAL_LIMITS.PIP,
+  Dip: ANATOMICAL_LIMITS.DIP,
+};
+// A finger's active ROM is the sum of its three joints
+const FINGER_ROM_LIMITS: Range = {
+  min: 0,
+  max: ANATOMICAL_LIMITS.MCP.max + ANATOMICAL_LIMITS.PIP.max + ANATOMICAL_LIMITS.DIP.max,
+};
+
+const FIELD_RANGES: Record<string, Range> = {
+  kapandjiScore: { min: 0, max: 10 },
+  vasScore: { min: 0, max: 10 },
+  quickDashScore: { min: 0, max: 100 },
+  deviceConfidenceScore: { min: 0, max: 100 },
+};
+const FIELD_UNITS: Record<string, string> = {
+  tamScore: 'degrees',
+  wristFlexionAngle: 'degrees',
+  wristExtensionAngle: 'degrees',
+  maxWristFlexion: 'degrees',
+  maxWristExtension: 'degrees',
+  changeFromBaseline: 'degrees',
+  percentOfNormalRom: '%',
+  postOpDay: 'days',
+  studyWeek: 'weeks',
+};
+FINGERS.forEach(finger => {
+  FIELD_RANGES[`${finger}FingerRom`] = FINGER_ROM_LIMITS;
+  FIELD_UNITS[`${finger}FingerRom`] = 'degrees';
+  Object.keys(JOINT_LIMITS).forEach(joint => {
+    FIELD_RANGES[`${finger}${joint}`] = JOINT_LIMITS[joint];
+    FIELD_UNITS[`${finger}${joint}`] = 'degrees';
+  });
+});
+
+const ACRONYMS = ['Id', 'Mcp', 'Pip', 'Dip', 'Rom', 'Tam', 'Vas', 'Dash'];
+
+// "indexMcp" -> "Index MCP", "quickDashScore" -> "Quick DASH Score"
+function fieldLabel(key: string): string {
+  return key
+    .split(/(?=[A-Z])/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .map(word => ACRONYMS.includes(word) ? word.toUpperCase() : word)
+    .join(' ');
+}
+
+function validationFor(column: Column): Pick<RedcapField, 'fieldType' | 'validation'> {
+  switch (column.columnType) {
+    case 'PgBoolean':
+      return { fieldType: 'yesno', validation: '' };
+    case 'PgInteger':
+    case 'PgSerial':
+      return { fieldType: 'text', validation: 'integer' };
+    case 'PgNumeric':
+      return { fieldType: 'text', validation: 'number' };
+    case 'PgTimestamp':
+      return { fieldType: 'text', validation: 'datetime_seconds_ymd' };
+    case 'PgDate':
+    case 'PgDateString':
+      return { fieldType: 'text', validation: 'date_ymd' };
+    default:
+      return { fieldType: 'text', validation: '' };
+  }
+}
+
+function fieldsFromColumns(form: string, columns: Record<string, Column>, keys: string[]): RedcapField[] {
+  return keys.map(key => {
+    const range = FIELD_RANGES[key];
+    return {
+      key,
+      name: columns[key].name,
+      form,
+      ...validationFor(columns[key]),
+      label: fieldLabel(key),
+      note: FIELD_UNITS[key] ? `Unit: ${FIELD_UNITS[key]}` : '',
+      ...(range && { min: range.min, max: range.max }),
+    };
+  });
+}
+
+const assessmentColumns = getTableColumns(patientAssessments) as Record<string, Column>;
+
+const DEMOGRAPHIC_FIELDS = fieldsFromColumns(DEMOGRAPHICS_FORM, getTableColumns(patients) as Record<string, Column>, DEMOGRAPHIC_COLUMNS);
+const ASSESSMENT_FIELDS = fieldsFromColumns(
+  ASSESSMENT_FORM,
+  assessmentColumns,
+  Object.keys(assessmentColumns).filter(key => !EXCLUDED_ASSESSMENT_COLUMNS.includes(key)),
+);
+
+// REDCap derives unique event names from the label: "Week 2" -> "week_2_arm_1"
+function uniqueEventName(eventName: string): string {
+  return `${eventName.toLowerCase().replace(/[^a-z0-9]+/g, '_')}_arm_${ARM}`;
+}
+
+function assessmentEvent(row: ExportRecord): string {
+  const week = row.scheduledWeek ?? row.studyWeek;
+  return week === null || week === undefined ? UNSCHEDULED_EVENT : `Week ${week}`;
+}
+
+function csvLine(values: unknown[]): string {
+  return values.map(value => `"${String(value ?? '').replace(/"/g, '""')}"`).join(',');
+}
+
+function csv(header: string[], rows: unknown[][]): string {
+  return [csvLine(header), ...rows.map(csvLine)].join('\n');
+}
+
+function redcapValue(field: RedcapField, value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+  if (field.fieldType === 'yesno') {
+    return value === true || value === 'true' || value === 1 || value === '1' ? '1' : '0';
+  }
+  if (field.validation === 'datetime_seconds_ymd' || field.validation === 'date_ymd') {
+    const date = new Date(value as string | Date);
+    if (isNaN(date.getTime())) {
+      return '';
+    }
+    const iso = date.toISOString();
+    return field.validation === 'date_ymd' ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+  }
+  return String(value);
+}
+
+function dictionaryRow(field: RedcapField): string[] {
+  const isDate = field.validation === 'date_ymd' || field.validation === 'datetime_seconds_ymd';
+  return [
+    field.name, field.form, '', field.fieldType, field.label, '', field.note, field.validation,
+    field.min === undefined ? '' : String(field.min),
+    field.max === undefined ? '' : String(field.max),
+    isDate ? 'y' : '', '', '', '', '', '', '', '',
+  ];
+}
+
+export function buildRedcapDataDictionary(): string {
+  const recordId: RedcapField = {
+    key: 'patientId', name: 'record_id', form: DEMOGRAPHICS_FORM, fieldType: 'text', validation: '',
+    label: 'Record ID', note: 'Study pseudonym',
+  };
+  return csv(DICTIONARY_HEADER, [recordId, ...DEMOGRAPHIC_FIELDS, ...ASSESSMENT_FIELDS].map(dictionaryRow));
+}
+
+function assessmentTime(row: ExportRecord): number {
+  const time = new Date(row.completedAt || row.assessmentDate || 0).getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+// rows are de-identified assessment export rows with demographics and scheduledWeek joined on
+export async function buildRedcapExport(rows: ExportRecord[]): Promise<Buffer> {
+  const ordered = rows.slice().sort((a, b) =>
+    String(a.patientId).localeCompare(String(b.patientId)) || assessmentTime(a) - assessmentTime(b));
+
+  const recordHeader = [
+    'record_id', 'redcap_event_name', 'redcap_repeat_instrument', 'redcap_repeat_instance',
+    ...DEMOGRAPHIC_FIELDS.map(field => field.name), `${DEMOGRAPHICS_FORM}_complete`,
+    ...ASSESSMENT_FIELDS.map(field => field.name), `${ASSESSMENT_FORM}_complete`,
+  ];
+  const blankDemographics = DEMOGRAPHIC_FIELDS.map(() => '');
+  const blankAssessment = ASSESSMENT_FIELDS.map(() => '');
+
+  const records: string[][] = [];
+  const instances = new Map<string, number>();
+  const weeks: number[] = [];
+  let hasUnscheduled = false;
+
+  ordered.forEach((row, index) => {
+    const recordId = String(row.patientId);
+    if (index === 0 || String(ordered[index - 1].patientId) !== recordId) {
+      records.push([
+        recordId, uniqueEventName(ENROLLMENT_EVENT), '', '',
+        ...DEMOGRAPHIC_FIELDS.map(field => redcapValue(field, row[field.key])), '2',
+        ...blankAssessment, '',
+      ]);
+    }
+
+    const eventName = assessmentEvent(row);
+    if (eventName === UNSCHEDULED_EVENT) {
+      hasUnscheduled = true;
+    } else if (!weeks.includes(Number(row.scheduledWeek ?? row.studyWeek))) {
+      weeks.push(Number(row.scheduledWeek ?? row.studyWeek));
+    }
+    const instanceKey = `${recordId}|${eventName}`;
+    const instance = (instances.get(instanceKey) || 0) + 1;
+    instances.set(instanceKey, instance);
+
+    records.push([
+      recordId, uniqueEventName(eventName), ASSESSMENT_FORM, String(instance),
+      ...blankDemographics, '',
+      ...ASSESSMENT_FIELDS.map(field => redcapValue(field, row[field.key])),
+      row.isCompleted ? '2' : '0',
+    ]);
+  });
+
+  // Events in visit order; day offsets let REDCap schedule them from enrollment
+  const events: Array<{ name: string; dayOffset: number }> = [
+    { name: ENROLLMENT_EVENT, dayOffset: 0 },
+    ...weeks.sort((a, b) => a - b).map(week => ({ name: `Week ${week}`, dayOffset: week * 7 })),
+    ...(hasUnscheduled ? [{ name: UNSCHEDULED_EVENT, dayOffset: 0 }] : []),
+  ];
+  const assessmentEvents = events.filter(event => event.name !== ENROLLMENT_EVENT);
+
+  const zip = new JSZip();
+  zip.file('data_dictionary.csv', buildRedcapDataDictionary());
+  zip.file('events.csv', csv(
+    ['event_name', 'arm_num', 'day_offset', 'offset_min', 'offset_max', 'unique_event_name', 'custom_event_label'],
+    events.map(event => [event.name, ARM, event.dayOffset, 0, 0, uniqueEventName(event.name), ''])));
+  zip.file('instrument_designations.csv', csv(
+    ['arm_num', 'unique_event_name', 'form'],
+    [
+      [ARM, uniqueEventName(ENROLLMENT_EVENT), DEMOGRAPHICS_FORM],
+      ...assessmentEvents.map(event => [ARM, uniqueEventName(event.name), ASSESSMENT_FORM]),
+    ]));
+  zip.file('repeating_instruments.csv', csv(
+    ['event_name', 'form_name', 'custom_form_label'],
+    assessmentEvents.map(event => [uniqueEventName(event.name), ASSESSMENT_FORM, '[assessment_date]'])));
+  zip.file('records.csv', csv(recordHeader, records));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
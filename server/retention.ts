@@ -0,0 +1,244 @@
+// Data retention enforcement.
+// The policy says, per data class, what happens once data is old enough:
+// - motionFrames: raw landmark frames (user assessment repetitionData[].motionData,
+//   clinical assessment rawData) are archived to a gzipped JSON Lines file and then
+//   removed, or just removed; ROM and the other derived metrics are kept.
+// - assessmentRecords: whole assessments are deleted afterYears after recording.
+// - withdrawnPatients: clinical patients are deleted with all their data graceDays
+//   after they withdrew.
+// An active legal hold blocks every action on the data it covers. A dry run only
+// reports what would happen; a real run audit-logs each purge as it goes.
+import fs from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+import type { IStorage } from './storage';
+import type { LegalHold, RetentionPolicy } from '@shared/schema';
+
+export type RetentionDataClass = 'motionFrames' | 'assessmentRecords' | 'withdrawnPatients';
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  enabled: false,
+  motionFrames: { action: 'archive', afterDays: 365 },
+  assessmentRecords: { action: 'delete', afterYears: 7 },
+  withdrawnPatients: { action: 'delete', graceDays: 30 },
+};
+
+export const RETENTION_JOB_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionAction {
+  dataClass: RetentionDataClass;
+  action: 'archive' | 'purge' | 'delete';
+  target: string;               // e.g. "user_assessment_id:12", "patient_id:4"
+  dueSince: string;             // When the data became due under the policy
+  frames?: number;
+}
+
+export interface RetentionHeld {
+  dataClass: RetentionDataClass;
+  target: string;
+  holdIds: number[];
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  ranAt: string;
+  policy: RetentionPolicy;
+  actions: RetentionAction[];
+  held: RetentionHeld[];
+  archiveFile: string | null;
+}
+
+export type RetentionAudit = (action: string, targetEntity: string | undefined, details: Record<string, unknown>) => Promise<void>;
+
+// The storage methods the job uses
+export type RetentionStorage = Pick<IStorage,
+  | 'getLegalHolds' | 'getWithdrawnPatients' | 'purgePatient'
+  | 'getPatientAssessmentsBefore' | 'purgePatientAssessments' | 'updatePatientAssessment'
+  | 'getUserAssessmentsBefore' | 'purgeUserAssessments' | 'updateUserAssessment'>;
+
+export interface RetentionRunOptions {
+  dryRun: boolean;
+  audit: RetentionAudit;
+  now?: Date;
+  archiveDir?: string;
+}
+
+interface HoldSubject {
+  patientId?: number | null;
+  userId?: number | null;
+}
+
+// Holds naming neither a patient nor a user cover everything
+function activeHoldIds(holds: LegalHold[], subject: HoldSubject): number[] {
+  return holds
+    .filter(hold =>
+      (hold.patientId === null && hold.userId === null) ||
+      (subject.patientId != null && hold.patientId === subject.patientId) ||
+      (subject.userId != null && hold.userId === subject.userId))
+    .map(hold => hold.id);
+}
+
+// Frames in repetitionData-shaped data; any other non-empty payload counts as one
+function countFrames(data: unknown): number {
+  if (Array.isArray(data)) {
+    return data.reduce((total: number, item: any) =>
+      total + (Array.isArray(item?.motionData) ? item.motionData.length : 0), 0);
+  }
+  return data === null || data === undefined ? 0 : 1;
+}
+
+function withoutFrames(repetitionData: any[]): any[] {
+  return repetitionData.map(repetition => ({ ...repetition, motionData: [] }));
+}
+
+function iso(date: Date): string {
+  return date.toISOString();
+}
+
+export async function runRetention(storage: RetentionStorage, policy: RetentionPolicy, options: RetentionRunOptions): Promise<RetentionReport> {
+  const now = options.now || new Date();
+  const holds = await storage.getLegalHolds();
+  const report: RetentionReport = {
+    dryRun: options.dryRun,
+    ranAt: iso(now),
+    policy,
+    actions: [],
+    held: [],
+    archiveFile: null,
+  };
+
+  // Returns true when the item may be acted on, recording it as held otherwise
+  const clear = (dataClass: RetentionDataClass, target: string, subject: HoldSubject): boolean => {
+    const holdIds = activeHoldIds(holds, subject);
+    if (holdIds.length > 0) {
+      report.held.push({ dataClass, target, holdIds });
+      return false;
+    }
+    return true;
+  };
+
+  const purge = async (action: RetentionAction, apply: () => Promise<unknown>) => {
+    report.actions.push(action);
+    if (!options.dryRun) {
+      await apply();
+      await options.audit('retention_purge', action.target, { ...action });
+    }
+  };
+
+  // Withdrawn patients go first, since deleting them also removes their assessments.
+  // A withdrawn patient without withdrawnAt predates tracking and is never due.
+  const purgedPatientIds: number[] = [];
+  if (policy.withdrawnPatients.action === 'delete') {
+    const patients = await storage.getWithdrawnPatients();
+    for (let i = 0; i < patients.length; i++) {
+      const patient = patients[i];
+      if (!patient.withdrawnAt) continue;
+      const due = new Date(new Date(patient.withdrawnAt).getTime() + policy.withdrawnPatients.graceDays * DAY_MS);
+      const target = `patient_id:${patient.id}`;
+      if (due > now || !clear('withdrawnPatients', target, { patientId: patient.id })) continue;
+      purgedPatientIds.push(patient.id);
+      await purge({ dataClass: 'withdrawnPatients', action: 'delete', target, dueSince: iso(due) },
+        () => storage.purgePatient(patient.id));
+    }
+  }
+
+  const purgedPatientAssessmentIds: number[] = [];
+  const purgedUserAssessmentIds: number[] = [];
+  if (policy.assessmentRecords.action === 'delete') {
+    const cutoff = new Date(now);
+    cutoff.setFullYear(cutoff.getFullYear() - policy.assessmentRecords.afterYears);
+    const dueSince = (recordedAt: Date | null) => {
+      const due = new Date(recordedAt!);
+      due.setFullYear(due.getFullYear() + policy.assessmentRecords.afterYears);
+      return iso(due);
+    };
+
+    const patientAssessments = (await storage.getPatientAssessmentsBefore(cutoff))
+      .filter(assessment => !purgedPatientIds.includes(assessment.patientId));
+    for (let i = 0; i < patientAssessments.length; i++) {
+      const assessment = patientAssessments[i];
+      const target = `patient_assessment_id:${assessment.id}`;
+      if (!clear('assessmentRecords', target, { patientId: assessment.patientId })) continue;
+      purgedPatientAssessmentIds.push(assessment.id);
+      await purge({ dataClass: 'assessmentRecords', action: 'delete', target, dueSince: dueSince(assessment.assessmentDate) },
+        () => storage.purgePatientAssessments([assessment.id]));
+    }
+
+    const userAssessments = await storage.getUserAssessmentsBefore(cutoff);
+    for (let i = 0; i < userAssessments.length; i++) {
+      const assessment = userAssessments[i];
+      const target = `user_assessment_id:${assessment.id}`;
+      if (!clear('assessmentRecords', target, { userId: assessment.userId })) continue;
+      purgedUserAssessmentIds.push(assessment.id);
+      await purge({ dataClass: 'assessmentRecords', action: 'delete', target, dueSince: dueSince(assessment.completedAt) },
+        () => storage.purgeUserAssessments([assessment.id]));
+    }
+  }
+
+  if (policy.motionFrames.action !== 'keep') {
+    const action = policy.motionFrames.action;
+    const cutoff = new Date(now.getTime() - policy.motionFrames.afterDays * DAY_MS);
+    const dueSince = (recordedAt: Date | null) =>
+      iso(new Date(new Date(recordedAt!).getTime() + policy.motionFrames.afterDays * DAY_MS));
+    const archived: string[] = [];
+    const pending: Array<{ action: RetentionAction; apply: () => Promise<unknown> }> = [];
+
+    const patientAssessments = (await storage.getPatientAssessmentsBefore(cutoff))
+      .filter(assessment => assessment.rawData !== null && !purgedPatientIds.includes(assessment.patientId)
+        && !purgedPatientAssessmentIds.includes(assessment.id));
+    patientAssessments.forEach(assessment => {
+      const target = `patient_assessment_id:${assessment.id}`;
+      if (!clear('motionFrames', target, { patientId: assessment.patientId })) return;
+      archived.push(JSON.stringify({ target, patientId: assessment.patientId, assessmentDate: assessment.assessmentDate, rawData: assessment.rawData }));
+      pending.push({
+        action: { dataClass: 'motionFrames', action, target, dueSince: dueSince(assessment.assessmentDate), frames: countFrames(assessment.rawData) },
+        apply: () => storage.updatePatientAssessment(assessment.id, { rawData: null }),
+      });
+    });
+
+    const userAssessments = (await storage.getUserAssessmentsBefore(cutoff))
+      .filter(assessment => !purgedUserAssessmentIds.includes(assessment.id)
+        && Array.isArray(assessment.repetitionData) && countFrames(assessment.repetitionData) > 0);
+    userAssessments.forEach(assessment => {
+      const target = `user_assessment_id:${assessment.id}`;
+      if (!clear('motionFrames', target, { userId: assessment.userId })) return;
+      const repetitionData = assessment.repetitionData as any[];
+      archived.push(JSON.stringify({ target, userId: assessment.userId, completedAt: assessment.completedAt, repetitionData }));
+      pending.push({
+        action: { dataClass: 'motionFrames', action, target, dueSince: dueSince(assessment.completedAt), frames: countFrames(repetitionData) },
+        apply: () => storage.updateUserAssessment(assessment.id, { repetitionData: withoutFrames(repetitionData) }),
+      });
+    });
+
+    // The archive is written in full before any frames are removed
+    if (action === 'archive' && pending.length > 0) {
+      const archiveDir = options.archiveDir || process.env.RETENTION_ARCHIVE_DIR || path.join('data', 'archive');
+      report.archiveFile = path.join(archiveDir, `motion-frames-${iso(now).replace(/[:.]/g, '-')}.jsonl.gz`);
+      if (!options.dryRun) {
+        await fs.mkdir(archiveDir, { recursive: true });
+        await fs.writeFile(report.archiveFile, zlib.gzipSync(archived.join('\n')));
+      }
+    }
+    for (let i = 0; i < pending.length; i++) {
+      await purge(pending[i].action, pending[i].apply);
+    }
+  }
+
+  await options.audit('retention_run', undefined, {
+    dryRun: report.dryRun,
+    actions: report.actions.length,
+    held: report.held.length,
+    archiveFile: report.archiveFile,
+  });
+  return report;
+}
+
+// Runs the job once a day; the timer does not keep the process alive
+export function scheduleRetentionJob(job: () => Promise<void>, intervalMs = RETENTION_JOB_INTERVAL_MS): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    job().catch(error => console.error('Retention job failed:', error));
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -1,20 +1,102 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { PersistentMemoryStorage } from "./persistent-storage";
-import { DatabaseStorage } from "./storage";
+import { createStorage, usesDatabase, storageBackupSource } from "./storage-backend";
 import { z } from "zod";
 import JSZip from 'jszip';
+import {
+  issueSessionTokens,
+  verifySessionToken,
+  refreshSessionTokens,
+  revokeSession,
+  revokeUserSessions,
+  extractBearerToken,
+  issueMfaChallenge,
+  type SessionClaims,
+  type SessionSubject,
+} from "./session-tokens";
+import {
+  hashPassword,
+  verifyPassword,
+  isPasswordHash,
+  validatePasswordPolicy,
+  nextPasswordHistory,
+  generateResetToken,
+  hashResetToken,
+  passwordPolicy,
+} from "./passwords";
+import { sendMessage } from "./message-transport";
+import { accessCodeThrottle, accessThrottleKeys, twoFactorThrottle } from "./access-throttle";
+import {
+  twoFactorEnforced,
+  generateTotpSecret,
+  verifyTotpCode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  consumeRecoveryCode,
+} from "./totp";
+import { verifyAuditChain, auditLogsToCsv } from "./audit-log";
+import {
+  generateShareLinkToken,
+  hashShareLinkToken,
+  getShareLinkStatus,
+  toShareLinkSummary,
+  projectSharedAssessment,
+  type ShareLinkScope,
+} from "./share-links";
+import {
+  decidePatientAccess,
+  isInCaseload,
+  deidentifyPatient,
+  deidentifyAssessment,
+  type PatientAccessMode,
+} from "./access-policy";
+import { getConsentStatus } from "./consent";
+import { buildExportFile, generateExportDownloadUrl, DATA_EXPORT_TTL_MINUTES, type DataExportFormat } from "./data-export";
+import { buildRedcapDataDictionary } from "./redcap";
+import {
+  VALID_INJURY_TYPES,
+  OnboardingFormatError,
+  validateOnboardingCsv,
+  generateAccessCodes,
+  formatPatientId,
+  accessCodeSheetCsv,
+  accessCodeSheetHtml,
+} from "./patient-onboarding";
+import {
+  landmarkFrameGroups,
+  landmarksToCsv,
+  landmarksToJsonl,
+  parseLandmarkFile,
+  LandmarkFormatError,
+  LANDMARK_CONTENT_TYPES,
+  type LandmarkFormat,
+} from "./landmark-frames";
+import { buildClinicalFhirBundle, buildUserFhirBundle, validateFhirBundle, type ClinicalFhirInput, type FhirBundle } from "./fhir";
+import {
+  DeidentificationPipeline,
+  DEFAULT_DEIDENTIFICATION_SETTINGS,
+  generateDeidentificationSecret,
+  type DeidentificationConfig,
+  type ExportRecord,
+} from "./deidentification";
+import { DEFAULT_RETENTION_POLICY, runRetention, scheduleRetentionJob } from "./retention";
+import { BACKUP_CONTENT_TYPE, BackupError, backupFileName, createBackupArchive, readBackupArchive } from "./backup";
+import { linkUserToPatient, syncUserAssessment } from "./patient-link";
+import { DEFAULT_KAPANDJI_OPTIONS, type KapandjiOptions } from "@shared/kapandji-calculator";
 
 // Extend Request interface for authentication
 declare global {
   namespace Express {
     interface Request {
       user?: any;
+      auth?: SessionClaims;
+      patientSession?: SessionClaims;
     }
   }
 }
 import { 
   insertUserSchema, 
+  updateUserProfileSchema,
   insertUserAssessmentSchema,
   loginSchema,
   adminLoginSchema,
@@ -23,7 +105,29 @@ import {
   insertAssessmentTypeSchema,
   insertPatientAssessmentSchema,
   insertAuditLogSchema,
-  patientEnrollmentSchema
+  patientEnrollmentSchema,
+  passwordResetRequestSchema,
+  passwordResetConfirmSchema,
+  passwordChangeSchema,
+  patientDelegationRequestSchema,
+  auditLogQuerySchema,
+  shareLinkRequestSchema,
+  twoFactorLoginSchema,
+  twoFactorCodeSchema,
+  twoFactorDisableSchema,
+  insertConsentDocumentSchema,
+  consentSignatureSchema,
+  dataExportRequestSchema,
+  deidentificationSettingsSchema,
+  retentionPolicySchema,
+  kapandjiSettingsSchema,
+  insertLegalHoldSchema,
+  handCalibrationSchema,
+  type RetentionPolicy,
+  type DataExport,
+  type Patient,
+  type PatientAssessment,
+  type UserAssessment
 } from "@shared/schema";
 
 // Authentication middleware - will be updated with storage reference
@@ -31,8 +135,16 @@ let requireAuth: any;
 
 // Role-based access control
 const requireRole = (roles: string[]) => {
-  return (req: any, res: any, next: any) => {
+  return async (req: any, res: any, next: any) => {
     if (!req.user || !roles.includes(req.user.role)) {
+      if (req.auth?.aud === 'clinical') {
+        await auditLog(req.user.id, "access_denied", undefined, {
+          reason: 'insufficient_role',
+          role: req.user.role,
+          method: req.method,
+          path: req.originalUrl
+        }, req).catch((error: unknown) => console.error('Failed to audit access denial:', error));
+      }
       return res.status(403).json({ message: 'Insufficient permissions' });
     }
     next();
@@ -42,31 +154,30 @@ const requireRole = (roles: string[]) => {
 // Audit logging helper - will be updated with storage reference
 let auditLog: any;
 
+// Upper bound on rows in a single audit log CSV export
+const AUDIT_EXPORT_LIMIT = 50000;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize memory storage for rollback state
   // Use database storage if enabled, otherwise file storage
-  const useDatabase = process.env.USE_DATABASE === 'true' || process.env.NODE_ENV === 'production' || process.env.DATABASE_URL;
-  const storage = useDatabase ? new DatabaseStorage() : new PersistentMemoryStorage();
+  const useDatabase = usesDatabase();
+  const storage = await createStorage();
   
   console.log('Storage system initialized:', useDatabase ? 'DatabaseStorage' : 'PersistentMemoryStorage');
   console.log('Environment check - USE_DATABASE:', process.env.USE_DATABASE, 'NODE_ENV:', process.env.NODE_ENV, 'DATABASE_URL exists:', !!process.env.DATABASE_URL);
   
   // Initialize authentication middleware with storage reference
+  // Clinical sessions are authorized from the signed token claims alone
   requireAuth = async (req: any, res: any, next: any) => {
-    const authHeader = req.headers.authorization;
-    if (!authHeader?.startsWith('Bearer ')) {
+    const token = extractBearerToken(req.headers.authorization);
+    if (!token) {
       return res.status(401).json({ message: 'Authentication required' });
     }
     
-    const token = authHeader.substring(7);
     try {
-      // Simple token validation (in production, use JWT)
-      const userId = parseInt(token);
-      const user = await storage.getClinicalUser(userId);
-      if (!user || !user.isActive) {
-        return res.status(401).json({ message: 'Invalid token' });
-      }
-      req.user = user;
+      const claims = verifySessionToken(token, 'clinical');
+      req.auth = claims;
+      req.user = { id: claims.sub, role: claims.role, username: claims.username };
       next();
     } catch (error) {
       return res.status(401).json({ message: 'Invalid token' });
@@ -74,7 +185,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   };
   
   // Initialize audit logging helper with storage reference
-  auditLog = async (userId: number, action: string, targetEntity?: string, details?: any, req?: any) => {
+  auditLog = async (userId: number | null, action: string, targetEntity?: string, details?: any, req?: any) => {
     await storage.createAuditLog({
       userId,
       action,
@@ -98,28 +209,736 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Invalid credentials" });
       }
       
-      // Simple token (in production, use JWT)
-      const token = user.id.toString();
-      
-      await auditLog(user.id, "login", undefined, { username }, req);
-      
-      res.json({ 
-        token, 
-        user: { 
-          id: user.id, 
-          username: user.username, 
-          email: user.email, 
-          firstName: user.firstName, 
-          lastName: user.lastName, 
-          role: user.role 
-        } 
-      });
+      res.json(await beginLogin('clinical', user, req));
     } catch (error) {
       console.error('Login error:', error);
       res.status(400).json({ message: "Invalid request format" });
     }
   });
 
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = z.object({ refreshToken: z.string().min(1) }).parse(req.body);
+      const { tokens } = await refreshSessionTokens(refreshToken, 'clinical', loadSessionSubject('clinical'));
+      res.json(tokens);
+    } catch (error) {
+      res.status(401).json({ message: "Invalid refresh token" });
+    }
+  });
+
+  app.post("/api/auth/logout", requireAuth, async (req, res) => {
+    try {
+      revokeSession(req.auth!);
+      await auditLog(req.user.id, "logout", undefined, undefined, req);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Logout error:', error);
+      res.status(500).json({ message: "Failed to log out" });
+    }
+  });
+
+  // Patient sessions are issued after access-code verification and scoped to a
+  // single user. Patient routes accept either that session (X-Patient-Session
+  // header) or a clinical/admin bearer token.
+  const issuePatientSession = (user: { id: number; code: string }) => {
+    const { token, expiresAt } = issueSessionTokens({ id: user.id, role: 'patient', username: user.code }, 'patient');
+    return { token, expiresAt, userId: user.id, code: user.code };
+  };
+
+  const authenticatePatientRoute = (req: any): boolean => {
+    const patientToken = req.get('X-Patient-Session');
+    if (patientToken) {
+      try {
+        req.patientSession = verifySessionToken(patientToken, 'patient');
+      } catch (error) {
+        // Fall through to staff authentication
+      }
+    }
+
+    const bearer = extractBearerToken(req.headers.authorization);
+    if (bearer) {
+      for (const audience of ['clinical', 'admin'] as const) {
+        try {
+          const claims = verifySessionToken(bearer, audience);
+          req.auth = claims;
+          req.user = { id: claims.sub, role: claims.role, username: claims.username };
+          break;
+        } catch (error) {
+          // Try the next audience
+        }
+      }
+    }
+
+    return !!(req.patientSession || req.auth);
+  };
+
+  // Staff on patient routes go through the caseload policy against the patient linked
+  // to the target user (see patient-link.ts). These routes return identified data, so
+  // a researcher's de-identified read is refused rather than served.
+  const checkStaffPatientRouteAccess = async (req: any, res: any, next: any, userId: number | undefined) => {
+    if (req.user.role === 'admin') {
+      return next();
+    }
+    const user = userId === undefined ? undefined : await storage.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    const patient = await storage.getPatientByAccessCode(user.code);
+    if (!patient) {
+      await auditLog(req.user.id, "access_denied", `user_id:${user.id}`, {
+        reason: 'no_linked_patient',
+        method: req.method,
+        path: req.originalUrl
+      }, req).catch((error: unknown) => console.error('Failed to audit access denial:', error));
+      return res.status(403).json({ message: "Access denied" });
+    }
+    const mode: PatientAccessMode = req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'write';
+    const decision = decidePatientAccess(req.user, patient, mode, await getDelegatedPatientIds(req.user));
+    if (!decision.allowed || decision.deidentify) {
+      return denyPatientAccess(req, res, patient.id, decision.allowed ? 'identified_data' : decision.reason);
+    }
+    next();
+  };
+
+  // Build a middleware that resolves the patient user a request targets and
+  // checks the caller's session owns it, or that a staff caller may access it.
+  const requirePatientOwnership = (resolveUserId: (req: any) => Promise<number | undefined>) => {
+    return async (req: any, res: any, next: any) => {
+      if (!authenticatePatientRoute(req)) {
+        return res.status(401).json({ message: 'Patient session required' });
+      }
+
+      try {
+        const userId = await resolveUserId(req);
+        if (req.auth) {
+          return await checkStaffPatientRouteAccess(req, res, next, userId);
+        }
+        if (userId === undefined || req.patientSession.sub !== userId) {
+          return res.status(403).json({ message: 'Access denied' });
+        }
+        next();
+      } catch (error) {
+        res.status(400).json({ message: 'Invalid request' });
+      }
+    };
+  };
+
+  // Audits a staff session acting on a patient route. audit_logs.user_id references
+  // clinical users, so an admin actor goes in the details; patient sessions are not audited.
+  const auditStaffAction = async (req: any, action: string, targetEntity: string, details: Record<string, unknown>) => {
+    if (req.auth?.aud === 'clinical') {
+      await auditLog(req.user.id, action, targetEntity, details, req);
+    } else if (req.auth?.aud === 'admin') {
+      await auditLog(null, action, targetEntity, { ...details, adminUserId: req.user.id }, req);
+    }
+  };
+
+  // For patient routes that write to the clinical record: patient sessions are refused
+  const requireStaffSession = (req: any, res: any, next: any) => {
+    if (!req.auth) {
+      return res.status(403).json({ message: 'Staff session required' });
+    }
+    next();
+  };
+
+  const requirePatientUser = (param: string) =>
+    requirePatientOwnership(async (req) => parseInt(req.params[param]));
+
+  const requirePatientCode = (param: string) =>
+    requirePatientOwnership(async (req) => (await storage.getUserByCode(req.params[param]))?.id);
+
+  const requirePatientUserAssessment = (param: string) =>
+    requirePatientOwnership(async (req) => (await storage.getUserAssessmentById(parseInt(req.params[param])))?.userId);
+
+  const requireShareLinkOwner = (param: string) =>
+    requirePatientOwnership(async (req) => (await storage.getShareLink(parseInt(req.params[param])))?.userId);
+
+  // Recording is blocked until the patient has signed the current consent version.
+  // Applies to staff sessions too: consent belongs to the patient, not the caller.
+  const requireCurrentConsent = (param: string) => {
+    return async (req: any, res: any, next: any) => {
+      try {
+        const userId = parseInt(req.params[param]);
+        const status = getConsentStatus(
+          await storage.getCurrentConsentDocument(),
+          await storage.getConsentRecords(userId)
+        );
+        if (status.required) {
+          return res.status(403).json({
+            message: 'Consent required before recording',
+            consentRequired: true,
+            consentVersion: status.document!.version
+          });
+        }
+        next();
+      } catch (error) {
+        console.error('Consent check failed:', error);
+        res.status(500).json({ message: 'Failed to check consent' });
+      }
+    };
+  };
+
+  // Patient access-code throttling: locked IPs/codes are rejected before any lookup
+  const rejectIfAccessCodeLocked = (req: any, res: any, code: string): boolean => {
+    const result = accessCodeThrottle.check(accessThrottleKeys(req.ip, code));
+    if (result.allowed) {
+      return false;
+    }
+    res.set('Retry-After', String(result.retryAfterSeconds));
+    res.status(429).json({ message: "Too many attempts. Please try again later.", retryAfterSeconds: result.retryAfterSeconds });
+    return true;
+  };
+
+  const recordAccessCodeFailure = async (req: any, code: string) => {
+    for (const key of accessThrottleKeys(req.ip, code)) {
+      const lockout = accessCodeThrottle.recordFailure(key);
+      if (lockout) {
+        console.warn(`Access code lockout: ${lockout.key} until ${lockout.lockedUntil}`);
+        await auditLog(null, "access_code_lockout", lockout.key, {
+          endpoint: req.path,
+          failures: lockout.failures,
+          lockoutCount: lockout.lockoutCount,
+          lockedUntil: lockout.lockedUntil,
+        }, req).catch((error: unknown) => console.error('Failed to audit access code lockout:', error));
+      }
+    }
+  };
+
+  // Only the code's own counter is cleared on success; an IP that already holds
+  // one valid code must not be able to reset its failures with it
+  const recordAccessCodeSuccess = (code: string) => {
+    accessCodeThrottle.recordSuccess(accessThrottleKeys(undefined, code)[1]);
+  };
+
+  // Keeps the app user's clinical patient record, and the clinical copy of a new
+  // recording, in step with the app (see patient-link.ts). The app data is already
+  // saved, so failures are only logged; npm run link-patients catches them up.
+  const updateClinicalRecord = async (userId: number, userAssessment?: UserAssessment) => {
+    try {
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return;
+      }
+      if (userAssessment) {
+        await syncUserAssessment(storage, user, userAssessment);
+      } else {
+        await linkUserToPatient(storage, user);
+      }
+    } catch (error) {
+      console.error(`Failed to update the clinical record of user ${userId}:`, error);
+    }
+  };
+
+  // Password management shared by the clinical dashboard and admin portal
+  const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '', 10) || 30;
+  type PasswordAccountType = 'clinical' | 'admin';
+  const passwordAccounts: Record<PasswordAccountType, {
+    getById: (id: number) => Promise<any>;
+    getByUsername: (username: string) => Promise<any>;
+    update: (id: number, updates: any) => Promise<any>;
+    resetPath: string;
+  }> = {
+    clinical: {
+      getById: (id) => storage.getClinicalUser(id),
+      getByUsername: (username) => storage.getClinicalUserByUsername(username),
+      update: (id, updates) => updateStaffAccount('clinical', id, updates),
+      resetPath: '/clinical/reset-password',
+    },
+    admin: {
+      getById: (id) => storage.getAdminUser(id),
+      getByUsername: (username) => storage.getAdminUserByUsername(username),
+      update: (id, updates) => updateStaffAccount('admin', id, updates),
+      resetPath: '/admin/reset-password',
+    },
+  };
+
+  // Deactivating an account ends its sessions; refresh would refuse them anyway,
+  // but access tokens would otherwise live out their TTL
+  const updateStaffAccount = async (accountType: PasswordAccountType, id: number, updates: any) => {
+    const user = accountType === 'admin'
+      ? await storage.updateAdminUser(id, updates)
+      : await storage.updateClinicalUser(id, updates);
+    if (updates.isActive === false) {
+      revokeUserSessions(accountType, id);
+    }
+    return user;
+  };
+
+  // The account behind a refresh token, or null when it was deleted or deactivated
+  const loadSessionSubject = (accountType: PasswordAccountType) => async (claims: SessionClaims): Promise<SessionSubject | null> => {
+    const user = await passwordAccounts[accountType].getById(claims.sub);
+    if (!user || user.isActive === false) {
+      return null;
+    }
+    return { id: user.id, role: accountType === 'admin' ? 'admin' : user.role, username: user.username };
+  };
+
+  // Validate against the policy and history, then store the new hash.
+  // Returns the policy violations; an empty list means the change was applied.
+  const applyPasswordChange = async (accountType: PasswordAccountType, user: any, newPassword: string): Promise<string[]> => {
+    const history: string[] = Array.isArray(user.passwordHistory) ? user.passwordHistory : [];
+    const violations = await validatePasswordPolicy(newPassword, [user.password, ...history]);
+    if (violations.length > 0) {
+      return violations;
+    }
+
+    // Legacy plaintext passwords are hashed before they go into the history
+    const currentHash = isPasswordHash(user.password) ? user.password : await hashPassword(user.password);
+    await passwordAccounts[accountType].update(user.id, {
+      password: await hashPassword(newPassword),
+      passwordHistory: nextPasswordHistory(currentHash, history),
+      passwordChangedAt: new Date(),
+    });
+    await storage.invalidatePasswordResetTokens(accountType, user.id);
+    revokeUserSessions(accountType, user.id);
+    return [];
+  };
+
+  const handlePasswordResetRequest = (accountType: PasswordAccountType) => async (req: any, res: any) => {
+    try {
+      const { username } = passwordResetRequestSchema.parse(req.body);
+      const account = passwordAccounts[accountType];
+      const user = await account.getByUsername(username);
+
+      // Same response whether or not the account exists, to avoid username enumeration
+      if (user && user.isActive !== false && user.email) {
+        const { token, tokenHash } = generateResetToken();
+        await storage.createPasswordResetToken({
+          userType: accountType,
+          userId: user.id,
+          tokenHash,
+          expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+          requestedIp: req.ip,
+        });
+
+        const baseUrl = process.env.APP_BASE_URL || `${req.protocol}://${req.get('host')}`;
+        await sendMessage({
+          to: user.email,
+          subject: 'Password reset request',
+          text: `A password reset was requested for your account (${user.username}).\n\n` +
+            `Use the link below within ${PASSWORD_RESET_TTL_MINUTES} minutes to choose a new password:\n` +
+            `${baseUrl}${account.resetPath}?token=${encodeURIComponent(token)}\n\n` +
+            `If you did not request this, you can ignore this message.`,
+          category: 'password_reset',
+        });
+
+        if (accountType === 'clinical') {
+          await auditLog(user.id, "password_reset_requested", `clinical_user:${user.id}`, undefined, req);
+        }
+      }
+
+      res.json({ message: "If the account exists, password reset instructions have been sent" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request format" });
+      }
+      console.error('Password reset request error:', error);
+      res.status(500).json({ message: "Failed to process password reset request" });
+    }
+  };
+
+  const handlePasswordResetConfirm = (accountType: PasswordAccountType) => async (req: any, res: any) => {
+    try {
+      const { token, newPassword } = passwordResetConfirmSchema.parse(req.body);
+      const resetToken = await storage.getPasswordResetTokenByHash(hashResetToken(token));
+
+      if (!resetToken || resetToken.userType !== accountType || resetToken.usedAt || new Date(resetToken.expiresAt) <= new Date()) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+
+      const user = await passwordAccounts[accountType].getById(resetToken.userId);
+      if (!user || user.isActive === false) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+
+      const violations = await validatePasswordPolicy(newPassword, [user.password, ...(user.passwordHistory || [])]);
+      if (violations.length > 0) {
+        return res.status(400).json({ message: violations[0], violations });
+      }
+
+      // Claim the token before changing anything so concurrent submissions cannot both succeed
+      if (!(await storage.markPasswordResetTokenUsed(resetToken.id))) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+
+      await applyPasswordChange(accountType, user, newPassword);
+      if (accountType === 'clinical') {
+        await auditLog(user.id, "password_reset_completed", `clinical_user:${user.id}`, undefined, req);
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request format" });
+      }
+      console.error('Password reset confirm error:', error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  };
+
+  const handlePasswordChange = (accountType: PasswordAccountType) => async (req: any, res: any) => {
+    try {
+      const { currentPassword, newPassword } = passwordChangeSchema.parse(req.body);
+      const user = await passwordAccounts[accountType].getById(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { valid } = await verifyPassword(currentPassword, user.password);
+      if (!valid) {
+        return res.status(401).json({ message: "Current password is incorrect" });
+      }
+
+      const violations = await applyPasswordChange(accountType, user, newPassword);
+      if (violations.length > 0) {
+        return res.status(400).json({ message: violations[0], violations });
+      }
+
+      if (accountType === 'clinical') {
+        await auditLog(user.id, "password_changed", `clinical_user:${user.id}`, undefined, req);
+      }
+
+      // Existing sessions were revoked by the change; hand the caller a fresh one
+      const role = accountType === 'admin' ? 'admin' : user.role;
+      res.json({ success: true, ...issueSessionTokens({ id: user.id, role, username: user.username }, accountType) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request format" });
+      }
+      console.error('Password change error:', error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  };
+
+  app.get("/api/auth/password-policy", (req, res) => {
+    res.json(passwordPolicy);
+  });
+
+  app.post("/api/auth/password-reset/request", handlePasswordResetRequest('clinical'));
+  app.post("/api/auth/password-reset/confirm", handlePasswordResetConfirm('clinical'));
+  app.post("/api/auth/change-password", requireAuth, handlePasswordChange('clinical'));
+
+  // Two-factor authentication (TOTP) for admin portal users and clinical admins.
+  // A correct password yields a short-lived challenge instead of a session when
+  // the account has 2FA enabled, or when ADMIN_REQUIRE_2FA is set and it has not
+  // enrolled yet; the challenge is exchanged for a session at /login/2fa or by
+  // completing enrollment.
+  const twoFactorApplies = (accountType: PasswordAccountType, user: any) =>
+    accountType === 'admin' || user.role === 'admin';
+
+  const completeLogin = async (accountType: PasswordAccountType, user: any, req: any, details?: Record<string, unknown>) => {
+    const role = accountType === 'admin' ? 'admin' : user.role;
+    const tokens = issueSessionTokens({ id: user.id, role, username: user.username }, accountType);
+    if (accountType === 'clinical') {
+      await auditLog(user.id, "login", undefined, { username: user.username, ...details }, req);
+    }
+    return {
+      ...tokens,
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        ...(accountType === 'clinical' && { role: user.role })
+      }
+    };
+  };
+
+  const beginLogin = async (accountType: PasswordAccountType, user: any, req: any) => {
+    if (twoFactorApplies(accountType, user)) {
+      const subject = { id: user.id, role: accountType === 'admin' ? 'admin' : user.role, username: user.username };
+      if (user.totpEnabledAt) {
+        return { twoFactorRequired: true, ...issueMfaChallenge(subject, accountType) };
+      }
+      if (twoFactorEnforced) {
+        return { twoFactorEnrollmentRequired: true, ...issueMfaChallenge(subject, accountType) };
+      }
+    }
+    return completeLogin(accountType, user, req);
+  };
+
+  // Check a TOTP or recovery code and persist its use. Returns the factor used.
+  const verifySecondFactor = async (accountType: PasswordAccountType, user: any, code?: string, recoveryCode?: string) => {
+    if (code) {
+      const step = verifyTotpCode(user.totpSecret, code, user.totpLastUsedStep ?? null);
+      if (step === null) return null;
+      await passwordAccounts[accountType].update(user.id, { totpLastUsedStep: step });
+      return 'totp';
+    }
+    if (recoveryCode) {
+      const remaining = consumeRecoveryCode(Array.isArray(user.totpRecoveryCodes) ? user.totpRecoveryCodes : [], recoveryCode);
+      if (!remaining) return null;
+      await passwordAccounts[accountType].update(user.id, { totpRecoveryCodes: remaining });
+      return 'recovery_code';
+    }
+    return null;
+  };
+
+  // Resolves the account for 2FA management from a session, or (for enrollment
+  // only) from a login challenge in the request body
+  const requireTwoFactorAccount = (accountType: PasswordAccountType, allowChallenge = false) => {
+    return async (req: any, res: any, next: any) => {
+      let claims: SessionClaims;
+      try {
+        const bearer = extractBearerToken(req.headers.authorization);
+        if (bearer) {
+          claims = verifySessionToken(bearer, accountType);
+        } else if (allowChallenge && req.body?.challengeToken) {
+          claims = verifySessionToken(req.body.challengeToken, accountType, 'mfa');
+          req.mfaChallenge = claims;
+        } else {
+          return res.status(401).json({ message: 'Authentication required' });
+        }
+      } catch (error) {
+        return res.status(401).json({ message: 'Invalid token' });
+      }
+
+      const user = await passwordAccounts[accountType].getById(claims.sub);
+      if (!user || user.isActive === false) {
+        return res.status(401).json({ message: 'Invalid token' });
+      }
+      if (!twoFactorApplies(accountType, user)) {
+        return res.status(403).json({ message: 'Two-factor authentication is only available for admin accounts' });
+      }
+      req.twoFactorUser = user;
+      next();
+    };
+  };
+
+  const handleTwoFactorLogin = (accountType: PasswordAccountType) => async (req: any, res: any) => {
+    try {
+      const { challengeToken, code, recoveryCode } = twoFactorLoginSchema.parse(req.body);
+      let claims: SessionClaims;
+      try {
+        claims = verifySessionToken(challengeToken, accountType, 'mfa');
+      } catch (error) {
+        return res.status(401).json({ message: "Login has expired. Please sign in again." });
+      }
+
+      const throttleKey = `mfa:${accountType}:${claims.sub}`;
+      const throttle = twoFactorThrottle.check([throttleKey]);
+      if (!throttle.allowed) {
+        res.set('Retry-After', String(throttle.retryAfterSeconds));
+        return res.status(429).json({ message: "Too many attempts. Please try again later.", retryAfterSeconds: throttle.retryAfterSeconds });
+      }
+
+      const user = await passwordAccounts[accountType].getById(claims.sub);
+      if (!user || user.isActive === false || !user.totpEnabledAt) {
+        return res.status(401).json({ message: "Login has expired. Please sign in again." });
+      }
+
+      const factor = await verifySecondFactor(accountType, user, code, recoveryCode);
+      if (!factor) {
+        twoFactorThrottle.recordFailure(throttleKey);
+        if (accountType === 'clinical') {
+          await auditLog(user.id, "2fa_failed", `clinical_user:${user.id}`, undefined, req);
+        }
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      twoFactorThrottle.recordSuccess(throttleKey);
+      revokeSession(claims);
+      res.json(await completeLogin(accountType, user, req, { secondFactor: factor }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid request format" });
+      }
+      console.error('Two-factor login error:', error);
+      res.status(500).json({ message: "Failed to verify authentication code" });
+    }
+  };
+
+  const handleTwoFactorStatus = async (req: any, res: any) => {
+    const user = req.twoFactorUser;
+    res.json({
+      enabled: !!user.totpEnabledAt,
+      enabledAt: user.totpEnabledAt,
+      enforced: twoFactorEnforced,
+      recoveryCodesRemaining: Array.isArray(user.totpRecoveryCodes) ? user.totpRecoveryCodes.length : 0
+    });
+  };
+
+  // Start (or restart) enrollment with a fresh secret; it is inactive until confirmed
+  const handleTwoFactorSetup = (accountType: PasswordAccountType) => async (req: any, res: any) => {
+    try {
+      const user = req.twoFactorUser;
+      if (user.totpEnabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await passwordAccounts[accountType].update(user.id, { totpSecret: secret, totpLastUsedStep: null });
+      res.json({ secret, otpauthUri: buildOtpauthUri(secret, user.username) });
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      res.status(500).json({ message: "Failed to start two-factor enrollment" });
+    }
+  };
+
+  const handleTwoFactorEnable = (accountType: PasswordAccountType) => async (req: any, res: any) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = req.twoFactorUser;
+      if (user.totpEnabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "Start two-factor enrollment first" });
+      }
+
+      const step = verifyTotpCode(user.totpSecret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await passwordAccounts[accountType].update(user.id, {
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: step,
+        totpRecoveryCodes: hashes
+      });
+      if (accountType === 'clinical') {
+        await auditLog(user.id, "2fa_enabled", `clinical_user:${user.id}`, undefined, req);
+      }
+
+      // Enforced enrollment during login finishes by signing the user in
+      if (req.mfaChallenge) {
+        revokeSession(req.mfaChallenge);
+        return res.json({ recoveryCodes: codes, session: await completeLogin(accountType, user, req, { secondFactor: 'enrollment' }) });
+      }
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request format" });
+      }
+      console.error('Two-factor enable error:', error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  };
+
+  const handleTwoFactorDisable = (accountType: PasswordAccountType) => async (req: any, res: any) => {
+    try {
+      const { password, code } = twoFactorDisableSchema.parse(req.body);
+      const user = req.twoFactorUser;
+      if (twoFactorEnforced) {
+        return res.status(403).json({ message: "Two-factor authentication is required for admin accounts" });
+      }
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      const { valid } = await verifyPassword(password, user.password);
+      if (!valid || !(await verifySecondFactor(accountType, user, code))) {
+        return res.status(401).json({ message: "Password or authentication code is incorrect" });
+      }
+
+      await passwordAccounts[accountType].update(user.id, {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: null
+      });
+      if (accountType === 'clinical') {
+        await auditLog(user.id, "2fa_disabled", `clinical_user:${user.id}`, undefined, req);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request format" });
+      }
+      console.error('Two-factor disable error:', error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  };
+
+  const handleRecoveryCodeRegeneration = (accountType: PasswordAccountType) => async (req: any, res: any) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = req.twoFactorUser;
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifySecondFactor(accountType, user, code))) {
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await passwordAccounts[accountType].update(user.id, { totpRecoveryCodes: hashes });
+      if (accountType === 'clinical') {
+        await auditLog(user.id, "2fa_recovery_codes_regenerated", `clinical_user:${user.id}`, undefined, req);
+      }
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request format" });
+      }
+      console.error('Recovery code regeneration error:', error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  };
+
+  app.post("/api/auth/login/2fa", handleTwoFactorLogin('clinical'));
+  app.get("/api/auth/2fa/status", requireTwoFactorAccount('clinical'), handleTwoFactorStatus);
+  app.post("/api/auth/2fa/setup", requireTwoFactorAccount('clinical', true), handleTwoFactorSetup('clinical'));
+  app.post("/api/auth/2fa/enable", requireTwoFactorAccount('clinical', true), handleTwoFactorEnable('clinical'));
+  app.post("/api/auth/2fa/disable", requireTwoFactorAccount('clinical'), handleTwoFactorDisable('clinical'));
+  app.post("/api/auth/2fa/recovery-codes", requireTwoFactorAccount('clinical'), handleRecoveryCodeRegeneration('clinical'));
+
+  app.post("/api/admin/login/2fa", handleTwoFactorLogin('admin'));
+  app.get("/api/admin/2fa/status", requireTwoFactorAccount('admin'), handleTwoFactorStatus);
+  app.post("/api/admin/2fa/setup", requireTwoFactorAccount('admin', true), handleTwoFactorSetup('admin'));
+  app.post("/api/admin/2fa/enable", requireTwoFactorAccount('admin', true), handleTwoFactorEnable('admin'));
+  app.post("/api/admin/2fa/disable", requireTwoFactorAccount('admin'), handleTwoFactorDisable('admin'));
+  app.post("/api/admin/2fa/recovery-codes", requireTwoFactorAccount('admin'), handleRecoveryCodeRegeneration('admin'));
+
+  // Caseload policy for clinical patient routes (see access-policy.ts)
+  const getDelegatedPatientIds = async (user: any): Promise<number[]> =>
+    user.role === 'clinician' ? storage.getDelegatedPatientIds(user.id) : [];
+
+  const denyPatientAccess = async (req: any, res: any, patientId: number, reason: string) => {
+    await auditLog(req.user.id, "access_denied", `patient_id:${patientId}`, {
+      reason,
+      method: req.method,
+      path: req.originalUrl
+    }, req).catch((error: unknown) => console.error('Failed to audit access denial:', error));
+    return res.status(403).json({ message: "Access denied" });
+  };
+
+  // Resolve the patient in the route, apply the policy and audit denials.
+  // Allowed requests get res.locals.patient and res.locals.patientAccess.
+  const requirePatientAccess = (mode: PatientAccessMode, param: string = 'id') => {
+    return async (req: any, res: any, next: any) => {
+      try {
+        const patientId = parseInt(req.params[param]);
+        const patient = await storage.getPatient(patientId);
+        if (!patient) {
+          return res.status(404).json({ message: "Patient not found" });
+        }
+
+        const decision = decidePatientAccess(req.user, patient, mode, await getDelegatedPatientIds(req.user));
+        if (!decision.allowed) {
+          return denyPatientAccess(req, res, patientId, decision.reason);
+        }
+
+        res.locals.patient = patient;
+        res.locals.patientAccess = decision;
+        next();
+      } catch (error) {
+        console.error('Patient access check error:', error);
+        res.status(500).json({ message: "Failed to check patient access" });
+      }
+    };
+  };
+
+  // Narrow a patient list to the caller's caseload, de-identifying for researchers
+  const scopePatientList = async <T extends { id: number; assignedClinicianId?: number | null }>(user: any, patientList: T[]): Promise<T[]> => {
+    const delegatedIds = await getDelegatedPatientIds(user);
+    const visible = patientList.filter(patient =>
+      isInCaseload(user, { id: patient.id, assignedClinicianId: patient.assignedClinicianId ?? null }, delegatedIds));
+    return user.role === 'researcher' ? visible.map(deidentifyPatient) : visible;
+  };
+
   // Clinical Dashboard - Cohort Management
   app.get("/api/cohorts", requireAuth, async (req, res) => {
     try {
@@ -134,7 +953,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/patients", requireAuth, async (req, res) => {
     try {
       const patients = await storage.getPatients();
-      res.json(patients);
+      res.json(await scopePatientList(req.user, patients));
     } catch (error) {
       console.error('Failed to fetch patients:', error);
       res.status(500).json({ message: "Failed to fetch patients" });
@@ -184,6 +1003,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/patients/dashboard", requireAuth, async (req, res) => {
     try {
       const dashboardData = await storage.getPatientDashboardData();
+      
+      // Dashboard rows carry no assignment, so clinicians are matched against their caseload ids
+      if (req.user.role !== 'admin') {
+        const caseload = await scopePatientList(req.user, await storage.getPatients());
+        const caseloadIds = new Set(caseload.map(patient => patient.id));
+        const rows = dashboardData.patients.filter((patient: any) => caseloadIds.has(patient.id));
+        dashboardData.patients = req.user.role === 'researcher' ? rows.map(deidentifyPatient) : rows;
+      }
+      
       res.json(dashboardData);
     } catch (error) {
       console.error("Error fetching dashboard data:", error);
@@ -201,11 +1029,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/patients/:id/assessments", requireAuth, async (req, res) => {
+  app.get("/api/patients/:id/assessments", requireAuth, requirePatientAccess('read'), async (req, res) => {
     try {
       const patientId = parseInt(req.params.id);
       const assessments = await storage.getPatientAssessmentHistory(patientId);
-      res.json({ assessments });
+      res.json({ assessments: res.locals.patientAccess.deidentify ? assessments.map(deidentifyAssessment) : assessments });
     } catch (error) {
       console.error("Error fetching patient assessments:", error);
       res.status(500).json({ message: "Failed to fetch patient assessments" });
@@ -213,7 +1041,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Patient Enrollment endpoints
-  app.get("/api/patients/:id/eligibility/:cohortId", requireAuth, async (req, res) => {
+  app.get("/api/patients/:id/eligibility/:cohortId", requireAuth, requirePatientAccess('read'), async (req, res) => {
     try {
       const patientId = parseInt(req.params.id);
       const cohortId = parseInt(req.params.cohortId);
@@ -228,7 +1056,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/patients/:id/enroll", requireAuth, requireRole(['admin', 'clinician']), async (req, res) => {
+  app.post("/api/patients/:id/enroll", requireAuth, requireRole(['admin', 'clinician']), requirePatientAccess('write'), async (req, res) => {
     try {
       const patientId = parseInt(req.params.id);
       const enrollmentData = patientEnrollmentSchema.parse({
@@ -255,12 +1083,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid access code format" });
       }
       
+      if (rejectIfAccessCodeLocked(req, res, code)) {
+        return;
+      }
+      
       const patient = await storage.getPatientByAccessCode(code);
       
       if (!patient) {
+        await recordAccessCodeFailure(req, code);
         return res.status(404).json({ message: "Patient not found" });
       }
       
+      recordAccessCodeSuccess(code);
       res.json({ patient });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch patient" });
@@ -312,7 +1146,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/patients/:id", requireAuth, async (req, res) => {
+  app.get("/api/patients/:id", requireAuth, requirePatientAccess('read'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const patient = await storage.getPatientWithDetails(id);
@@ -321,68 +1155,119 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Patient not found" });
       }
       
-      // Check access permissions
-      if (req.user.role === 'clinician' && patient.assignedClinicianId !== req.user.id) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
-      await auditLog(req.user.id, "patient_access", `patient_id:${id}`, undefined, req);
+      await auditLog(req.user.id, "patient_access", `patient_id:${id}`, { access: res.locals.patientAccess.reason }, req);
       
-      res.json(patient);
+      res.json(res.locals.patientAccess.deidentify ? deidentifyPatient(patient) : patient);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch patient" });
     }
   });
 
-  app.put("/api/patients/:id", requireAuth, requireRole(['clinician', 'admin']), async (req, res) => {
+  app.put("/api/patients/:id", requireAuth, requireRole(['clinician', 'admin']), requirePatientAccess('write'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const updates = insertPatientSchema.partial().parse(req.body);
       
-      // Check access permissions
-      const existingPatient = await storage.getPatient(id);
-      if (!existingPatient) {
-        return res.status(404).json({ message: "Patient not found" });
+      // Withdrawal starts the retention grace period before the patient is deleted
+      const withdrawnAt = updates.enrollmentStatus === undefined
+        ? {}
+        : updates.enrollmentStatus === 'withdrawn'
+          ? (res.locals.patient.enrollmentStatus === 'withdrawn' ? {} : { withdrawnAt: new Date() })
+          : { withdrawnAt: null };
+      const patient = await storage.updatePatient(id, { ...updates, ...withdrawnAt });
+      
+      await auditLog(req.user.id, "patient_update", `patient_id:${id}`, updates, req);
+      
+      res.json(patient);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid patient data" });
+    }
+  });
+
+  // Caseload delegations: the assigned clinician (or an admin) can grant another
+  // clinician access to a patient. Delegates cannot re-delegate.
+  app.get("/api/patients/:id/delegations", requireAuth, requireRole(['clinician', 'admin']), requirePatientAccess('write'), async (req, res) => {
+    try {
+      const delegations = await storage.getPatientDelegations(parseInt(req.params.id));
+      res.json(delegations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch delegations" });
+    }
+  });
+
+  app.post("/api/patients/:id/delegations", requireAuth, requireRole(['clinician', 'admin']), requirePatientAccess('write'), async (req, res) => {
+    try {
+      const patientId = parseInt(req.params.id);
+      if (res.locals.patientAccess.reason === 'delegated') {
+        return denyPatientAccess(req, res, patientId, 'delegate_cannot_delegate');
       }
       
-      if (req.user.role === 'clinician' && existingPatient.assignedClinicianId !== req.user.id) {
-        return res.status(403).json({ message: "Access denied" });
+      const { clinicianId, reason, expiresAt } = patientDelegationRequestSchema.parse(req.body);
+      const delegate = await storage.getClinicalUser(clinicianId);
+      if (!delegate || delegate.role !== 'clinician' || delegate.isActive === false) {
+        return res.status(400).json({ message: "Delegate must be an active clinician" });
+      }
+      
+      const delegation = await storage.createPatientDelegation({
+        patientId,
+        clinicianId,
+        grantedBy: req.user.id,
+        reason,
+        expiresAt
+      });
+      
+      await auditLog(req.user.id, "delegation_grant", `patient_id:${patientId}`, { delegationId: delegation.id, clinicianId, expiresAt }, req);
+      
+      res.json(delegation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid delegation data" });
+      }
+      console.error('Delegation grant error:', error);
+      res.status(500).json({ message: "Failed to create delegation" });
+    }
+  });
+
+  app.delete("/api/patients/:id/delegations/:delegationId", requireAuth, requireRole(['clinician', 'admin']), requirePatientAccess('write'), async (req, res) => {
+    try {
+      const patientId = parseInt(req.params.id);
+      const delegationId = parseInt(req.params.delegationId);
+      if (res.locals.patientAccess.reason === 'delegated') {
+        return denyPatientAccess(req, res, patientId, 'delegate_cannot_delegate');
+      }
+      
+      const delegations = await storage.getPatientDelegations(patientId);
+      if (!delegations.some(delegation => delegation.id === delegationId)) {
+        return res.status(404).json({ message: "Delegation not found" });
       }
       
-      const patient = await storage.updatePatient(id, updates);
+      const revoked = await storage.revokePatientDelegation(delegationId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Delegation already revoked" });
+      }
       
-      await auditLog(req.user.id, "patient_update", `patient_id:${id}`, updates, req);
+      await auditLog(req.user.id, "delegation_revoke", `patient_id:${patientId}`, { delegationId }, req);
       
-      res.json(patient);
+      res.json({ success: true });
     } catch (error) {
-      res.status(400).json({ message: "Invalid patient data" });
+      res.status(500).json({ message: "Failed to revoke delegation" });
     }
   });
 
   // Clinical Dashboard - Patient Assessments
-  app.get("/api/patients/:id/assessments", requireAuth, async (req, res) => {
+  app.get("/api/patients/:id/assessments", requireAuth, requirePatientAccess('read'), async (req, res) => {
     try {
       const patientId = parseInt(req.params.id);
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
       
-      // Check access permissions
-      const patient = await storage.getPatient(patientId);
-      if (!patient) {
-        return res.status(404).json({ message: "Patient not found" });
-      }
-      
-      if (req.user.role === 'clinician' && patient.assignedClinicianId !== req.user.id) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const assessments = await storage.getPatientAssessments(patientId, limit);
-      res.json(assessments);
+      res.json(res.locals.patientAccess.deidentify ? assessments.map(deidentifyAssessment) : assessments);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch assessments" });
     }
   });
 
-  app.post("/api/patients/:id/assessments", requireAuth, requireRole(['clinician', 'admin']), async (req, res) => {
+  app.post("/api/patients/:id/assessments", requireAuth, requireRole(['clinician', 'admin']), requirePatientAccess('write'), async (req, res) => {
     try {
       const patientId = parseInt(req.params.id);
       const assessmentData = insertPatientAssessmentSchema.parse({
@@ -391,16 +1276,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         clinicianId: req.user.id
       });
       
-      // Check access permissions
-      const patient = await storage.getPatient(patientId);
-      if (!patient) {
-        return res.status(404).json({ message: "Patient not found" });
-      }
-      
-      if (req.user.role === 'clinician' && patient.assignedClinicianId !== req.user.id) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const assessment = await storage.createPatientAssessment(assessmentData);
       
       await auditLog(req.user.id, "assessment_create", `patient_id:${patientId}`, assessmentData, req);
@@ -432,19 +1307,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const cohortId = parseInt(req.params.id);
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 500;
       
-      // For researchers, return de-identified data
       const assessments = await storage.getCohortAssessments(cohortId, limit);
       
       if (req.user.role === 'researcher') {
-        // Remove identifying information for researchers
-        const deidentifiedAssessments = assessments.map(assessment => ({
-          ...assessment,
-          patientId: null,
-          clinicianId: null,
-          notes: null,
-          rawData: null
-        }));
-        res.json(deidentifiedAssessments);
+        // Researchers get de-identified data for the whole cohort
+        res.json(assessments.map(deidentifyAssessment));
+      } else if (req.user.role === 'clinician') {
+        // Clinicians only see assessments for patients in their caseload
+        const caseload = await scopePatientList(req.user, await storage.getPatients());
+        const caseloadIds = new Set(caseload.map(patient => patient.id));
+        res.json(assessments.filter(assessment => caseloadIds.has(assessment.patientId)));
       } else {
         res.json(assessments);
       }
@@ -453,6 +1325,280 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // De-identification settings. Every export runs through a DeidentificationPipeline
+  // built from these; the pseudonym/date-shift secret is generated on first use and
+  // stored alongside them (DEIDENTIFICATION_SECRET overrides it), but never returned.
+  const DEIDENTIFICATION_SETTING_KEY = 'deidentification';
+
+  const loadDeidentificationConfig = async (): Promise<DeidentificationConfig> => {
+    const stored = await storage.getSystemSetting(DEIDENTIFICATION_SETTING_KEY);
+    const config: DeidentificationConfig = {
+      ...DEFAULT_DEIDENTIFICATION_SETTINGS,
+      secret: '',
+      ...(stored?.value as Partial<DeidentificationConfig> | undefined)
+    };
+    if (process.env.DEIDENTIFICATION_SECRET) {
+      return { ...config, secret: process.env.DEIDENTIFICATION_SECRET };
+    }
+    if (!config.secret) {
+      config.secret = generateDeidentificationSecret();
+      await storage.upsertSystemSetting(DEIDENTIFICATION_SETTING_KEY, config, stored?.updatedBy ?? undefined);
+    }
+    return config;
+  };
+
+  // patients is the population the export covers (k-anonymity is measured over it);
+  // force de-identifies even when the setting is off, as for researchers
+  const createDeidentificationPipeline = async (patients: Patient[] = [], force = false) =>
+    new DeidentificationPipeline(await loadDeidentificationConfig(), patients, force);
+
+  // A single-patient export is its own equivalence class of one, which would suppress every
+  // quasi-identifier, so k-anonymity is judged against the patient's cohort (all enrolled
+  // patients when they have none). getPatients rows lack the quasi-identifiers and repeat
+  // per assessment, so members are re-loaded.
+  const kAnonymityPopulation = async (patient: Patient): Promise<Patient[]> => {
+    const population: Patient[] = [patient];
+    const seen = new Set<number>([patient.id]);
+    for (const candidate of await storage.getPatients()) {
+      if (seen.has(candidate.id) || (patient.cohortId && candidate.cohortId !== patient.cohortId)) {
+        continue;
+      }
+      seen.add(candidate.id);
+      const member = await storage.getPatient(candidate.id);
+      if (member) {
+        population.push(member);
+      }
+    }
+    return population;
+  };
+
+  app.get("/api/settings/deidentification", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const { enabled, kAnonymity, dateShiftMaxDays } = await loadDeidentificationConfig();
+      res.json({ enabled, kAnonymity, dateShiftMaxDays });
+    } catch (error) {
+      console.error("De-identification settings error:", error);
+      res.status(500).json({ message: "Failed to load de-identification settings" });
+    }
+  });
+
+  app.put("/api/settings/deidentification", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const settings = deidentificationSettingsSchema.parse(req.body);
+      const { secret } = await loadDeidentificationConfig();
+      await storage.upsertSystemSetting(DEIDENTIFICATION_SETTING_KEY, { ...settings, secret }, req.user.id);
+      await auditLog(req.user.id, "settings_update", `setting:${DEIDENTIFICATION_SETTING_KEY}`, settings, req);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid de-identification settings", errors: error.errors });
+      }
+      console.error("De-identification settings update error:", error);
+      res.status(500).json({ message: "Failed to update de-identification settings" });
+    }
+  });
+
+  // Kapandji contact scoring. Recordings are scored with these options on completion and
+  // the replay receives them with the motion data, so both agree.
+  const KAPANDJI_SETTING_KEY = 'kapandji';
+
+  const loadKapandjiOptions = async (): Promise<KapandjiOptions> => {
+    const stored = await storage.getSystemSetting(KAPANDJI_SETTING_KEY);
+    return { ...DEFAULT_KAPANDJI_OPTIONS, ...(stored?.value as Partial<KapandjiOptions> | undefined) };
+  };
+
+  app.get("/api/settings/kapandji", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      res.json(await loadKapandjiOptions());
+    } catch (error) {
+      console.error("Kapandji settings error:", error);
+      res.status(500).json({ message: "Failed to load Kapandji settings" });
+    }
+  });
+
+  app.put("/api/settings/kapandji", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const settings = kapandjiSettingsSchema.parse(req.body);
+      await storage.upsertSystemSetting(KAPANDJI_SETTING_KEY, settings, req.user.id);
+      await auditLog(req.user.id, "settings_update", `setting:${KAPANDJI_SETTING_KEY}`, settings, req);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid Kapandji settings", errors: error.errors });
+      }
+      console.error("Kapandji settings update error:", error);
+      res.status(500).json({ message: "Failed to update Kapandji settings" });
+    }
+  });
+
+  // Data retention. The policy is stored as a system setting; the job runs daily when
+  // it is enabled, and admins can preview it (dry run) or run it on demand.
+  const RETENTION_SETTING_KEY = 'retention';
+
+  const loadRetentionPolicy = async (): Promise<RetentionPolicy> => {
+    const stored = await storage.getSystemSetting(RETENTION_SETTING_KEY);
+    return { ...DEFAULT_RETENTION_POLICY, ...(stored?.value as Partial<RetentionPolicy> | undefined) };
+  };
+
+  // userId is null for the scheduled job
+  const runRetentionPolicy = async (policy: RetentionPolicy, dryRun: boolean, userId: number | null, req?: any) =>
+    runRetention(storage, policy, {
+      dryRun,
+      audit: (action, targetEntity, details) => auditLog(userId, action, targetEntity, details, req)
+    });
+
+  scheduleRetentionJob(async () => {
+    const policy = await loadRetentionPolicy();
+    if (policy.enabled) {
+      const report = await runRetentionPolicy(policy, false, null);
+      console.log(`Retention job applied ${report.actions.length} actions, ${report.held.length} held`);
+    }
+  });
+
+  app.get("/api/settings/retention", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      res.json(await loadRetentionPolicy());
+    } catch (error) {
+      console.error("Retention settings error:", error);
+      res.status(500).json({ message: "Failed to load retention settings" });
+    }
+  });
+
+  app.put("/api/settings/retention", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const policy = retentionPolicySchema.parse(req.body);
+      await storage.upsertSystemSetting(RETENTION_SETTING_KEY, policy, req.user.id);
+      await auditLog(req.user.id, "settings_update", `setting:${RETENTION_SETTING_KEY}`, policy, req);
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid retention settings", errors: error.errors });
+      }
+      console.error("Retention settings update error:", error);
+      res.status(500).json({ message: "Failed to update retention settings" });
+    }
+  });
+
+  // Runs the saved policy now; ?dryRun=true only reports what would be purged
+  app.post("/api/retention/run", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const report = await runRetentionPolicy(await loadRetentionPolicy(), req.query.dryRun === 'true', req.user.id, req);
+      res.json(report);
+    } catch (error) {
+      console.error("Retention run error:", error);
+      res.status(500).json({ message: "Retention run failed; completed purges are in the audit log" });
+    }
+  });
+
+  app.get("/api/retention/legal-holds", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      res.json(await storage.getLegalHolds(req.query.includeReleased === 'true'));
+    } catch (error) {
+      console.error("Legal holds error:", error);
+      res.status(500).json({ message: "Failed to fetch legal holds" });
+    }
+  });
+
+  app.post("/api/retention/legal-holds", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const data = insertLegalHoldSchema.parse({ ...req.body, createdBy: req.user.id });
+      if (data.patientId && !(await storage.getPatient(data.patientId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const hold = await storage.createLegalHold(data);
+      const target = hold.patientId ? `patient_id:${hold.patientId}` : hold.userId ? `user_id:${hold.userId}` : undefined;
+      await auditLog(req.user.id, "legal_hold_create", target, { holdId: hold.id, reason: hold.reason }, req);
+      res.status(201).json(hold);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid legal hold" });
+      }
+      console.error("Create legal hold error:", error);
+      res.status(500).json({ message: "Failed to create legal hold" });
+    }
+  });
+
+  app.post("/api/retention/legal-holds/:id/release", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const hold = await storage.releaseLegalHold(parseInt(req.params.id), req.user.id);
+      if (!hold) {
+        return res.status(404).json({ message: "Active legal hold not found" });
+      }
+      const target = hold.patientId ? `patient_id:${hold.patientId}` : hold.userId ? `user_id:${hold.userId}` : undefined;
+      await auditLog(req.user.id, "legal_hold_release", target, { holdId: hold.id }, req);
+      res.json(hold);
+    } catch (error) {
+      console.error("Release legal hold error:", error);
+      res.status(500).json({ message: "Failed to release legal hold" });
+    }
+  });
+
+  // FHIR R4 export: Bundles are checked against the base profiles before they are sent
+  const FHIR_EXPORT_ROW_LIMIT = 10000;
+
+  const sendFhirBundle = (res: any, bundle: FhirBundle) => {
+    const issues = validateFhirBundle(bundle);
+    if (issues.length > 0) {
+      console.error('Generated FHIR bundle failed validation:', issues);
+      return res.status(500).json({
+        resourceType: 'OperationOutcome',
+        issue: issues.map(diagnostics => ({ severity: 'error', code: 'invariant', diagnostics }))
+      });
+    }
+    res.setHeader('Content-Type', 'application/fhir+json');
+    res.send(JSON.stringify(bundle));
+  };
+
+  const loadClinicalFhirInput = async (patient: Patient, pipeline: DeidentificationPipeline): Promise<ClinicalFhirInput> => ({
+    patient: pipeline.patient(patient),
+    assessments: (await storage.getPatientAssessments(patient.id, FHIR_EXPORT_ROW_LIMIT))
+      .map(assessment => pipeline.patientRecord(patient.id, assessment)),
+    quickDashResponses: (await storage.getQuickDashResponses(patient.id))
+      .map(response => pipeline.patientRecord(patient.id, response))
+  });
+
+  app.get("/api/patients/:id/fhir", requireAuth, requirePatientAccess('read'), async (req, res) => {
+    try {
+      const patient: Patient = res.locals.patient;
+      const pipeline = await createDeidentificationPipeline(await kAnonymityPopulation(patient), res.locals.patientAccess.deidentify);
+      const bundle = buildClinicalFhirBundle([await loadClinicalFhirInput(patient, pipeline)]);
+      await auditLog(req.user.id, "fhir_export", `patient_id:${patient.id}`, { resources: bundle.entry.length }, req);
+      sendFhirBundle(res, bundle);
+    } catch (error) {
+      console.error("FHIR patient export error:", error);
+      res.status(500).json({ message: "Failed to generate FHIR export" });
+    }
+  });
+
+  app.get("/api/cohorts/:id/fhir", requireAuth, async (req, res) => {
+    try {
+      const cohortId = parseInt(req.params.id);
+      const cohort = await storage.getCohort(cohortId);
+      if (!cohort) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+
+      // Only patients in the caller's caseload are included
+      const members = (await storage.getPatients()).filter(patient => patient.cohortId === cohortId);
+      const visible = await scopePatientList(req.user, members);
+      const pipeline = await createDeidentificationPipeline(visible, req.user.role === 'researcher');
+      const inputs = [];
+      for (const patient of visible) {
+        inputs.push(await loadClinicalFhirInput(patient, pipeline));
+      }
+
+      const bundle = buildClinicalFhirBundle(inputs);
+      await auditLog(req.user.id, "fhir_export", `cohort_id:${cohortId}`, {
+        patients: visible.length,
+        resources: bundle.entry.length
+      }, req);
+      sendFhirBundle(res, bundle);
+    } catch (error) {
+      console.error("FHIR cohort export error:", error);
+      res.status(500).json({ message: "Failed to generate FHIR export" });
+    }
+  });
+
   // Clinical Dashboard - Outlier Alerts
   app.get("/api/alerts", requireAuth, async (req, res) => {
     try {
@@ -496,30 +1642,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Clinical Dashboard - Data Export
+  // Rows are scoped like the interactive views: clinicians get their caseload,
+  // researchers get de-identified rows, admins get everything. Every row then goes
+  // through the de-identification pipeline with its patient's demographics and the
+  // week of the study visit it fulfils joined on.
+  const EXPORT_ROW_LIMIT = 50000;
+
+  const deidentifyExportRows = async (user: any, exportedPatients: Patient[], rows: PatientAssessment[], population: Patient[] = exportedPatients): Promise<ExportRecord[]> => {
+    const isResearcher = user.role === 'researcher';
+    const pipeline = await createDeidentificationPipeline(population, isResearcher);
+    const patientsById = new Map(exportedPatients.map(patient => [patient.id, patient] as [number, Patient]));
+    const visitWeeks = new Map<number, number>();
+    for (const patient of exportedPatients) {
+      (await storage.getStudyVisits(patient.id)).forEach(visit => {
+        if (visit.assessmentId) {
+          visitWeeks.set(visit.assessmentId, visit.scheduledWeek);
+        }
+      });
+    }
+    return rows.map(row => {
+      const patient = patientsById.get(row.patientId);
+      const record = pipeline.patientRecord(row.patientId, {
+        ...row,
+        scheduledWeek: visitWeeks.get(row.id) ?? null,
+        ...(patient && pipeline.quasiIdentifiers(patient))
+      });
+      // Researchers never receive raw motion data
+      return isResearcher ? { ...record, rawData: null } : record;
+    });
+  };
+
+  const collectExportRows = async (req: any, res: any, exportRequest: DataExport): Promise<ExportRecord[] | null> => {
+    const filters = (exportRequest.filters || {}) as { patientId?: number | null; cohortId?: number | null };
+
+    if (exportRequest.exportType === 'patient_data' && filters.patientId) {
+      const patient = await storage.getPatient(filters.patientId);
+      if (!patient) {
+        res.status(404).json({ message: "Patient not found" });
+        return null;
+      }
+      const decision = decidePatientAccess(req.user, patient, 'read', await getDelegatedPatientIds(req.user));
+      if (!decision.allowed) {
+        await denyPatientAccess(req, res, patient.id, decision.reason);
+        return null;
+      }
+      return deidentifyExportRows(req.user, [patient], await storage.getPatientAssessments(patient.id, EXPORT_ROW_LIMIT), await kAnonymityPopulation(patient));
+    }
+
+    const caseload = await scopePatientList(req.user, await storage.getPatients());
+    const caseloadIds = new Set(caseload.map(patient => patient.id));
+
+    let rows: PatientAssessment[] = [];
+    if (exportRequest.exportType === 'cohort_data') {
+      const cohortIds = filters.cohortId
+        ? [filters.cohortId]
+        : (await storage.getCohorts()).map(cohort => cohort.id);
+      for (const cohortId of cohortIds) {
+        rows = rows.concat(await storage.getCohortAssessments(cohortId, EXPORT_ROW_LIMIT));
+      }
+    } else {
+      for (const patient of caseload) {
+        rows = rows.concat(await storage.getPatientAssessments(patient.id, EXPORT_ROW_LIMIT));
+      }
+    }
+
+    const visible = rows.filter(row => caseloadIds.has(row.patientId)).slice(0, EXPORT_ROW_LIMIT);
+    const exportedIds = new Set(visible.map(row => row.patientId));
+    return deidentifyExportRows(req.user, caseload.filter(patient => exportedIds.has(patient.id)), visible);
+  };
+
   app.post("/api/export", requireAuth, async (req, res) => {
     try {
-      const { exportType, filters } = z.object({
-        exportType: z.enum(['patient_data', 'cohort_data']),
-        filters: z.any().optional()
-      }).parse(req.body);
-      
-      // Generate download URL (expires in 15 minutes)
-      const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
-      const downloadUrl = `/api/export/download/${Math.random().toString(36).substring(2)}`;
+      const { exportType, format, filters } = dataExportRequestSchema.parse(req.body);
       
+      const expiresAt = new Date(Date.now() + DATA_EXPORT_TTL_MINUTES * 60 * 1000);
       const exportRequest = await storage.createDataExport({
         requestedBy: req.user.id,
         exportType,
+        format,
         filters,
-        downloadUrl,
+        downloadUrl: generateExportDownloadUrl(),
         expiresAt
       });
       
-      await auditLog(req.user.id, "data_export", `export_id:${exportRequest.id}`, { exportType, filters }, req);
+      await auditLog(req.user.id, "data_export", `export_id:${exportRequest.id}`, { exportType, format, filters }, req);
       
       res.json({ 
         exportId: exportRequest.id,
         downloadUrl: exportRequest.downloadUrl,
+        format: exportRequest.format,
         expiresAt: exportRequest.expiresAt
       });
     } catch (error) {
@@ -527,6 +1738,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/export/download/:token", requireAuth, async (req, res) => {
+    try {
+      const exportRequest = await storage.getDataExportByDownloadUrl(`/api/export/download/${req.params.token}`);
+      if (!exportRequest) {
+        return res.status(404).json({ message: "Export not found" });
+      }
+
+      const target = `export_id:${exportRequest.id}`;
+      if (exportRequest.requestedBy !== req.user.id) {
+        await auditLog(req.user.id, "access_denied", target, {
+          reason: 'not_export_owner',
+          method: req.method,
+          path: '/api/export/download'
+        }, req);
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!exportRequest.expiresAt || new Date(exportRequest.expiresAt) <= new Date()) {
+        await auditLog(req.user.id, "data_export_download_expired", target, { expiresAt: exportRequest.expiresAt }, req);
+        return res.status(410).json({ message: "This export link has expired. Please request a new export." });
+      }
+
+      const rows = await collectExportRows(req, res, exportRequest);
+      if (!rows) {
+        return;
+      }
+
+      const file = await buildExportFile(rows, exportRequest.exportType, exportRequest.format as DataExportFormat);
+      await storage.updateDataExport(exportRequest.id, { downloadedAt: new Date() });
+      await auditLog(req.user.id, "data_export_download", target, {
+        exportType: exportRequest.exportType,
+        format: exportRequest.format,
+        rowCount: rows.length
+      }, req);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+      res.send(file.body);
+    } catch (error) {
+      console.error("Export download error:", error);
+      res.status(500).json({ message: "Failed to generate export" });
+    }
+  });
+
+  // The REDCap data dictionary on its own, for setting up a project before the first export
+  app.get("/api/export/redcap/data-dictionary", requireAuth, async (req, res) => {
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', 'attachment; filename="redcap_data_dictionary.csv"');
+    res.send(buildRedcapDataDictionary());
+  });
+
+  // Clinical Dashboard - Audit Log (admin only)
+  app.get("/api/audit-logs", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const result = await storage.searchAuditLogs(query);
+      res.json({ ...result, limit: query.limit, offset: query.offset });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid audit log filters" });
+      }
+      console.error('Audit log query error:', error);
+      res.status(500).json({ message: "Failed to fetch audit logs" });
+    }
+  });
+
+  app.get("/api/audit-logs/export", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const { logs, total } = await storage.searchAuditLogs({ ...query, limit: AUDIT_EXPORT_LIMIT, offset: 0 });
+      
+      // Record the export before sending so it appears in the chain it describes
+      const { limit, offset, ...filters } = query;
+      await auditLog(req.user.id, "audit_log_export", undefined, { filters, recordCount: logs.length, total }, req);
+      
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="audit_log_${new Date().toISOString().split('T')[0]}.csv"`);
+      res.send(auditLogsToCsv(logs));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid audit log filters" });
+      }
+      console.error('Audit log export error:', error);
+      res.status(500).json({ message: "Failed to export audit logs" });
+    }
+  });
+
+  app.get("/api/audit-logs/verify", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const verification = verifyAuditChain(await storage.getAuditLogChain());
+      
+      await auditLog(req.user.id, "audit_log_verify", undefined, {
+        valid: verification.valid,
+        checkedEntries: verification.checkedEntries,
+        firstInvalidId: verification.firstInvalidId
+      }, req);
+      
+      res.json(verification);
+    } catch (error) {
+      console.error('Audit log verification error:', error);
+      res.status(500).json({ message: "Failed to verify audit log" });
+    }
+  });
+
   // Assessment Types
   app.get("/api/assessment-types", requireAuth, async (req, res) => {
     try {
@@ -562,9 +1876,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { code } = z.object({ code: z.string().min(6) }).parse(req.body);
       
+      if (rejectIfAccessCodeLocked(req, res, code)) {
+        return;
+      }
+      
       let user = await storage.getUserByCode(code);
       
-      if (!user) {
+      if (user) {
+        recordAccessCodeSuccess(code);
+      } else {
+        // Unknown codes still count as misses so enumeration is throttled
+        await recordAccessCodeFailure(req, code);
+        
         // Create new user with any valid 6-digit code
         user = await storage.createUser({ code });
         
@@ -576,14 +1899,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({ 
         user, 
         isFirstTime: user.isFirstTime !== false,
-        hasInjuryType: !!user.injuryType 
+        hasInjuryType: !!user.injuryType,
+        session: issuePatientSession(user)
       });
     } catch (error) {
       res.status(400).json({ message: "Invalid code format" });
     }
   });
 
-  app.get("/api/users/by-code/:code", async (req, res) => {
+  // Re-establish a patient session for an existing access code (e.g. opening a
+  // bookmarked link). Unlike verify-code this never creates a user.
+  app.post("/api/patients/session", async (req, res) => {
+    try {
+      const { code } = z.object({ code: z.string().min(6) }).parse(req.body);
+      
+      if (rejectIfAccessCodeLocked(req, res, code)) {
+        return;
+      }
+      
+      const user = await storage.getUserByCode(code);
+      
+      if (!user) {
+        await recordAccessCodeFailure(req, code);
+        return res.status(404).json({ message: "Invalid access code" });
+      }
+      
+      recordAccessCodeSuccess(code);
+      res.json({ user, session: issuePatientSession(user) });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid code format" });
+    }
+  });
+
+  app.get("/api/users/by-code/:code", requirePatientCode('code'), async (req, res) => {
     try {
       const { code } = req.params;
       
@@ -591,22 +1939,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid code format" });
       }
       
+      if (rejectIfAccessCodeLocked(req, res, code)) {
+        return;
+      }
+      
       const user = await storage.getUserByCode(code);
       
       if (!user) {
+        await recordAccessCodeFailure(req, code);
         return res.status(404).json({ message: "User not found" });
       }
       
+      recordAccessCodeSuccess(code);
       res.json({ user });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
-  app.patch("/api/users/:id", async (req, res) => {
+  app.patch("/api/users/:id", requirePatientUser('id'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
+      const updates = updateUserProfileSchema.parse(req.body);
       
       if (updates.injuryType) {
         updates.isFirstTime = false;
@@ -617,6 +1971,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      if (updates.injuryType || updates.surgeryDate) {
+        await updateClinicalRecord(id);
+      }
       
       res.json({ user });
     } catch (error) {
@@ -624,6 +1981,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // One-time scale calibration for centimeter measurements such as fingertip-to-palm distance
+  app.post("/api/users/:id/hand-calibration", requirePatientUser('id'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const request = handCalibrationSchema.parse(req.body);
+      const { calibrateFromHandLength, calibrateFromReferenceObject } = await import('../shared/tip-to-palm-calculator.js');
+
+      const calibration = request.method === 'hand_length'
+        ? calibrateFromHandLength(request.handLengthCm, request.landmarks)
+        : calibrateFromReferenceObject(request.referenceLengthCm, request.referenceStart, request.referenceEnd, request.landmarks, request.imageAspect);
+      if (!calibration) {
+        return res.status(422).json({
+          message: request.method === 'hand_length'
+            ? "The hand length does not give a plausible palm size"
+            : "The reference object and hand do not give a plausible palm size; mark the object's ends again with the hand flat beside it"
+        });
+      }
+
+      const user = await storage.updateUser(id, {
+        handLengthCm: calibration.handLengthCm !== null ? String(calibration.handLengthCm) : null,
+        palmLengthCm: String(calibration.palmLengthCm),
+        handCalibrationMethod: calibration.method,
+        handCalibratedAt: new Date(),
+      });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ user, calibration });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid calibration data", errors: error.errors });
+      }
+      console.error('Hand calibration error:', error);
+      res.status(500).json({ message: "Failed to save hand calibration" });
+    }
+  });
+
   // Injury type routes
   app.get("/api/injury-types", async (req, res) => {
     try {
@@ -662,7 +2056,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get user by ID
-  app.get("/api/users/:userId", async (req, res) => {
+  app.get("/api/users/:userId", requirePatientUser('userId'), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const user = await storage.getUserById(userId);
@@ -678,7 +2072,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get user history with proper DASH score mapping
-  app.get("/api/users/:userId/history", async (req, res) => {
+  app.get("/api/users/:userId/history", requirePatientUser('userId'), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       // Get user assessments first, then lookup user by code if needed
@@ -711,6 +2105,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           middleFingerRom: ua.middleFingerRom,
           ringFingerRom: ua.ringFingerRom,
           pinkyFingerRom: ua.pinkyFingerRom,
+          thumbTotalActiveRom: ua.thumbTotalActiveRom,
+          indexTipToPalmCm: ua.indexTipToPalmCm,
+          middleTipToPalmCm: ua.middleTipToPalmCm,
+          ringTipToPalmCm: ua.ringTipToPalmCm,
+          pinkyTipToPalmCm: ua.pinkyTipToPalmCm,
+          compositeFistCm: ua.compositeFistCm,
           kapandjiScore: ua.kapandjiScore,
           maxWristFlexion: ua.maxWristFlexion,
           maxWristExtension: ua.maxWristExtension,
@@ -734,7 +2134,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User assessment routes
-  app.get("/api/users/:userId/assessments", async (req, res) => {
+  app.get("/api/users/:userId/assessments", requirePatientUser('userId'), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const user = await storage.getUserById(userId);
@@ -783,7 +2183,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/users/:userId/assessments/:assessmentId/start", async (req, res) => {
+  // Electronic consent: the current document and whether this patient still has to sign it
+  app.get("/api/users/:userId/consent", requirePatientUser('userId'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const status = getConsentStatus(
+        await storage.getCurrentConsentDocument(),
+        await storage.getConsentRecords(userId)
+      );
+      res.json(status);
+    } catch (error) {
+      console.error("Error fetching consent status:", error);
+      res.status(500).json({ message: "Failed to fetch consent status" });
+    }
+  });
+
+  app.post("/api/users/:userId/consent", requirePatientUser('userId'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const { consentDocumentId, signedName } = consentSignatureSchema.parse(req.body);
+
+      // Only the current version can be signed; a stale form means a newer version was published
+      const current = await storage.getCurrentConsentDocument();
+      if (!current || current.id !== consentDocumentId) {
+        return res.status(409).json({ message: "This consent version is no longer current. Please review the latest version." });
+      }
+
+      const record = await storage.createConsentRecord({
+        userId,
+        consentDocumentId: current.id,
+        version: current.version,
+        signedName,
+        ipAddress: req.ip || null,
+        userAgent: req.get('User-Agent') || null
+      });
+
+      res.status(201).json(getConsentStatus(current, [record]));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid consent data" });
+      }
+      console.error("Error recording consent:", error);
+      res.status(500).json({ message: "Failed to record consent" });
+    }
+  });
+
+  app.post("/api/users/:userId/assessments/:assessmentId/start", requirePatientUser('userId'), requireCurrentConsent('userId'), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const assessmentId = parseInt(req.params.assessmentId);
@@ -808,312 +2253,414 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/users/:userId/assessments/:assessmentId/complete", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const assessmentId = parseInt(req.params.assessmentId);
-      const { 
-        romData, 
-        repetitionData, 
-        qualityScore, 
-        handType,
-        wristFlexionAngle: reqWristFlexionAngle,
-        wristExtensionAngle: reqWristExtensionAngle,
-        maxWristFlexion: reqMaxWristFlexion,
-        maxWristExtension: reqMaxWristExtension,
-        dashScore,
-        responses
-      } = req.body;
-      
-      // Calculate ROM values from repetition data for trigger finger assessments
-      let maxMcpAngle: number | null = null;
-      let maxPipAngle: number | null = null;
-      let maxDipAngle: number | null = null;
-      let totalActiveRom: number | null = null;
-      
-      // Kapandji-specific scoring (dedicated field)
-      let kapandjiScore: number | null = null;
-      
-      // Individual finger ROM calculations
-      let indexFingerRom: number | null = null;
-      let middleFingerRom: number | null = null;
-      let ringFingerRom: number | null = null;
-      let pinkyFingerRom: number | null = null;
-      
-      // Individual joint angles for each finger
-      let middleFingerMcp: number | null = null;
-      let middleFingerPip: number | null = null;
-      let middleFingerDip: number | null = null;
-      
-      let ringFingerMcp: number | null = null;
-      let ringFingerPip: number | null = null;
-      let ringFingerDip: number | null = null;
-      
-      let pinkyFingerMcp: number | null = null;
-      let pinkyFingerPip: number | null = null;
-      let pinkyFingerDip: number | null = null;
-      
-      // Wrist angle calculations - initialize with top-level request values
-      let wristFlexionAngle: number | null = reqWristFlexionAngle || null;
-      let wristExtensionAngle: number | null = reqWristExtensionAngle || null;
-      let maxWristFlexion: number | null = reqMaxWristFlexion || null;
-      let maxWristExtension: number | null = reqMaxWristExtension || null;
-      
-      if (repetitionData && Array.isArray(repetitionData)) {
-        // Collect all motion frames for multi-finger ROM calculation
-        const allMotionFrames: any[] = [];
+  // Scores a finished recording with the calculators and stores it as a new completed
+  // session. Shared by the recording flow and by landmark imports.
+  const completeUserAssessment = async (userId: number, assessmentId: number, body: any, completedAt: Date = new Date()) => {
+    const { 
+      romData, 
+      repetitionData, 
+      qualityScore, 
+      handType,
+      wristFlexionAngle: reqWristFlexionAngle,
+      wristExtensionAngle: reqWristExtensionAngle,
+      maxWristFlexion: reqMaxWristFlexion,
+      maxWristExtension: reqMaxWristExtension,
+      dashScore,
+      responses
+    } = body;
+    
+    // Calculate ROM values from repetition data for trigger finger assessments
+    let maxMcpAngle: number | null = null;
+    let maxPipAngle: number | null = null;
+    let maxDipAngle: number | null = null;
+    let totalActiveRom: number | null = null;
+    
+    // Kapandji-specific scoring (dedicated field)
+    let kapandjiScore: number | null = null;
+    
+    // Individual finger ROM calculations
+    let indexFingerRom: number | null = null;
+    let middleFingerRom: number | null = null;
+    let ringFingerRom: number | null = null;
+    let pinkyFingerRom: number | null = null;
+    
+    // Individual joint angles for each finger
+    let middleFingerMcp: number | null = null;
+    let middleFingerPip: number | null = null;
+    let middleFingerDip: number | null = null;
+    
+    let ringFingerMcp: number | null = null;
+    let ringFingerPip: number | null = null;
+    let ringFingerDip: number | null = null;
+    
+    let pinkyFingerMcp: number | null = null;
+    let pinkyFingerPip: number | null = null;
+    let pinkyFingerDip: number | null = null;
+    
+    // Thumb joint angles and thumb TAM
+    let thumbMpFlexion: number | null = null;
+    let thumbIpFlexion: number | null = null;
+    let thumbCmcRadialAbduction: number | null = null;
+    let thumbCmcPalmarAbduction: number | null = null;
+    let thumbTotalActiveRom: number | null = null;
+    
+    // Wrist angle calculations - initialize with top-level request values
+    let wristFlexionAngle: number | null = reqWristFlexionAngle || null;
+    let wristExtensionAngle: number | null = reqWristExtensionAngle || null;
+    let maxWristFlexion: number | null = reqMaxWristFlexion || null;
+    let maxWristExtension: number | null = reqMaxWristExtension || null;
+    
+    // Forearm rotation - measured from the motion frames for pronation/supination assessments
+    let forearmPronationAngle: number | null = null;
+    let forearmSupinationAngle: number | null = null;
+    
+    // Fingertip-to-palm distances in cm - TAM recordings of patients with a hand calibration
+    let indexTipToPalmCm: number | null = null;
+    let middleTipToPalmCm: number | null = null;
+    let ringTipToPalmCm: number | null = null;
+    let pinkyTipToPalmCm: number | null = null;
+    let compositeFistCm: number | null = null;
+    
+    // Per-joint flexion and extension lag behind each finger's TAM, for fingers that passed validation
+    let fingerMotionRanges: Record<string, any> | null = null;
+    
+    if (repetitionData && Array.isArray(repetitionData)) {
+      // Collect all motion frames for multi-finger ROM calculation
+      const allMotionFrames: any[] = [];
+      
+      repetitionData.forEach((rep: any) => {
+        if (rep.romData) {
+          // Keep existing index finger calculations for backward compatibility
+          maxMcpAngle = Math.max(maxMcpAngle || 0, rep.romData.mcpAngle || 0);
+          maxPipAngle = Math.max(maxPipAngle || 0, rep.romData.pipAngle || 0);
+          maxDipAngle = Math.max(maxDipAngle || 0, rep.romData.dipAngle || 0);
+          totalActiveRom = Math.max(totalActiveRom || 0, rep.romData.totalActiveRom || 0);
+        }
         
-        repetitionData.forEach((rep: any) => {
-          if (rep.romData) {
-            // Keep existing index finger calculations for backward compatibility
-            maxMcpAngle = Math.max(maxMcpAngle || 0, rep.romData.mcpAngle || 0);
-            maxPipAngle = Math.max(maxPipAngle || 0, rep.romData.pipAngle || 0);
-            maxDipAngle = Math.max(maxDipAngle || 0, rep.romData.dipAngle || 0);
-            totalActiveRom = Math.max(totalActiveRom || 0, rep.romData.totalActiveRom || 0);
-          }
+        // Extract wrist angle data from repetition data
+        console.log(`Processing repetition data for wrist angles:`, {
+          wristFlexionAngle: rep.wristFlexionAngle,
+          wristExtensionAngle: rep.wristExtensionAngle,
+          maxWristFlexion: rep.maxWristFlexion,
+          maxWristExtension: rep.maxWristExtension
+        });
+        
+        if (rep.wristFlexionAngle !== undefined) {
+          wristFlexionAngle = Math.max(wristFlexionAngle || 0, rep.wristFlexionAngle);
+          console.log(`Updated wristFlexionAngle: ${wristFlexionAngle}`);
+        }
+        if (rep.wristExtensionAngle !== undefined) {
+          wristExtensionAngle = Math.max(wristExtensionAngle || 0, rep.wristExtensionAngle);
+          console.log(`Updated wristExtensionAngle: ${wristExtensionAngle}`);
+        }
+        if (rep.maxWristFlexion !== undefined) {
+          maxWristFlexion = Math.max(maxWristFlexion || 0, rep.maxWristFlexion);
+          console.log(`Updated maxWristFlexion: ${maxWristFlexion}`);
+        }
+        if (rep.maxWristExtension !== undefined) {
+          maxWristExtension = Math.max(maxWristExtension || 0, rep.maxWristExtension);
+          console.log(`Updated maxWristExtension: ${maxWristExtension}`);
+        }
+        
+        // Collect motion data for all finger calculations and extract wrist angle data
+        if (rep.motionData && Array.isArray(rep.motionData)) {
+          allMotionFrames.push(...rep.motionData);
           
-          // Extract wrist angle data from repetition data
-          console.log(`Processing repetition data for wrist angles:`, {
-            wristFlexionAngle: rep.wristFlexionAngle,
-            wristExtensionAngle: rep.wristExtensionAngle,
-            maxWristFlexion: rep.maxWristFlexion,
-            maxWristExtension: rep.maxWristExtension
+          // Extract wrist angles from motion frames for wrist assessments
+          rep.motionData.forEach((frame: any) => {
+            if (frame.wristAngles) {
+              const frameWristAngles = frame.wristAngles;
+              // Remove the > 0 filter to capture all calculated angles, including small ones
+              if (frameWristAngles.wristFlexionAngle !== undefined && frameWristAngles.wristFlexionAngle !== null) {
+                wristFlexionAngle = Math.max(wristFlexionAngle || 0, frameWristAngles.wristFlexionAngle);
+              }
+              if (frameWristAngles.wristExtensionAngle !== undefined && frameWristAngles.wristExtensionAngle !== null) {
+                wristExtensionAngle = Math.max(wristExtensionAngle || 0, frameWristAngles.wristExtensionAngle);
+              }
+            }
           });
+        }
+      });
+      
+      // Update max wrist values based on extracted data - remove artificial > 0 filtering
+      if (wristFlexionAngle !== null && wristFlexionAngle !== undefined) {
+        maxWristFlexion = Math.max(maxWristFlexion || 0, wristFlexionAngle);
+        console.log(`Final maxWristFlexion: ${maxWristFlexion}° (from recorded angles)`);
+      }
+      if (wristExtensionAngle !== null && wristExtensionAngle !== undefined) {
+        maxWristExtension = Math.max(maxWristExtension || 0, wristExtensionAngle);
+        console.log(`Final maxWristExtension: ${maxWristExtension}° (from recorded angles)`);
+      }
+      
+      // Calculate max ROM for all fingers if motion data exists
+      if (allMotionFrames.length > 0) {
+        try {
+          // Get the assessment to determine which calculation to use
+          const assessment = await storage.getAssessment(assessmentId);
           
-          if (rep.wristFlexionAngle !== undefined) {
-            wristFlexionAngle = Math.max(wristFlexionAngle || 0, rep.wristFlexionAngle);
-            console.log(`Updated wristFlexionAngle: ${wristFlexionAngle}`);
-          }
-          if (rep.wristExtensionAngle !== undefined) {
-            wristExtensionAngle = Math.max(wristExtensionAngle || 0, rep.wristExtensionAngle);
-            console.log(`Updated wristExtensionAngle: ${wristExtensionAngle}`);
-          }
-          if (rep.maxWristFlexion !== undefined) {
-            maxWristFlexion = Math.max(maxWristFlexion || 0, rep.maxWristFlexion);
-            console.log(`Updated maxWristFlexion: ${maxWristFlexion}`);
-          }
-          if (rep.maxWristExtension !== undefined) {
-            maxWristExtension = Math.max(maxWristExtension || 0, rep.maxWristExtension);
-            console.log(`Updated maxWristExtension: ${maxWristExtension}`);
-          }
-          
-          // Collect motion data for all finger calculations and extract wrist angle data
-          if (rep.motionData && Array.isArray(rep.motionData)) {
-            allMotionFrames.push(...rep.motionData);
+          if (assessment?.name === "Kapandji Score") {
+            // Use Kapandji-specific scoring for thumb opposition
+            const kapandjiModule = await import('../shared/kapandji-calculator.js');
+            const { calculateMaxKapandjiScore } = kapandjiModule;
+            
+            const formattedFrames = allMotionFrames.map(frame => ({
+              landmarks: frame.landmarks || frame,
+              timestamp: frame.timestamp
+            }));
+            
+            console.log(`Calculating Kapandji score for ${formattedFrames.length} motion frames`);
+            const kapandjiResult = calculateMaxKapandjiScore(formattedFrames, await loadKapandjiOptions());
+            
+            console.log('Kapandji score result:', JSON.stringify(kapandjiResult, null, 2));
+            
+            // Store Kapandji score in CORRECT dedicated field
+            kapandjiScore = kapandjiResult.maxScore;
+            totalActiveRom = kapandjiResult.maxScore; // Keep for backward compatibility display
+            
+            // Store details in individual finger fields for display
+            indexFingerRom = kapandjiResult.details.indexTip ? 3 : (kapandjiResult.details.indexMiddlePhalanx ? 2 : (kapandjiResult.details.indexProximalPhalanx ? 1 : 0));
+            middleFingerRom = kapandjiResult.details.middleTip ? 4 : 0;
+            ringFingerRom = kapandjiResult.details.ringTip ? 5 : 0;
+            pinkyFingerRom = kapandjiResult.details.littleTip ? 6 : 0;
+            
+            console.log('Kapandji assessment completed with score:', kapandjiScore, '(saved to kapandjiScore field)');
+            
+          } else if (/pronation|supination/i.test(assessment?.name || '')) {
+            const { calculateForearmRotationResults } = await import('../shared/forearm-rotation-calculator.js');
+            const rotation = calculateForearmRotationResults({ repetitionData, handType });
+            
+            if (rotation.frameCount > 0) {
+              forearmPronationAngle = rotation.maxPronation;
+              forearmSupinationAngle = rotation.maxSupination;
+            }
+            console.log(`Forearm rotation calculated from ${rotation.frameCount} frames:`, {
+              pronation: forearmPronationAngle,
+              supination: forearmSupinationAngle
+            });
+            
+          } else {
+            // Use standard ROM calculation for other assessments
+            const romCalculatorModule = await import('../shared/rom-calculator.js');
+            const { calculateAllFingersMaxROM, calculateThumbMaxROM } = romCalculatorModule;
+            
+            // Ensure motion frames have the correct structure
+            const formattedFrames = allMotionFrames.map(frame => ({
+              landmarks: frame.landmarks || frame
+            }));
+            
+            console.log(`Calculating ROM for ${formattedFrames.length} motion frames`);
+            const allFingersROM = calculateAllFingersMaxROM(formattedFrames);
+            
+            console.log('Raw allFingersROM object:', JSON.stringify(allFingersROM, null, 2));
+            
+            // Check temporal validation quality
+            const temporalQuality = allFingersROM.temporalQuality || {};
+            const occlusionRates = allFingersROM.occlusionRates || {};
+            console.log('Temporal validation quality scores:', temporalQuality);
             
-            // Extract wrist angles from motion frames for wrist assessments
-            rep.motionData.forEach((frame: any) => {
-              if (frame.wristAngles) {
-                const frameWristAngles = frame.wristAngles;
-                // Remove the > 0 filter to capture all calculated angles, including small ones
-                if (frameWristAngles.wristFlexionAngle !== undefined && frameWristAngles.wristFlexionAngle !== null) {
-                  wristFlexionAngle = Math.max(wristFlexionAngle || 0, frameWristAngles.wristFlexionAngle);
-                }
-                if (frameWristAngles.wristExtensionAngle !== undefined && frameWristAngles.wristExtensionAngle !== null) {
-                  wristExtensionAngle = Math.max(wristExtensionAngle || 0, frameWristAngles.wristExtensionAngle);
-                }
+            // Apply temporal quality thresholds for TAM assessments
+            const TEMPORAL_QUALITY_THRESHOLD = 0.7; // 70% temporal consistency required
+            
+            indexFingerRom = (temporalQuality.index >= TEMPORAL_QUALITY_THRESHOLD) 
+              ? allFingersROM.index?.totalActiveRom || null
+              : null;
+            middleFingerRom = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.middle?.totalActiveRom || null
+              : null;
+            ringFingerRom = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.ring?.totalActiveRom || null
+              : null;
+            pinkyFingerRom = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.pinky?.totalActiveRom || null
+              : null;
+            
+            // Log temporal validation results
+            const motionRanges: Record<string, any> = {};
+            ['index', 'middle', 'ring', 'pinky'].forEach(finger => {
+              const quality = temporalQuality[finger] || 0;
+              const status = quality >= TEMPORAL_QUALITY_THRESHOLD ? 'ACCEPTED' : 'REJECTED';
+              console.log(`${finger.toUpperCase()} finger temporal validation: ${(quality * 100).toFixed(1)}% - ${status} (occluded in ${((occlusionRates[finger] || 0) * 100).toFixed(1)}% of frames)`);
+              if (quality >= TEMPORAL_QUALITY_THRESHOLD && allFingersROM.motionRange?.[finger]) {
+                motionRanges[finger] = allFingersROM.motionRange[finger];
               }
             });
-          }
-        });
-        
-        // Update max wrist values based on extracted data - remove artificial > 0 filtering
-        if (wristFlexionAngle !== null && wristFlexionAngle !== undefined) {
-          maxWristFlexion = Math.max(maxWristFlexion || 0, wristFlexionAngle);
-          console.log(`Final maxWristFlexion: ${maxWristFlexion}° (from recorded angles)`);
-        }
-        if (wristExtensionAngle !== null && wristExtensionAngle !== undefined) {
-          maxWristExtension = Math.max(maxWristExtension || 0, wristExtensionAngle);
-          console.log(`Final maxWristExtension: ${maxWristExtension}° (from recorded angles)`);
-        }
-        
-        // Calculate max ROM for all fingers if motion data exists
-        if (allMotionFrames.length > 0) {
-          try {
-            // Get the assessment to determine which calculation to use
-            const assessment = await storage.getAssessment(assessmentId);
+            fingerMotionRanges = Object.keys(motionRanges).length > 0 ? motionRanges : null;
+            
+            // The index finger's TAM is the headline TAM; replace the recorder's flexion-only
+            // values with the ones that subtract extension lag
+            if (temporalQuality.index >= TEMPORAL_QUALITY_THRESHOLD && allFingersROM.index) {
+              maxMcpAngle = allFingersROM.index.mcpAngle;
+              maxPipAngle = allFingersROM.index.pipAngle;
+              maxDipAngle = allFingersROM.index.dipAngle;
+              totalActiveRom = allFingersROM.index.totalActiveRom;
+            }
+            
+            // Store individual joint angles for detailed breakdown (only if temporally valid)
+            middleFingerMcp = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.middle?.mcpAngle || null
+              : null;
+            middleFingerPip = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.middle?.pipAngle || null
+              : null;
+            middleFingerDip = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.middle?.dipAngle || null
+              : null;
+            
+            ringFingerMcp = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.ring?.mcpAngle || null
+              : null;
+            ringFingerPip = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.ring?.pipAngle || null
+              : null;
+            ringFingerDip = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.ring?.dipAngle || null
+              : null;
+            
+            pinkyFingerMcp = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.pinky?.mcpAngle || null
+              : null;
+            pinkyFingerPip = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.pinky?.pipAngle || null
+              : null;
+            pinkyFingerDip = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
+              ? allFingersROM.pinky?.dipAngle || null
+              : null;
+            
+            console.log('Multi-finger ROM calculated with temporal validation:', {
+              index: indexFingerRom,
+              middle: middleFingerRom,
+              ring: ringFingerRom,
+              pinky: pinkyFingerRom,
+              temporalQuality: temporalQuality
+            });
             
-            if (assessment?.name === "Kapandji Score") {
-              // Use Kapandji-specific scoring for thumb opposition
-              const kapandjiModule = await import('../shared/kapandji-calculator.js');
-              const { calculateMaxKapandjiScore } = kapandjiModule;
-              
-              const formattedFrames = allMotionFrames.map(frame => ({
-                landmarks: frame.landmarks || frame
-              }));
-              
-              console.log(`Calculating Kapandji score for ${formattedFrames.length} motion frames`);
-              const kapandjiResult = calculateMaxKapandjiScore(formattedFrames);
-              
-              console.log('Kapandji score result:', JSON.stringify(kapandjiResult, null, 2));
-              
-              // Store Kapandji score in CORRECT dedicated field
-              kapandjiScore = kapandjiResult.maxScore;
-              totalActiveRom = kapandjiResult.maxScore; // Keep for backward compatibility display
-              
-              // Store details in individual finger fields for display
-              indexFingerRom = kapandjiResult.details.indexTip ? 3 : (kapandjiResult.details.indexMiddlePhalanx ? 2 : (kapandjiResult.details.indexProximalPhalanx ? 1 : 0));
-              middleFingerRom = kapandjiResult.details.middleTip ? 4 : 0;
-              ringFingerRom = kapandjiResult.details.ringTip ? 5 : 0;
-              pinkyFingerRom = kapandjiResult.details.littleTip ? 6 : 0;
-              
-              console.log('Kapandji assessment completed with score:', kapandjiScore, '(saved to kapandjiScore field)');
-              
-            } else {
-              // Use standard ROM calculation for other assessments
-              const romCalculatorModule = await import('../shared/rom-calculator.js');
-              const { calculateAllFingersMaxROM } = romCalculatorModule;
-              
-              // Ensure motion frames have the correct structure
-              const formattedFrames = allMotionFrames.map(frame => ({
-                landmarks: frame.landmarks || frame
-              }));
-              
-              console.log(`Calculating ROM for ${formattedFrames.length} motion frames`);
-              const allFingersROM = calculateAllFingersMaxROM(formattedFrames);
-              
-              console.log('Raw allFingersROM object:', JSON.stringify(allFingersROM, null, 2));
-              
-              // Check temporal validation quality
-              const temporalQuality = allFingersROM.temporalQuality || {};
-              console.log('Temporal validation quality scores:', temporalQuality);
-              
-              // Apply temporal quality thresholds for TAM assessments
-              const TEMPORAL_QUALITY_THRESHOLD = 0.7; // 70% temporal consistency required
-              
-              indexFingerRom = (temporalQuality.index >= TEMPORAL_QUALITY_THRESHOLD) 
-                ? allFingersROM.index?.totalActiveRom || null
-                : null;
-              middleFingerRom = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.middle?.totalActiveRom || null
-                : null;
-              ringFingerRom = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.ring?.totalActiveRom || null
-                : null;
-              pinkyFingerRom = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.pinky?.totalActiveRom || null
-                : null;
-              
-              // Log temporal validation results
-              ['index', 'middle', 'ring', 'pinky'].forEach(finger => {
-                const quality = temporalQuality[finger] || 0;
-                const status = quality >= TEMPORAL_QUALITY_THRESHOLD ? 'ACCEPTED' : 'REJECTED';
-                console.log(`${finger.toUpperCase()} finger temporal validation: ${(quality * 100).toFixed(1)}% - ${status}`);
-              });
-              
-              // Store individual joint angles for detailed breakdown (only if temporally valid)
-              middleFingerMcp = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.middle?.mcpAngle || null
-                : null;
-              middleFingerPip = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.middle?.pipAngle || null
-                : null;
-              middleFingerDip = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.middle?.dipAngle || null
-                : null;
-              
-              ringFingerMcp = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.ring?.mcpAngle || null
-                : null;
-              ringFingerPip = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.ring?.pipAngle || null
-                : null;
-              ringFingerDip = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.ring?.dipAngle || null
-                : null;
-              
-              pinkyFingerMcp = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.pinky?.mcpAngle || null
-                : null;
-              pinkyFingerPip = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.pinky?.pipAngle || null
-                : null;
-              pinkyFingerDip = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.pinky?.dipAngle || null
-                : null;
-              
-              console.log('Multi-finger ROM calculated with temporal validation:', {
-                index: indexFingerRom,
-                middle: middleFingerRom,
-                ring: ringFingerRom,
-                pinky: pinkyFingerRom,
-                temporalQuality: temporalQuality
-              });
-              
-              console.log('Individual joint angles calculated:', {
-                middle: { mcp: middleFingerMcp, pip: middleFingerPip, dip: middleFingerDip },
-                ring: { mcp: ringFingerMcp, pip: ringFingerPip, dip: ringFingerDip },
-                pinky: { mcp: pinkyFingerMcp, pip: pinkyFingerPip, dip: pinkyFingerDip }
-              });
+            console.log('Individual joint angles calculated:', {
+              middle: { mcp: middleFingerMcp, pip: middleFingerPip, dip: middleFingerDip },
+              ring: { mcp: ringFingerMcp, pip: ringFingerPip, dip: ringFingerDip },
+              pinky: { mcp: pinkyFingerMcp, pip: pinkyFingerPip, dip: pinkyFingerDip }
+            });
+            
+            // Thumb ROM (only if temporally valid)
+            const thumbROM = calculateThumbMaxROM(formattedFrames);
+            if (thumbROM.temporalQuality >= TEMPORAL_QUALITY_THRESHOLD) {
+              thumbMpFlexion = thumbROM.thumb.mpAngle;
+              thumbIpFlexion = thumbROM.thumb.ipAngle;
+              thumbCmcRadialAbduction = thumbROM.thumb.cmcRadialAbduction;
+              thumbCmcPalmarAbduction = thumbROM.thumb.cmcPalmarAbduction;
+              thumbTotalActiveRom = thumbROM.thumb.totalActiveRom;
+            }
+            console.log(`THUMB temporal validation: ${(thumbROM.temporalQuality * 100).toFixed(1)}% - ${thumbROM.temporalQuality >= TEMPORAL_QUALITY_THRESHOLD ? 'ACCEPTED' : 'REJECTED'}`);
+            
+            // Composite fist in centimeters, scaled by the patient's calibrated palm length
+            const patientUser = await storage.getUser(userId);
+            const palmLengthCm = patientUser?.palmLengthCm ? parseFloat(patientUser.palmLengthCm) : null;
+            if (palmLengthCm && /\bTAM\b|total active motion/i.test(assessment?.name || '')) {
+              const { calculateTipToPalmResults } = await import('../shared/tip-to-palm-calculator.js');
+              const tipToPalm = calculateTipToPalmResults(formattedFrames, palmLengthCm);
+              indexTipToPalmCm = tipToPalm.distances.index;
+              middleTipToPalmCm = tipToPalm.distances.middle;
+              ringTipToPalmCm = tipToPalm.distances.ring;
+              pinkyTipToPalmCm = tipToPalm.distances.pinky;
+              compositeFistCm = tipToPalm.compositeFistCm;
+              console.log(`Fingertip-to-palm distances from ${tipToPalm.frameCount} frames (palm ${palmLengthCm} cm):`, tipToPalm.distances, `composite fist: ${compositeFistCm} cm`);
             }
-          } catch (error) {
-            console.log('ROM calculation for all fingers failed:', error);
-            console.log('Using index finger only');
           }
+        } catch (error) {
+          console.log('ROM calculation for all fingers failed:', error);
+          console.log('Using index finger only');
         }
       }
-      
-      // Find existing user assessments to determine session number
-      const existingAssessments = await storage.getUserAssessments(userId);
-      const sessionCount = existingAssessments.filter(ua => ua.assessmentId === assessmentId).length;
-      const sessionNumber = sessionCount + 1;
-      
-      // Create new assessment (don't update existing ones - allow multiple sessions)
-      const userAssessment = await storage.createUserAssessment({
-        userId,
-        assessmentId,
-        sessionNumber,
-        isCompleted: true,
-        completedAt: new Date(),
-        romData,
-        repetitionData,
-        qualityScore,
-        maxMcpAngle: maxMcpAngle !== null ? String(maxMcpAngle) : null,
-        maxPipAngle: maxPipAngle !== null ? String(maxPipAngle) : null,
-        maxDipAngle: maxDipAngle !== null ? String(maxDipAngle) : null,
-        totalActiveRom: totalActiveRom !== null ? String(totalActiveRom) : null,
-        kapandjiScore: kapandjiScore !== null ? String(kapandjiScore) : null,
-        indexFingerRom: indexFingerRom !== null ? String(indexFingerRom) : null,
-        middleFingerRom: middleFingerRom !== null ? String(middleFingerRom) : null,
-        ringFingerRom: ringFingerRom !== null ? String(ringFingerRom) : null,
-        pinkyFingerRom: pinkyFingerRom !== null ? String(pinkyFingerRom) : null,
-        
-        // Individual joint angles for detailed breakdown
-        middleFingerMcp: middleFingerMcp !== null ? String(middleFingerMcp) : null,
-        middleFingerPip: middleFingerPip !== null ? String(middleFingerPip) : null,
-        middleFingerDip: middleFingerDip !== null ? String(middleFingerDip) : null,
-        
-        ringFingerMcp: ringFingerMcp !== null ? String(ringFingerMcp) : null,
-        ringFingerPip: ringFingerPip !== null ? String(ringFingerPip) : null,
-        ringFingerDip: ringFingerDip !== null ? String(ringFingerDip) : null,
-        
-        pinkyFingerMcp: pinkyFingerMcp !== null ? String(pinkyFingerMcp) : null,
-        pinkyFingerPip: pinkyFingerPip !== null ? String(pinkyFingerPip) : null,
-        pinkyFingerDip: pinkyFingerDip !== null ? String(pinkyFingerDip) : null,
-        handType: handType || null,
-        
-        // Wrist angle data
-        wristFlexionAngle: wristFlexionAngle !== null ? String(wristFlexionAngle) : null,
-        wristExtensionAngle: wristExtensionAngle !== null ? String(wristExtensionAngle) : null,
-        maxWristFlexion: maxWristFlexion !== null ? String(maxWristFlexion) : null,
-        maxWristExtension: maxWristExtension !== null ? String(maxWristExtension) : null,
-        
-        // Wrist deviation data
-        maxRadialDeviation: req.body.maxRadialDeviation ? String(req.body.maxRadialDeviation) : null,
-        maxUlnarDeviation: req.body.maxUlnarDeviation ? String(req.body.maxUlnarDeviation) : null,
-        
-        // DASH assessment data
-        dashScore: dashScore !== null ? dashScore : null,
-        responses: responses ? JSON.stringify(responses) : null
-      });
-      
+    }
+    
+    // Find existing user assessments to determine session number
+    const existingAssessments = await storage.getUserAssessments(userId);
+    const sessionCount = existingAssessments.filter(ua => ua.assessmentId === assessmentId).length;
+    const sessionNumber = sessionCount + 1;
+    
+    // Create new assessment (don't update existing ones - allow multiple sessions)
+    const userAssessment = await storage.createUserAssessment({
+      userId,
+      assessmentId,
+      sessionNumber,
+      isCompleted: true,
+      completedAt,
+      romData,
+      repetitionData,
+      qualityScore,
+      maxMcpAngle: maxMcpAngle !== null ? String(maxMcpAngle) : null,
+      maxPipAngle: maxPipAngle !== null ? String(maxPipAngle) : null,
+      maxDipAngle: maxDipAngle !== null ? String(maxDipAngle) : null,
+      totalActiveRom: totalActiveRom !== null ? String(totalActiveRom) : null,
+      kapandjiScore: kapandjiScore !== null ? String(kapandjiScore) : null,
+      indexFingerRom: indexFingerRom !== null ? String(indexFingerRom) : null,
+      middleFingerRom: middleFingerRom !== null ? String(middleFingerRom) : null,
+      ringFingerRom: ringFingerRom !== null ? String(ringFingerRom) : null,
+      pinkyFingerRom: pinkyFingerRom !== null ? String(pinkyFingerRom) : null,
+      
+      // Individual joint angles for detailed breakdown
+      middleFingerMcp: middleFingerMcp !== null ? String(middleFingerMcp) : null,
+      middleFingerPip: middleFingerPip !== null ? String(middleFingerPip) : null,
+      middleFingerDip: middleFingerDip !== null ? String(middleFingerDip) : null,
+      
+      ringFingerMcp: ringFingerMcp !== null ? String(ringFingerMcp) : null,
+      ringFingerPip: ringFingerPip !== null ? String(ringFingerPip) : null,
+      ringFingerDip: ringFingerDip !== null ? String(ringFingerDip) : null,
+      
+      pinkyFingerMcp: pinkyFingerMcp !== null ? String(pinkyFingerMcp) : null,
+      pinkyFingerPip: pinkyFingerPip !== null ? String(pinkyFingerPip) : null,
+      pinkyFingerDip: pinkyFingerDip !== null ? String(pinkyFingerDip) : null,
+      
+      thumbMpFlexion: thumbMpFlexion !== null ? String(thumbMpFlexion) : null,
+      thumbIpFlexion: thumbIpFlexion !== null ? String(thumbIpFlexion) : null,
+      thumbCmcRadialAbduction: thumbCmcRadialAbduction !== null ? String(thumbCmcRadialAbduction) : null,
+      thumbCmcPalmarAbduction: thumbCmcPalmarAbduction !== null ? String(thumbCmcPalmarAbduction) : null,
+      thumbTotalActiveRom: thumbTotalActiveRom !== null ? String(thumbTotalActiveRom) : null,
+      handType: handType || null,
+      
+      // Wrist angle data
+      wristFlexionAngle: wristFlexionAngle !== null ? String(wristFlexionAngle) : null,
+      wristExtensionAngle: wristExtensionAngle !== null ? String(wristExtensionAngle) : null,
+      maxWristFlexion: maxWristFlexion !== null ? String(maxWristFlexion) : null,
+      maxWristExtension: maxWristExtension !== null ? String(maxWristExtension) : null,
+      
+      // Forearm rotation data
+      forearmPronationAngle: forearmPronationAngle !== null ? String(forearmPronationAngle) : null,
+      forearmSupinationAngle: forearmSupinationAngle !== null ? String(forearmSupinationAngle) : null,
+      
+      // Fingertip-to-palm distance data
+      indexTipToPalmCm: indexTipToPalmCm !== null ? String(indexTipToPalmCm) : null,
+      middleTipToPalmCm: middleTipToPalmCm !== null ? String(middleTipToPalmCm) : null,
+      ringTipToPalmCm: ringTipToPalmCm !== null ? String(ringTipToPalmCm) : null,
+      pinkyTipToPalmCm: pinkyTipToPalmCm !== null ? String(pinkyTipToPalmCm) : null,
+      compositeFistCm: compositeFistCm !== null ? String(compositeFistCm) : null,
+      
+      // Extension lag breakdown behind the finger TAMs
+      fingerMotionRanges,
+      
+      // Wrist deviation data
+      maxRadialDeviation: body.maxRadialDeviation ? String(body.maxRadialDeviation) : null,
+      maxUlnarDeviation: body.maxUlnarDeviation ? String(body.maxUlnarDeviation) : null,
+      
+      // DASH assessment data
+      dashScore: dashScore !== null ? dashScore : null,
+      responses: responses ? JSON.stringify(responses) : null
+    });
+    await updateClinicalRecord(userId, userAssessment);
+    return userAssessment;
+  };
+
+  app.post("/api/users/:userId/assessments/:assessmentId/complete", requirePatientUser('userId'), requireCurrentConsent('userId'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const assessmentId = parseInt(req.params.assessmentId);
+      const userAssessment = await completeUserAssessment(userId, assessmentId, req.body);
       res.json({ userAssessment });
     } catch (error) {
       res.status(400).json({ message: "Failed to complete assessment" });
     }
   });
 
-  app.get("/api/users/:userId/progress", async (req, res) => {
+  app.get("/api/users/:userId/progress", requirePatientUser('userId'), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const userAssessments = await storage.getUserAssessments(userId);
@@ -1132,7 +2679,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/users/:userId/history", async (req, res) => {
+  app.get("/api/users/:userId/history", requirePatientUser('userId'), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const userAssessments = await storage.getUserAssessments(userId);
@@ -1160,6 +2707,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             middleFingerRom: ua.middleFingerRom,
             ringFingerRom: ua.ringFingerRom,
             pinkyFingerRom: ua.pinkyFingerRom,
+            thumbTotalActiveRom: ua.thumbTotalActiveRom,
+            indexTipToPalmCm: ua.indexTipToPalmCm,
+            middleTipToPalmCm: ua.middleTipToPalmCm,
+            ringTipToPalmCm: ua.ringTipToPalmCm,
+            pinkyTipToPalmCm: ua.pinkyTipToPalmCm,
+            compositeFistCm: ua.compositeFistCm,
             // Wrist assessment fields
             maxWristFlexion: ua.maxWristFlexion,
             maxWristExtension: ua.maxWristExtension,
@@ -1183,7 +2736,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/user-assessments/:userAssessmentId/motion-data", async (req, res) => {
+  app.get("/api/user-assessments/:userAssessmentId/motion-data", requirePatientUserAssessment('userAssessmentId'), async (req, res) => {
     try {
       const userAssessmentId = parseInt(req.params.userAssessmentId);
       
@@ -1216,14 +2769,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      res.json({ motionData });
+      res.json({ motionData, kapandjiOptions: await loadKapandjiOptions() });
     } catch (error) {
       res.status(400).json({ message: "Failed to retrieve motion data" });
     }
   });
 
+  // Per-frame landmarks as CSV, or columnar JSON Lines with ?format=jsonl
+  app.get("/api/user-assessments/:userAssessmentId/landmarks", requirePatientUserAssessment('userAssessmentId'), async (req, res) => {
+    try {
+      const userAssessmentId = parseInt(req.params.userAssessmentId);
+      const format: LandmarkFormat = req.query.format === 'jsonl' ? 'jsonl' : 'csv';
+      const userAssessment = await storage.getUserAssessmentById(userAssessmentId);
+      const groups = landmarkFrameGroups(userAssessment?.repetitionData);
+      if (groups.length === 0) {
+        return res.status(404).json({ message: "Motion data not found" });
+      }
+
+      await auditStaffAction(req, "landmark_export", `user_assessment_id:${userAssessmentId}`, { format, frames: groups.length });
+      res.setHeader('Content-Type', LANDMARK_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="assessment_${userAssessmentId}_landmarks.${format}"`);
+      res.send(format === 'csv' ? landmarksToCsv(groups) : landmarksToJsonl(groups));
+    } catch (error) {
+      console.error("Landmark export error:", error);
+      res.status(500).json({ message: "Failed to export landmarks" });
+    }
+  });
+
+  // Imports an externally captured recording in the landmark export format (text/csv or
+  // application/x-ndjson body) and scores it as a completed session of the assessment.
+  // ?recordedAt= sets the completion time; ?handType= overrides the file's handedness.
+  // Staff only, so patients cannot add recordings they did not capture in the app.
+  app.post("/api/users/:userId/assessments/:assessmentId/import",
+    requirePatientUser('userId'),
+    requireStaffSession,
+    requireCurrentConsent('userId'),
+    express.text({ type: Object.values(LANDMARK_CONTENT_TYPES), limit: '50mb' }),
+    async (req, res) => {
+      try {
+        const userId = parseInt(req.params.userId);
+        const assessmentId = parseInt(req.params.assessmentId);
+        const format: LandmarkFormat | null = req.is(LANDMARK_CONTENT_TYPES.csv)
+          ? 'csv'
+          : req.is(LANDMARK_CONTENT_TYPES.jsonl) ? 'jsonl' : null;
+        if (!format || typeof req.body !== 'string') {
+          return res.status(415).json({ message: `Upload landmarks as ${LANDMARK_CONTENT_TYPES.csv} or ${LANDMARK_CONTENT_TYPES.jsonl}` });
+        }
+
+        const assessment = await storage.getAssessment(assessmentId);
+        if (!assessment) {
+          return res.status(404).json({ message: 'Assessment not found' });
+        }
+        const recordedAt = req.query.recordedAt ? new Date(req.query.recordedAt as string) : new Date();
+        if (isNaN(recordedAt.getTime())) {
+          return res.status(400).json({ message: "recordedAt must be an ISO date" });
+        }
+
+        const recording = parseLandmarkFile(req.body, format);
+        const userAssessment = await completeUserAssessment(userId, assessmentId, {
+          repetitionData: recording.repetitionData,
+          romData: recording.repetitionData[0]?.romData,
+          handType: (req.query.handType as string) || recording.handType
+        }, recordedAt);
+
+        await auditStaffAction(req, "landmark_import", `user_assessment_id:${userAssessment.id}`, {
+          userId,
+          assessmentId,
+          format,
+          frames: recording.frameCount
+        });
+        res.json({ userAssessment, frameCount: recording.frameCount });
+      } catch (error) {
+        if (error instanceof LandmarkFormatError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Landmark import error:", error);
+        res.status(500).json({ message: "Failed to import landmarks" });
+      }
+    });
+
   // Get assessment history for a user
-  app.get("/api/users/:userId/assessment-history", async (req, res) => {
+  app.get("/api/users/:userId/assessment-history", requirePatientUser('userId'), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const userAssessments = await storage.getUserAssessments(userId);
@@ -1246,7 +2872,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get assessment history by user code
-  app.get("/api/users/by-code/:userCode/history", async (req, res) => {
+  app.get("/api/users/by-code/:userCode/history", requirePatientCode('userCode'), async (req, res) => {
     try {
       const userCode = req.params.userCode;
       const user = await storage.getUserByCode(userCode);
@@ -1285,6 +2911,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           middleFingerRom: ua.middleFingerRom,
           ringFingerRom: ua.ringFingerRom,
           pinkyFingerRom: ua.pinkyFingerRom,
+          thumbTotalActiveRom: ua.thumbTotalActiveRom,
+          indexTipToPalmCm: ua.indexTipToPalmCm,
+          middleTipToPalmCm: ua.middleTipToPalmCm,
+          ringTipToPalmCm: ua.ringTipToPalmCm,
+          pinkyTipToPalmCm: ua.pinkyTipToPalmCm,
+          compositeFistCm: ua.compositeFistCm,
           kapandjiScore: ua.kapandjiScore,
           maxWristFlexion: ua.maxWristFlexion,
           maxWristExtension: ua.maxWristExtension,
@@ -1310,7 +2942,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get detailed results for a specific user assessment
-  app.get("/api/user-assessments/:userAssessmentId/details", async (req, res) => {
+  app.get("/api/user-assessments/:userAssessmentId/details", requirePatientUserAssessment('userAssessmentId'), async (req, res) => {
     try {
       const userAssessmentId = parseInt(req.params.userAssessmentId);
       
@@ -1376,8 +3008,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Generate shareable link for user assessment
-  app.post("/api/user-assessments/:id/share", async (req, res) => {
+  // Share links for a user assessment: expiring, optionally view-limited and revocable
+  app.post("/api/user-assessments/:id/share", requirePatientUserAssessment('id'), async (req, res) => {
     try {
       const userAssessmentId = parseInt(req.params.id);
       
@@ -1385,31 +3017,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid user assessment ID" });
       }
 
-      const shareToken = await storage.generateShareToken(userAssessmentId);
-      res.json({ shareToken, shareUrl: `/shared/${shareToken}` });
+      const userAssessment = await storage.getUserAssessmentById(userAssessmentId);
+      if (!userAssessment || !userAssessment.isCompleted) {
+        return res.status(404).json({ error: "Assessment not found" });
+      }
+
+      const { scope, expiresInHours, maxViews, label } = shareLinkRequestSchema.parse(req.body || {});
+      const { token, tokenHash } = generateShareLinkToken();
+      const link = await storage.createShareLink({
+        userAssessmentId,
+        userId: userAssessment.userId,
+        tokenHash,
+        scope,
+        label,
+        maxViews,
+        expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000)
+      });
+
+      res.json({ shareToken: token, shareUrl: `/shared/${token}`, link: toShareLinkSummary(link) });
     } catch (error) {
-      console.error("Error generating share token:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid share link options" });
+      }
+      console.error("Error generating share link:", error);
       res.status(500).json({ error: "Failed to generate shareable link" });
     }
   });
 
-  // Get shared user assessment by token (public route)
-  app.get("/api/shared/:token", async (req, res) => {
+  // A patient's own share links, optionally for a single assessment
+  app.get("/api/users/:userId/share-links", requirePatientUser('userId'), async (req, res) => {
     try {
-      const { token } = req.params;
+      const userId = parseInt(req.params.userId);
+      const userAssessmentId = req.query.userAssessmentId ? parseInt(req.query.userAssessmentId as string) : undefined;
       
-      const userAssessment = await storage.getUserAssessmentByShareToken(token);
-      if (!userAssessment) {
+      const links = await storage.getShareLinksByUser(userId);
+      res.json({
+        links: links
+          .filter(link => userAssessmentId === undefined || link.userAssessmentId === userAssessmentId)
+          .map(toShareLinkSummary)
+      });
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      res.status(500).json({ error: "Failed to fetch share links" });
+    }
+  });
+
+  app.get("/api/share-links/:id/access-log", requireShareLinkOwner('id'), async (req, res) => {
+    try {
+      const accessLog = await storage.getShareLinkAccessLogs(parseInt(req.params.id));
+      res.json({ accessLog });
+    } catch (error) {
+      console.error("Error fetching share link access log:", error);
+      res.status(500).json({ error: "Failed to fetch access log" });
+    }
+  });
+
+  app.delete("/api/share-links/:id", requireShareLinkOwner('id'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revoked = await storage.revokeShareLink(id);
+      if (!revoked) {
+        return res.status(404).json({ error: "Share link not found or already revoked" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ error: "Failed to revoke share link" });
+    }
+  });
+
+  // Get shared user assessment by token (public route). Every attempt on a known
+  // link is logged; unusable links return 410 so the viewer can explain why.
+  app.get("/api/shared/:token", async (req, res) => {
+    try {
+      const link = await storage.getShareLinkByTokenHash(hashShareLinkToken(req.params.token));
+      if (!link) {
         return res.status(404).json({ error: "Shared assessment not found" });
       }
 
-      // Get assessment details for display
-      const assessment = await storage.getAssessment(userAssessment.assessmentId);
-      if (!assessment) {
-        return res.status(404).json({ error: "Assessment not found" });
+      const logAccess = (outcome: string) => storage.createShareLinkAccessLog({
+        shareLinkId: link.id,
+        outcome,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      const status = getShareLinkStatus(link);
+      if (status !== 'active') {
+        await logAccess(status);
+        return res.status(410).json({ error: "This share link is no longer available", reason: status });
+      }
+
+      const userAssessment = await storage.getUserAssessmentById(link.userAssessmentId);
+      const assessment = userAssessment && await storage.getAssessment(userAssessment.assessmentId);
+      if (!userAssessment || !userAssessment.isCompleted || !assessment) {
+        await logAccess('unavailable');
+        return res.status(404).json({ error: "Shared assessment not found" });
+      }
+
+      // Counting the view can still fail if another request used the last one
+      const viewed = await storage.recordShareLinkView(link.id);
+      if (!viewed) {
+        const latest = await storage.getShareLink(link.id);
+        const reason = latest ? getShareLinkStatus(latest) : 'revoked';
+        await logAccess(reason);
+        return res.status(410).json({ error: "This share link is no longer available", reason });
       }
+      await logAccess('viewed');
 
-      res.json({ userAssessment, assessment });
+      res.json({
+        userAssessment: projectSharedAssessment(userAssessment, viewed.scope as ShareLinkScope),
+        assessment,
+        scope: viewed.scope,
+        expiresAt: viewed.expiresAt
+      });
     } catch (error) {
       console.error("Error fetching shared assessment:", error);
       res.status(500).json({ error: "Failed to fetch shared assessment" });
@@ -1417,7 +3138,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Patient Daily Dashboard API endpoints
-  app.get("/api/patients/by-code/:code", async (req, res) => {
+  app.get("/api/patients/by-code/:code", requirePatientCode('code'), async (req, res) => {
     try {
       const code = req.params.code;
       const user = await storage.getUserByCode(code);
@@ -1441,7 +3162,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/patients/:code/daily-assessments", async (req, res) => {
+  app.get("/api/patients/:code/daily-assessments", requirePatientCode('code'), async (req, res) => {
     try {
       const code = req.params.code;
       const user = await storage.getUserByCode(code);
@@ -1506,7 +3227,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get today's assessments with proper date filtering
-  app.get("/api/users/:userId/assessments/today", async (req, res) => {
+  app.get("/api/users/:userId/assessments/today", requirePatientUser('userId'), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       
@@ -1624,7 +3345,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/patients/:code/streak", async (req, res) => {
+  app.get("/api/patients/:code/streak", requirePatientCode('code'), async (req, res) => {
     try {
       const code = req.params.code;
       const user = await storage.getUserByCode(code);
@@ -1689,7 +3410,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/patients/:code/calendar", async (req, res) => {
+  app.get("/api/patients/:code/calendar", requirePatientCode('code'), async (req, res) => {
     try {
       const code = req.params.code;
       const user = await storage.getUserByCode(code);
@@ -1766,7 +3487,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/patients/:code/complete-assessment", async (req, res) => {
+  app.post("/api/patients/:code/complete-assessment", requirePatientCode('code'), async (req, res) => {
     try {
       const code = req.params.code;
       const { assessmentId } = req.body;
@@ -1785,21 +3506,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ===== ADMIN PORTAL ROUTES =====
   
   // Admin authentication middleware
+  // Admin sessions use a separate signing key, so clinical tokens are rejected here
   const requireAdminAuth = async (req: any, res: any, next: any) => {
-    const authHeader = req.headers.authorization;
-    if (!authHeader?.startsWith('Bearer ')) {
+    const token = extractBearerToken(req.headers.authorization);
+    if (!token) {
       return res.status(401).json({ message: 'Authentication required' });
     }
     
-    const token = authHeader.substring(7);
     try {
-      // Simple token validation (in production, use JWT)
-      const userId = parseInt(token);
-      const user = await storage.getAdminUser(userId);
-      if (!user || !user.isActive) {
-        return res.status(401).json({ message: 'Invalid token' });
-      }
-      req.user = user;
+      const claims = verifySessionToken(token, 'admin');
+      req.auth = claims;
+      req.user = { id: claims.sub, role: claims.role, username: claims.username };
       next();
     } catch (error) {
       return res.status(401).json({ message: 'Invalid token' });
@@ -1816,16 +3533,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       if (user) {
         console.log("Admin authentication result: success");
-        res.json({
-          token: user.id.toString(),
-          user: {
-            id: user.id,
-            username: user.username,
-            email: user.email,
-            firstName: user.firstName,
-            lastName: user.lastName
-          }
-        });
+        res.json(await beginLogin('admin', user, req));
       } else {
         console.log("Admin authentication result: failure");
         res.status(401).json({ message: "Invalid credentials" });
@@ -1836,6 +3544,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/admin/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = z.object({ refreshToken: z.string().min(1) }).parse(req.body);
+      const { tokens } = await refreshSessionTokens(refreshToken, 'admin', loadSessionSubject('admin'));
+      res.json(tokens);
+    } catch (error) {
+      res.status(401).json({ message: "Invalid refresh token" });
+    }
+  });
+
+  app.post("/api/admin/logout", requireAdminAuth, async (req, res) => {
+    revokeSession(req.auth!);
+    res.json({ success: true });
+  });
+
+  // Access-code lockouts currently in force (brute-force protection)
+  app.get("/api/admin/access-lockouts", requireAdminAuth, async (req, res) => {
+    res.json({ lockouts: accessCodeThrottle.getLockouts() });
+  });
+
+  app.delete("/api/admin/access-lockouts/:key", requireAdminAuth, async (req, res) => {
+    const cleared = accessCodeThrottle.clear(req.params.key);
+    if (!cleared) {
+      return res.status(404).json({ message: "Lockout not found" });
+    }
+    console.log(`Admin ${req.user.username} cleared access code lockout ${req.params.key}`);
+    res.json({ success: true });
+  });
+
+  app.post("/api/admin/password-reset/request", handlePasswordResetRequest('admin'));
+  app.post("/api/admin/password-reset/confirm", handlePasswordResetConfirm('admin'));
+  app.post("/api/admin/change-password", requireAdminAuth, handlePasswordChange('admin'));
+
+  // Consent document versions. Drafts can be edited; published versions are
+  // immutable and publishing one requires every patient to consent again.
+  app.get("/api/admin/consent-documents", requireAdminAuth, async (req, res) => {
+    try {
+      const [documents, current] = await Promise.all([
+        storage.getConsentDocuments(),
+        storage.getCurrentConsentDocument()
+      ]);
+      res.json({ documents, currentId: current?.id ?? null });
+    } catch (error) {
+      console.error("Admin consent documents error:", error);
+      res.status(500).json({ message: "Failed to fetch consent documents" });
+    }
+  });
+
+  app.post("/api/admin/consent-documents", requireAdminAuth, async (req, res) => {
+    try {
+      const data = insertConsentDocumentSchema.parse({ ...req.body, createdBy: req.user.id });
+      const existing = await storage.getConsentDocuments();
+      if (existing.some(document => document.version === data.version)) {
+        return res.status(409).json({ message: "A consent document with this version already exists" });
+      }
+      const document = await storage.createConsentDocument(data);
+      res.status(201).json({ document });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid consent document" });
+      }
+      console.error("Admin create consent document error:", error);
+      res.status(500).json({ message: "Failed to create consent document" });
+    }
+  });
+
+  app.put("/api/admin/consent-documents/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const updates = insertConsentDocumentSchema.omit({ createdBy: true }).partial().parse(req.body);
+      const document = await storage.updateConsentDocument(parseInt(req.params.id), updates);
+      if (!document) {
+        return res.status(409).json({ message: "Only unpublished drafts can be edited" });
+      }
+      res.json({ document });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid consent document" });
+      }
+      console.error("Admin update consent document error:", error);
+      res.status(500).json({ message: "Failed to update consent document" });
+    }
+  });
+
+  app.post("/api/admin/consent-documents/:id/publish", requireAdminAuth, async (req, res) => {
+    try {
+      const document = await storage.publishConsentDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(409).json({ message: "Consent document not found or already published" });
+      }
+      console.log(`Admin ${req.user.username} published consent version ${document.version}`);
+      res.json({ document });
+    } catch (error) {
+      console.error("Admin publish consent document error:", error);
+      res.status(500).json({ message: "Failed to publish consent document" });
+    }
+  });
+
+  app.get("/api/admin/consent-records", requireAdminAuth, async (req, res) => {
+    try {
+      const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+      const records = await storage.getConsentRecords(userId);
+      res.json({ records });
+    } catch (error) {
+      console.error("Admin consent records error:", error);
+      res.status(500).json({ message: "Failed to fetch consent records" });
+    }
+  });
+
   // AS-002: Dashboard Analytics & Monitoring
   app.get("/api/admin/compliance", requireAdminAuth, async (req, res) => {
     try {
@@ -1868,14 +3684,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate injury type
-      const validInjuryTypes = [
-        'Trigger Finger',
-        'Carpal Tunnel',
-        'Distal Radius Fracture',
-        'CMC Arthroplasty'
-      ];
-      
-      if (!validInjuryTypes.includes(injuryType)) {
+      if (!VALID_INJURY_TYPES.includes(injuryType)) {
         return res.status(400).json({ message: "Invalid injury type" });
       }
 
@@ -1894,6 +3703,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       const newPatient = await storage.createUser(patientData);
+      await updateClinicalRecord(newPatient.id);
       
       res.json({
         success: true,
@@ -1914,6 +3724,164 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bulk onboarding from CSV. With ?dryRun=true the upload is only validated; otherwise
+  // it is validated again against the current patients and, only if every row passes,
+  // all patients are created in one transaction.
+  app.post("/api/admin/patients/import",
+    requireAdminAuth,
+    express.text({ type: 'text/csv', limit: '2mb' }),
+    async (req, res) => {
+      try {
+        if (!req.is('text/csv') || typeof req.body !== 'string') {
+          return res.status(415).json({ message: "Upload the patient list as text/csv" });
+        }
+
+        const existingUsers = await storage.getUsers();
+        const report = validateOnboardingCsv(req.body, existingUsers);
+        if (req.query.dryRun === 'true') {
+          return res.json({ dryRun: true, report });
+        }
+        if (report.invalidRows > 0) {
+          return res.status(422).json({
+            message: `${report.invalidRows} of ${report.totalRows} rows have errors; no patients were created`,
+            report
+          });
+        }
+
+        const codes = generateAccessCodes(report.rows.length, new Set(existingUsers.map(user => user.code)));
+        const created = await storage.createUsers(report.rows.map((row, index) => ({
+          code: codes[index],
+          injuryType: row.injuryType,
+          surgeryDate: row.surgeryDate,
+          firstName: row.firstName,
+          lastName: row.lastName,
+          email: row.email,
+          isActive: true
+        })));
+        for (const user of created) {
+          await updateClinicalRecord(user.id);
+        }
+
+        await auditLog(null, "patient_bulk_import", undefined, {
+          count: created.length,
+          userIds: created.map(user => user.id),
+          adminUserId: req.user.id
+        }, req);
+        res.status(201).json({
+          dryRun: false,
+          report,
+          patients: created.map((user, index) => ({
+            id: user.id,
+            patientId: formatPatientId(user.id),
+            code: user.code,
+            line: report.rows[index].line,
+            injuryType: user.injuryType,
+            surgeryDate: report.rows[index].surgeryDate,
+            firstName: user.firstName,
+            lastName: user.lastName,
+            email: user.email
+          }))
+        });
+      } catch (error) {
+        if (error instanceof OnboardingFormatError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Admin patient import error:", error);
+        res.status(500).json({ message: "Failed to import patients; no patients were created" });
+      }
+    });
+
+  // Access code sheet for a set of patients, as CSV or a printable HTML page
+  app.get("/api/admin/patients/access-codes", requireAdminAuth, async (req, res) => {
+    try {
+      const ids = String(req.query.ids || '')
+        .split(',')
+        .map(id => parseInt(id))
+        .filter(id => !isNaN(id));
+      if (ids.length === 0) {
+        return res.status(400).json({ message: "ids must list at least one patient" });
+      }
+      const format = req.query.format === 'html' ? 'html' : 'csv';
+
+      const users = (await storage.getUsers()).filter(user => ids.includes(user.id));
+      if (users.length === 0) {
+        return res.status(404).json({ message: "No matching patients found" });
+      }
+
+      await auditLog(null, "access_code_sheet", undefined, {
+        format,
+        userIds: users.map(user => user.id),
+        adminUserId: req.user.id
+      }, req);
+      if (format === 'html') {
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        return res.send(accessCodeSheetHtml(users));
+      }
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="patient_access_codes_${new Date().toISOString().split('T')[0]}.csv"`);
+      res.send(accessCodeSheetCsv(users));
+    } catch (error) {
+      console.error("Admin access code sheet error:", error);
+      res.status(500).json({ message: "Failed to generate access code sheet" });
+    }
+  });
+
+  // Point-in-time backup of the whole store, restorable into either backend
+  app.get("/api/admin/backup", requireAdminAuth, async (req, res) => {
+    try {
+      const createdAt = new Date();
+      const source = storageBackupSource();
+      const archive = await createBackupArchive(await storage.getBackupSnapshot(), source, createdAt);
+
+      await auditLog(null, "backup_create", undefined, {
+        source,
+        createdAt: createdAt.toISOString(),
+        bytes: archive.length,
+        adminUserId: req.user.id
+      }, req);
+      res.setHeader('Content-Type', BACKUP_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename="${backupFileName(source, createdAt)}"`);
+      res.send(archive);
+    } catch (error) {
+      console.error("Backup error:", error);
+      res.status(500).json({ message: "Failed to create backup" });
+    }
+  });
+
+  // Replaces all stored data with the contents of a backup archive
+  app.post("/api/admin/backup/restore", requireAdminAuth, express.raw({ type: BACKUP_CONTENT_TYPE, limit: '500mb' }), async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(415).json({ message: `Upload the backup archive as ${BACKUP_CONTENT_TYPE}` });
+      }
+      const { manifest, snapshot } = await readBackupArchive(req.body);
+      const result = await storage.restoreBackupSnapshot(snapshot);
+
+      // user_id stays null: the admin id need not exist as a clinical user in the restored data
+      await auditLog(null, "backup_restore", undefined, {
+        source: manifest.source,
+        createdAt: manifest.createdAt,
+        schemaVersion: manifest.schemaVersion,
+        ...result,
+        adminUserId: req.user.id
+      }, req);
+      res.json({ manifest, ...result });
+    } catch (error) {
+      if (error instanceof BackupError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Restore error:", error);
+      res.status(500).json({ message: "Failed to restore backup" });
+    }
+  });
+
+  // Admin exports of patient app users pass through the same de-identification stage
+  const deidentifyMotionData = (pipeline: DeidentificationPipeline, userId: number, motionData: any) => ({
+    ...motionData,
+    patient: pipeline.user(motionData.patient),
+    assessments: (motionData.assessments || []).map((assessment: any) => pipeline.userRecord(userId, assessment))
+  });
+
   // AS-007: Download Patient Motion Data
   app.get("/api/admin/download/:userId", requireAdminAuth, async (req, res) => {
     try {
@@ -1929,26 +3897,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Patient not found" });
       }
 
-      res.json(motionData);
+      res.json(deidentifyMotionData(await createDeidentificationPipeline(), userId, motionData));
     } catch (error) {
       console.error("Admin download error:", error);
       res.status(500).json({ message: "Failed to download patient data" });
     }
   });
 
+  // FHIR R4 Bundle of a patient app user's completed assessments
+  app.get("/api/admin/fhir/:userId", requireAdminAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const pipeline = await createDeidentificationPipeline();
+      const userAssessments = (await storage.getUserAssessments(userId))
+        .map(assessment => pipeline.userRecord(userId, assessment));
+      sendFhirBundle(res, buildUserFhirBundle(pipeline.user(user), userAssessments));
+    } catch (error) {
+      console.error("Admin FHIR export error:", error);
+      res.status(500).json({ message: "Failed to generate FHIR export" });
+    }
+  });
+
   // AS-008: Export System Data
   app.get("/api/admin/export", requireAdminAuth, async (req, res) => {
     try {
       const patients = await storage.getAdminPatients();
       const complianceData = await storage.getAdminComplianceData();
+      const pipeline = await createDeidentificationPipeline();
       
       // Get detailed assessment data for each patient
       const detailedPatients = await Promise.all(
         patients.map(async (patient) => {
           const motionData = await storage.downloadPatientMotionData(patient.id);
           return {
-            ...patient,
-            assessments: motionData?.assessments || []
+            ...pipeline.user(patient),
+            assessments: (motionData?.assessments || []).map((assessment: any) => pipeline.userRecord(patient.id, assessment))
           };
         })
       );
@@ -1959,6 +3951,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         patients: detailedPatients,
         metadata: {
           totalPatients: patients.length,
+          deidentified: pipeline.active,
           exportVersion: '1.0',
           systemType: 'HandCare Portal Admin Export'
         }
@@ -2047,6 +4040,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/admin/patients/csv", requireAdminAuth, async (req, res) => {
     try {
       const patients = await storage.getAdminPatients();
+      const pipeline = await createDeidentificationPipeline();
       
       // CSV headers
       const headers = [
@@ -2061,7 +4055,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       ];
       
       // CSV rows
-      const rows = patients.map(patient => {
+      const rows = patients.map(row => {
+        const patient = pipeline.user(row);
         const registrationDate = new Date(patient.createdAt).toLocaleDateString();
         const lastActive = patient.lastVisit ? new Date(patient.lastVisit).toLocaleDateString() : 'Never';
         const totalAssessments = 0; // Will be calculated from assessment data
@@ -2091,7 +4086,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.user?.id || 'admin',
         "csv_export",
         "patient_table",
-        { exportType: 'patient_csv', recordCount: patients.length },
+        { exportType: 'patient_csv', recordCount: patients.length, deidentified: pipeline.active },
         req
       );
       
@@ -2118,21 +4113,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No assessment data found" });
       }
 
+      const pipeline = await createDeidentificationPipeline();
+      const subjectCode = pipeline.active ? pipeline.pseudonym('user', patient.id) : patient.code;
+      const exportedAssessments = motionData.assessments.map((assessment: any) => pipeline.userRecord(patient.id, assessment));
+
       // Create ZIP file
       const zip = new JSZip();
       
       // Add patient info file
       const patientInfo = {
-        patientCode: patient.code,
+        patientCode: subjectCode,
         injuryType: patient.injuryType,
         exportDate: new Date().toISOString(),
-        totalAssessments: motionData.assessments.length
+        totalAssessments: exportedAssessments.length
       };
       zip.file("PatientInfo.json", JSON.stringify(patientInfo, null, 2));
 
       // Group assessments by type and add to ZIP
       const assessmentsByType: Record<string, any[]> = {};
-      motionData.assessments.forEach((assessment: any) => {
+      exportedAssessments.forEach((assessment: any) => {
         const assessmentType = assessment.assessmentName || 'Unknown';
         if (!assessmentsByType[assessmentType]) {
           assessmentsByType[assessmentType] = [];
@@ -2146,7 +4145,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const assessments = assessmentsByType[assessmentType];
         
         assessments.forEach((assessment, index) => {
-          const fileName = `${folderName}/${patient.code}_${folderName}_${index + 1}_${new Date(assessment.completedAt).toISOString().split('T')[0]}.json`;
+          const fileName = `${folderName}/${subjectCode}_${folderName}_${index + 1}_${new Date(assessment.completedAt).toISOString().split('T')[0]}.json`;
           zip.file(fileName, JSON.stringify(assessment, null, 2));
         });
       });
@@ -2156,7 +4155,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Set response headers for ZIP download
       res.setHeader('Content-Type', 'application/zip');
-      res.setHeader('Content-Disposition', `attachment; filename="${patient.code}_AllAssessments_${new Date().toISOString().split('T')[0]}.zip"`);
+      res.setHeader('Content-Disposition', `attachment; filename="${subjectCode}_AllAssessments_${new Date().toISOString().split('T')[0]}.zip"`);
       
       // Send ZIP file
       res.send(zipBuffer);
@@ -2169,6 +4168,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         { 
           patientCode,
           assessmentCount: motionData.assessments.length,
+          deidentified: pipeline.active,
           exportDate: new Date().toISOString()
         },
         req
@@ -2197,6 +4197,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Delete user and all associated data
       await storage.deleteUser(userId);
+      revokeUserSessions('patient', userId);
 
       // Audit log for user deletion
       await auditLog(
@@ -2252,6 +4253,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!updatedUser) {
         return res.status(404).json({ message: "Failed to update user" });
       }
+      await updateClinicalRecord(userId);
 
       // Audit log for user update
       await auditLog(
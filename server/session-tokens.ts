@@ -0,0 +1,220 @@
+// Signed, expiring session tokens for the clinical dashboard, admin portal and patient app.
+// Tokens are HMAC-SHA256 signed JSON claims (header-less, JWT-like) so routes can
+// authorize from the claims alone without a database lookup per request.
+import crypto from 'crypto';
+
+export type SessionAudience = 'clinical' | 'admin' | 'patient';
+export type SessionTokenType = 'access' | 'refresh' | 'mfa';
+
+export interface SessionClaims {
+  sub: number;               // User id within the audience's user table
+  role: string;              // "clinician" | "researcher" | "admin" | "patient"
+  username: string;          // Access code for patient sessions
+  aud: SessionAudience;      // Which login system issued the token
+  typ: SessionTokenType;
+  sid: string;               // Session id shared by an access/refresh pair
+  jti: string;               // Unique token id
+  iat: number;               // Issued at (seconds since epoch)
+  exp: number;               // Expires at (seconds since epoch)
+}
+
+export interface SessionTokenPair {
+  token: string;
+  refreshToken: string;
+  expiresAt: string;
+  refreshExpiresAt: string;
+}
+
+export interface SessionSubject {
+  id: number;
+  role: string;
+  username: string;
+}
+
+export class SessionTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionTokenError';
+  }
+}
+
+const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.SESSION_ACCESS_TTL_SECONDS || '', 10) || 15 * 60;
+// Patients re-verify with their access code rather than refreshing, so their
+// access tokens last for a typical day of assessments
+const PATIENT_ACCESS_TTL_SECONDS = parseInt(process.env.PATIENT_SESSION_TTL_SECONDS || '', 10) || 12 * 60 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = parseInt(process.env.SESSION_REFRESH_TTL_SECONDS || '', 10) || 7 * 24 * 60 * 60;
+// Password-verified logins awaiting a second factor
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+// A random per-process secret keeps development working, but every restart
+// invalidates outstanding sessions, so production deployments must set one.
+const rootSecret = process.env.SESSION_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.SESSION_SECRET) {
+  console.warn('SESSION_SECRET is not set - using an ephemeral signing key; sessions will not survive a restart');
+}
+
+// Each audience signs with its own derived key so an admin token can never
+// verify as a clinical token (and vice versa), even if the claims were edited.
+const signingKeys: Record<SessionAudience, Buffer> = {
+  clinical: crypto.createHmac('sha256', rootSecret).update('session:clinical').digest(),
+  admin: crypto.createHmac('sha256', rootSecret).update('session:admin').digest(),
+  patient: crypto.createHmac('sha256', rootSecret).update('session:patient').digest(),
+};
+
+// Revoked sessions (by sid) and rotated refresh tokens (by jti), kept until they would have expired anyway
+const revokedSessions = new Map<string, number>();
+const revokedTokenIds = new Map<string, number>();
+// Per-user cutoffs ("aud:sub" -> seconds): tokens issued before the cutoff are rejected
+const userCutoffs = new Map<string, number>();
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function pruneRevocations() {
+  const now = nowSeconds();
+  revokedSessions.forEach((exp, sid) => {
+    if (exp < now) revokedSessions.delete(sid);
+  });
+  revokedTokenIds.forEach((exp, jti) => {
+    if (exp < now) revokedTokenIds.delete(jti);
+  });
+  userCutoffs.forEach((cutoff, key) => {
+    if (cutoff + REFRESH_TOKEN_TTL_SECONDS < now) userCutoffs.delete(key);
+  });
+}
+
+function sign(audience: SessionAudience, payload: string): string {
+  return crypto.createHmac('sha256', signingKeys[audience]).update(payload).digest('base64url');
+}
+
+function encode(claims: SessionClaims): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(claims.aud, payload)}`;
+}
+
+function ttlSeconds(audience: SessionAudience, type: SessionTokenType): number {
+  if (type === 'refresh') return REFRESH_TOKEN_TTL_SECONDS;
+  if (type === 'mfa') return MFA_CHALLENGE_TTL_SECONDS;
+  return audience === 'patient' ? PATIENT_ACCESS_TTL_SECONDS : ACCESS_TOKEN_TTL_SECONDS;
+}
+
+function createClaims(subject: SessionSubject, audience: SessionAudience, type: SessionTokenType, sid: string): SessionClaims {
+  const iat = nowSeconds();
+  return {
+    sub: subject.id,
+    role: subject.role,
+    username: subject.username,
+    aud: audience,
+    typ: type,
+    sid,
+    jti: crypto.randomUUID(),
+    iat,
+    exp: iat + ttlSeconds(audience, type),
+  };
+}
+
+// Issue a new access/refresh token pair. Passing an existing sid keeps the
+// tokens in the same session so a later logout revokes all of them together.
+export function issueSessionTokens(subject: SessionSubject, audience: SessionAudience, sid: string = crypto.randomUUID()): SessionTokenPair {
+  const access = createClaims(subject, audience, 'access', sid);
+  const refresh = createClaims(subject, audience, 'refresh', sid);
+
+  return {
+    token: encode(access),
+    refreshToken: encode(refresh),
+    expiresAt: new Date(access.exp * 1000).toISOString(),
+    refreshExpiresAt: new Date(refresh.exp * 1000).toISOString(),
+  };
+}
+
+// Issue a short-lived token proving the password step of a login succeeded.
+// It cannot be used as an access token; it is exchanged for one once the
+// second factor is verified (or enrolled, when two-factor is enforced).
+export function issueMfaChallenge(subject: SessionSubject, audience: SessionAudience): { challengeToken: string; expiresAt: string } {
+  const claims = createClaims(subject, audience, 'mfa', crypto.randomUUID());
+  return { challengeToken: encode(claims), expiresAt: new Date(claims.exp * 1000).toISOString() };
+}
+
+// Verify signature, audience, token type, expiry and revocation status.
+export function verifySessionToken(token: string, audience: SessionAudience, type: SessionTokenType = 'access'): SessionClaims {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    throw new SessionTokenError('Malformed token');
+  }
+
+  const expected = Buffer.from(sign(audience, payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new SessionTokenError('Invalid token signature');
+  }
+
+  let claims: SessionClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch (error) {
+    throw new SessionTokenError('Malformed token');
+  }
+
+  if (claims.aud !== audience) {
+    throw new SessionTokenError('Token audience mismatch');
+  }
+  if (claims.typ !== type) {
+    throw new SessionTokenError('Unexpected token type');
+  }
+  if (claims.exp <= nowSeconds()) {
+    throw new SessionTokenError('Token expired');
+  }
+  if (revokedSessions.has(claims.sid) || revokedTokenIds.has(claims.jti)) {
+    throw new SessionTokenError('Token revoked');
+  }
+  const cutoff = userCutoffs.get(`${claims.aud}:${claims.sub}`);
+  if (cutoff !== undefined && claims.iat < cutoff) {
+    throw new SessionTokenError('Token revoked');
+  }
+
+  return claims;
+}
+
+// Exchange a refresh token for a fresh pair. The presented refresh token is
+// single-use: it is revoked immediately so a stolen copy cannot be replayed.
+// The account is re-loaded rather than trusted from the claims: when it is gone
+// or deactivated (loadSubject returns null) the whole session is revoked.
+export async function refreshSessionTokens(
+  refreshToken: string,
+  audience: SessionAudience,
+  loadSubject: (claims: SessionClaims) => Promise<SessionSubject | null>
+): Promise<{ claims: SessionClaims; tokens: SessionTokenPair }> {
+  const claims = verifySessionToken(refreshToken, audience, 'refresh');
+  revokedTokenIds.set(claims.jti, claims.exp);
+  pruneRevocations();
+
+  const subject = await loadSubject(claims);
+  if (!subject) {
+    revokeSession(claims);
+    throw new SessionTokenError('Account inactive');
+  }
+
+  const tokens = issueSessionTokens(subject, audience, claims.sid);
+  return { claims, tokens };
+}
+
+// Revoke every token belonging to the session (used on logout).
+export function revokeSession(claims: Pick<SessionClaims, 'sid'>) {
+  revokedSessions.set(claims.sid, nowSeconds() + REFRESH_TOKEN_TTL_SECONDS);
+  pruneRevocations();
+}
+
+// Revoke every session a user currently holds (e.g. after a password change)
+export function revokeUserSessions(audience: SessionAudience, userId: number) {
+  userCutoffs.set(`${audience}:${userId}`, nowSeconds());
+  pruneRevocations();
+}
+
+// Pull a bearer token out of an Authorization header, if present.
+export function extractBearerToken(authHeader: string | undefined): string | null {
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.substring(7) || null;
+}
@@ -0,0 +1,54 @@
+// Share links for assessment results.
+// Only a SHA-256 of each link token is stored, so the URL is shown once when the
+// link is created. A link stops working when it expires, is revoked or has used
+// up its view limit; its scope decides whether motion frames are included.
+import crypto from 'crypto';
+import type { ShareLink, UserAssessment } from '@shared/schema';
+
+export type ShareLinkScope = 'summary' | 'replay';
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked' | 'view_limit_reached';
+
+export function generateShareLinkToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(24).toString('base64url');
+  return { token, tokenHash: hashShareLinkToken(token) };
+}
+
+export function hashShareLinkToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function getShareLinkStatus(link: ShareLink, now: Date = new Date()): ShareLinkStatus {
+  if (link.revokedAt) {
+    return 'revoked';
+  }
+  if (new Date(link.expiresAt) <= now) {
+    return 'expired';
+  }
+  if (link.maxViews !== null && link.viewCount >= link.maxViews) {
+    return 'view_limit_reached';
+  }
+  return 'active';
+}
+
+// Owner-facing view of a link: never includes the token hash
+export function toShareLinkSummary(link: ShareLink) {
+  const { tokenHash, ...rest } = link;
+  return { ...rest, status: getShareLinkStatus(link) };
+}
+
+// Recipients never see the owner's id or legacy token; summary links also drop
+// the per-frame motion data that powers the replay
+export function projectSharedAssessment(userAssessment: UserAssessment, scope: ShareLinkScope) {
+  const { userId, shareToken, ...shared } = userAssessment;
+  if (scope === 'replay' || !Array.isArray(shared.repetitionData)) {
+    return shared;
+  }
+
+  return {
+    ...shared,
+    repetitionData: shared.repetitionData.map((repetition: any) => {
+      const { motionData, ...summary } = repetition || {};
+      return summary;
+    }),
+  };
+}
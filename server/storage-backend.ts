@@ -0,0 +1,24 @@
+// Backend selection shared by the server and the command-line tools: Postgres when
+// USE_DATABASE=true, in production, or whenever DATABASE_URL is set; otherwise the
+// JSON file store under data/.
+import { PersistentMemoryStorage } from "./persistent-storage";
+import type { DatabaseStorage } from "./storage";
+import type { BackupSource } from "./backup";
+
+export function usesDatabase(): boolean {
+  return !!(process.env.USE_DATABASE === 'true' || process.env.NODE_ENV === 'production' || process.env.DATABASE_URL);
+}
+
+// The database module is loaded only when it is used, since ./db refuses to load without
+// DATABASE_URL; the file store then works fully offline.
+export async function createStorage(): Promise<DatabaseStorage | PersistentMemoryStorage> {
+  if (usesDatabase()) {
+    const { DatabaseStorage } = await import("./storage");
+    return new DatabaseStorage();
+  }
+  return new PersistentMemoryStorage();
+}
+
+export function storageBackupSource(): BackupSource {
+  return usesDatabase() ? 'database' : 'file';
+}
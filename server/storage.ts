@@ -14,6 +14,14 @@ import {
   dataExports,
   quickDashResponses,
   studyVisits,
+  passwordResetTokens,
+  shareLinks,
+  shareLinkAccessLogs,
+  consentDocuments,
+  consentRecords,
+  patientDelegations,
+  systemSettings,
+  legalHolds,
   type User, 
   type InsertUser,
   type Assessment,
@@ -39,6 +47,7 @@ import {
   type InsertOutlierAlert,
   type AuditLog,
   type InsertAuditLog,
+  type AuditLogQuery,
   type DataExport,
   type InsertDataExport,
   type QuickDashResponse,
@@ -46,10 +55,32 @@ import {
   type StudyVisit,
   type InsertStudyVisit,
   type CohortAnalytics,
-  type PatientEnrollment
+  type PatientEnrollment,
+  type PasswordResetToken,
+  type ShareLink,
+  type InsertShareLink,
+  type ShareLinkAccessLog,
+  type InsertShareLinkAccessLog,
+  type ConsentDocument,
+  type InsertConsentDocument,
+  type ConsentRecord,
+  type InsertConsentRecord,
+  type SystemSetting,
+  type LegalHold,
+  type InsertLegalHold,
+  type InsertPasswordResetToken,
+  type PatientDelegation,
+  type InsertPatientDelegation
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql, count, avg, asc } from "drizzle-orm";
+import { hashPassword, isPasswordHash, verifyPassword } from "./passwords";
+import { chainAuditEntry } from "./audit-log";
+import { assignedAssessmentCount } from "./compliance";
+import { BACKUP_TABLES, reviveBackupRows, type BackupSnapshot, type RestoreResult } from "./backup";
+import { eq, and, desc, sql, count, avg, asc, gte, lte, lt, inArray, isNull, getTableColumns, getTableName } from "drizzle-orm";
+
+// Arbitrary advisory-lock key serializing audit log appends
+const AUDIT_CHAIN_LOCK_KEY = 72617001;
 
 export interface IStorage {
   // Clinical User methods
@@ -89,6 +120,18 @@ export interface IStorage {
   }>;
   downloadPatientMotionData(userId: number): Promise<any>;
   
+  // Password reset methods
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: number): Promise<boolean>;
+  invalidatePasswordResetTokens(userType: string, userId: number): Promise<void>;
+  
+  // Caseload delegation methods
+  createPatientDelegation(delegation: InsertPatientDelegation): Promise<PatientDelegation>;
+  getPatientDelegations(patientId: number): Promise<PatientDelegation[]>;
+  getDelegatedPatientIds(clinicianId: number): Promise<number[]>;
+  revokePatientDelegation(id: number): Promise<boolean>;
+  
   // Cohort methods
   getCohorts(): Promise<Cohort[]>;
   getCohort(id: number): Promise<Cohort | undefined>;
@@ -119,6 +162,7 @@ export interface IStorage {
   // Patient Assessment methods
   getPatientAssessments(patientId: number, limit?: number): Promise<PatientAssessment[]>;
   getPatientAssessment(id: number): Promise<PatientAssessment | undefined>;
+  getPatientAssessmentByUserAssessmentId(userAssessmentId: number): Promise<PatientAssessment | undefined>;
   createPatientAssessment(assessment: InsertPatientAssessment): Promise<PatientAssessment>;
   updatePatientAssessment(id: number, updates: Partial<PatientAssessment>): Promise<PatientAssessment | undefined>;
   getCohortAssessments(cohortId: number, limit?: number): Promise<PatientAssessment[]>;
@@ -134,10 +178,13 @@ export interface IStorage {
   // Audit Log methods
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getAuditLogs(userId?: number, limit?: number): Promise<AuditLog[]>;
+  searchAuditLogs(query: AuditLogQuery): Promise<{ logs: AuditLog[]; total: number }>;
+  getAuditLogChain(): Promise<AuditLog[]>;
   
   // Data Export methods
   createDataExport(exportRequest: InsertDataExport): Promise<DataExport>;
   getDataExport(id: number): Promise<DataExport | undefined>;
+  getDataExportByDownloadUrl(downloadUrl: string): Promise<DataExport | undefined>;
   updateDataExport(id: number, updates: Partial<DataExport>): Promise<DataExport | undefined>;
   
   // Legacy methods
@@ -145,6 +192,9 @@ export interface IStorage {
   getUserById(id: number): Promise<User | undefined>;
   getUserByCode(code: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  // All or nothing: if any user cannot be created, none are
+  createUsers(newUsers: Array<typeof users.$inferInsert>): Promise<User[]>;
   updateUser(id: number, updates: Partial<User>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
   getAssessments(): Promise<Assessment[]>;
@@ -158,8 +208,46 @@ export interface IStorage {
   createUserAssessment(userAssessment: InsertUserAssessment): Promise<UserAssessment>;
   updateUserAssessment(id: number, updates: Partial<UserAssessment>): Promise<UserAssessment | undefined>;
   deleteUserAssessment(id: number): Promise<boolean>;
-  getUserAssessmentByShareToken(shareToken: string): Promise<UserAssessment | undefined>;
-  generateShareToken(userAssessmentId: number): Promise<string>;
+  
+  // Share links
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  getShareLink(id: number): Promise<ShareLink | undefined>;
+  getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined>;
+  getShareLinksByUser(userId: number): Promise<ShareLink[]>;
+  recordShareLinkView(id: number): Promise<ShareLink | undefined>;
+  revokeShareLink(id: number): Promise<boolean>;
+  createShareLinkAccessLog(log: InsertShareLinkAccessLog): Promise<ShareLinkAccessLog>;
+  getShareLinkAccessLogs(shareLinkId: number): Promise<ShareLinkAccessLog[]>;
+  
+  // Consent documents and patient signatures
+  createConsentDocument(document: InsertConsentDocument): Promise<ConsentDocument>;
+  getConsentDocument(id: number): Promise<ConsentDocument | undefined>;
+  getConsentDocuments(): Promise<ConsentDocument[]>;
+  updateConsentDocument(id: number, updates: Partial<InsertConsentDocument>): Promise<ConsentDocument | undefined>;
+  publishConsentDocument(id: number): Promise<ConsentDocument | undefined>;
+  getCurrentConsentDocument(): Promise<ConsentDocument | undefined>;
+  createConsentRecord(record: InsertConsentRecord): Promise<ConsentRecord>;
+  getConsentRecords(userId?: number): Promise<ConsentRecord[]>;
+  
+  // Server-side settings keyed by name
+  getSystemSetting(key: string): Promise<SystemSetting | undefined>;
+  upsertSystemSetting(key: string, value: unknown, updatedBy?: number): Promise<SystemSetting>;
+  
+  // Legal holds and data retention; purge methods delete permanently
+  getLegalHolds(includeReleased?: boolean): Promise<LegalHold[]>;
+  createLegalHold(hold: InsertLegalHold): Promise<LegalHold>;
+  releaseLegalHold(id: number, releasedBy: number): Promise<LegalHold | undefined>;
+  getPatientAssessmentsBefore(cutoff: Date): Promise<PatientAssessment[]>;
+  getUserAssessmentsBefore(cutoff: Date): Promise<UserAssessment[]>;
+  purgePatientAssessments(ids: number[]): Promise<number>;
+  purgeUserAssessments(ids: number[]): Promise<number>;
+  getWithdrawnPatients(): Promise<Patient[]>;
+  purgePatient(id: number): Promise<boolean>;
+  
+  // Point-in-time backup of every table this backend keeps; restore replaces them all
+  getBackupSnapshot(): Promise<BackupSnapshot>;
+  restoreBackupSnapshot(snapshot: BackupSnapshot): Promise<RestoreResult>;
+  
   getInjuryTypes(): Promise<InjuryType[]>;
   createInjuryType(injuryType: InsertInjuryType): Promise<InjuryType>;
   resetUserAssessments(userId: number): Promise<void>;
@@ -167,6 +255,8 @@ export interface IStorage {
   // Additional missing methods from routes
   getPatientAssessmentHistory(patientId: number): Promise<PatientAssessment[]>;
   createStudyVisit(visit: InsertStudyVisit): Promise<StudyVisit>;
+  getStudyVisits(patientId: number): Promise<StudyVisit[]>;
+  getQuickDashResponses(patientId: number): Promise<QuickDashResponse[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -182,9 +272,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createClinicalUser(insertUser: InsertClinicalUser): Promise<ClinicalUser> {
+    const password = isPasswordHash(insertUser.password) ? insertUser.password : await hashPassword(insertUser.password);
     const [user] = await db
       .insert(clinicalUsers)
-      .values(insertUser)
+      .values({ ...insertUser, password, passwordChangedAt: new Date() })
       .returning();
     return user;
   }
@@ -202,11 +293,16 @@ export class DatabaseStorage implements IStorage {
     const [user] = await db
       .select()
       .from(clinicalUsers)
-      .where(and(eq(clinicalUsers.username, username), eq(clinicalUsers.password, password), eq(clinicalUsers.isActive, true)));
+      .where(and(eq(clinicalUsers.username, username), eq(clinicalUsers.isActive, true)));
     
-    if (user) {
-      await this.updateClinicalUser(user.id, { lastLoginAt: new Date() });
-      return user;
+    const { valid, needsUpgrade } = await verifyPassword(password, user?.password);
+    if (user && valid) {
+      // Legacy plaintext (or outdated-cost) passwords are re-hashed on successful login
+      const updates: Partial<ClinicalUser> = { lastLoginAt: new Date() };
+      if (needsUpgrade) {
+        updates.password = await hashPassword(password);
+      }
+      return (await this.updateClinicalUser(user.id, updates)) || user;
     }
     return null;
   }
@@ -223,9 +319,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createAdminUser(insertUser: InsertAdminUser): Promise<AdminUser> {
+    const password = isPasswordHash(insertUser.password) ? insertUser.password : await hashPassword(insertUser.password);
     const [user] = await db
       .insert(adminUsers)
-      .values(insertUser)
+      .values({ ...insertUser, password, passwordChangedAt: new Date() })
       .returning();
     return user;
   }
@@ -243,28 +340,94 @@ export class DatabaseStorage implements IStorage {
     const [user] = await db
       .select()
       .from(adminUsers)
-      .where(and(eq(adminUsers.username, username), eq(adminUsers.password, password), eq(adminUsers.isActive, true)));
+      .where(and(eq(adminUsers.username, username), eq(adminUsers.isActive, true)));
     
-    if (user) {
-      await this.updateAdminUser(user.id, { lastLoginAt: new Date() });
-      return user;
+    const { valid, needsUpgrade } = await verifyPassword(password, user?.password);
+    if (user && valid) {
+      const updates: Partial<AdminUser> = { lastLoginAt: new Date() };
+      if (needsUpgrade) {
+        updates.password = await hashPassword(password);
+      }
+      return (await this.updateAdminUser(user.id, updates)) || user;
     }
     return null;
   }
 
+  // Password reset methods
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [token] = await db
+      .insert(passwordResetTokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async markPasswordResetTokenUsed(id: number): Promise<boolean> {
+    // Conditional update so two concurrent confirmations cannot both succeed
+    const result = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), sql`${passwordResetTokens.usedAt} IS NULL`));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async invalidatePasswordResetTokens(userType: string, userId: number): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.userType, userType),
+        eq(passwordResetTokens.userId, userId),
+        sql`${passwordResetTokens.usedAt} IS NULL`
+      ));
+  }
+
+  // Caseload delegation methods
+  async createPatientDelegation(insertDelegation: InsertPatientDelegation): Promise<PatientDelegation> {
+    const [delegation] = await db
+      .insert(patientDelegations)
+      .values(insertDelegation)
+      .returning();
+    return delegation;
+  }
+
+  async getPatientDelegations(patientId: number): Promise<PatientDelegation[]> {
+    return await db
+      .select()
+      .from(patientDelegations)
+      .where(eq(patientDelegations.patientId, patientId))
+      .orderBy(desc(patientDelegations.createdAt));
+  }
+
+  // Only unrevoked, unexpired grants count
+  async getDelegatedPatientIds(clinicianId: number): Promise<number[]> {
+    const rows = await db
+      .select({ patientId: patientDelegations.patientId })
+      .from(patientDelegations)
+      .where(and(
+        eq(patientDelegations.clinicianId, clinicianId),
+        sql`${patientDelegations.revokedAt} IS NULL`,
+        sql`(${patientDelegations.expiresAt} IS NULL OR ${patientDelegations.expiresAt} > NOW())`
+      ));
+    return rows.map(row => row.patientId);
+  }
+
+  async revokePatientDelegation(id: number): Promise<boolean> {
+    const result = await db
+      .update(patientDelegations)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(patientDelegations.id, id), sql`${patientDelegations.revokedAt} IS NULL`));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
   // Helper function to get assessment count by injury type
   getAssessmentCountByInjuryType(injuryType: string): number {
-    const injuryTypeAssignments: Record<string, number> = {
-      'Carpal Tunnel': 6,     // assessments 1,2,3,4,5 + DASH survey
-      'Tennis Elbow': 3,      // assessments 1,3 + DASH survey
-      'Golfer\'s Elbow': 3,   // assessments 1,3 + DASH survey
-      'Trigger Finger': 3,    // assessments 1,2 + DASH survey
-      'Wrist Fracture': 6,    // assessments 1,2,3,4,5 + DASH survey
-      'Tendon Injury': 6,     // assessments 1,2,3,4,5 + DASH survey
-      'Distal Radius Fracture': 6, // assessments 1,2,3,4,5 + DASH survey
-    };
-    
-    return injuryTypeAssignments[injuryType] || 3; // Default includes DASH survey
+    return assignedAssessmentCount(injuryType);
   }
 
   async getAdminComplianceData(): Promise<{
@@ -585,7 +748,7 @@ export class DatabaseStorage implements IStorage {
 
   async createPatient(insertPatient: InsertPatient): Promise<Patient> {
     // Generate access code if not provided
-    const accessCode = await this.generateAccessCode();
+    const accessCode = insertPatient.accessCode || await this.generateAccessCode();
     
     const [patient] = await db
       .insert(patients)
@@ -748,25 +911,6 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getPatientAssessmentHistory(patientId: number) {
-    const result = await db.execute(sql`
-      SELECT 
-        a.id,
-        a.name,
-        ua.completed_at as "completedAt",
-        ua.score,
-        ua.notes
-      FROM patients p
-      JOIN users u ON u.code = p.access_code
-      JOIN user_assessments ua ON ua.user_id = u.id
-      JOIN assessments a ON a.id = ua.assessment_id
-      WHERE p.id = ${patientId} AND ua.completed_at IS NOT NULL
-      ORDER BY ua.completed_at DESC
-    `);
-    
-    return result.rows;
-  }
-
   async updatePatient(id: number, updates: Partial<Patient>): Promise<Patient | undefined> {
     const [patient] = await db
       .update(patients)
@@ -826,6 +970,11 @@ export class DatabaseStorage implements IStorage {
     return assessment || undefined;
   }
 
+  async getPatientAssessmentByUserAssessmentId(userAssessmentId: number): Promise<PatientAssessment | undefined> {
+    const [assessment] = await db.select().from(patientAssessments).where(eq(patientAssessments.userAssessmentId, userAssessmentId));
+    return assessment || undefined;
+  }
+
   async createPatientAssessment(insertAssessment: InsertPatientAssessment): Promise<PatientAssessment> {
     const [assessment] = await db
       .insert(patientAssessments)
@@ -952,11 +1101,21 @@ export class DatabaseStorage implements IStorage {
 
   // Audit Log methods
   async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
-    const [log] = await db
-      .insert(auditLogs)
-      .values(insertLog)
-      .returning();
-    return log;
+    // Serialize writers so each entry chains onto the true previous entry
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`);
+      const [previous] = await tx
+        .select({ entryHash: auditLogs.entryHash })
+        .from(auditLogs)
+        .orderBy(desc(auditLogs.id))
+        .limit(1);
+      
+      const [log] = await tx
+        .insert(auditLogs)
+        .values(chainAuditEntry(insertLog, previous))
+        .returning();
+      return log;
+    });
   }
 
   async getAuditLogs(userId?: number, limit = 100): Promise<AuditLog[]> {
@@ -969,6 +1128,31 @@ export class DatabaseStorage implements IStorage {
     return await query.orderBy(desc(auditLogs.timestamp)).limit(limit);
   }
 
+  async searchAuditLogs(query: AuditLogQuery): Promise<{ logs: AuditLog[]; total: number }> {
+    const conditions = [];
+    if (query.userId) conditions.push(eq(auditLogs.userId, query.userId));
+    if (query.action) conditions.push(eq(auditLogs.action, query.action));
+    if (query.targetEntity) conditions.push(eq(auditLogs.targetEntity, query.targetEntity));
+    if (query.from) conditions.push(gte(auditLogs.timestamp, query.from));
+    if (query.to) conditions.push(lte(auditLogs.timestamp, query.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    
+    const logs = await db
+      .select()
+      .from(auditLogs)
+      .where(where)
+      .orderBy(desc(auditLogs.id))
+      .limit(query.limit)
+      .offset(query.offset);
+    const [{ total }] = await db.select({ total: count() }).from(auditLogs).where(where);
+    
+    return { logs, total };
+  }
+
+  async getAuditLogChain(): Promise<AuditLog[]> {
+    return await db.select().from(auditLogs).orderBy(asc(auditLogs.id));
+  }
+
   // Data Export methods
   async createDataExport(insertExport: InsertDataExport): Promise<DataExport> {
     const [exportRequest] = await db
@@ -983,6 +1167,11 @@ export class DatabaseStorage implements IStorage {
     return exportRequest || undefined;
   }
 
+  async getDataExportByDownloadUrl(downloadUrl: string): Promise<DataExport | undefined> {
+    const [exportRequest] = await db.select().from(dataExports).where(eq(dataExports.downloadUrl, downloadUrl));
+    return exportRequest || undefined;
+  }
+
   async updateDataExport(id: number, updates: Partial<DataExport>): Promise<DataExport | undefined> {
     const [exportRequest] = await db
       .update(dataExports)
@@ -1071,6 +1260,19 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async createUsers(newUsers: Array<typeof users.$inferInsert>): Promise<User[]> {
+    if (newUsers.length === 0) {
+      return [];
+    }
+    return await db.transaction(async (tx) => {
+      return await tx.insert(users).values(newUsers).returning();
+    });
+  }
+
   async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
     const [user] = await db
       .update(users)
@@ -1083,6 +1285,7 @@ export class DatabaseStorage implements IStorage {
   async deleteUser(id: number): Promise<boolean> {
     try {
       // Delete all user assessments first (cascade delete)
+      await this.purgeLinkedPatientAssessments(await this.getUserAssessmentIds(id));
       await db.delete(userAssessments).where(eq(userAssessments.userId, id));
       
       // Delete the user
@@ -1142,6 +1345,7 @@ export class DatabaseStorage implements IStorage {
         cohortId: enrollment.cohortId,
         enrolledInStudy: enrollment.enrollmentStatus === 'enrolled',
         enrolledDate: enrollment.enrollmentStatus === 'enrolled' ? new Date() : null,
+        withdrawnAt: enrollment.enrollmentStatus === 'withdrawn' ? new Date() : null,
         eligibilityNotes: enrollment.eligibilityNotes,
       })
       .where(eq(patients.id, enrollment.patientId))
@@ -1245,6 +1449,7 @@ export class DatabaseStorage implements IStorage {
 
   async deleteUserAssessment(id: number): Promise<boolean> {
     try {
+      await this.purgeLinkedPatientAssessments([id]);
       // Soft delete by marking as inactive/deleted
       const [deletedAssessment] = await db
         .update(userAssessments)
@@ -1258,17 +1463,291 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getUserAssessmentByShareToken(shareToken: string): Promise<UserAssessment | undefined> {
-    const [userAssessment] = await db.select().from(userAssessments).where(eq(userAssessments.shareToken, shareToken));
-    return userAssessment || undefined;
+  // Share link methods
+  async createShareLink(insertLink: InsertShareLink): Promise<ShareLink> {
+    const [link] = await db
+      .insert(shareLinks)
+      .values(insertLink)
+      .returning();
+    return link;
   }
 
-  async generateShareToken(userAssessmentId: number): Promise<string> {
-    const shareToken = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-    await db.update(userAssessments)
-      .set({ shareToken })
-      .where(eq(userAssessments.id, userAssessmentId));
-    return shareToken;
+  async getShareLink(id: number): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.id, id));
+    return link || undefined;
+  }
+
+  async getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.tokenHash, tokenHash));
+    return link || undefined;
+  }
+
+  async getShareLinksByUser(userId: number): Promise<ShareLink[]> {
+    return await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.userId, userId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async recordShareLinkView(id: number): Promise<ShareLink | undefined> {
+    // Conditional increment so concurrent opens cannot exceed the view limit
+    const [link] = await db
+      .update(shareLinks)
+      .set({ viewCount: sql`${shareLinks.viewCount} + 1`, lastViewedAt: new Date() })
+      .where(and(
+        eq(shareLinks.id, id),
+        sql`${shareLinks.revokedAt} IS NULL`,
+        sql`${shareLinks.expiresAt} > NOW()`,
+        sql`(${shareLinks.maxViews} IS NULL OR ${shareLinks.viewCount} < ${shareLinks.maxViews})`
+      ))
+      .returning();
+    return link || undefined;
+  }
+
+  async revokeShareLink(id: number): Promise<boolean> {
+    const result = await db
+      .update(shareLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(shareLinks.id, id), sql`${shareLinks.revokedAt} IS NULL`));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async createShareLinkAccessLog(insertLog: InsertShareLinkAccessLog): Promise<ShareLinkAccessLog> {
+    const [log] = await db
+      .insert(shareLinkAccessLogs)
+      .values(insertLog)
+      .returning();
+    return log;
+  }
+
+  async getShareLinkAccessLogs(shareLinkId: number): Promise<ShareLinkAccessLog[]> {
+    return await db
+      .select()
+      .from(shareLinkAccessLogs)
+      .where(eq(shareLinkAccessLogs.shareLinkId, shareLinkId))
+      .orderBy(desc(shareLinkAccessLogs.accessedAt));
+  }
+
+  // Consent methods
+  async createConsentDocument(insertDocument: InsertConsentDocument): Promise<ConsentDocument> {
+    const [document] = await db
+      .insert(consentDocuments)
+      .values(insertDocument)
+      .returning();
+    return document;
+  }
+
+  async getConsentDocument(id: number): Promise<ConsentDocument | undefined> {
+    const [document] = await db.select().from(consentDocuments).where(eq(consentDocuments.id, id));
+    return document || undefined;
+  }
+
+  async getConsentDocuments(): Promise<ConsentDocument[]> {
+    return await db
+      .select()
+      .from(consentDocuments)
+      .orderBy(desc(consentDocuments.createdAt));
+  }
+
+  async updateConsentDocument(id: number, updates: Partial<InsertConsentDocument>): Promise<ConsentDocument | undefined> {
+    // Published versions are immutable; only drafts can be edited
+    const [document] = await db
+      .update(consentDocuments)
+      .set(updates)
+      .where(and(eq(consentDocuments.id, id), sql`${consentDocuments.publishedAt} IS NULL`))
+      .returning();
+    return document || undefined;
+  }
+
+  async publishConsentDocument(id: number): Promise<ConsentDocument | undefined> {
+    const [document] = await db
+      .update(consentDocuments)
+      .set({ publishedAt: new Date() })
+      .where(and(eq(consentDocuments.id, id), sql`${consentDocuments.publishedAt} IS NULL`))
+      .returning();
+    return document || undefined;
+  }
+
+  async getCurrentConsentDocument(): Promise<ConsentDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(consentDocuments)
+      .where(sql`${consentDocuments.publishedAt} IS NOT NULL`)
+      .orderBy(desc(consentDocuments.publishedAt), desc(consentDocuments.id))
+      .limit(1);
+    return document || undefined;
+  }
+
+  async createConsentRecord(insertRecord: InsertConsentRecord): Promise<ConsentRecord> {
+    const [record] = await db
+      .insert(consentRecords)
+      .values(insertRecord)
+      .returning();
+    return record;
+  }
+
+  async getConsentRecords(userId?: number): Promise<ConsentRecord[]> {
+    const query = db.select().from(consentRecords);
+    if (userId !== undefined) {
+      return await query
+        .where(eq(consentRecords.userId, userId))
+        .orderBy(desc(consentRecords.signedAt), desc(consentRecords.id));
+    }
+    return await query.orderBy(desc(consentRecords.signedAt), desc(consentRecords.id));
+  }
+
+  // System settings methods
+  async getSystemSetting(key: string): Promise<SystemSetting | undefined> {
+    const [setting] = await db.select().from(systemSettings).where(eq(systemSettings.key, key));
+    return setting || undefined;
+  }
+
+  async upsertSystemSetting(key: string, value: unknown, updatedBy?: number): Promise<SystemSetting> {
+    const [setting] = await db
+      .insert(systemSettings)
+      .values({ key, value, updatedBy })
+      .onConflictDoUpdate({
+        target: systemSettings.key,
+        set: { value, updatedBy, updatedAt: new Date() }
+      })
+      .returning();
+    return setting;
+  }
+
+  // Legal hold and retention methods
+  async getLegalHolds(includeReleased = false): Promise<LegalHold[]> {
+    const query = db.select().from(legalHolds);
+    if (!includeReleased) {
+      query.where(isNull(legalHolds.releasedAt));
+    }
+    return await query.orderBy(desc(legalHolds.createdAt));
+  }
+
+  async createLegalHold(hold: InsertLegalHold): Promise<LegalHold> {
+    const [created] = await db.insert(legalHolds).values(hold).returning();
+    return created;
+  }
+
+  async releaseLegalHold(id: number, releasedBy: number): Promise<LegalHold | undefined> {
+    const [released] = await db
+      .update(legalHolds)
+      .set({ releasedBy, releasedAt: new Date() })
+      .where(and(eq(legalHolds.id, id), isNull(legalHolds.releasedAt)))
+      .returning();
+    return released || undefined;
+  }
+
+  async getPatientAssessmentsBefore(cutoff: Date): Promise<PatientAssessment[]> {
+    return await db
+      .select()
+      .from(patientAssessments)
+      .where(lt(patientAssessments.assessmentDate, cutoff))
+      .orderBy(asc(patientAssessments.assessmentDate));
+  }
+
+  async getUserAssessmentsBefore(cutoff: Date): Promise<UserAssessment[]> {
+    return await db
+      .select()
+      .from(userAssessments)
+      .where(lt(userAssessments.completedAt, cutoff))
+      .orderBy(asc(userAssessments.completedAt));
+  }
+
+  async purgePatientAssessments(ids: number[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    return await db.transaction(async (tx) => {
+      // Visits and questionnaires outlive the assessment they pointed at
+      await tx.update(studyVisits).set({ assessmentId: null }).where(inArray(studyVisits.assessmentId, ids));
+      await tx.update(quickDashResponses).set({ assessmentId: null }).where(inArray(quickDashResponses.assessmentId, ids));
+      const deleted = await tx.delete(patientAssessments).where(inArray(patientAssessments.id, ids)).returning({ id: patientAssessments.id });
+      return deleted.length;
+    });
+  }
+
+  async purgeUserAssessments(ids: number[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    await this.purgeLinkedPatientAssessments(ids);
+    return await db.transaction(async (tx) => {
+      const links = await tx.select({ id: shareLinks.id }).from(shareLinks).where(inArray(shareLinks.userAssessmentId, ids));
+      if (links.length > 0) {
+        const linkIds = links.map(link => link.id);
+        await tx.delete(shareLinkAccessLogs).where(inArray(shareLinkAccessLogs.shareLinkId, linkIds));
+        await tx.delete(shareLinks).where(inArray(shareLinks.id, linkIds));
+      }
+      const deleted = await tx.delete(userAssessments).where(inArray(userAssessments.id, ids)).returning({ id: userAssessments.id });
+      return deleted.length;
+    });
+  }
+
+  async getWithdrawnPatients(): Promise<Patient[]> {
+    return await db.select().from(patients).where(eq(patients.enrollmentStatus, 'withdrawn'));
+  }
+
+  // The patient app user behind the patient goes too, with their recordings and share
+  // links; otherwise their next recording or npm run link-patients recreates the patient
+  async purgePatient(id: number): Promise<boolean> {
+    const [patient] = await db.select({ accessCode: patients.accessCode }).from(patients).where(eq(patients.id, id));
+    const user = patient?.accessCode ? await this.getUserByCode(patient.accessCode) : undefined;
+    if (user) {
+      await this.purgeUserAssessments(await this.getUserAssessmentIds(user.id));
+    }
+    return await db.transaction(async (tx) => {
+      if (user) {
+        await tx.delete(users).where(eq(users.id, user.id));
+      }
+      await tx.delete(quickDashResponses).where(eq(quickDashResponses.patientId, id));
+      await tx.delete(studyVisits).where(eq(studyVisits.patientId, id));
+      await tx.delete(outlierAlerts).where(eq(outlierAlerts.patientId, id));
+      await tx.delete(patientDelegations).where(eq(patientDelegations.patientId, id));
+      await tx.delete(legalHolds).where(eq(legalHolds.patientId, id));
+      await tx.delete(patientAssessments).where(eq(patientAssessments.patientId, id));
+      const deleted = await tx.delete(patients).where(eq(patients.id, id)).returning({ id: patients.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Backup and restore methods
+  async getBackupSnapshot(): Promise<BackupSnapshot> {
+    const snapshot: BackupSnapshot = {};
+    for (let i = 0; i < BACKUP_TABLES.length; i++) {
+      snapshot[getTableName(BACKUP_TABLES[i])] = await db.select().from(BACKUP_TABLES[i]);
+    }
+    return snapshot;
+  }
+
+  async restoreBackupSnapshot(snapshot: BackupSnapshot): Promise<RestoreResult> {
+    const BATCH_SIZE = 500;
+    return await db.transaction(async (tx) => {
+      // Children first, so foreign keys never point at a deleted row
+      for (let i = BACKUP_TABLES.length - 1; i >= 0; i--) {
+        await tx.delete(BACKUP_TABLES[i]);
+      }
+      const restored: string[] = [];
+      const emptied: string[] = [];
+      for (let i = 0; i < BACKUP_TABLES.length; i++) {
+        const table = BACKUP_TABLES[i];
+        const name = getTableName(table);
+        if (!snapshot[name]) {
+          emptied.push(name);
+          continue;
+        }
+        const rows = reviveBackupRows(name, snapshot[name]);
+        for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+          await tx.insert(table).values(rows.slice(start, start + BATCH_SIZE));
+        }
+        // Serial ids carry on after the highest restored id
+        if ('id' in getTableColumns(table)) {
+          await tx.execute(sql`SELECT setval(pg_get_serial_sequence(${name}, 'id'), COALESCE(MAX(id), 1), MAX(id) IS NOT NULL) FROM ${table}`);
+        }
+        restored.push(name);
+      }
+      return { restored, emptied, skipped: [] };
+    });
   }
 
   async getInjuryTypes(): Promise<InjuryType[]> {
@@ -1284,9 +1763,27 @@ export class DatabaseStorage implements IStorage {
   }
 
   async resetUserAssessments(userId: number): Promise<void> {
+    await this.purgeLinkedPatientAssessments(await this.getUserAssessmentIds(userId));
     await db.delete(userAssessments).where(eq(userAssessments.userId, userId));
   }
 
+  private async getUserAssessmentIds(userId: number): Promise<number[]> {
+    const rows = await db.select({ id: userAssessments.id }).from(userAssessments).where(eq(userAssessments.userId, userId));
+    return rows.map(row => row.id);
+  }
+
+  // The clinical copies of patient app recordings go with the recordings
+  private async purgeLinkedPatientAssessments(userAssessmentIds: number[]): Promise<void> {
+    if (userAssessmentIds.length === 0) {
+      return;
+    }
+    const linked = await db
+      .select({ id: patientAssessments.id })
+      .from(patientAssessments)
+      .where(inArray(patientAssessments.userAssessmentId, userAssessmentIds));
+    await this.purgePatientAssessments(linked.map(row => row.id));
+  }
+
   // Additional missing methods
   async getAssessmentsForInjuryType(injuryType: string): Promise<Assessment[]> {
     return this.getAssessmentsForInjury(injuryType);
@@ -1296,6 +1793,14 @@ export class DatabaseStorage implements IStorage {
     return this.getPatientAssessments(patientId);
   }
 
+  async getQuickDashResponses(patientId: number): Promise<QuickDashResponse[]> {
+    return await db
+      .select()
+      .from(quickDashResponses)
+      .where(eq(quickDashResponses.patientId, patientId))
+      .orderBy(asc(quickDashResponses.completedAt));
+  }
+
   async createStudyVisit(insertStudyVisit: InsertStudyVisit): Promise<StudyVisit> {
     const [studyVisit] = await db
       .insert(studyVisits)
@@ -1303,6 +1808,14 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return studyVisit;
   }
+
+  async getStudyVisits(patientId: number): Promise<StudyVisit[]> {
+    return await db
+      .select()
+      .from(studyVisits)
+      .where(eq(studyVisits.patientId, patientId))
+      .orderBy(asc(studyVisits.scheduledWeek));
+  }
 }
 
 export class MemStorage implements IStorage {
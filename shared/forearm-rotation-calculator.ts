@@ -0,0 +1,255 @@
+/**
+ * Forearm Pronation/Supination Calculator
+ *
+ * Measures forearm rotation as the turn of the palm-plane normal about the forearm axis
+ * (pose elbow to pose wrist), using MediaPipe Holistic hand and pose landmarks.
+ * Neutral is the thumb-up position, where the palm normal is horizontal.
+ * Positive angles are supination (palm turning up), negative angles pronation (palm turning down).
+ */
+
+export interface ForearmLandmark {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+export interface ForearmRotationFrame {
+  rotationAngle: number;     // Signed, degrees from neutral
+  pronationAngle: number;    // Pronation component (0 when supinated)
+  supinationAngle: number;   // Supination component (0 when pronated)
+  confidence: number;
+}
+
+export interface ForearmRotationResultsData {
+  maxPronation: number;
+  maxSupination: number;
+  totalRotationROM: number;
+  frameCount: number;
+  handType: string;
+  averageConfidence: number;
+}
+
+// AMA normal ranges
+export const FOREARM_ROTATION_NORMS = {
+  pronation: 80,
+  supination: 80,
+  total: 160
+};
+
+// MediaPipe Pose landmark indices for the forearm and the hand
+const POSE_LANDMARKS = {
+  LEFT_ELBOW: 13,
+  RIGHT_ELBOW: 14,
+  LEFT_WRIST: 15,
+  RIGHT_WRIST: 16,
+  LEFT_INDEX: 19,
+  RIGHT_INDEX: 20,
+  LEFT_PINKY: 21,
+  RIGHT_PINKY: 22
+};
+
+// Image "up" gives no reference once the forearm points within ~17° of vertical
+const MIN_REFERENCE_LENGTH = 0.3;
+
+interface Vector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+function subtract(a: ForearmLandmark, b: ForearmLandmark): Vector {
+  return { x: a.x - b.x, y: a.y - b.y, z: (a.z || 0) - (b.z || 0) };
+}
+
+function dot(a: Vector, b: Vector): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Vector, b: Vector): Vector {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+  };
+}
+
+function length(v: Vector): number {
+  return Math.sqrt(dot(v, v));
+}
+
+function normalize(v: Vector): Vector | null {
+  const magnitude = length(v);
+  return magnitude > 0 ? { x: v.x / magnitude, y: v.y / magnitude, z: v.z / magnitude } : null;
+}
+
+// The part of v perpendicular to the unit vector axis
+function projectOntoPlane(v: Vector, axis: Vector): Vector {
+  const along = dot(v, axis);
+  return { x: v.x - axis.x * along, y: v.y - axis.y * along, z: v.z - axis.z * along };
+}
+
+/**
+ * Calculate the signed forearm rotation for one frame.
+ * Uses the hand's wrist, index MCP and pinky MCP for the palm plane, falling back to the
+ * pose wrist, index and pinky landmarks when the hand is not tracked. Returns null when
+ * the forearm is not visible or points too close to vertical to measure.
+ */
+export function calculateForearmRotation(
+  poseLandmarks: ForearmLandmark[],
+  handLandmarks: ForearmLandmark[] | null | undefined,
+  isLeftHand: boolean
+): ForearmRotationFrame | null {
+  const elbow = poseLandmarks?.[isLeftHand ? POSE_LANDMARKS.LEFT_ELBOW : POSE_LANDMARKS.RIGHT_ELBOW];
+  const poseWrist = poseLandmarks?.[isLeftHand ? POSE_LANDMARKS.LEFT_WRIST : POSE_LANDMARKS.RIGHT_WRIST];
+  if (!elbow || !poseWrist || (elbow.visibility ?? 1) < 0.5) {
+    return null;
+  }
+
+  let wrist: ForearmLandmark, indexMcp: ForearmLandmark, pinkyMcp: ForearmLandmark;
+  let confidence: number;
+  if (handLandmarks && handLandmarks.length > 17) {
+    wrist = handLandmarks[0];
+    indexMcp = handLandmarks[5];
+    pinkyMcp = handLandmarks[17];
+    confidence = ((wrist.visibility ?? 0.9) + (indexMcp.visibility ?? 0.9) + (pinkyMcp.visibility ?? 0.9)) / 3;
+  } else {
+    const poseIndex = poseLandmarks[isLeftHand ? POSE_LANDMARKS.LEFT_INDEX : POSE_LANDMARKS.RIGHT_INDEX];
+    const posePinky = poseLandmarks[isLeftHand ? POSE_LANDMARKS.LEFT_PINKY : POSE_LANDMARKS.RIGHT_PINKY];
+    if (!poseIndex || !posePinky) {
+      return null;
+    }
+    wrist = poseWrist;
+    indexMcp = poseIndex;
+    pinkyMcp = posePinky;
+    // Pose hand points are coarse, so these frames count for less
+    confidence = 0.5 * ((poseIndex.visibility ?? 0.7) + (posePinky.visibility ?? 0.7)) / 2;
+  }
+
+  const axis = normalize(subtract(poseWrist, elbow));
+  const palmNormal = normalize(cross(subtract(indexMcp, wrist), subtract(pinkyMcp, wrist)));
+  if (!axis || !palmNormal) {
+    return null;
+  }
+
+  // Reference frame perpendicular to the forearm: image up (y grows downward) and the
+  // horizontal direction the palm faces in neutral
+  const up = projectOntoPlane({ x: 0, y: -1, z: 0 }, axis);
+  if (length(up) < MIN_REFERENCE_LENGTH) {
+    return null;
+  }
+  const upUnit = normalize(up)!;
+  const neutral = cross(upUnit, axis);
+
+  // index x pinky points out of the palm for a right hand and out of the back for a left
+  // hand; the neutral direction mirrors the same way, so only the up component flips
+  const normal = projectOntoPlane(palmNormal, axis);
+  const side = isLeftHand ? -1 : 1;
+  const rotationAngle = Math.atan2(side * dot(normal, upUnit), dot(normal, neutral)) * 180 / Math.PI;
+  const rounded = Math.round(rotationAngle * 100) / 100 || 0; // No negative zero
+
+  return {
+    rotationAngle: rounded,
+    pronationAngle: rounded < 0 ? -rounded : 0,
+    supinationAngle: rounded > 0 ? rounded : 0,
+    confidence
+  };
+}
+
+/**
+ * Calculate pronation/supination results from user assessment data.
+ * Motion frames are authoritative; stored values are the fallback.
+ */
+export function calculateForearmRotationResults(userAssessment: any): ForearmRotationResultsData {
+  const storedPronation = parseFloat(userAssessment?.forearmPronationAngle || '0');
+  const storedSupination = parseFloat(userAssessment?.forearmSupinationAngle || '0');
+  const handType = userAssessment?.handType || 'UNKNOWN';
+
+  const motionData = Array.isArray(userAssessment?.repetitionData)
+    ? userAssessment.repetitionData.reduce((frames: any[], repetition: any) =>
+        frames.concat(Array.isArray(repetition?.motionData) ? repetition.motionData : []), [])
+    : userAssessment?.motionData || [];
+
+  let maxPronation = 0;
+  let maxSupination = 0;
+  let frameCount = 0;
+  let confidenceSum = 0;
+
+  motionData.forEach((frame: any) => {
+    const frameHandType = handType !== 'UNKNOWN' ? handType : (frame.sessionHandType || frame.handedness);
+    const result = calculateForearmRotation(
+      frame.poseLandmarks,
+      frame.handLandmarks || frame.landmarks,
+      frameHandType === 'LEFT'
+    );
+    if (!result) {
+      return;
+    }
+    frameCount++;
+    confidenceSum += result.confidence;
+    maxPronation = Math.max(maxPronation, result.pronationAngle);
+    maxSupination = Math.max(maxSupination, result.supinationAngle);
+  });
+
+  if (frameCount > 0) {
+    console.log(`Forearm rotation from ${frameCount} frames - Pronation: ${maxPronation.toFixed(1)}°, Supination: ${maxSupination.toFixed(1)}°`);
+    return {
+      maxPronation,
+      maxSupination,
+      totalRotationROM: maxPronation + maxSupination,
+      frameCount,
+      handType,
+      averageConfidence: confidenceSum / frameCount
+    };
+  }
+
+  // Fallback to stored values, e.g. once the frames have been archived
+  return {
+    maxPronation: storedPronation,
+    maxSupination: storedSupination,
+    totalRotationROM: storedPronation + storedSupination,
+    frameCount: 0,
+    handType,
+    averageConfidence: storedPronation > 0 || storedSupination > 0 ? 1.0 : 0
+  };
+}
+
+/**
+ * Get clinical interpretation based on pronation/supination results
+ */
+export function getForearmRotationClinicalInterpretation(results: ForearmRotationResultsData) {
+  const { maxPronation, maxSupination, totalRotationROM } = results;
+
+  // AMA normal ranges: Pronation 80°, Supination 80°, Total ~160°; 50° each way covers most daily activities
+  if (maxPronation >= 70 && maxSupination >= 70 && totalRotationROM >= 140) {
+    return {
+      status: "Normal",
+      color: "text-green-600",
+      description: "Full forearm rotation"
+    };
+  } else if (maxPronation >= 50 && maxSupination >= 50 && totalRotationROM >= 100) {
+    return {
+      status: "Functional",
+      color: "text-yellow-600",
+      description: "Rotation sufficient for most daily activities"
+    };
+  } else {
+    return {
+      status: "Limited",
+      color: "text-red-600",
+      description: "Significant forearm rotation restriction"
+    };
+  }
+}
+
+/**
+ * Calculate percentage of normal range for each rotation direction
+ */
+export function getForearmRotationPercentages(results: ForearmRotationResultsData) {
+  return {
+    pronationPercentage: Math.min((results.maxPronation / FOREARM_ROTATION_NORMS.pronation) * 100, 150),
+    supinationPercentage: Math.min((results.maxSupination / FOREARM_ROTATION_NORMS.supination) * 100, 150),
+    normalPronation: FOREARM_ROTATION_NORMS.pronation,
+    normalSupination: FOREARM_ROTATION_NORMS.supination
+  };
+}
@@ -4,9 +4,43 @@ export interface HandLandmark {
   z: number;
 }
 
+// Contact distances are measured in palm lengths (wrist to middle MCP), so scores do not
+// change with camera distance or hand size
+export interface KapandjiOptions {
+  contactRatio: number;   // Thumb tip within this many palm lengths of a target counts as contact
+  dwellMs: number;        // How long contact must last, first to last contact frame, before a target counts
+}
+
+export const DEFAULT_KAPANDJI_OPTIONS: KapandjiOptions = {
+  contactRatio: 0.25,     // About the old fixed 0.04 for a hand at the usual camera distance
+  dwellMs: 100
+};
+
+// Frame spacing assumed for frames recorded without a timestamp
+const UNTIMED_FRAME_MS = 1000 / 30;
+
+export interface KapandjiFrame {
+  landmarks: HandLandmark[];
+  timestamp?: number;     // Milliseconds, as recorded (Date.now() or an offset from the first frame)
+}
+
+// Targets whose closest approach lies within this share of the threshold are borderline
+export const KAPANDJI_BORDERLINE_CONFIDENCE = 0.2;
+
+export interface KapandjiTargetResult {
+  key: string;
+  name: string;
+  score: number;
+  minDistance: number | null;   // Closest thumb tip approach, in palm lengths
+  longestContactMs: number;     // Longest contact, first to last frame of a run of contact frames
+  reached: boolean;
+  confidence: number;           // 0 at the threshold, 1 at the tip or a full threshold clear of it
+}
+
 export interface KapandjiScore {
   maxScore: number;
   reachedLandmarks: string[];
+  targets?: KapandjiTargetResult[];
   details: {
     indexProximalPhalanx: boolean;    // Score 1: Radial side of proximal phalanx of index
     indexMiddlePhalanx: boolean;      // Score 2: Radial side of middle phalanx of index
@@ -36,16 +70,22 @@ function averageLandmarks(indices: number[], landmarks: HandLandmark[]): HandLan
   return { x, y, z };
 }
 
-export function calculateKapandjiScore(landmarks: HandLandmark[]): KapandjiScore {
-  if (landmarks.length !== 21) {
-    throw new Error('MediaPipe hand landmarks must contain exactly 21 points');
-  }
+// Hand-scale measure: wrist to middle finger MCP
+function palmLength(landmarks: HandLandmark[]): number {
+  return euclideanDistance(landmarks[0], landmarks[9]);
+}
+
+// How clearly a distance falls on one side of the contact threshold
+function contactConfidence(distance: number, threshold: number): number {
+  return Math.round(Math.min(1, Math.abs(threshold - distance) / threshold) * 100) / 100;
+}
 
+// Thumb tip distance to each Kapandji target in palm lengths. Score 10 needs full
+// opposition to the radial side under the pinky metacarpal, with a more lenient threshold.
+function measureTargets(landmarks: HandLandmark[]) {
   const thumbTip = landmarks[4];
-  
-  // Define anatomical targets with correct Kapandji scoring locations
-  const THRESHOLD = 0.04; // Distance threshold for contact detection
-  
+  const scale = palmLength(landmarks);
+
   // Calculate anatomical landmarks based on MediaPipe hand structure
   // Index finger landmarks: 5=MCP, 6=PIP, 7=DIP, 8=TIP
   const indexProximalSide = landmarks[6]; // Approximate radial side of proximal phalanx
@@ -72,9 +112,42 @@ export function calculateKapandjiScore(landmarks: HandLandmark[]): KapandjiScore
     { landmark: distalPalmarCrease, score: 10, name: 'Distal Palmar Crease', key: 'distalPalmarCrease' },
   ];
 
-  let maxScore = 0;
-  const reachedLandmarks: string[] = [];
-  const details = {
+  const measured = targets.map(target => ({
+    key: target.key,
+    name: target.name,
+    score: target.score,
+    leniency: 1,
+    distance: scale > 0 ? euclideanDistance(thumbTip, target.landmark) / scale : Infinity
+  }));
+
+  // Score 10: Full opposition across palm to radial side (under pinky metacarpal)
+  const wrist = landmarks[0];
+  const pinkyMcp = landmarks[17];
+  const isRightHand = landmarks[1].x > wrist.x;
+  // Half a palm length across from the pinky MCP, slightly toward the wrist
+  const radialTarget = {
+    x: isRightHand ? pinkyMcp.x + 0.5 * scale : pinkyMcp.x - 0.5 * scale,
+    y: pinkyMcp.y + 0.125 * scale,
+    z: pinkyMcp.z
+  };
+  measured.push({
+    key: 'fullOpposition',
+    name: 'Full Opposition',
+    score: 10,
+    leniency: 1.5, // Slightly more lenient for score 10
+    distance: scale > 0 ? euclideanDistance(thumbTip, radialTarget) / scale : Infinity
+  });
+
+  return measured;
+}
+
+// Details key set when a target is reached; full opposition shares score 10's key
+function detailKey(key: string): keyof KapandjiScore['details'] {
+  return (key === 'fullOpposition' ? 'distalPalmarCrease' : key) as keyof KapandjiScore['details'];
+}
+
+function emptyDetails(): KapandjiScore['details'] {
+  return {
     indexProximalPhalanx: false,
     indexMiddlePhalanx: false,
     indexTip: false,
@@ -86,69 +159,88 @@ export function calculateKapandjiScore(landmarks: HandLandmark[]): KapandjiScore
     littleMcpCrease: false,
     distalPalmarCrease: false
   };
+}
 
-  // Check each target in order
-  for (const target of targets) {
-    const distance = euclideanDistance(thumbTip, target.landmark);
-    if (distance < THRESHOLD) {
+// Score a set of per-target results: the highest reached target sets the score
+function scoreTargets(targets: KapandjiTargetResult[]): KapandjiScore {
+  let maxScore = 0;
+  const reachedLandmarks: string[] = [];
+  const details = emptyDetails();
+  targets.forEach(target => {
+    if (target.reached) {
       maxScore = Math.max(maxScore, target.score);
       reachedLandmarks.push(target.name);
-      (details as any)[target.key] = true;
+      details[detailKey(target.key)] = true;
     }
-  }
+  });
+  return { maxScore, reachedLandmarks, targets, details };
+}
 
-  // Score 10: Full opposition across palm to radial side (under pinky metacarpal)
-  const wrist = landmarks[0];
-  const pinkyMcp = landmarks[17];
-  const isRightHand = landmarks[1].x > wrist.x;
-  
-  // For score 10, thumb must reach the radial side under the pinky metacarpal
-  const radialTarget = {
-    x: isRightHand ? pinkyMcp.x + 0.08 : pinkyMcp.x - 0.08,
-    y: pinkyMcp.y + 0.02,
-    z: pinkyMcp.z
-  };
-  
-  const distanceToRadial = euclideanDistance(thumbTip, radialTarget);
-  if (distanceToRadial < THRESHOLD * 1.5) { // Slightly more lenient for score 10
-    maxScore = Math.max(maxScore, 10);
-    reachedLandmarks.push('Full Opposition');
-    details.distalPalmarCrease = true;
+// Kapandji score for a single frame: contact without any dwell requirement
+export function calculateKapandjiScore(landmarks: HandLandmark[], options: Partial<KapandjiOptions> = {}): KapandjiScore {
+  if (landmarks.length !== 21) {
+    throw new Error('MediaPipe hand landmarks must contain exactly 21 points');
   }
+  const { contactRatio } = { ...DEFAULT_KAPANDJI_OPTIONS, ...options };
 
-  return {
-    maxScore,
-    reachedLandmarks,
-    details
-  };
+  return scoreTargets(measureTargets(landmarks).map(target => {
+    const threshold = contactRatio * target.leniency;
+    const reached = target.distance < threshold;
+    return {
+      key: target.key,
+      name: target.name,
+      score: target.score,
+      minDistance: isFinite(target.distance) ? Math.round(target.distance * 1000) / 1000 : null,
+      longestContactMs: 0,
+      reached,
+      confidence: isFinite(target.distance) ? contactConfidence(target.distance, threshold) : 0
+    };
+  }));
 }
 
-export function calculateMaxKapandjiScore(motionFrames: Array<{landmarks: HandLandmark[]}>): KapandjiScore {
-  let bestScore: KapandjiScore = {
-    maxScore: 0,
-    reachedLandmarks: [],
-    details: {
-      indexProximalPhalanx: false,
-      indexMiddlePhalanx: false,
-      indexTip: false,
-      middleTip: false,
-      ringTip: false,
-      littleTip: false,
-      littleDipCrease: false,
-      littlePipCrease: false,
-      littleMcpCrease: false,
-      distalPalmarCrease: false
-    }
-  };
+// Session Kapandji score: a target counts once the thumb tip stays on it for dwellMs,
+// timed from the frames' timestamps so the requirement holds at any frame rate. Frames
+// without a full hand break a run.
+export function calculateMaxKapandjiScore(motionFrames: KapandjiFrame[], options: Partial<KapandjiOptions> = {}): KapandjiScore {
+  const { contactRatio, dwellMs } = { ...DEFAULT_KAPANDJI_OPTIONS, ...options };
+  const sessions: {[key: string]: { name: string; score: number; leniency: number; minDistance: number; runStart: number | null; longestMs: number; contacted: boolean }} = {};
 
-  for (const frame of motionFrames) {
-    if (frame.landmarks && frame.landmarks.length === 21) {
-      const frameScore = calculateKapandjiScore(frame.landmarks);
-      if (frameScore.maxScore > bestScore.maxScore) {
-        bestScore = frameScore;
-      }
+  motionFrames.forEach((frame, index) => {
+    if (!frame.landmarks || frame.landmarks.length !== 21) {
+      Object.keys(sessions).forEach(key => { sessions[key].runStart = null; });
+      return;
     }
+    const time = typeof frame.timestamp === 'number' ? frame.timestamp : index * UNTIMED_FRAME_MS;
+    measureTargets(frame.landmarks).forEach(target => {
+      const session = sessions[target.key] ||
+        (sessions[target.key] = { name: target.name, score: target.score, leniency: target.leniency, minDistance: Infinity, runStart: null, longestMs: 0, contacted: false });
+      session.minDistance = Math.min(session.minDistance, target.distance);
+      if (target.distance < contactRatio * target.leniency) {
+        session.runStart = session.runStart === null ? time : session.runStart;
+        session.contacted = true;
+        session.longestMs = Math.max(session.longestMs, time - session.runStart);
+      } else {
+        session.runStart = null;
+      }
+    });
+  });
+
+  if (Object.keys(sessions).length === 0) {
+    return { maxScore: 0, reachedLandmarks: [], targets: [], details: emptyDetails() };
   }
 
-  return bestScore;
-}
\ No newline at end of file
+  return scoreTargets(Object.keys(sessions).map(key => {
+    const session = sessions[key];
+    const threshold = contactRatio * session.leniency;
+    const measured = isFinite(session.minDistance);
+    return {
+      key,
+      name: session.name,
+      score: session.score,
+      minDistance: measured ? Math.round(session.minDistance * 1000) / 1000 : null,
+      longestContactMs: Math.round(session.longestMs),
+      reached: session.contacted && session.longestMs >= dwellMs,
+      confidence: measured ? contactConfidence(session.minDistance, threshold) : 0
+    };
+  }));
+}
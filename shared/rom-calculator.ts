@@ -5,6 +5,39 @@ export interface JointAngles {
   totalActiveRom: number;
 }
 
+// Thumb angles: MP and IP flexion, CMC abduction measured against the index metacarpal
+export interface ThumbAngles {
+  mpAngle: number;
+  ipAngle: number;
+  cmcRadialAbduction: number;  // In the plane of the palm
+  cmcPalmarAbduction: number;  // Perpendicular to the plane of the palm
+  totalActiveRom: number;      // Thumb TAM: MP + IP flexion
+}
+
+// Which way the palm faces relative to the landmarks' winding: 1 when index MCP x pinky MCP
+// (both from the wrist) points out of the palm, as for a right hand; -1 for a left hand
+export type PalmSide = 1 | -1;
+
+// One joint over a recording. Angles are signed: positive flexion, negative hyperextension.
+export interface JointMotionRange {
+  maxFlexion: number;
+  maxExtension: number;       // Closest the joint came to straight (or past it)
+  extensionLag: number;       // Extension deficit: how far short of 0° the joint stopped
+  hyperextension: number;     // How far past 0° the joint went
+  maxFlexionFrame: number;    // Index into the motion frames
+  maxExtensionFrame: number;
+}
+
+// ASSH total active motion: flexion summed over MCP, PIP and DIP minus their extension deficits
+export interface FingerMotionRange {
+  mcp: JointMotionRange;
+  pip: JointMotionRange;
+  dip: JointMotionRange;
+  totalFlexion: number;
+  totalExtensionLag: number;
+  totalActiveMotion: number;
+}
+
 export interface HandLandmark {
   x: number;
   y: number;
@@ -22,6 +55,17 @@ export interface TemporalROMData {
   temporalQuality: number;
 }
 
+// Why a finger's landmarks cannot be trusted in a frame
+export type OcclusionReason = 'LOW_CONFIDENCE' | 'DEPTH' | 'COLLAPSED';
+
+export interface FingerOcclusion {
+  fingerType: 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY';
+  isOccluded: boolean;
+  reason: OcclusionReason | null;
+  occludedBy?: 'THUMB' | 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY';
+  detail: string;
+}
+
 export interface TemporalValidationConfig {
   maxROMChangePerFrame: number;
   consistencyFrameCount: number;
@@ -46,13 +90,35 @@ const VISIBILITY_CONFIG = {
   bypassTemporalIfVisible: true // Skip temporal validation for clearly visible fingers
 };
 
+// Occlusion detection configuration for TAM frames
+const OCCLUSION_CONFIG = {
+  minLandmarkConfidence: 0.8,   // Stricter than the general visibility threshold
+  zDepthThreshold: 0.05,        // How far behind an overlapping finger counts as hidden
+  minSegmentRatio: 0.1          // Phalanx length as a share of palm length (wrist to middle MCP)
+};
+
 // Anatomical limits for joint angles (based on clinical studies)
-const ANATOMICAL_LIMITS = {
+export const ANATOMICAL_LIMITS = {
   MCP: { min: 0, max: 95 },   // Metacarpophalangeal joint: 0-95 degrees
   PIP: { min: 0, max: 115 },  // Proximal interphalangeal joint: 0-115 degrees
   DIP: { min: 0, max: 90 }    // Distal interphalangeal joint: 0-90 degrees
 };
 
+// Largest hyperextension accepted per joint; beyond this the landmarks are wrong, not the joint
+export const HYPEREXTENSION_LIMITS = {
+  MCP: 45,
+  PIP: 30,
+  DIP: 30
+};
+
+// Anatomical limits for thumb joint angles
+export const THUMB_ANATOMICAL_LIMITS = {
+  MP: { min: 0, max: 60 },                // Thumb metacarpophalangeal flexion: 0-60 degrees
+  IP: { min: 0, max: 90 },                // Thumb interphalangeal flexion: 0-90 degrees
+  CMC_RADIAL_ABDUCTION: { min: 0, max: 70 },
+  CMC_PALMAR_ABDUCTION: { min: 0, max: 70 }
+};
+
 // MediaPipe hand landmark indices for each finger
 const FINGER_LANDMARKS = {
   INDEX: {
@@ -77,9 +143,22 @@ const FINGER_LANDMARKS = {
   }
 };
 
+// MediaPipe hand landmark indices for the thumb; CMC abduction is measured between the
+// thumb metacarpal (CMC-MP) and the index metacarpal (wrist-index MCP)
+const THUMB_LANDMARKS = {
+  CMC: 1,
+  MP: 2,
+  IP: 3,
+  TIP: 4,
+  INDEX_MCP: 5,
+  PINKY_MCP: 17
+};
+
 // Calculate flexion angle between three points
-// Returns 0° for straight finger, positive for flexion
-function calculateFlexionAngle(p1: HandLandmark, p2: HandLandmark, p3: HandLandmark): number {
+// Returns 0° for straight finger, positive for flexion. Given the axis flexion turns about,
+// the angle is signed and bending the other way (hyperextension) is negative; without it
+// the angle is clamped to 0°.
+function calculateFlexionAngle(p1: HandLandmark, p2: HandLandmark, p3: HandLandmark, flexionAxis?: Vector3D): number {
   // Vector from p2 to p1 (proximal segment)
   const v1 = {
     x: p1.x - p2.x,
@@ -117,8 +196,54 @@ function calculateFlexionAngle(p1: HandLandmark, p2: HandLandmark, p3: HandLandm
   // Convert to flexion angle: 180° = straight (0° flexion), smaller angles = more flexion
   const flexionAngle = 180 - totalAngle;
   
-  // Ensure non-negative values (straight finger = 0°, flexed finger = positive)
-  return Math.max(0, flexionAngle);
+  if (!flexionAxis) {
+    // Ensure non-negative values (straight finger = 0°, flexed finger = positive)
+    return Math.max(0, flexionAngle);
+  }
+  
+  // The bend turns the proximal segment (p1 -> p2) toward the distal one (p2 -> p3);
+  // flexion turns it about the flexion axis, hyperextension against it
+  const bendAxis = crossProduct(scaleVector(v1, -1), v2);
+  const alongFlexion = bendAxis.x * flexionAxis.x + bendAxis.y * flexionAxis.y + bendAxis.z * flexionAxis.z;
+  return alongFlexion < 0 ? -flexionAngle : flexionAngle;
+}
+
+// Axis finger flexion turns about: the distal direction along the palm (wrist to middle
+// MCP) crossed with the palm normal, pointing radially for a right hand
+function fingerFlexionAxis(landmarks: HandLandmark[], palmSide: PalmSide): Vector3D {
+  const wrist = createVector(landmarks[0]);
+  const distal = subtractVectors(createVector(landmarks[9]), wrist);
+  const palmNormal = scaleVector(crossProduct(
+    subtractVectors(createVector(landmarks[5]), wrist),
+    subtractVectors(createVector(landmarks[17]), wrist)
+  ), palmSide);
+  return crossProduct(distal, palmNormal);
+}
+
+// Sum of signed finger joint angles taking the palm side as 1
+function signedFlexionSum(landmarks: HandLandmark[]): number {
+  const axis = fingerFlexionAxis(landmarks, 1);
+  let sum = 0;
+  (Object.keys(FINGER_LANDMARKS) as Array<keyof typeof FINGER_LANDMARKS>).forEach(fingerType => {
+    const finger = FINGER_LANDMARKS[fingerType];
+    [finger.MCP, finger.PIP, finger.DIP].forEach(([a, b, c]) => {
+      sum += calculateFlexionAngle(landmarks[a], landmarks[b], landmarks[c], axis);
+    });
+  });
+  return sum;
+}
+
+// Infer the palm side from the frames: flexion is the larger bend in finger recordings, so
+// the side under which the joints bend mostly positive is the right one. Landmarks alone
+// cannot tell a left hand from a mirrored right hand, and handedness labels can be wrong.
+export function inferPalmSide(motionFrames: Array<{landmarks: HandLandmark[]}>): PalmSide {
+  let sum = 0;
+  motionFrames.forEach(frame => {
+    if (frame.landmarks && frame.landmarks.length >= 21) {
+      sum += signedFlexionSum(frame.landmarks);
+    }
+  });
+  return sum < 0 ? -1 : 1;
 }
 
 // Temporal consistency validation
@@ -153,32 +278,37 @@ export function validateAnatomicalLimits(angles: JointAngles): {
   const violations: string[] = [];
   let correctedAngles = { ...angles };
   
+  // Signed angles may go negative (hyperextension) down to the joint's hyperextension limit
+  
   // Check and correct MCP angle
   if (angles.mcpAngle > ANATOMICAL_LIMITS.MCP.max) {
     violations.push(`MCP: ${angles.mcpAngle.toFixed(1)}° > ${ANATOMICAL_LIMITS.MCP.max}°`);
     correctedAngles.mcpAngle = ANATOMICAL_LIMITS.MCP.max;
-  } else if (angles.mcpAngle < ANATOMICAL_LIMITS.MCP.min) {
-    correctedAngles.mcpAngle = ANATOMICAL_LIMITS.MCP.min;
+  } else if (angles.mcpAngle < -HYPEREXTENSION_LIMITS.MCP) {
+    violations.push(`MCP: ${angles.mcpAngle.toFixed(1)}° < -${HYPEREXTENSION_LIMITS.MCP}°`);
+    correctedAngles.mcpAngle = -HYPEREXTENSION_LIMITS.MCP;
   }
   
   // Check and correct PIP angle
   if (angles.pipAngle > ANATOMICAL_LIMITS.PIP.max) {
     violations.push(`PIP: ${angles.pipAngle.toFixed(1)}° > ${ANATOMICAL_LIMITS.PIP.max}°`);
     correctedAngles.pipAngle = ANATOMICAL_LIMITS.PIP.max;
-  } else if (angles.pipAngle < ANATOMICAL_LIMITS.PIP.min) {
-    correctedAngles.pipAngle = ANATOMICAL_LIMITS.PIP.min;
+  } else if (angles.pipAngle < -HYPEREXTENSION_LIMITS.PIP) {
+    violations.push(`PIP: ${angles.pipAngle.toFixed(1)}° < -${HYPEREXTENSION_LIMITS.PIP}°`);
+    correctedAngles.pipAngle = -HYPEREXTENSION_LIMITS.PIP;
   }
   
   // Check and correct DIP angle
   if (angles.dipAngle > ANATOMICAL_LIMITS.DIP.max) {
     violations.push(`DIP: ${angles.dipAngle.toFixed(1)}° > ${ANATOMICAL_LIMITS.DIP.max}°`);
     correctedAngles.dipAngle = ANATOMICAL_LIMITS.DIP.max;
-  } else if (angles.dipAngle < ANATOMICAL_LIMITS.DIP.min) {
-    correctedAngles.dipAngle = ANATOMICAL_LIMITS.DIP.min;
+  } else if (angles.dipAngle < -HYPEREXTENSION_LIMITS.DIP) {
+    violations.push(`DIP: ${angles.dipAngle.toFixed(1)}° < -${HYPEREXTENSION_LIMITS.DIP}°`);
+    correctedAngles.dipAngle = -HYPEREXTENSION_LIMITS.DIP;
   }
   
-  // Recalculate total ROM with corrected values
-  correctedAngles.totalActiveRom = correctedAngles.mcpAngle + correctedAngles.pipAngle + correctedAngles.dipAngle;
+  // Recalculate total ROM with corrected values: the frame's flexion, hyperextension adds nothing
+  correctedAngles.totalActiveRom = Math.max(0, correctedAngles.mcpAngle) + Math.max(0, correctedAngles.pipAngle) + Math.max(0, correctedAngles.dipAngle);
   
   return {
     isValid: violations.length === 0,
@@ -214,9 +344,24 @@ export function assessFingerVisibility(landmarks: HandLandmark[], fingerType: 'I
   reason: string;
 } {
   const finger = FINGER_LANDMARKS[fingerType];
-  const allIndices = [...finger.MCP, ...finger.PIP, ...finger.DIP];
-  
-  // Get unique landmark indices for this finger (avoiding Set iteration)
+  return assessLandmarkVisibility(landmarks, [...finger.MCP, ...finger.PIP, ...finger.DIP]);
+}
+
+// Check if the thumb and the index metacarpal it is measured against are clearly visible
+export function assessThumbVisibility(landmarks: HandLandmark[]): {
+  isVisible: boolean;
+  avgVisibility: number;
+  reason: string;
+} {
+  return assessLandmarkVisibility(landmarks, [0, THUMB_LANDMARKS.CMC, THUMB_LANDMARKS.MP, THUMB_LANDMARKS.IP, THUMB_LANDMARKS.TIP, THUMB_LANDMARKS.INDEX_MCP]);
+}
+
+function assessLandmarkVisibility(landmarks: HandLandmark[], allIndices: number[]): {
+  isVisible: boolean;
+  avgVisibility: number;
+  reason: string;
+} {
+  // Get unique landmark indices (avoiding Set iteration)
   const uniqueIndices: number[] = [];
   allIndices.forEach(idx => {
     if (!uniqueIndices.includes(idx)) {
@@ -253,6 +398,98 @@ export function assessFingerVisibility(landmarks: HandLandmark[], fingerType: 'I
   return { isVisible, avgVisibility, reason };
 }
 
+// Landmarks that can hide a finger when they lie over it: the other fingers' PIP, DIP and
+// tip, and the thumb from its MP joint out
+const OCCLUDER_LANDMARKS = {
+  THUMB: [2, 3, 4],
+  INDEX: [6, 7, 8],
+  MIDDLE: [10, 11, 12],
+  RING: [14, 15, 16],
+  PINKY: [18, 19, 20]
+};
+
+function distance3D(a: HandLandmark, b: HandLandmark): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + ((a.z || 0) - (b.z || 0)) ** 2);
+}
+
+function getBoundingBox(landmarks: HandLandmark[], indices: number[]) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  indices.forEach(idx => {
+    const landmark = landmarks[idx];
+    minX = Math.min(minX, landmark.x);
+    minY = Math.min(minY, landmark.y);
+    maxX = Math.max(maxX, landmark.x);
+    maxY = Math.max(maxY, landmark.y);
+  });
+  return { minX, minY, maxX, maxY };
+}
+
+function averageDepth(landmarks: HandLandmark[], indices: number[]): number {
+  return indices.reduce((sum, idx) => sum + (landmarks[idx].z || 0), 0) / indices.length;
+}
+
+/**
+ * Classify whether a finger is occluded in one frame. A finger is occluded when any of its
+ * landmarks has low confidence, when it overlaps another finger or the thumb in the image
+ * while lying behind it (MediaPipe z grows away from the camera), or when its joints
+ * collapse onto each other, which MediaPipe does when it guesses a hidden finger.
+ */
+export function classifyFingerOcclusion(landmarks: HandLandmark[], fingerType: 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY'): FingerOcclusion {
+  const finger = FINGER_LANDMARKS[fingerType];
+  const chain = [finger.MCP[1], finger.PIP[1], finger.DIP[1], finger.DIP[2]]; // MCP, PIP, DIP, tip
+
+  const lowConfidence = chain.filter(idx =>
+    landmarks[idx].visibility !== undefined && landmarks[idx].visibility! < OCCLUSION_CONFIG.minLandmarkConfidence);
+  if (lowConfidence.length > 0) {
+    return {
+      fingerType,
+      isOccluded: true,
+      reason: 'LOW_CONFIDENCE',
+      detail: `Landmarks ${lowConfidence.join(', ')} below ${OCCLUSION_CONFIG.minLandmarkConfidence * 100}% confidence`
+    };
+  }
+
+  const palmLength = distance3D(landmarks[0], landmarks[9]);
+  if (palmLength > 0) {
+    for (let i = 0; i < chain.length - 1; i++) {
+      const ratio = distance3D(landmarks[chain[i]], landmarks[chain[i + 1]]) / palmLength;
+      if (ratio < OCCLUSION_CONFIG.minSegmentRatio) {
+        return {
+          fingerType,
+          isOccluded: true,
+          reason: 'COLLAPSED',
+          detail: `Segment ${chain[i]}-${chain[i + 1]} is ${(ratio * 100).toFixed(1)}% of palm length`
+        };
+      }
+    }
+  }
+
+  const distal = chain.slice(1);
+  const box = getBoundingBox(landmarks, distal);
+  const depth = averageDepth(landmarks, distal);
+  const occluders = Object.keys(OCCLUDER_LANDMARKS) as Array<keyof typeof OCCLUDER_LANDMARKS>;
+  for (let i = 0; i < occluders.length; i++) {
+    const other = occluders[i];
+    if (other === fingerType) continue;
+    const otherIndices = OCCLUDER_LANDMARKS[other];
+    const otherBox = getBoundingBox(landmarks, otherIndices);
+    const overlaps = box.minX <= otherBox.maxX && otherBox.minX <= box.maxX &&
+                     box.minY <= otherBox.maxY && otherBox.minY <= box.maxY;
+    const depthGap = depth - averageDepth(landmarks, otherIndices);
+    if (overlaps && depthGap > OCCLUSION_CONFIG.zDepthThreshold) {
+      return {
+        fingerType,
+        isOccluded: true,
+        reason: 'DEPTH',
+        occludedBy: other,
+        detail: `Behind ${other.toLowerCase()} by ${depthGap.toFixed(3)}`
+      };
+    }
+  }
+
+  return { fingerType, isOccluded: false, reason: null, detail: 'Unoccluded' };
+}
+
 // Calculate temporal quality score
 export function calculateTemporalQuality(romHistory: number[]): number {
   if (romHistory.length < 2) return 0.5;
@@ -276,7 +513,10 @@ export function calculateTemporalQuality(romHistory: number[]): number {
 }
 
 // Calculate joint angles for a specific finger with temporal validation
-export function calculateFingerROM(landmarks: HandLandmark[], fingerType: 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY'): JointAngles {
+// Angles are signed (negative is hyperextension) relative to the recording's palm side from
+// inferPalmSide. It must come from the whole recording: inferred from a single hyperextended
+// frame it would flip and report the hyperextension as flexion.
+export function calculateFingerROM(landmarks: HandLandmark[], fingerType: 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY', palmSide: PalmSide): JointAngles {
   const finger = FINGER_LANDMARKS[fingerType];
   
   // Check if landmarks have confidence data attached
@@ -295,34 +535,39 @@ export function calculateFingerROM(landmarks: HandLandmark[], fingerType: 'INDEX
     };
   }
   
+  const flexionAxis = fingerFlexionAxis(landmarks, palmSide);
+  
   // Calculate flexion angles using correct landmark triplets
   // MCP: wrist (0) -> MCP joint (5) -> PIP joint (6)
   const mcpAngle = calculateFlexionAngle(
     landmarks[finger.MCP[0]], // wrist (0)
     landmarks[finger.MCP[1]], // MCP joint (5)
-    landmarks[finger.MCP[2]]  // PIP joint (6)
+    landmarks[finger.MCP[2]], // PIP joint (6)
+    flexionAxis
   );
   
   // PIP: MCP joint (5) -> PIP joint (6) -> DIP joint (7)
   const pipAngle = calculateFlexionAngle(
     landmarks[finger.PIP[0]], // MCP joint (5)
     landmarks[finger.PIP[1]], // PIP joint (6)
-    landmarks[finger.PIP[2]]  // DIP joint (7)
+    landmarks[finger.PIP[2]], // DIP joint (7)
+    flexionAxis
   );
   
   // DIP: PIP joint (6) -> DIP joint (7) -> fingertip (8)
   const dipAngle = calculateFlexionAngle(
     landmarks[finger.DIP[0]], // PIP joint (6)
     landmarks[finger.DIP[1]], // DIP joint (7)
-    landmarks[finger.DIP[2]]  // fingertip (8)
+    landmarks[finger.DIP[2]], // fingertip (8)
+    flexionAxis
   );
   
-  // Create initial ROM object
+  // Create initial ROM object (rounded, no negative zero)
   const initialROM: JointAngles = {
-    mcpAngle: Math.round(mcpAngle * 100) / 100,
-    pipAngle: Math.round(pipAngle * 100) / 100,
-    dipAngle: Math.round(dipAngle * 100) / 100,
-    totalActiveRom: Math.round((mcpAngle + pipAngle + dipAngle) * 100) / 100
+    mcpAngle: Math.round(mcpAngle * 100) / 100 || 0,
+    pipAngle: Math.round(pipAngle * 100) / 100 || 0,
+    dipAngle: Math.round(dipAngle * 100) / 100 || 0,
+    totalActiveRom: 0 // Set by validateAnatomicalLimits
   };
   
   // Apply anatomical validation and correction
@@ -339,24 +584,56 @@ export function calculateFingerROM(landmarks: HandLandmark[], fingerType: 'INDEX
   return validation.correctedAngles;
 }
 
-// Calculate max ROM for all fingers with temporal validation
-export function calculateAllFingersMaxROM(motionFrames: Array<{landmarks: HandLandmark[]}>): {
+// Max flexion and max extension of one joint over the accepted frames. When smoothed, each
+// end is the median of its three most extreme frames so one landmark jump cannot set it;
+// either way the reported frame is the one the value came from.
+function summarizeJointMotion(angles: number[], frameIndices: number[], smoothed: boolean): JointMotionRange {
+  if (angles.length === 0) {
+    return { maxFlexion: 0, maxExtension: 0, extensionLag: 0, hyperextension: 0, maxFlexionFrame: -1, maxExtensionFrame: -1 };
+  }
+  // Positions into angles, most flexed first
+  const order = angles.map((angle, i) => i).sort((a, b) => angles[b] - angles[a]);
+  const rank = smoothed && order.length >= 3 ? 1 : 0;
+  const flexionAt = order[rank];
+  const extensionAt = order[order.length - 1 - rank];
+  const maxExtension = Math.round(angles[extensionAt] * 100) / 100 || 0;
+  return {
+    maxFlexion: Math.round(Math.max(0, angles[flexionAt]) * 100) / 100,
+    maxExtension,
+    extensionLag: Math.max(0, maxExtension),
+    hyperextension: Math.max(0, -maxExtension),
+    maxFlexionFrame: frameIndices[flexionAt],
+    maxExtensionFrame: frameIndices[extensionAt]
+  };
+}
+
+// Calculate maximum ROM for all fingers from motion data with temporal validation.
+// Each finger's totalActiveRom is its ASSH total active motion (see FingerMotionRange), and
+// motionRange gives the per-joint flexion, extension lag and the frames they occurred in.
+export function calculateAllFingersMaxROM(
+  motionFrames: Array<{landmarks: HandLandmark[]}>,
+  palmSide: PalmSide = inferPalmSide(motionFrames)
+): {
   index: JointAngles;
   middle: JointAngles;
   ring: JointAngles;
   pinky: JointAngles;
   temporalQuality: {[key: string]: number};
+  occlusionRates: {[key: string]: number};
+  motionRange: {[key: string]: FingerMotionRange};
 } {
   const fingers: ('INDEX' | 'MIDDLE' | 'RING' | 'PINKY')[] = ['INDEX', 'MIDDLE', 'RING', 'PINKY'];
   const maxROMByFinger: any = {};
   const temporalQuality: {[key: string]: number} = {};
+  const occlusionRates: {[key: string]: number} = {};
+  const motionRange: {[key: string]: FingerMotionRange} = {};
 
   fingers.forEach(finger => {
-    let maxMcp = 0, maxPip = 0, maxDip = 0, maxTotal = 0;
     const romHistory: number[] = [];
     const mcpHistory: number[] = [];
     const pipHistory: number[] = [];
     const dipHistory: number[] = [];
+    const frameHistory: number[] = [];
     
     // Assess overall finger visibility across all frames
     const visibilityAssessments = motionFrames.map(frame => 
@@ -374,10 +651,19 @@ export function calculateAllFingersMaxROM(motionFrames: Array<{landmarks: HandLa
     
     console.log(`${finger} finger visibility assessment: ${visibleFrames}/${totalFrames} frames clearly visible (${(overallVisibilityRatio * 100).toFixed(1)}%) - ${isClearlyVisible ? 'BYPASSING temporal validation' : 'APPLYING temporal validation'}`);
     
-    // Process each frame and build ROM history
+    // Process each frame and build ROM history; occluded frames never set the maximum
+    let trackedFrames = 0;
+    let occludedFrames = 0;
     motionFrames.forEach((frame, frameIndex) => {
       if (frame.landmarks && frame.landmarks.length >= 21) {
-        const rom = calculateFingerROM(frame.landmarks, finger);
+        trackedFrames++;
+        const occlusion = classifyFingerOcclusion(frame.landmarks, finger);
+        if (occlusion.isOccluded) {
+          occludedFrames++;
+          return;
+        }
+        
+        const rom = calculateFingerROM(frame.landmarks, finger, palmSide);
         const frameVisibility = visibilityAssessments[frameIndex];
         
         // Determine if we should apply temporal validation for this frame
@@ -416,51 +702,199 @@ export function calculateAllFingersMaxROM(motionFrames: Array<{landmarks: HandLa
           mcpHistory.push(rom.mcpAngle);
           pipHistory.push(rom.pipAngle);
           dipHistory.push(rom.dipAngle);
-          
-          maxMcp = Math.max(maxMcp, rom.mcpAngle);
-          maxPip = Math.max(maxPip, rom.pipAngle);
-          maxDip = Math.max(maxDip, rom.dipAngle);
-          maxTotal = Math.max(maxTotal, rom.totalActiveRom);
+          frameHistory.push(frameIndex);
         }
       }
     });
 
+    occlusionRates[finger.toLowerCase()] = trackedFrames > 0 ? occludedFrames / trackedFrames : 0;
+    if (occludedFrames > 0) {
+      console.log(`${finger} finger occluded in ${occludedFrames}/${trackedFrames} frames (${(occlusionRates[finger.toLowerCase()] * 100).toFixed(1)}%) - excluded from max ROM`);
+    }
+    
     // Apply smoothing to final ROM values if we have enough data AND temporal validation was applied
-    if (romHistory.length >= TEMPORAL_CONFIG.minValidFrames && !isClearlyVisible) {
-      const smoothedMaxTotal = applySmoothingFilter([...romHistory].sort((a, b) => b - a).slice(0, 3));
-      const smoothedMaxMcp = applySmoothingFilter([...mcpHistory].sort((a, b) => b - a).slice(0, 3));
-      const smoothedMaxPip = applySmoothingFilter([...pipHistory].sort((a, b) => b - a).slice(0, 3));
-      const smoothedMaxDip = applySmoothingFilter([...dipHistory].sort((a, b) => b - a).slice(0, 3));
-      
-      maxROMByFinger[finger.toLowerCase()] = {
-        mcpAngle: Math.round(smoothedMaxMcp * 100) / 100,
-        pipAngle: Math.round(smoothedMaxPip * 100) / 100,
-        dipAngle: Math.round(smoothedMaxDip * 100) / 100,
-        totalActiveRom: Math.round(smoothedMaxTotal * 100) / 100
-      };
-      
+    const smoothed = romHistory.length >= TEMPORAL_CONFIG.minValidFrames && !isClearlyVisible;
+    const mcp = summarizeJointMotion(mcpHistory, frameHistory, smoothed);
+    const pip = summarizeJointMotion(pipHistory, frameHistory, smoothed);
+    const dip = summarizeJointMotion(dipHistory, frameHistory, smoothed);
+    const totalFlexion = mcp.maxFlexion + pip.maxFlexion + dip.maxFlexion;
+    const totalExtensionLag = mcp.extensionLag + pip.extensionLag + dip.extensionLag;
+    const totalActiveMotion = Math.round(Math.max(0, totalFlexion - totalExtensionLag) * 100) / 100;
+    
+    motionRange[finger.toLowerCase()] = {
+      mcp,
+      pip,
+      dip,
+      totalFlexion: Math.round(totalFlexion * 100) / 100,
+      totalExtensionLag: Math.round(totalExtensionLag * 100) / 100,
+      totalActiveMotion
+    };
+    maxROMByFinger[finger.toLowerCase()] = {
+      mcpAngle: mcp.maxFlexion,
+      pipAngle: pip.maxFlexion,
+      dipAngle: dip.maxFlexion,
+      totalActiveRom: totalActiveMotion
+    };
+    
+    if (smoothed) {
       temporalQuality[finger.toLowerCase()] = calculateTemporalQuality(romHistory);
-      console.log(`${finger} finger temporal validation: ${romHistory.length} valid frames, quality: ${Math.round(temporalQuality[finger.toLowerCase()] * 100)}%, final ROM: ${Math.round(smoothedMaxTotal * 100) / 100}°`);
+      console.log(`${finger} finger temporal validation: ${romHistory.length} valid frames, quality: ${Math.round(temporalQuality[finger.toLowerCase()] * 100)}%, final TAM: ${totalActiveMotion}° (extension lag ${Math.round(totalExtensionLag * 100) / 100}°)`);
+    } else if (romHistory.length === 0) {
+      temporalQuality[finger.toLowerCase()] = 0; // Occluded or untracked in every frame
+      console.log(`${finger} finger has no usable frames`);
+    } else if (isClearlyVisible) {
+      temporalQuality[finger.toLowerCase()] = 1.0; // Perfect quality for clearly visible fingers
+      console.log(`${finger} finger clearly visible: ${romHistory.length} frames, bypassed temporal validation, final TAM: ${totalActiveMotion}° (RAW, extension lag ${Math.round(totalExtensionLag * 100) / 100}°)`);
     } else {
-      // Use raw values for clearly visible fingers or insufficient data
-      maxROMByFinger[finger.toLowerCase()] = {
-        mcpAngle: Math.round(maxMcp * 100) / 100,
-        pipAngle: Math.round(maxPip * 100) / 100,
-        dipAngle: Math.round(maxDip * 100) / 100,
-        totalActiveRom: Math.round(maxTotal * 100) / 100
-      };
-      
-      if (isClearlyVisible) {
-        temporalQuality[finger.toLowerCase()] = 1.0; // Perfect quality for clearly visible fingers
-        console.log(`${finger} finger clearly visible: ${romHistory.length} frames, bypassed temporal validation, final ROM: ${Math.round(maxTotal * 100) / 100}° (RAW)`);
-      } else {
-        temporalQuality[finger.toLowerCase()] = 0.3; // Low quality due to insufficient data
-        console.log(`${finger} finger insufficient data for temporal validation: ${romHistory.length} frames, using raw ROM: ${Math.round(maxTotal * 100) / 100}°`);
+      temporalQuality[finger.toLowerCase()] = 0.3; // Low quality due to insufficient data
+      console.log(`${finger} finger insufficient data for temporal validation: ${romHistory.length} frames, using raw TAM: ${totalActiveMotion}°`);
+    }
+  });
+
+  return { ...maxROMByFinger, temporalQuality, occlusionRates, motionRange };
+}
+
+// Validate thumb angles against the thumb's anatomical limits
+export function validateThumbAnatomicalLimits(angles: ThumbAngles): {
+  isValid: boolean;
+  correctedAngles: ThumbAngles;
+  violations: string[];
+} {
+  const violations: string[] = [];
+  const clamp = (label: string, value: number, limits: { min: number; max: number }) => {
+    if (value > limits.max) {
+      violations.push(`${label}: ${value.toFixed(1)}° > ${limits.max}°`);
+      return limits.max;
+    }
+    return Math.max(limits.min, value);
+  };
+
+  const correctedAngles: ThumbAngles = {
+    mpAngle: clamp('Thumb MP', angles.mpAngle, THUMB_ANATOMICAL_LIMITS.MP),
+    ipAngle: clamp('Thumb IP', angles.ipAngle, THUMB_ANATOMICAL_LIMITS.IP),
+    cmcRadialAbduction: clamp('CMC radial abduction', angles.cmcRadialAbduction, THUMB_ANATOMICAL_LIMITS.CMC_RADIAL_ABDUCTION),
+    cmcPalmarAbduction: clamp('CMC palmar abduction', angles.cmcPalmarAbduction, THUMB_ANATOMICAL_LIMITS.CMC_PALMAR_ABDUCTION),
+    totalActiveRom: 0
+  };
+  correctedAngles.totalActiveRom = correctedAngles.mpAngle + correctedAngles.ipAngle;
+
+  return {
+    isValid: violations.length === 0,
+    correctedAngles,
+    violations
+  };
+}
+
+// Calculate thumb joint angles for one frame
+export function calculateThumbROM(landmarks: HandLandmark[]): ThumbAngles {
+  const cmc = landmarks[THUMB_LANDMARKS.CMC];
+  const mp = landmarks[THUMB_LANDMARKS.MP];
+  const ip = landmarks[THUMB_LANDMARKS.IP];
+  const tip = landmarks[THUMB_LANDMARKS.TIP];
+
+  // MP: CMC (1) -> MP joint (2) -> IP joint (3); IP: MP joint (2) -> IP joint (3) -> tip (4)
+  const mpAngle = calculateFlexionAngle(cmc, mp, ip);
+  const ipAngle = calculateFlexionAngle(mp, ip, tip);
+
+  // CMC abduction: split the thumb metacarpal into its component in the palm plane
+  // (radial abduction) and out of it (palmar abduction), both against the index metacarpal
+  const wrist = createVector(landmarks[0]);
+  const indexMetacarpal = subtractVectors(createVector(landmarks[THUMB_LANDMARKS.INDEX_MCP]), wrist);
+  const pinkyMetacarpal = subtractVectors(createVector(landmarks[THUMB_LANDMARKS.PINKY_MCP]), wrist);
+  const thumbMetacarpal = subtractVectors(createVector(mp), createVector(cmc));
+
+  let cmcRadialAbduction = 0;
+  let cmcPalmarAbduction = 0;
+  const palmNormal = crossProduct(indexMetacarpal, pinkyMetacarpal);
+  const normalLength = vectorMagnitude(palmNormal);
+  const indexLength = vectorMagnitude(indexMetacarpal);
+  if (normalLength > 0 && indexLength > 0) {
+    const unitNormal = scaleVector(palmNormal, 1 / normalLength);
+    const outOfPalm = dotProduct(thumbMetacarpal, unitNormal);
+    const inPalm = subtractVectors(thumbMetacarpal, scaleVector(unitNormal, outOfPalm));
+    cmcRadialAbduction = calculateAngleDegrees(inPalm, indexMetacarpal);
+
+    const alongIndex = dotProduct(thumbMetacarpal, scaleVector(indexMetacarpal, 1 / indexLength));
+    cmcPalmarAbduction = Math.atan2(Math.abs(outOfPalm), alongIndex) * (180 / Math.PI);
+  }
+
+  const initialAngles: ThumbAngles = {
+    mpAngle: Math.round(mpAngle * 100) / 100,
+    ipAngle: Math.round(ipAngle * 100) / 100,
+    cmcRadialAbduction: Math.round(cmcRadialAbduction * 100) / 100,
+    cmcPalmarAbduction: Math.round(cmcPalmarAbduction * 100) / 100,
+    totalActiveRom: Math.round((mpAngle + ipAngle) * 100) / 100
+  };
+
+  const validation = validateThumbAnatomicalLimits(initialAngles);
+  if (!validation.isValid) {
+    console.log(`THUMB anatomical limits exceeded: ${validation.violations.join(', ')} - applying corrections`);
+  }
+  return validation.correctedAngles;
+}
+
+// Calculate max thumb ROM with the same temporal validation as the fingers
+export function calculateThumbMaxROM(motionFrames: Array<{landmarks: HandLandmark[]}>): {
+  thumb: ThumbAngles;
+  temporalQuality: number;
+} {
+  const keys: Array<keyof ThumbAngles> = ['mpAngle', 'ipAngle', 'cmcRadialAbduction', 'cmcPalmarAbduction', 'totalActiveRom'];
+  const histories: {[key: string]: number[]} = {};
+  keys.forEach(key => { histories[key] = []; });
+
+  const visibilityAssessments = motionFrames.map(frame =>
+    frame.landmarks && frame.landmarks.length >= 21
+      ? assessThumbVisibility(frame.landmarks)
+      : { isVisible: false, avgVisibility: 0, reason: 'No landmarks' }
+  );
+  const visibleFrames = visibilityAssessments.filter(v => v.isVisible).length;
+  const isClearlyVisible = motionFrames.length > 0 && visibleFrames / motionFrames.length >= 0.8;
+  const shouldApplyTemporal = !(isClearlyVisible && VISIBILITY_CONFIG.bypassTemporalIfVisible);
+
+  motionFrames.forEach(frame => {
+    if (!frame.landmarks || frame.landmarks.length < 21) return;
+    const rom = calculateThumbROM(frame.landmarks);
+
+    if (shouldApplyTemporal) {
+      const rejected = keys.filter(key => !validateTemporalConsistency(rom[key], histories[key]));
+      if (rejected.length > 0) {
+        console.log(`THUMB ROM REJECTED due to temporal inconsistency: ${rejected.join(', ')} - threshold: ${TEMPORAL_CONFIG.maxROMChangePerFrame}°`);
+        return;
       }
     }
+    keys.forEach(key => histories[key].push(rom[key]));
   });
 
-  return { ...maxROMByFinger, temporalQuality };
+  // Smooth the maximums (mean of the top three) when temporal validation was applied
+  const smoothMax = histories.totalActiveRom.length >= TEMPORAL_CONFIG.minValidFrames && !isClearlyVisible;
+  const maxOf = (key: keyof ThumbAngles) => {
+    const history = histories[key];
+    if (history.length === 0) return 0;
+    const value = smoothMax
+      ? applySmoothingFilter([...history].sort((a, b) => b - a).slice(0, 3))
+      : Math.max(...history);
+    return Math.round(value * 100) / 100;
+  };
+
+  const thumb: ThumbAngles = {
+    mpAngle: maxOf('mpAngle'),
+    ipAngle: maxOf('ipAngle'),
+    cmcRadialAbduction: maxOf('cmcRadialAbduction'),
+    cmcPalmarAbduction: maxOf('cmcPalmarAbduction'),
+    totalActiveRom: maxOf('totalActiveRom')
+  };
+
+  let temporalQuality: number;
+  if (isClearlyVisible) {
+    temporalQuality = 1.0;
+  } else if (smoothMax) {
+    temporalQuality = calculateTemporalQuality(histories.totalActiveRom);
+  } else {
+    temporalQuality = 0.3; // Insufficient data
+  }
+  console.log(`THUMB ROM: ${histories.totalActiveRom.length} valid frames, quality: ${Math.round(temporalQuality * 100)}%, TAM: ${thumb.totalActiveRom}°, radial abduction: ${thumb.cmcRadialAbduction}°, palmar abduction: ${thumb.cmcPalmarAbduction}°`);
+
+  return { thumb, temporalQuality };
 }
 
 // Wrist Radial/Ulnar Deviation Assessment
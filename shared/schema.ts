@@ -12,6 +12,12 @@ export const clinicalUsers = pgTable("clinical_users", {
   lastName: text("last_name").notNull(),
   role: text("role").notNull(), // "clinician", "researcher", "admin"
   isActive: boolean("is_active").default(true),
+  passwordHistory: jsonb("password_history"), // Previous password hashes, newest first
+  passwordChangedAt: timestamp("password_changed_at"),
+  totpSecret: text("totp_secret"), // Base32 TOTP secret; set at enrollment, active once totpEnabledAt is set
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // Last accepted time step, to reject replayed codes
+  totpRecoveryCodes: jsonb("totp_recovery_codes"), // SHA-256 hashes of unused recovery codes
   createdAt: timestamp("created_at").defaultNow(),
   lastLoginAt: timestamp("last_login_at"),
 });
@@ -25,10 +31,28 @@ export const adminUsers = pgTable("admin_users", {
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
   isActive: boolean("is_active").default(true),
+  passwordHistory: jsonb("password_history"), // Previous password hashes, newest first
+  passwordChangedAt: timestamp("password_changed_at"),
+  totpSecret: text("totp_secret"), // Base32 TOTP secret; set at enrollment, active once totpEnabledAt is set
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // Last accepted time step, to reject replayed codes
+  totpRecoveryCodes: jsonb("totp_recovery_codes"), // SHA-256 hashes of unused recovery codes
   createdAt: timestamp("created_at").defaultNow(),
   lastLoginAt: timestamp("last_login_at"),
 });
 
+// Single-use password reset tokens (only the SHA-256 of the token is stored)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userType: text("user_type").notNull(), // "clinical", "admin"
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: text("requested_ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Cohort definitions for injury types
 export const cohorts = pgTable("cohorts", {
   id: serial("id").primaryKey(),
@@ -64,6 +88,7 @@ export const patients = pgTable("patients", {
   // Enrollment fields
   enrollmentStatus: text("enrollment_status").default("screening"), // screening, enrolled, excluded, withdrawn
   enrolledDate: timestamp("enrolled_date"),
+  withdrawnAt: timestamp("withdrawn_at"), // Set when enrollmentStatus becomes withdrawn; starts the deletion grace period
   accessCode: text("access_code").unique(), // 6-digit code for patient access
   phone: text("phone"),
   dateOfBirth: date("date_of_birth"),
@@ -96,7 +121,8 @@ export const patientAssessments = pgTable("patient_assessments", {
   id: serial("id").primaryKey(),
   patientId: integer("patient_id").references(() => patients.id).notNull(),
   assessmentTypeId: integer("assessment_type_id").references(() => assessmentTypes.id).notNull(),
-  clinicianId: integer("clinician_id").references(() => clinicalUsers.id).notNull(),
+  clinicianId: integer("clinician_id").references(() => clinicalUsers.id), // Null when the patient recorded it in the app with no clinician assigned
+  userAssessmentId: integer("user_assessment_id").unique(), // Patient app recording this row mirrors (see server/patient-link.ts)
   assessmentDate: timestamp("assessment_date").defaultNow(),
   sessionNumber: integer("session_number").default(1),
   deviceConfidenceScore: numeric("device_confidence_score", { precision: 5, scale: 2 }),
@@ -169,13 +195,27 @@ export const outlierAlerts = pgTable("outlier_alerts", {
 // Audit log for compliance
 export const auditLogs = pgTable("audit_logs", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").references(() => clinicalUsers.id).notNull(),
+  userId: integer("user_id").references(() => clinicalUsers.id), // Null for anonymous events (e.g. access-code lockouts)
   action: text("action").notNull(), // "data_export", "permission_change", "patient_access"
   targetEntity: text("target_entity"), // "patient_id:123", "cohort_id:456"
   details: jsonb("details"),
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
   timestamp: timestamp("timestamp").defaultNow(),
+  previousHash: text("previous_hash"), // entryHash of the preceding entry (tamper-evident chain)
+  entryHash: text("entry_hash"), // SHA-256 over this entry's content and previousHash
+});
+
+// Explicit access grants letting a clinician work on a patient outside their own caseload
+export const patientDelegations = pgTable("patient_delegations", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").references(() => patients.id).notNull(),
+  clinicianId: integer("clinician_id").references(() => clinicalUsers.id).notNull(), // Delegate receiving access
+  grantedBy: integer("granted_by").references(() => clinicalUsers.id).notNull(),
+  reason: text("reason"),
+  expiresAt: timestamp("expires_at"), // Null for open-ended cover
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Data export requests for tracking
@@ -183,13 +223,35 @@ export const dataExports = pgTable("data_exports", {
   id: serial("id").primaryKey(),
   requestedBy: integer("requested_by").references(() => clinicalUsers.id).notNull(),
   exportType: text("export_type").notNull(), // "patient_data", "cohort_data"
+  format: text("format").notNull().default("csv"), // "csv", "xlsx", "json"
   filters: jsonb("filters"),
-  downloadUrl: text("download_url"),
+  downloadUrl: text("download_url").unique(), // Unguessable; only the requesting user can download
   expiresAt: timestamp("expires_at"),
   downloadedAt: timestamp("downloaded_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Server-side configuration stored as JSON per key (e.g. "deidentification")
+export const systemSettings = pgTable("system_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: integer("updated_by").references(() => clinicalUsers.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Legal holds block the retention job from purging or deleting the covered data.
+// A hold names a clinical patient, a patient app user, or neither (everything).
+export const legalHolds = pgTable("legal_holds", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").references(() => patients.id),
+  userId: integer("user_id"),
+  reason: text("reason").notNull(),
+  createdBy: integer("created_by").references(() => clinicalUsers.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  releasedBy: integer("released_by").references(() => clinicalUsers.id),
+  releasedAt: timestamp("released_at"),
+});
+
 // Legacy tables for backward compatibility
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -202,6 +264,10 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow(),
   isFirstTime: boolean("is_first_time").default(true),
   isActive: boolean("is_active").default(true),
+  handLengthCm: numeric("hand_length_cm", { precision: 4, scale: 1 }), // Patient-entered, wrist crease to middle fingertip
+  palmLengthCm: numeric("palm_length_cm", { precision: 4, scale: 2 }), // Calibrated scale for metric measurements
+  handCalibrationMethod: text("hand_calibration_method"), // "hand_length", "reference_object"
+  handCalibratedAt: timestamp("hand_calibrated_at"),
 });
 
 export const assessments = pgTable("assessments", {
@@ -243,13 +309,75 @@ export const userAssessments = pgTable("user_assessments", {
   pinkyFingerMcp: numeric("pinky_finger_mcp", { precision: 5, scale: 2 }),
   pinkyFingerPip: numeric("pinky_finger_pip", { precision: 5, scale: 2 }),
   pinkyFingerDip: numeric("pinky_finger_dip", { precision: 5, scale: 2 }),
+  thumbMpFlexion: numeric("thumb_mp_flexion", { precision: 5, scale: 2 }),
+  thumbIpFlexion: numeric("thumb_ip_flexion", { precision: 5, scale: 2 }),
+  thumbCmcRadialAbduction: numeric("thumb_cmc_radial_abduction", { precision: 5, scale: 2 }),
+  thumbCmcPalmarAbduction: numeric("thumb_cmc_palmar_abduction", { precision: 5, scale: 2 }),
+  thumbTotalActiveRom: numeric("thumb_total_active_rom", { precision: 5, scale: 2 }), // MP + IP flexion
   handType: text("hand_type"),
   wristFlexionAngle: numeric("wrist_flexion_angle", { precision: 5, scale: 2 }),
   wristExtensionAngle: numeric("wrist_extension_angle", { precision: 5, scale: 2 }),
   maxWristFlexion: numeric("max_wrist_flexion", { precision: 5, scale: 2 }),
   maxWristExtension: numeric("max_wrist_extension", { precision: 5, scale: 2 }),
+  forearmPronationAngle: numeric("forearm_pronation_angle", { precision: 5, scale: 2 }), // Max pronation from neutral (thumb up)
+  forearmSupinationAngle: numeric("forearm_supination_angle", { precision: 5, scale: 2 }), // Max supination from neutral
+  indexTipToPalmCm: numeric("index_tip_to_palm_cm", { precision: 5, scale: 2 }), // Closest fingertip approach to the distal palmar crease
+  middleTipToPalmCm: numeric("middle_tip_to_palm_cm", { precision: 5, scale: 2 }),
+  ringTipToPalmCm: numeric("ring_tip_to_palm_cm", { precision: 5, scale: 2 }),
+  pinkyTipToPalmCm: numeric("pinky_tip_to_palm_cm", { precision: 5, scale: 2 }),
+  compositeFistCm: numeric("composite_fist_cm", { precision: 5, scale: 2 }), // Largest of the four; 0 is a full fist
+  fingerMotionRanges: jsonb("finger_motion_ranges"), // Per finger and joint: max flexion, extension lag and their frames (FingerMotionRange)
   dashScore: numeric("dash_score", { precision: 5, scale: 2 }),
-  shareToken: text("share_token").unique(),
+  shareToken: text("share_token").unique(), // Legacy permanent share token; superseded by shareLinks and no longer honoured
+});
+
+// Expiring, revocable share links for a single user assessment
+export const shareLinks = pgTable("share_links", {
+  id: serial("id").primaryKey(),
+  userAssessmentId: integer("user_assessment_id").references(() => userAssessments.id).notNull(),
+  userId: integer("user_id").notNull(), // Owner (the patient the assessment belongs to)
+  tokenHash: text("token_hash").notNull().unique(),
+  scope: text("scope").notNull().default("summary"), // "summary", "replay" (summary plus motion frames)
+  label: text("label"),
+  expiresAt: timestamp("expires_at").notNull(),
+  maxViews: integer("max_views"), // Null for unlimited views until expiry
+  viewCount: integer("view_count").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Versioned consent documents; the most recently published version is the one patients must sign
+export const consentDocuments = pgTable("consent_documents", {
+  id: serial("id").primaryKey(),
+  version: text("version").notNull().unique(), // e.g. "1.0", "2024-06"
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  publishedAt: timestamp("published_at"), // Null while the version is a draft
+  createdBy: integer("created_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A patient's signature on a specific consent document version
+export const consentRecords = pgTable("consent_records", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // Patient (users.id)
+  consentDocumentId: integer("consent_document_id").references(() => consentDocuments.id).notNull(),
+  version: text("version").notNull(), // Copied from the document so records stay readable on their own
+  signedName: text("signed_name").notNull(),
+  signedAt: timestamp("signed_at").defaultNow(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+});
+
+// Every attempt to open a share link, including refused ones
+export const shareLinkAccessLogs = pgTable("share_link_access_logs", {
+  id: serial("id").primaryKey(),
+  shareLinkId: integer("share_link_id").references(() => shareLinks.id).notNull(),
+  outcome: text("outcome").notNull(), // "viewed", "expired", "revoked", "view_limit_reached", "unavailable"
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  accessedAt: timestamp("accessed_at").defaultNow(),
 });
 
 export const injuryTypes = pgTable("injury_types", {
@@ -306,6 +434,66 @@ export const insertAdminUserSchema = createInsertSchema(adminUsers).omit({
   lastLoginAt: true,
 });
 
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  createdAt: true,
+  usedAt: true,
+});
+
+export const insertPatientDelegationSchema = createInsertSchema(patientDelegations).omit({
+  id: true,
+  createdAt: true,
+  revokedAt: true,
+});
+
+export const patientDelegationRequestSchema = z.object({
+  clinicianId: z.number().int().positive(),
+  reason: z.string().optional(),
+  expiresAt: z.coerce.date().optional(),
+});
+
+export const auditLogQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  action: z.string().min(1).optional(),
+  targetEntity: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+  code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+}).refine(data => data.code || data.recoveryCode, {
+  message: "An authentication code or recovery code is required",
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().min(1, "Authentication code is required"),
+  challengeToken: z.string().optional(),
+});
+
+export const twoFactorDisableSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+  code: z.string().min(1, "Authentication code is required"),
+});
+
+export const passwordResetRequestSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  newPassword: z.string().min(1, "New password is required"),
+});
+
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(1, "New password is required"),
+});
+
 export const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
@@ -324,6 +512,7 @@ export const insertCohortSchema = createInsertSchema(cohorts).omit({
 export const insertPatientSchema = createInsertSchema(patients).omit({
   id: true,
   createdAt: true,
+  withdrawnAt: true,
 });
 
 export const insertAssessmentTypeSchema = createInsertSchema(assessmentTypes).omit({
@@ -345,6 +534,8 @@ export const insertOutlierAlertSchema = createInsertSchema(outlierAlerts).omit({
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
   timestamp: true,
+  previousHash: true,
+  entryHash: true,
 });
 
 export const insertDataExportSchema = createInsertSchema(dataExports).omit({
@@ -352,6 +543,53 @@ export const insertDataExportSchema = createInsertSchema(dataExports).omit({
   createdAt: true,
 });
 
+export const dataExportRequestSchema = z.object({
+  exportType: z.enum(['patient_data', 'cohort_data']),
+  format: z.enum(['csv', 'xlsx', 'json', 'redcap']).default('csv'),
+  filters: z.object({
+    patientId: z.union([z.coerce.number().int().positive(), z.null()]).optional(),
+    cohortId: z.union([z.coerce.number().int().positive(), z.null()]).optional(),
+  }).default({}),
+});
+
+export const deidentificationSettingsSchema = z.object({
+  enabled: z.boolean(),
+  kAnonymity: z.number().int().min(2).max(100),
+  dateShiftMaxDays: z.number().int().min(1).max(730),
+});
+
+// Retention policy per data class, enforced by the scheduled retention job
+export const retentionPolicySchema = z.object({
+  enabled: z.boolean(),
+  motionFrames: z.object({
+    action: z.enum(['archive', 'purge', 'keep']),
+    afterDays: z.number().int().min(1).max(3650),
+  }),
+  assessmentRecords: z.object({
+    action: z.enum(['delete', 'keep']),
+    afterYears: z.number().int().min(1).max(50),
+  }),
+  withdrawnPatients: z.object({
+    action: z.enum(['delete', 'keep']),
+    graceDays: z.number().int().min(0).max(3650),
+  }),
+});
+
+// Kapandji contact scoring, shared by recording scoring and replay (see kapandji-calculator.ts)
+export const kapandjiSettingsSchema = z.object({
+  contactRatio: z.number().min(0.05).max(1),
+  dwellMs: z.number().int().min(0).max(2000),
+});
+
+export const insertLegalHoldSchema = createInsertSchema(legalHolds, {
+  reason: z.string().trim().min(1, "A reason is required"),
+}).omit({
+  id: true,
+  createdAt: true,
+  releasedBy: true,
+  releasedAt: true,
+});
+
 export const insertDailyCompletionSchema = createInsertSchema(dailyCompletions).omit({
   id: true,
   createdAt: true,
@@ -422,6 +660,33 @@ export const insertUserSchema = createInsertSchema(users).pick({
   injuryType: true,
 });
 
+// What a patient may change on their own account; unknown keys are stripped
+export const updateUserProfileSchema = createInsertSchema(users).pick({
+  injuryType: true,
+  surgeryDate: true,
+  isFirstTime: true,
+}).partial();
+
+// One-time scale calibration for metric hand measurements
+const imagePointSchema = z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) });
+const calibrationLandmarksSchema = z.array(z.object({ x: z.number(), y: z.number(), z: z.number() })).length(21);
+
+export const handCalibrationSchema = z.discriminatedUnion("method", [
+  z.object({
+    method: z.literal("hand_length"),
+    handLengthCm: z.number().min(12).max(25),
+    landmarks: calibrationLandmarksSchema.optional(),
+  }),
+  z.object({
+    method: z.literal("reference_object"),
+    referenceLengthCm: z.number().positive().max(50),
+    referenceStart: imagePointSchema,
+    referenceEnd: imagePointSchema,
+    landmarks: calibrationLandmarksSchema,
+    imageAspect: z.number().positive().default(4 / 3),
+  }),
+]);
+
 export const insertAssessmentSchema = createInsertSchema(assessments).omit({
   id: true,
 });
@@ -434,6 +699,47 @@ export const insertInjuryTypeSchema = createInsertSchema(injuryTypes).omit({
   id: true,
 });
 
+export const insertShareLinkSchema = createInsertSchema(shareLinks).omit({
+  id: true,
+  viewCount: true,
+  revokedAt: true,
+  lastViewedAt: true,
+  createdAt: true,
+});
+
+export const insertShareLinkAccessLogSchema = createInsertSchema(shareLinkAccessLogs).omit({
+  id: true,
+  accessedAt: true,
+});
+
+export const insertConsentDocumentSchema = createInsertSchema(consentDocuments, {
+  version: z.string().trim().min(1, "Version is required").max(50),
+  title: z.string().trim().min(1, "Title is required"),
+  body: z.string().trim().min(1, "Consent text is required"),
+}).omit({
+  id: true,
+  publishedAt: true,
+  createdAt: true,
+});
+
+export const insertConsentRecordSchema = createInsertSchema(consentRecords).omit({
+  id: true,
+  signedAt: true,
+});
+
+export const consentSignatureSchema = z.object({
+  consentDocumentId: z.number().int().positive(),
+  signedName: z.string().trim().min(2, "Please type your full name"),
+  agreed: z.literal(true, { errorMap: () => ({ message: "You must agree to the consent terms" }) }),
+});
+
+export const shareLinkRequestSchema = z.object({
+  scope: z.enum(["summary", "replay"]).default("summary"),
+  expiresInHours: z.number().int().min(1).max(30 * 24).default(72),
+  maxViews: z.number().int().min(1).max(1000).optional(),
+  label: z.string().max(100).optional(),
+});
+
 // Clinical dashboard types
 export type InsertClinicalUser = z.infer<typeof insertClinicalUserSchema>;
 export type ClinicalUser = typeof clinicalUsers.$inferSelect;
@@ -444,6 +750,12 @@ export type InsertAdminUser = z.infer<typeof insertAdminUserSchema>;
 export type AdminUser = typeof adminUsers.$inferSelect;
 export type AdminLoginRequest = z.infer<typeof adminLoginSchema>;
 
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export type InsertPatientDelegation = z.infer<typeof insertPatientDelegationSchema>;
+export type PatientDelegation = typeof patientDelegations.$inferSelect;
+
 export type InsertCohort = z.infer<typeof insertCohortSchema>;
 export type Cohort = typeof cohorts.$inferSelect;
 
@@ -461,9 +773,17 @@ export type OutlierAlert = typeof outlierAlerts.$inferSelect;
 
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
 
 export type InsertDataExport = z.infer<typeof insertDataExportSchema>;
 export type DataExport = typeof dataExports.$inferSelect;
+export type DataExportRequest = z.infer<typeof dataExportRequestSchema>;
+export type SystemSetting = typeof systemSettings.$inferSelect;
+export type DeidentificationSettings = z.infer<typeof deidentificationSettingsSchema>;
+export type RetentionPolicy = z.infer<typeof retentionPolicySchema>;
+export type KapandjiSettings = z.infer<typeof kapandjiSettingsSchema>;
+export type InsertLegalHold = z.infer<typeof insertLegalHoldSchema>;
+export type LegalHold = typeof legalHolds.$inferSelect;
 
 export type InsertQuickDashResponse = z.infer<typeof insertQuickDashResponseSchema>;
 export type QuickDashResponse = typeof quickDashResponses.$inferSelect;
@@ -491,6 +811,7 @@ export type PatientEnrollment = z.infer<typeof patientEnrollmentSchema>;
 // Legacy types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type HandCalibrationRequest = z.infer<typeof handCalibrationSchema>;
 
 export type InsertAssessment = z.infer<typeof insertAssessmentSchema>;
 export type Assessment = typeof assessments.$inferSelect;
@@ -501,6 +822,17 @@ export type UserAssessment = typeof userAssessments.$inferSelect;
 export type InsertInjuryType = z.infer<typeof insertInjuryTypeSchema>;
 export type InjuryType = typeof injuryTypes.$inferSelect;
 
+export type InsertConsentDocument = z.infer<typeof insertConsentDocumentSchema>;
+export type ConsentDocument = typeof consentDocuments.$inferSelect;
+export type InsertConsentRecord = z.infer<typeof insertConsentRecordSchema>;
+export type ConsentRecord = typeof consentRecords.$inferSelect;
+
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLinkAccessLog = z.infer<typeof insertShareLinkAccessLogSchema>;
+export type ShareLinkAccessLog = typeof shareLinkAccessLogs.$inferSelect;
+export type ShareLinkRequest = z.infer<typeof shareLinkRequestSchema>;
+
 // Extended types for dashboard views
 export type PatientWithDetails = Patient & {
   cohort: Cohort | null;
@@ -0,0 +1,328 @@
+/**
+ * Fingertip-to-Palm Distance Calculator
+ *
+ * Measures how close each fingertip comes to the distal palmar crease (DPC) during a fist,
+ * the composite fist measurement recorded for flexor tendon and stiff-hand patients, in
+ * centimeters. The crease follows the palm boundary used by the Kapandji replay (see
+ * PALM_BOUNDARY_CALCULATION_DOCUMENTATION.md): it crosses the palm from the index MCP to the
+ * pinky MCP, through the palm center, set back toward the wrist along the wrist-to-palm-center
+ * direction. Landmarks are in normalized image units, so every frame is scaled by the hand's
+ * own palm length (wrist to middle MCP), which a one-time calibration gives in centimeters.
+ * Normalized x is a fraction of the image width and y of its height, so x (and z, which
+ * MediaPipe scales like x) is multiplied by the image aspect before measuring, both here
+ * and in calibration.
+ */
+
+import { classifyFingerOcclusion } from './rom-calculator';
+
+export interface TipToPalmLandmark {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+export type HandCalibrationMethod = 'hand_length' | 'reference_object';
+
+export interface HandCalibration {
+  method: HandCalibrationMethod;
+  palmLengthCm: number;          // Wrist crease to middle MCP
+  handLengthCm: number | null;   // Wrist crease to middle fingertip, when the patient entered it
+}
+
+export type TipToPalmFinger = 'index' | 'middle' | 'ring' | 'pinky';
+
+export type TipToPalmDistances = Record<TipToPalmFinger, number | null>;
+
+export interface TipToPalmResultsData {
+  distances: TipToPalmDistances;    // Closest approach per finger over the recording, cm
+  compositeFistCm: number | null;   // The finger that stays furthest from the palm
+  frameCount: number;
+  palmLengthCm: number;
+}
+
+// Palm length is about 57% of hand length in adults; used when no open-hand frame is given
+export const PALM_TO_HAND_LENGTH_RATIO = 0.57;
+
+export const HAND_CALIBRATION_LIMITS = {
+  minHandLengthCm: 12,
+  maxHandLengthCm: 25,
+  minPalmLengthCm: 6,
+  maxPalmLengthCm: 14
+};
+
+// Recordings are captured at 640 x 480
+export const DEFAULT_IMAGE_ASPECT = 4 / 3;
+
+// A fingertip within 1 cm of the crease is a full composite fist in common clinical use
+export const TIP_TO_PALM_TARGET_CM = 1;
+
+const FINGERS: Record<TipToPalmFinger, { type: 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY'; tip: number }> = {
+  index: { type: 'INDEX', tip: 8 },
+  middle: { type: 'MIDDLE', tip: 12 },
+  ring: { type: 'RING', tip: 16 },
+  pinky: { type: 'PINKY', tip: 20 }
+};
+
+const WRIST = 0;
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+const PINKY_MCP = 17;
+const MIDDLE_FINGER_CHAIN = [9, 10, 11, 12];
+
+// The DPC lies just proximal to the MCP heads, about a tenth of a palm length
+const CREASE_OFFSET_RATIO = 0.1;
+
+// Median over this many consecutive frames, so a single-frame landmark jump cannot set the minimum
+const SMOOTHING_WINDOW = 3;
+
+interface Vector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+function subtract(a: Vector, b: Vector): Vector {
+  return { x: a.x - b.x, y: a.y - b.y, z: (a.z || 0) - (b.z || 0) };
+}
+
+function dot(a: Vector, b: Vector): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function length(v: Vector): number {
+  return Math.sqrt(dot(v, v));
+}
+
+function distance(a: Vector, b: Vector): number {
+  return length(subtract(a, b));
+}
+
+// Distance from p to the segment a-b
+function distanceToSegment(p: Vector, a: Vector, b: Vector): number {
+  const ab = subtract(b, a);
+  const abLengthSquared = dot(ab, ab);
+  const t = abLengthSquared > 0 ? Math.max(0, Math.min(1, dot(subtract(p, a), ab) / abLengthSquared)) : 0;
+  return distance(p, { x: a.x + ab.x * t, y: a.y + ab.y * t, z: (a.z || 0) + ab.z * t });
+}
+
+// Landmark in units of image height, so distances do not depend on direction
+function toImageSpace(landmark: TipToPalmLandmark, imageAspect: number): Vector {
+  return { x: landmark.x * imageAspect, y: landmark.y, z: (landmark.z || 0) * imageAspect };
+}
+
+function roundCm(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isPlausiblePalmLength(palmLengthCm: number): boolean {
+  return palmLengthCm >= HAND_CALIBRATION_LIMITS.minPalmLengthCm && palmLengthCm <= HAND_CALIBRATION_LIMITS.maxPalmLengthCm;
+}
+
+/**
+ * Calibrate from the patient's hand length (wrist crease to middle fingertip).
+ * With an open, flat hand frame the palm's share of the hand is measured from the
+ * landmarks; otherwise the adult average ratio is used.
+ */
+export function calibrateFromHandLength(
+  handLengthCm: number,
+  openHandLandmarks?: TipToPalmLandmark[] | null,
+  imageAspect: number = DEFAULT_IMAGE_ASPECT
+): HandCalibration | null {
+  if (!(handLengthCm >= HAND_CALIBRATION_LIMITS.minHandLengthCm && handLengthCm <= HAND_CALIBRATION_LIMITS.maxHandLengthCm)) {
+    return null;
+  }
+
+  let ratio = PALM_TO_HAND_LENGTH_RATIO;
+  if (openHandLandmarks && openHandLandmarks.length >= 21) {
+    const point = (index: number) => toImageSpace(openHandLandmarks[index], imageAspect);
+    const palm = distance(point(WRIST), point(MIDDLE_MCP));
+    let finger = 0;
+    for (let i = 1; i < MIDDLE_FINGER_CHAIN.length; i++) {
+      finger += distance(point(MIDDLE_FINGER_CHAIN[i - 1]), point(MIDDLE_FINGER_CHAIN[i]));
+    }
+    const measured = palm / (palm + finger);
+    // A curled or foreshortened finger gives an implausible share; keep the average then
+    if (measured >= 0.45 && measured <= 0.7) {
+      ratio = measured;
+    }
+  }
+
+  const palmLengthCm = roundCm(handLengthCm * ratio);
+  return isPlausiblePalmLength(palmLengthCm)
+    ? { method: 'hand_length', palmLengthCm, handLengthCm }
+    : null;
+}
+
+/**
+ * Calibrate from a reference object of known length (a bank card is 8.56 cm) lying flat
+ * beside the flat hand in the same image. The object's ends are normalized image points;
+ * imageAspect is width / height, since normalized x and y are scaled by different sides.
+ * Returns null when the result is not a plausible adult palm.
+ */
+export function calibrateFromReferenceObject(
+  referenceLengthCm: number,
+  referenceStart: ImagePoint,
+  referenceEnd: ImagePoint,
+  handLandmarks: TipToPalmLandmark[],
+  imageAspect: number = DEFAULT_IMAGE_ASPECT
+): HandCalibration | null {
+  if (!(referenceLengthCm > 0) || !handLandmarks || handLandmarks.length < 21) {
+    return null;
+  }
+  const imageDistance = (a: ImagePoint, b: ImagePoint) => Math.hypot((a.x - b.x) * imageAspect, a.y - b.y);
+
+  const referenceLength = imageDistance(referenceStart, referenceEnd);
+  const palmLength = imageDistance(handLandmarks[WRIST], handLandmarks[MIDDLE_MCP]);
+  if (referenceLength <= 0 || palmLength <= 0) {
+    return null;
+  }
+
+  const palmLengthCm = roundCm(referenceLengthCm * palmLength / referenceLength);
+  return isPlausiblePalmLength(palmLengthCm)
+    ? { method: 'reference_object', palmLengthCm, handLengthCm: null }
+    : null;
+}
+
+/**
+ * Calculate each fingertip's distance to the distal palmar crease for one frame, in cm.
+ * Fingers with low-confidence or collapsed landmarks are null. Fingers hidden behind
+ * each other are kept, since that is how a closed fist looks to the camera.
+ * imageAspect is the recording's width / height, as for calibrateFromReferenceObject.
+ */
+export function calculateTipToPalmDistances(
+  landmarks: TipToPalmLandmark[],
+  palmLengthCm: number,
+  imageAspect: number = DEFAULT_IMAGE_ASPECT
+): TipToPalmDistances | null {
+  if (!landmarks || landmarks.length < 21) {
+    return null;
+  }
+
+  const point = (index: number) => toImageSpace(landmarks[index], imageAspect);
+  const wrist = point(WRIST);
+  const indexMcp = point(INDEX_MCP);
+  const pinkyMcp = point(PINKY_MCP);
+  const palmLength = distance(wrist, point(MIDDLE_MCP));
+  if (palmLength <= 0) {
+    return null;
+  }
+
+  // Shift the MCP line toward the wrist along the wrist-to-palm-center direction
+  const palmCenter = { x: (indexMcp.x + pinkyMcp.x) / 2, y: (indexMcp.y + pinkyMcp.y) / 2, z: (indexMcp.z + pinkyMcp.z) / 2 };
+  const toCenter = subtract(palmCenter, wrist);
+  const toCenterLength = length(toCenter);
+  if (toCenterLength <= 0) {
+    return null;
+  }
+  const offset = CREASE_OFFSET_RATIO * palmLength / toCenterLength;
+  const shift = (mcp: Vector): Vector => ({
+    x: mcp.x - toCenter.x * offset,
+    y: mcp.y - toCenter.y * offset,
+    z: mcp.z - toCenter.z * offset
+  });
+  const creaseRadial = shift(indexMcp);
+  const creaseUlnar = shift(pinkyMcp);
+
+  const cmPerUnit = palmLengthCm / palmLength;
+  const distances = {} as TipToPalmDistances;
+  (Object.keys(FINGERS) as TipToPalmFinger[]).forEach(finger => {
+    const occlusion = classifyFingerOcclusion(landmarks, FINGERS[finger].type);
+    if (occlusion.isOccluded && occlusion.reason !== 'DEPTH') {
+      distances[finger] = null;
+      return;
+    }
+    distances[finger] = roundCm(distanceToSegment(point(FINGERS[finger].tip), creaseRadial, creaseUlnar) * cmPerUnit);
+  });
+  return distances;
+}
+
+// Smallest median of SMOOTHING_WINDOW consecutive measured frames; null without enough frames
+function smoothedMinimum(values: Array<number | null>): number | null {
+  let best: number | null = null;
+  for (let i = 0; i + SMOOTHING_WINDOW <= values.length; i++) {
+    const window = values.slice(i, i + SMOOTHING_WINDOW);
+    if (window.some(value => value === null)) {
+      continue;
+    }
+    const median = (window as number[]).sort((a, b) => a - b)[Math.floor(SMOOTHING_WINDOW / 2)];
+    best = best === null ? median : Math.min(best, median);
+  }
+  return best;
+}
+
+/**
+ * Calculate the closest fingertip-to-palm distance per finger over a recording.
+ * Frames are in recording order; a frame without a hand breaks the smoothing window.
+ */
+export function calculateTipToPalmResults(
+  frames: Array<{ landmarks: TipToPalmLandmark[] }>,
+  palmLengthCm: number,
+  imageAspect: number = DEFAULT_IMAGE_ASPECT
+): TipToPalmResultsData {
+  const series: Record<TipToPalmFinger, Array<number | null>> = { index: [], middle: [], ring: [], pinky: [] };
+  let frameCount = 0;
+
+  frames.forEach(frame => {
+    const distances = calculateTipToPalmDistances(frame.landmarks, palmLengthCm, imageAspect);
+    if (distances) {
+      frameCount++;
+    }
+    (Object.keys(series) as TipToPalmFinger[]).forEach(finger => {
+      series[finger].push(distances ? distances[finger] : null);
+    });
+  });
+
+  const distances = {
+    index: smoothedMinimum(series.index),
+    middle: smoothedMinimum(series.middle),
+    ring: smoothedMinimum(series.ring),
+    pinky: smoothedMinimum(series.pinky)
+  };
+  const measured = (Object.keys(distances) as TipToPalmFinger[])
+    .map(finger => distances[finger])
+    .filter((value): value is number => value !== null);
+
+  return {
+    distances,
+    compositeFistCm: measured.length > 0 ? Math.max(...measured) : null,
+    frameCount,
+    palmLengthCm
+  };
+}
+
+/**
+ * Get clinical interpretation of the composite fist distance
+ */
+export function getTipToPalmClinicalInterpretation(compositeFistCm: number | null) {
+  if (compositeFistCm === null) {
+    return {
+      status: "Not measured",
+      color: "text-gray-600",
+      description: "No fist frames with a clear view of the fingertips"
+    };
+  } else if (compositeFistCm <= TIP_TO_PALM_TARGET_CM) {
+    return {
+      status: "Full Fist",
+      color: "text-green-600",
+      description: "All fingertips reach the distal palmar crease"
+    };
+  } else if (compositeFistCm <= 3) {
+    return {
+      status: "Near Fist",
+      color: "text-yellow-600",
+      description: "Fingertips come close to the palm"
+    };
+  } else {
+    return {
+      status: "Limited",
+      color: "text-red-600",
+      description: "Significant loss of composite flexion"
+    };
+  }
+}